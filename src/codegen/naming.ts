@@ -0,0 +1,55 @@
+/**
+ * Split a name from a spec (`user_id`, `Pet-Store`, `getHTTPStatus`, `/users/{id}`)
+ * into lowercase words.
+ */
+export function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+export function pascalCase(name: string): string {
+  const result = words(name).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^\d/.test(result) ? `_${result}` : result;
+}
+
+export function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+export function snakeCase(name: string): string {
+  const result = words(name).join('_');
+  return /^\d/.test(result) ? `_${result}` : result;
+}
+
+/**
+ * Whether a name can be written unquoted as a property key.
+ */
+export function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+/**
+ * Hands out unique names: a name that is already taken gets a numeric suffix
+ * (`User`, `User2`, ...).
+ */
+export class NameRegistry {
+  private taken = new Set<string>();
+
+  constructor(reserved: string[] = []) {
+    reserved.forEach(name => this.taken.add(name));
+  }
+
+  claim(name: string): string {
+    let unique = name || '_';
+    for (let suffix = 2; this.taken.has(unique); suffix++) {
+      unique = `${name}${suffix}`;
+    }
+    this.taken.add(unique);
+    return unique;
+  }
+}
\ No newline at end of file
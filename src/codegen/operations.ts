@@ -0,0 +1,112 @@
+import { MediaType, OpenAPISpec, Operation, Parameter, PathItem } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
+import { isJsonMediaType, normalizeMediaType } from '../core/media-types';
+import { resolveServerUrl } from '../core/request-builder';
+
+export interface ClientGeneratorOptions {
+  // Only generate the operations with this tag (default: all operations)
+  tag?: string;
+  // Name of the generated client class (default: derived from info.title)
+  className?: string;
+  // Default base URL of the client (default: the first server)
+  baseUrl?: string;
+  // Where the spec was loaded from, for resolving relative server URLs
+  specUrl?: string | null;
+}
+
+export interface GeneratedClient {
+  code: string;
+  className: string;
+  // One API class per tag, exposed as a property of the client
+  groups: Array<{ tag: string; property: string; methods: string[] }>;
+  // Component schemas that got a declaration
+  schemaCount: number;
+}
+
+export interface OperationEntry {
+  path: string;
+  method: string;
+  pathItem: PathItem;
+  operation: Operation;
+}
+
+// Group of the operations without a tag
+export const UNTAGGED = 'default';
+
+/**
+ * Operations by tag, in the order the tags first appear. An operation with
+ * several tags is put in the requested one, else in its first. With a tag,
+ * only that tag's group is returned.
+ */
+export function groupOperations(spec: OpenAPISpec, tag?: string): Map<string, OperationEntry[]> {
+  const groups = new Map<string, OperationEntry[]>();
+
+  for (const [path, rawPathItem] of Object.entries(spec.paths || {})) {
+    const pathItem: PathItem = deref(spec, rawPathItem);
+    for (const method of ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      const tags = operation.tags && operation.tags.length > 0 ? operation.tags : [UNTAGGED];
+      const group = tag && tags.includes(tag) ? tag : tags[0];
+      if (!groups.has(group)) groups.set(group, []);
+      groups.get(group)!.push({ path, method: method.toUpperCase(), pathItem, operation });
+    }
+  }
+
+  if (!tag) {
+    return groups;
+  }
+  if (!groups.has(tag)) {
+    const known = [...groups.keys()].filter(name => name !== UNTAGGED);
+    throw new Error(`No operations tagged '${tag}' (tags: ${known.join(', ') || 'none'})`);
+  }
+  return new Map([[tag, groups.get(tag)!]]);
+}
+
+/**
+ * Path-level parameters, overridden by operation-level ones.
+ */
+export function operationParameters(spec: OpenAPISpec, entry: OperationEntry): Parameter[] {
+  const parameters: Parameter[] = [];
+  for (const raw of [...(entry.pathItem.parameters || []), ...(entry.operation.parameters || [])]) {
+    const param: Parameter = deref(spec, raw);
+    const existing = parameters.findIndex(other => other.name === param.name && other.in === param.in);
+    if (existing >= 0) {
+      parameters[existing] = param;
+    } else {
+      parameters.push(param);
+    }
+  }
+  return parameters;
+}
+
+/**
+ * Media type a generated client sends a request body as: JSON, then form
+ * encodings, then whatever is documented first.
+ */
+export function requestMediaType(content: Record<string, MediaType>): string | undefined {
+  const mediaTypes = Object.keys(content);
+  const forms = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+  return mediaTypes.find(type => isJsonMediaType(type))
+    || mediaTypes.find(type => forms.includes(normalizeMediaType(type)))
+    || mediaTypes[0];
+}
+
+/**
+ * Base URL a generated client defaults to: the given one, else the first
+ * server with its variables set to their defaults. Relative server URLs are
+ * kept when they cannot be resolved; the client then has to be given an
+ * absolute base URL.
+ */
+export function defaultBaseUrl(spec: OpenAPISpec, options: ClientGeneratorOptions): string {
+  if (options.baseUrl) {
+    return options.baseUrl.replace(/\/+$/, '');
+  }
+  const servers = spec.servers && spec.servers.length > 0 ? spec.servers : [{ url: '/' }];
+  try {
+    return resolveServerUrl(servers, undefined, {}, options.specUrl ?? null);
+  } catch {
+    return servers[0].url.replace(/\/+$/, '');
+  }
+}
\ No newline at end of file
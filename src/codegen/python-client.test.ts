@@ -0,0 +1,141 @@
+import { generatePythonClient } from './python-client';
+import { OpenAPISpec, Schema } from '../types/openapi';
+
+function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        tags: ['pets'],
+        summary: 'List pets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+          { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'Pets', content: { 'application/json': { schema: { type: 'array', items: ref('Pet') } } } } },
+      },
+      post: {
+        operationId: 'createPet',
+        tags: ['pets'],
+        requestBody: { required: true, content: { 'application/json': { schema: ref('Pet') } } },
+        responses: { 201: { description: 'Created', content: { 'application/json': { schema: ref('Pet') } } } },
+      },
+    },
+    '/pets/{petId}': {
+      delete: {
+        operationId: 'deletePet',
+        tags: ['pets'],
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { 204: { description: 'Deleted' } },
+      },
+    },
+    '/health': {
+      get: { responses: { 200: { description: 'Healthy', content: { 'application/json': { schema: ref('Health') } } } } },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'string', readOnly: true },
+          name: { type: 'string' },
+          class: { type: 'string' },
+          'birth-date': { type: 'string', format: 'date' },
+        },
+      },
+      Health: { type: 'object', properties: { status: { type: 'string', enum: ['up', 'down'] } } },
+    },
+  },
+};
+
+describe('generatePythonClient', () => {
+  it('groups operations by tag into API classes with snake_case methods', () => {
+    const client = generatePythonClient(spec);
+
+    expect(client.className).toBe('PetStoreClient');
+    expect(client.groups).toEqual([
+      { tag: 'pets', property: 'pets', methods: ['list_pets', 'create_pet', 'delete_pet'] },
+      { tag: 'default', property: 'default', methods: ['get_health'] },
+    ]);
+    expect(client.schemaCount).toBe(2);
+    expect(client.code).toContain("DEFAULT_BASE_URL = 'https://api.example.com/v1'");
+  });
+
+  it('only generates the operations of the given tag, and the models they use', () => {
+    const client = generatePythonClient(spec, { tag: 'pets', className: 'Pets' });
+
+    expect(client.className).toBe('Pets');
+    expect(client.groups.map(group => group.tag)).toEqual(['pets']);
+    expect(client.schemaCount).toBe(1);
+    expect(client.code).not.toContain('class Health');
+    expect(client.code).not.toContain('get_health');
+  });
+
+  it('aliases fields whose names are not Python identifiers', () => {
+    expect(generatePythonClient(spec).code).toContain([
+      'class Pet(ApiModel):',
+      '    id: Optional[str] = None',
+      '    name: str',
+      "    class_: Optional[str] = Field(None, alias='class')",
+      "    birth_date: Optional[datetime.date] = Field(None, alias='birth-date')",
+    ].join('\n'));
+  });
+
+  it('describes each operation once for the sync and async clients', () => {
+    const { code } = generatePythonClient(spec);
+
+    expect(code).toContain([
+      '_LIST_PETS = _Operation(',
+      "    method='GET',",
+      "    path='/pets',",
+      '    parameters=[',
+      "        ('limit', 'query', 'form', True, False),",
+      "        ('X-Trace', 'header', 'simple', False, False),",
+      '    ],',
+      '    media_type=None,',
+      "    responses={'200': List[Pet]},",
+      ')',
+    ].join('\n'));
+    expect(code).toContain([
+      '    def delete_pet(self, pet_id: str, *, headers: Optional[Dict[str, str]] = None) -> None:',
+      '        """DELETE /pets/{petId}"""',
+      '        args = _request_args(_DELETE_PET, (pet_id,), None, headers)',
+      '        _parse(_DELETE_PET, self._http.request(**args))',
+    ].join('\n'));
+    expect(code).toContain([
+      '    async def create_pet(self, body: Pet, *, headers: Optional[Dict[str, str]] = None) -> Pet:',
+      '        """POST /pets"""',
+      '        args = _request_args(_CREATE_PET, (), body, headers)',
+      '        result: Pet = _parse(_CREATE_PET, await self._http.request(**args))',
+      '        return result',
+    ].join('\n'));
+    expect(code).toContain('class AsyncPetStoreClient:');
+  });
+
+  it('passes optional parameters as keyword arguments', () => {
+    expect(generatePythonClient(spec).code).toContain([
+      '    def list_pets(',
+      '        self,',
+      '        *,',
+      '        limit: Optional[int] = None,',
+      '        x_trace: Optional[str] = None,',
+      '        headers: Optional[Dict[str, str]] = None,',
+      '    ) -> List[Pet]:',
+      '        """List pets"""',
+    ].join('\n'));
+  });
+
+  it('only imports datetime when a model needs it', () => {
+    expect(generatePythonClient(spec).code).toContain('\nimport datetime\n');
+    expect(generatePythonClient(spec, { tag: 'default' }).code).not.toContain('import datetime');
+  });
+});
\ No newline at end of file
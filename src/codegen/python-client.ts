@@ -0,0 +1,572 @@
+import { MediaType, OpenAPISpec, Operation, Parameter } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
+import { isJsonMediaType, normalizeMediaType } from '../core/media-types';
+import { NameRegistry, pascalCase, snakeCase } from './naming';
+import {
+  ClientGeneratorOptions,
+  GeneratedClient,
+  OperationEntry,
+  UNTAGGED,
+  defaultBaseUrl,
+  groupOperations,
+  operationParameters,
+  requestMediaType,
+} from './operations';
+import { MODEL_BASE, PYTHON_KEYWORDS, PythonModels, docstring, pythonLiteral, pythonName } from './python-models';
+
+// Declared or imported by the module
+const RESERVED_NAMES = [
+  ...PYTHON_KEYWORDS, MODEL_BASE, 'ApiError', 'AuthTypes', 'BaseModel', 'ConfigDict', 'Field', 'TypeAdapter',
+  'ValidationError', 'Any', 'Callable', 'Dict', 'List', 'Literal', 'NamedTuple', 'Optional', 'Tuple', 'Union',
+  'DEFAULT_BASE_URL',
+];
+
+// typing members the runtime uses
+const RUNTIME_TYPING = ['Any', 'Callable', 'Dict', 'List', 'NamedTuple', 'Optional', 'Tuple', 'Union'];
+
+// Longest `def` line before the arguments go on lines of their own
+const MAX_LINE_LENGTH = 100;
+
+interface PythonMethod {
+  name: string;
+  // The same method for httpx.Client and httpx.AsyncClient
+  sync: string;
+  async: string;
+}
+
+/**
+ * Generate a self-contained Python module for a spec: pydantic v2 models for
+ * the component schemas, and a synchronous and an asynchronous httpx client
+ * with one method per operation, grouped into a class per tag.
+ */
+export function generatePythonClient(spec: OpenAPISpec, options: ClientGeneratorOptions = {}): GeneratedClient {
+  return new PythonClientGenerator(spec, options).generate();
+}
+
+class PythonClientGenerator {
+  private spec: OpenAPISpec;
+  private options: ClientGeneratorOptions;
+  private names = new NameRegistry(RESERVED_NAMES);
+  private models: PythonModels;
+  // `_Operation` constants describing how to send and parse each operation
+  private operationSpecs: string[] = [];
+
+  constructor(spec: OpenAPISpec, options: ClientGeneratorOptions) {
+    this.spec = spec;
+    this.options = options;
+    this.models = new PythonModels(spec, this.names);
+  }
+
+  generate(): GeneratedClient {
+    const { tag } = this.options;
+    const grouped = groupOperations(this.spec, tag);
+    if (!tag) {
+      this.models.useAll();
+    }
+
+    const className = this.names.claim(this.options.className || `${pascalCase(this.spec.info?.title || '') || 'Api'}Client`);
+    const asyncClassName = this.names.claim(`Async${className}`);
+    const properties = new NameRegistry(['close', 'aclose']);
+    const groups: GeneratedClient['groups'] = [];
+    const groupClasses: Array<{ sync: string; async: string }> = [];
+    const syncClasses: string[] = [];
+    const asyncClasses: string[] = [];
+
+    for (const [groupTag, entries] of grouped) {
+      const groupClass = this.names.claim(`${pascalCase(groupTag) || 'Default'}Api`);
+      const asyncGroupClass = this.names.claim(`Async${groupClass}`);
+      const methodNames = new NameRegistry();
+      const methods = entries.map(entry => this.method(entry, methodNames.claim(this.methodName(entry))));
+
+      groups.push({
+        tag: groupTag,
+        property: properties.claim(pythonName(groupTag) || 'default'),
+        methods: methods.map(method => method.name),
+      });
+      groupClasses.push({ sync: groupClass, async: asyncGroupClass });
+      syncClasses.push(this.groupClass(groupClass, groupTag, 'httpx.Client', methods.map(method => method.sync)));
+      asyncClasses.push(this.groupClass(asyncGroupClass, groupTag, 'httpx.AsyncClient', methods.map(method => method.async)));
+    }
+
+    const schemas = this.models.declarations();
+    const sections = [
+      `${this.header()}\n\n${this.imports()}`,
+      `DEFAULT_BASE_URL = ${pythonLiteral(defaultBaseUrl(this.spec, this.options))}`,
+      MODEL_BASE_CLASS,
+      ...(schemas.length > 0 ? ['# Schemas', ...schemas] : []),
+      '# Runtime',
+      RUNTIME,
+      '# Operations',
+      ...this.operationSpecs,
+      ...syncClasses,
+      ...asyncClasses,
+      this.clientClass(className, groups, groupClasses.map(names => names.sync), false),
+      this.clientClass(asyncClassName, groups, groupClasses.map(names => names.async), true),
+    ];
+
+    return {
+      code: sections.join('\n\n\n') + '\n',
+      className,
+      groups,
+      schemaCount: this.models.schemaCount,
+    };
+  }
+
+  private methodName(entry: OperationEntry): string {
+    return pythonName(entry.operation.operationId || `${entry.method.toLowerCase()} ${entry.path}`) || 'operation';
+  }
+
+  private method(entry: OperationEntry, name: string): PythonMethod {
+    const { path, method, operation } = entry;
+    const typePrefix = pascalCase(name);
+    const parameters = operationParameters(this.spec, entry);
+
+    // Path parameters and the body are positional, the others keyword-only
+    const argNames = new NameRegistry(['self']);
+    const args = new Map<Parameter, string>();
+    const pathParams = parameters.filter(param => param.in === 'path');
+    const otherParams = parameters
+      .filter(param => param.in !== 'path')
+      .sort((a, b) => Number(b.required === true) - Number(a.required === true));
+    pathParams.forEach(param => args.set(param, argNames.claim(pythonName(param.name) || 'param')));
+    const body = this.requestBody(operation, typePrefix);
+    const bodyArg = body ? argNames.claim('body') : undefined;
+    otherParams.forEach(param => args.set(param, argNames.claim(pythonName(param.name) || 'param')));
+    const headersArg = argNames.claim('headers');
+
+    const signature = ['self'];
+    pathParams.forEach(param => signature.push(`${args.get(param)}: ${this.parameterType(param, typePrefix)}`));
+    if (body) {
+      signature.push(body.required ? `${bodyArg}: ${body.type}` : `${bodyArg}: ${this.models.optional(body.type)} = None`);
+    }
+    signature.push('*');
+    otherParams.forEach(param => {
+      const type = this.parameterType(param, typePrefix);
+      signature.push(param.required ? `${args.get(param)}: ${type}` : `${args.get(param)}: ${this.models.optional(type)} = None`);
+    });
+    signature.push(`${headersArg}: Optional[Dict[str, str]] = None`);
+
+    const constant = this.names.claim(`_${snakeCase(name).toUpperCase() || 'OPERATION'}`);
+    const { returnType, dataTypes } = this.responses(operation, typePrefix);
+    this.operationSpecs.push([
+      `${constant} = _Operation(`,
+      `    method=${pythonLiteral(method)},`,
+      `    path=${pythonLiteral(path)},`,
+      parameters.length > 0
+        ? `    parameters=[\n${parameters.map(param => `        ${this.parameterSpec(param)},`).join('\n')}\n    ],`
+        : '    parameters=[],',
+      `    media_type=${body ? pythonLiteral(body.mediaType) : 'None'},`,
+      `    responses={${dataTypes.join(', ')}},`,
+      ')',
+    ].join('\n'));
+
+    const doc = docstring([
+      operation.summary || `${method} ${path}`,
+      operation.description,
+      operation.deprecated ? 'Deprecated.' : undefined,
+      this.argsSection(parameters, args),
+    ], '        ');
+    const values = parameters.map(param => args.get(param)!);
+    const call = `_request_args(${constant}, (${values.join(', ')}${values.length === 1 ? ',' : ''}), ${bodyArg ?? 'None'}, ${headersArg})`;
+
+    const code = (async: boolean) => [
+      ...this.def(async ? `async def ${name}` : `def ${name}`, signature, returnType),
+      ...doc,
+      `        args = ${call}`,
+      ...this.returnParsed(`_parse(${constant}, ${async ? 'await ' : ''}self._http.request(**args))`, returnType),
+    ].join('\n');
+
+    return { name, sync: code(false), async: code(true) };
+  }
+
+  // _parse returns Any; an annotated variable passes it on as the declared
+  // type to strict type checkers, without a runtime cost
+  private returnParsed(expression: string, returnType: string): string[] {
+    if (returnType === 'None') return [`        ${expression}`];
+    if (returnType === 'Any') return [`        return ${expression}`];
+    return [`        result: ${returnType} = ${expression}`, '        return result'];
+  }
+
+  // `def name(args) -> Type:`, with one argument per line if it is too long
+  private def(start: string, signature: string[], returnType: string): string[] {
+    const line = `    ${start}(${signature.join(', ')}) -> ${returnType}:`;
+    if (line.length <= MAX_LINE_LENGTH) {
+      return [line];
+    }
+    return [`    ${start}(`, ...signature.map(arg => `        ${arg},`), `    ) -> ${returnType}:`];
+  }
+
+  // Google-style `Args:` section for the documented parameters
+  private argsSection(parameters: Parameter[], args: Map<Parameter, string>): string | undefined {
+    const lines = parameters
+      .filter(param => param.description)
+      .map(param => `    ${args.get(param)}: ${param.description!.trim().replace(/\s*\n\s*/g, ' ')}`);
+    return lines.length > 0 ? ['Args:', ...lines].join('\n') : undefined;
+  }
+
+  private parameterType(param: Parameter, typePrefix: string): string {
+    const hint = `${typePrefix}${pascalCase(param.name)}`;
+    if (param.schema) {
+      return this.models.typeOf(param.schema, hint);
+    }
+    const media = Object.values(param.content || {})[0];
+    return this.models.typeOf(media?.schema, hint);
+  }
+
+  // (name, location, style, explode, json), as the runtime's _Operation takes them
+  private parameterSpec(param: Parameter): string {
+    const style = param.style || (param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple');
+    const explode = param.explode ?? style === 'form';
+    const json = !param.schema && param.content !== undefined;
+    return `(${pythonLiteral(param.name)}, ${pythonLiteral(param.in)}, ${pythonLiteral(style)}, ${pythonLiteral(explode)}, ${pythonLiteral(json)})`;
+  }
+
+  /**
+   * Type of the request body in the media type the runtime sends it as.
+   */
+  private requestBody(
+    operation: Operation,
+    typePrefix: string
+  ): { type: string; mediaType: string; required: boolean } | null {
+    const requestBody = operation.requestBody && deref(this.spec, operation.requestBody);
+    const content = requestBody?.content || {};
+    const mediaType = requestMediaType(content);
+
+    if (!requestBody || !mediaType) {
+      return null;
+    }
+
+    const media = content[mediaType];
+    const normalized = normalizeMediaType(mediaType);
+    const structured = isJsonMediaType(mediaType)
+      || normalized === 'application/x-www-form-urlencoded' || normalized === 'multipart/form-data';
+    let type: string;
+    if (structured || media.schema) {
+      type = this.models.typeOf(media.schema, `${typePrefix}Request`);
+    } else {
+      type = normalized.startsWith('text/') || normalized.endsWith('xml') ? 'str' : 'bytes';
+    }
+
+    return { type, mediaType, required: requestBody.required === true };
+  }
+
+  /**
+   * The type a method returns (the data of its successful responses) and
+   * the `'code': Type` entries the runtime parses JSON responses into.
+   */
+  private responses(operation: Operation, typePrefix: string): { returnType: string; dataTypes: string[] } {
+    const dataTypes: string[] = [];
+    const types = new Map<string, string>();
+
+    for (const [code, rawResponse] of Object.entries(operation.responses || {})) {
+      const response = deref(this.spec, rawResponse);
+      const content = Object.entries(response?.content || {});
+      const suffix = code === 'default' ? 'Default' : code.toUpperCase();
+      const hint = `${typePrefix}Response${suffix}`;
+
+      const json = content.find(([mediaType]) => isJsonMediaType(mediaType));
+      const jsonType = json ? this.models.typeOf(json[1].schema, hint) : undefined;
+      dataTypes.push(`${pythonLiteral(code)}: ${jsonType ?? 'None'}`);
+      types.set(code, content.length === 0
+        ? 'None'
+        : this.models.union(content.map(([mediaType, media]) => this.contentType(mediaType, media, hint))));
+    }
+
+    const codes = [...types.keys()];
+    const successful = codes.filter(code => code.startsWith('2'));
+    const returned = successful.length > 0 ? successful : codes.filter(code => code === 'default');
+    const returnType = returned.length > 0
+      ? this.models.union(returned.map(code => types.get(code)!))
+      : this.models.typing('Any');
+    return { returnType, dataTypes };
+  }
+
+  // JSON content is parsed into its schema's type; other content is text or
+  // bytes, as the runtime's _parse decodes it
+  private contentType(mediaType: string, media: MediaType, hint: string): string {
+    const normalized = normalizeMediaType(mediaType);
+    if (isJsonMediaType(mediaType)) {
+      return this.models.typeOf(media.schema, hint);
+    }
+    if (normalized === '' || normalized.startsWith('text/') || normalized.endsWith('xml')) {
+      return 'str';
+    }
+    return 'bytes';
+  }
+
+  private groupClass(name: string, tag: string, httpClient: string, methods: string[]): string {
+    const description = this.spec.tags?.find(candidate => candidate.name === tag)?.description;
+    const summary = tag === UNTAGGED ? 'Operations without a tag' : `Operations tagged '${tag}'`;
+
+    return [
+      `class ${name}:`,
+      ...docstring([summary, description], '    '),
+      '',
+      `    def __init__(self, http: ${httpClient}) -> None:`,
+      '        self._http = http',
+      '',
+      methods.join('\n\n'),
+    ].join('\n');
+  }
+
+  private clientClass(name: string, groups: GeneratedClient['groups'], classNames: string[], async: boolean): string {
+    const httpClient = async ? 'httpx.AsyncClient' : 'httpx.Client';
+    const { title = 'API', version } = this.spec.info || {};
+    const doc = docstring([
+      `${title}${version ? ` ${version}` : ''} client${async ? ', for asyncio' : ''}`,
+      'auth is anything httpx accepts: an httpx.Auth, a (username, password) tuple or a function\n'
+        + 'that changes each httpx.Request, e.g. to set its Authorization header. For timeouts,\n'
+        + `proxies or transports, pass an ${httpClient} of your own with its base_url set.`,
+    ], '    ');
+
+    const lines = [
+      `class ${name}:`,
+      ...doc,
+      '',
+      '    def __init__(',
+      '        self,',
+      '        base_url: str = DEFAULT_BASE_URL,',
+      '        *,',
+      '        headers: Optional[Dict[str, str]] = None,',
+      '        auth: Optional[AuthTypes] = None,',
+      `        http_client: Optional[${httpClient}] = None,`,
+      '    ) -> None:',
+      `        self._http = http_client or ${httpClient}(base_url=base_url, headers=headers, auth=auth)`,
+      ...groups.map((group, index) => `        self.${group.property} = ${classNames[index]}(self._http)`),
+      '',
+    ];
+
+    if (async) {
+      lines.push(
+        '    async def aclose(self) -> None:',
+        '        await self._http.aclose()',
+        '',
+        `    async def __aenter__(self) -> ${name}:`,
+        '        return self',
+        '',
+        '    async def __aexit__(self, *args: Any) -> None:',
+        '        await self.aclose()',
+      );
+    } else {
+      lines.push(
+        '    def close(self) -> None:',
+        '        self._http.close()',
+        '',
+        `    def __enter__(self) -> ${name}:`,
+        '        return self',
+        '',
+        '    def __exit__(self, *args: Any) -> None:',
+        '        self.close()',
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private header(): string {
+    const { title = 'API', version } = this.spec.info || {};
+    return docstring([
+      `${title}${version ? ` ${version}` : ''} client`,
+      'Generated from the OpenAPI description; edits will be lost when it is regenerated.\n'
+        + 'Requires pydantic 2 and httpx.',
+    ], '').join('\n');
+  }
+
+  private imports(): string {
+    const { modules, typing } = this.models.imports;
+    const typingNames = [...new Set([...typing, ...RUNTIME_TYPING])].sort();
+    return [
+      'from __future__ import annotations',
+      '',
+      ...[...modules, 'functools', 'json'].sort().map(module => `import ${module}`),
+      `from typing import ${typingNames.join(', ')}`,
+      'from urllib.parse import quote',
+      '',
+      'import httpx',
+      'from pydantic import BaseModel, ConfigDict, Field, TypeAdapter, ValidationError',
+      'from pydantic_core import to_jsonable_python',
+    ].join('\n');
+  }
+}
+
+const MODEL_BASE_CLASS = `class ${MODEL_BASE}(BaseModel):
+    """Base class of the generated models; fields can be set by name or by their alias"""
+
+    model_config = ConfigDict(populate_by_name=True, protected_namespaces=())`;
+
+// Emitted verbatim after the models of every generated module
+const RUNTIME = `AuthTypes = Union[httpx.Auth, Callable[[httpx.Request], httpx.Request], Tuple[str, str]]
+
+
+class ApiError(Exception):
+    """Raised for responses with an error status, or with a status the spec does not document
+
+    data holds the decoded body, parsed into the documented type where it matches.
+    """
+
+    def __init__(self, response: httpx.Response, data: Any) -> None:
+        super().__init__(f'Unexpected response status {response.status_code}')
+        self.status_code = response.status_code
+        self.data = data
+        self.response = response
+
+
+class _Operation(NamedTuple):
+    method: str
+    path: str
+    # (name, location, style, explode, sent as JSON) of each parameter
+    parameters: List[Tuple[str, str, str, bool, bool]]
+    # Media type of the request body
+    media_type: Optional[str]
+    # Type of the JSON data of each documented response ('200', '4XX', 'default')
+    responses: Dict[str, Any]
+
+
+@functools.lru_cache(maxsize=None)
+def _adapter(data_type: Any) -> TypeAdapter[Any]:
+    return TypeAdapter(data_type)
+
+
+def _jsonable(value: Any) -> Any:
+    if isinstance(value, BaseModel):
+        return value.model_dump(mode='json', by_alias=True, exclude_unset=True)
+    if isinstance(value, (list, tuple)):
+        return [_jsonable(item) for item in value]
+    if isinstance(value, dict):
+        return {key: _jsonable(item) for key, item in value.items()}
+    return to_jsonable_python(value)
+
+
+# Values as they appear in paths, headers and cookies: arrays and objects comma-separated
+def _plain(value: Any) -> str:
+    if isinstance(value, list):
+        return ','.join(_plain(item) for item in value)
+    if isinstance(value, dict):
+        return ','.join(f'{key},{_plain(item)}' for key, item in value.items())
+    if isinstance(value, bool):
+        return 'true' if value else 'false'
+    return str(value)
+
+
+def _query(name: str, style: str, explode: bool, value: Any) -> List[Tuple[str, str]]:
+    if isinstance(value, list):
+        if explode:
+            return [(name, _plain(item)) for item in value]
+        separator = ' ' if style == 'spaceDelimited' else '|' if style == 'pipeDelimited' else ','
+        return [(name, separator.join(_plain(item) for item in value))]
+    if isinstance(value, dict):
+        items = [(key, item) for key, item in value.items() if item is not None]
+        if style == 'deepObject':
+            return [(f'{name}[{key}]', _plain(item)) for key, item in items]
+        if explode:
+            return [(key, _plain(item)) for key, item in items]
+        return [(name, ','.join(f'{key},{_plain(item)}' for key, item in items))]
+    return [(name, _plain(value))]
+
+
+# Form fields of a model or dict body; list values become repeated fields
+def _form_fields(body: Any) -> List[Tuple[str, Any]]:
+    values = body.model_dump(by_alias=True, exclude_unset=True) if isinstance(body, BaseModel) else dict(body)
+    fields: List[Tuple[str, Any]] = []
+    for name, value in values.items():
+        for item in value if isinstance(value, list) else [value]:
+            if item is not None:
+                fields.append((name, item))
+    return fields
+
+
+def _form_value(value: Any) -> str:
+    value = _jsonable(value)
+    return json.dumps(value) if isinstance(value, (dict, list)) else _plain(value)
+
+
+def _encode_body(media_type: str, body: Any, headers: Dict[str, str]) -> Dict[str, Any]:
+    kind = media_type.split(';')[0].strip().lower()
+    if kind == 'multipart/form-data':
+        # httpx sets the Content-Type, with the boundary; fields without a
+        # file name are sent as plain values
+        files = [
+            (name, item if isinstance(item, bytes) or hasattr(item, 'read') else (None, _form_value(item)))
+            for name, item in _form_fields(body)
+        ]
+        return {'files': files}
+
+    if '*' not in kind:
+        headers['Content-Type'] = media_type
+    if kind == 'application/json' or kind.endswith('+json'):
+        return {'content': json.dumps(_jsonable(body))}
+    if kind == 'application/x-www-form-urlencoded':
+        data: Dict[str, List[str]] = {}
+        for name, item in _form_fields(body):
+            data.setdefault(name, []).append(_form_value(item))
+        return {'data': data}
+    return {'content': body}
+
+
+def _request_args(
+    operation: _Operation,
+    values: Tuple[Any, ...],
+    body: Any,
+    headers: Optional[Dict[str, str]],
+) -> Dict[str, Any]:
+    path = operation.path
+    query: List[Tuple[str, str]] = []
+    request_headers: Dict[str, str] = {}
+    cookies: List[str] = []
+
+    for (name, location, style, explode, as_json), value in zip(operation.parameters, values):
+        if value is None:
+            continue
+        value = json.dumps(_jsonable(value)) if as_json else _jsonable(value)
+        if location == 'path':
+            path = path.replace('{' + name + '}', quote(_plain(value), safe=''))
+        elif location == 'query':
+            query.extend(_query(name, style, explode, value))
+        elif location == 'header':
+            request_headers[name] = _plain(value)
+        else:
+            cookies.append(f"{name}={quote(_plain(value), safe='')}")
+    if cookies:
+        request_headers['Cookie'] = '; '.join(cookies)
+
+    args: Dict[str, Any] = {'method': operation.method, 'url': path, 'params': query}
+    if body is not None:
+        args.update(_encode_body(operation.media_type or 'application/json', body, request_headers))
+    request_headers.update(headers or {})
+    args['headers'] = request_headers
+    return args
+
+
+def _status_matches(code: str, status: int) -> bool:
+    if code == 'default':
+        return True
+    if code[1:].upper() == 'XX':
+        return code[0] == str(status)[0]
+    return code == str(status)
+
+
+def _parse(operation: _Operation, response: httpx.Response) -> Any:
+    kind = response.headers.get('Content-Type', '').split(';')[0].strip().lower()
+    is_json = kind == 'application/json' or kind.endswith('+json')
+    data: Any = None
+    if response.request.method != 'HEAD' and response.status_code not in (204, 205, 304) and response.content:
+        if is_json:
+            data = response.json()
+        elif kind == '' or kind.startswith('text/') or kind.endswith('xml'):
+            data = response.text
+        else:
+            data = response.content
+
+    # Exact codes come before ranges, ranges before default
+    codes = sorted(operation.responses, key=lambda code: 2 if code == 'default' else 1 if 'X' in code.upper() else 0)
+    code = next((code for code in codes if _status_matches(code, response.status_code)), None)
+    data_type = operation.responses.get(code) if code is not None else None
+    parse = data_type is not None and is_json and data is not None
+
+    if not response.is_success or (code is None and operation.responses):
+        if parse:
+            try:
+                data = _adapter(data_type).validate_python(data)
+            except ValidationError:
+                pass
+        raise ApiError(response, data)
+    return _adapter(data_type).validate_python(data) if parse else data`;
\ No newline at end of file
@@ -0,0 +1,509 @@
+import { OpenAPISpec, Schema } from '../types/openapi';
+import { deref, resolvePointer, toPointer } from '../core/ref-resolver';
+import { declaredTypes, isNullable } from '../core/schema-types';
+import { NameRegistry, pascalCase, snakeCase } from './naming';
+
+export const PYTHON_KEYWORDS = [
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+];
+
+// Field names that would shadow BaseModel's attributes, or the builtins and
+// modules the annotations refer to
+const RESERVED_FIELDS = [
+  'model_config', 'model_computed_fields', 'model_construct', 'model_copy', 'model_dump', 'model_dump_json',
+  'model_extra', 'model_fields', 'model_fields_set', 'model_json_schema', 'model_parametrized_name',
+  'model_post_init', 'model_rebuild', 'model_validate', 'model_validate_json', 'model_validate_strings',
+  'construct', 'copy', 'dict', 'from_orm', 'json', 'parse_file', 'parse_obj', 'parse_raw', 'schema',
+  'schema_json', 'update_forward_refs', 'validate',
+  'bool', 'bytes', 'float', 'int', 'str', 'datetime', 'uuid',
+];
+
+// Base class of the generated models, declared by the module
+export const MODEL_BASE = 'ApiModel';
+
+interface RenderState {
+  // $refs being inlined, to stop at cycles
+  resolving: string[];
+  // Whether the type is evaluated where it is written (aliases, base
+  // classes), so that what it refers to has to be declared before it.
+  // Annotations are not: the module uses `from __future__ import annotations`
+  eager: boolean;
+  // Name for a model declared inline, derived from where the schema appears
+  hint: string;
+}
+
+interface ModelField {
+  name: string;
+  schema: Schema;
+  required: boolean;
+}
+
+/**
+ * Turns OpenAPI schemas into pydantic v2 models and type aliases. Object
+ * schemas become classes (inline ones too, named after where they appear),
+ * everything else an alias such as `Tags = List[str]`. References to
+ * `components.schemas` are recorded, so `declarations` emits every
+ * component that is used, in an order Python can evaluate.
+ */
+export class PythonModels {
+  private spec: OpenAPISpec;
+  private names: NameRegistry;
+  private typeNames = new Map<string, string>();
+  // Component schema name by its `$ref`
+  private refs = new Map<string, string>();
+  private used = new Set<string>();
+  // Components declared, or being declared (`pending`)
+  private started = new Set<string>();
+  private pending = new Set<string>();
+  private blocks: string[] = [];
+  private modelNames: string[] = [];
+  private typingNames = new Set<string>();
+  private moduleNames = new Set<string>();
+
+  constructor(spec: OpenAPISpec, names: NameRegistry) {
+    this.spec = spec;
+    this.names = names;
+    for (const name of Object.keys(spec.components?.schemas || {})) {
+      this.refs.set(toPointer('components', 'schemas', name), name);
+      this.typeNames.set(name, names.claim(pascalCase(name) || 'Schema'));
+    }
+  }
+
+  get schemaNames(): string[] {
+    return [...this.typeNames.keys()];
+  }
+
+  // Component schemas declared so far
+  get schemaCount(): number {
+    return this.started.size;
+  }
+
+  /**
+   * Names to import: modules (`datetime`, `uuid`) and `typing` members.
+   */
+  get imports(): { modules: string[]; typing: string[] } {
+    return { modules: [...this.moduleNames].sort(), typing: [...this.typingNames].sort() };
+  }
+
+  /**
+   * Mark a component schema as used.
+   */
+  use(schemaName: string): void {
+    if (!this.typeNames.has(schemaName)) {
+      throw new Error(`Schema not found: ${schemaName}`);
+    }
+    this.used.add(schemaName);
+  }
+
+  useAll(): void {
+    this.typeNames.forEach((_, name) => this.use(name));
+  }
+
+  /**
+   * Python type for a schema, as written in annotations. Inline object
+   * schemas are declared as models named after `hint`.
+   */
+  typeOf(schema: Schema | boolean | undefined, hint: string): string {
+    return this.render(schema, { resolving: [], eager: false, hint });
+  }
+
+  /**
+   * Class and alias declarations for the used component schemas, the ones
+   * they refer to and the inline models, followed by the `model_rebuild()`
+   * calls that resolve references between the models.
+   */
+  declarations(): string[] {
+    for (;;) {
+      const next = this.schemaNames.find(name => this.used.has(name) && !this.started.has(name));
+      if (next === undefined) break;
+      this.declare(next);
+    }
+
+    const rebuilds = this.modelNames.map(name => `${name}.model_rebuild()`);
+    return rebuilds.length > 0 ? [...this.blocks, rebuilds.join('\n')] : [...this.blocks];
+  }
+
+  // A typing member, recorded for the imports
+  typing(name: string): string {
+    this.typingNames.add(name);
+    return name;
+  }
+
+  optional(type: string): string {
+    if (type === 'Any' || type === 'None' || type.startsWith('Optional[')) return type;
+    return `${this.typing('Optional')}[${type}]`;
+  }
+
+  /**
+   * Union of types without duplicates; `Any` absorbs the rest and `None`
+   * makes it Optional.
+   */
+  union(types: string[]): string {
+    let nullable = false;
+    const members = new Set<string>();
+    for (const type of types) {
+      if (type === 'None') {
+        nullable = true;
+      } else if (type.startsWith('Optional[')) {
+        nullable = true;
+        members.add(type.slice('Optional['.length, -1));
+      } else {
+        members.add(type);
+      }
+    }
+
+    if (members.has('Any')) return this.typing('Any');
+    if (members.size === 0) return 'None';
+    const type = members.size === 1 ? [...members][0] : `${this.typing('Union')}[${[...members].join(', ')}]`;
+    return nullable ? this.optional(type) : type;
+  }
+
+  private declare(schemaName: string): void {
+    this.started.add(schemaName);
+    this.pending.add(schemaName);
+
+    const schema: Schema = this.spec.components!.schemas![schemaName];
+    const name = this.typeNames.get(schemaName)!;
+    const state: RenderState = { resolving: [toPointer('components', 'schemas', schemaName)], eager: true, hint: name };
+
+    if (this.isModel(schema)) {
+      this.declareModel(name, schema, state);
+    } else {
+      const type = this.render(schema, state);
+      this.blocks.push([...comments(schema), `${name} = ${type}`].join('\n'));
+    }
+
+    this.pending.delete(schemaName);
+  }
+
+  private declareModel(name: string, schema: Schema, state: RenderState): void {
+    const bases: string[] = [];
+    const parts: Schema[] = [];
+    this.collectParts(schema, state, bases, parts);
+
+    const fields = new Map<string, ModelField>();
+    const required = new Set(parts.flatMap(part => part.required || []));
+    for (const part of parts) {
+      for (const [property, propertySchema] of Object.entries(part.properties || {})) {
+        fields.set(property, { name: property, schema: propertySchema, required: required.has(property) });
+      }
+    }
+
+    const body: string[] = [];
+    const extra = schema.additionalProperties ?? (schema.patternProperties ? true : undefined);
+    if (extra !== undefined) {
+      body.push(`    model_config = ConfigDict(extra=${extra === false ? "'forbid'" : "'allow'"})`);
+    }
+    const fieldNames = new NameRegistry();
+    const fieldLines = [...fields.values()].map(field => this.field(field, name, fieldNames, state));
+    if (fieldLines.length > 0) {
+      if (body.length > 0) body.push('');
+      body.push(...fieldLines);
+    }
+
+    const doc = docstring([schema.description, schema.deprecated ? 'Deprecated.' : undefined], '    ');
+    const lines = [`class ${name}(${bases.length > 0 ? bases.join(', ') : MODEL_BASE}):`, ...doc];
+    if (doc.length > 0 && body.length > 0) lines.push('');
+    if (doc.length === 0 && body.length === 0) lines.push('    pass');
+    lines.push(...body);
+
+    this.blocks.push(lines.join('\n'));
+    this.modelNames.push(name);
+  }
+
+  // Base classes (component models in allOf) and the schemas whose
+  // properties become fields of a model
+  private collectParts(schema: Schema, state: RenderState, bases: string[], parts: Schema[]): void {
+    parts.push(schema);
+    for (const part of schema.allOf || []) {
+      if (typeof part !== 'object') continue;
+
+      if (typeof part.$ref === 'string') {
+        const base = this.baseClass(part.$ref);
+        if (base) {
+          bases.push(base);
+          continue;
+        }
+        const target = resolvePointer(this.spec, part.$ref);
+        if (target && !state.resolving.includes(part.$ref)) {
+          this.collectParts(target, { ...state, resolving: [...state.resolving, part.$ref] }, bases, parts);
+        }
+        continue;
+      }
+      this.collectParts(part, state, bases, parts);
+    }
+  }
+
+  // The class a component model is declared as, declared first since
+  // subclasses need it
+  private baseClass(ref: string): string | null {
+    const schemaName = this.refs.get(ref);
+    if (schemaName === undefined || this.pending.has(schemaName) || !this.isModel(this.spec.components!.schemas![schemaName])) {
+      return null;
+    }
+    if (!this.started.has(schemaName)) this.declare(schemaName);
+    this.used.add(schemaName);
+    return this.typeNames.get(schemaName)!;
+  }
+
+  private field(field: ModelField, owner: string, names: NameRegistry, state: RenderState): string {
+    const name = names.claim(fieldName(field.name));
+    const resolved = deref(this.spec, field.schema);
+    let type = this.render(field.schema, { ...state, eager: false, hint: `${owner}${pascalCase(field.name)}` });
+
+    // readOnly and writeOnly properties are left out in one direction, so a
+    // model cannot require them
+    const optional = !field.required || field.schema.readOnly || field.schema.writeOnly
+      || resolved?.readOnly || resolved?.writeOnly;
+    if (optional) type = this.optional(type);
+
+    const args = optional ? ['None'] : [];
+    if (name !== field.name) args.push(`alias=${pythonLiteral(field.name)}`);
+    const description = field.schema.description ?? resolved?.description;
+    if (description) args.push(`description=${pythonLiteral(description)}`);
+
+    if (args.length === 0) return `    ${name}: ${type}`;
+    if (args.length === 1 && optional) return `    ${name}: ${type} = None`;
+    return `    ${name}: ${type} = Field(${args.join(', ')})`;
+  }
+
+  private render(schema: Schema | boolean | undefined, state: RenderState): string {
+    if (schema === undefined || typeof schema === 'boolean') return this.typing('Any');
+
+    if (typeof schema.$ref === 'string') {
+      return this.withNull(this.refType(schema.$ref, state), schema);
+    }
+
+    if (schema.const !== undefined) {
+      return this.literalType([schema.const]);
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return this.withNull(this.literalType(schema.enum), schema);
+    }
+
+    if (this.isModel(schema)) {
+      return this.withNull(this.inlineModel(schema, state), schema);
+    }
+    if (schema.allOf) {
+      // Parts without a type only add constraints or documentation
+      const typed = schema.allOf.filter(part => typeof part === 'object' && hasType(part));
+      return this.withNull(typed.length === 1 ? this.render(typed[0], state) : this.typing('Any'), schema);
+    }
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (alternatives) {
+      return this.withNull(this.union(alternatives.map((alternative, index) =>
+        this.render(alternative, { ...state, hint: `${state.hint}Option${index + 1}` })
+      )), schema);
+    }
+
+    const types = declaredTypes(schema);
+    const type = this.union((types.length > 0 ? types : [impliedType(schema)])
+      .map(kind => this.typeOfKind(schema, kind, state)));
+    return this.withNull(type, schema);
+  }
+
+  private refType(ref: string, state: RenderState): string {
+    const schemaName = this.refs.get(ref);
+    if (schemaName !== undefined) {
+      if (state.eager) {
+        // Definitions that need each other cannot both come first
+        if (this.pending.has(schemaName)) return this.typing('Any');
+        if (!this.started.has(schemaName)) this.declare(schemaName);
+      }
+      this.used.add(schemaName);
+      const target = this.spec.components!.schemas![schemaName];
+      const name = this.typeNames.get(schemaName)!;
+      // Aliases include the None of a nullable schema, classes cannot
+      return this.isModel(target) && isNullable(target) ? this.optional(name) : name;
+    }
+
+    // Anything else (a property of a component, $defs, ...) is inlined
+    const target = resolvePointer(this.spec, ref);
+    if (target === undefined || state.resolving.includes(ref)) {
+      return this.typing('Any');
+    }
+    return this.render(target, { ...state, resolving: [...state.resolving, ref] });
+  }
+
+  private inlineModel(schema: Schema, state: RenderState): string {
+    const name = this.names.claim(state.hint);
+    this.declareModel(name, schema, { ...state, hint: name });
+    return name;
+  }
+
+  private typeOfKind(schema: Schema, kind: string, state: RenderState): string {
+    switch (kind) {
+      case 'string':
+        return this.stringType(schema);
+      case 'integer':
+        return 'int';
+      case 'number':
+        return 'float';
+      case 'boolean':
+        return 'bool';
+      case 'null':
+        return 'None';
+      case 'array':
+        return this.arrayType(schema, state);
+      case 'object':
+        if (schema.properties) return this.inlineModel(schema, state);
+        if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          const value = this.render(schema.additionalProperties, { ...state, hint: `${state.hint}Value` });
+          return `${this.typing('Dict')}[str, ${value}]`;
+        }
+        return `${this.typing('Dict')}[str, ${this.typing('Any')}]`;
+      default:
+        return this.typing('Any');
+    }
+  }
+
+  private stringType(schema: Schema): string {
+    switch (schema.format) {
+      case 'date-time':
+        this.moduleNames.add('datetime');
+        return 'datetime.datetime';
+      case 'date':
+        this.moduleNames.add('datetime');
+        return 'datetime.date';
+      case 'time':
+        this.moduleNames.add('datetime');
+        return 'datetime.time';
+      case 'uuid':
+        this.moduleNames.add('uuid');
+        return 'uuid.UUID';
+      case 'binary':
+        return 'bytes';
+      default:
+        return 'str';
+    }
+  }
+
+  private arrayType(schema: Schema, state: RenderState): string {
+    const itemState = { ...state, hint: `${state.hint}Item` };
+    if (schema.prefixItems) {
+      const items = schema.prefixItems.map(item => this.render(item, itemState));
+      // Only an array of exactly these items is a tuple
+      const closed = (schema.items as Schema | boolean | undefined) === false;
+      if (closed && (schema.minItems || 0) >= items.length) {
+        return `${this.typing('Tuple')}[${items.join(', ')}]`;
+      }
+      const rest = closed ? [] : [this.render(schema.items, itemState)];
+      return `${this.typing('List')}[${this.union([...items, ...rest])}]`;
+    }
+    return `${this.typing('List')}[${this.render(schema.items, itemState)}]`;
+  }
+
+  private literalType(values: any[]): string {
+    const literals = values.filter(value => value !== null).map(value => pythonLiteral(value));
+    if (literals.some(literal => literal === undefined)) return this.typing('Any');
+    const type = literals.length > 0 ? `${this.typing('Literal')}[${literals.join(', ')}]` : 'None';
+    return values.includes(null) ? this.optional(type) : type;
+  }
+
+  private withNull(type: string, schema: Schema): string {
+    return isNullable(schema) ? this.optional(type) : type;
+  }
+
+  /**
+   * Whether a schema is declared as a class: an object with properties, or
+   * an allOf of component models and objects.
+   */
+  private isModel(schema: Schema | boolean | undefined, resolving: string[] = []): boolean {
+    if (!schema || typeof schema !== 'object' || schema.$ref) return false;
+    if (schema.oneOf || schema.anyOf || schema.enum || schema.const !== undefined) return false;
+    if (declaredTypes(schema).some(type => type !== 'object')) return false;
+    if (!schema.allOf) return schema.properties !== undefined;
+    // `allOf: [{ $ref }]` next to nullable or a description is just the reference
+    if (!schema.properties && schema.allOf.filter(part => typeof part === 'object' && hasType(part)).length === 1) {
+      return false;
+    }
+
+    return schema.allOf.every(part => {
+      if (typeof part !== 'object') return false;
+      if (typeof part.$ref !== 'string') {
+        // Parts that only add properties or constraints
+        const objectLike = declaredTypes(part).every(type => type === 'object')
+          && !part.oneOf && !part.anyOf && !part.enum && part.const === undefined && !part.items;
+        return this.isModel(part, resolving) || objectLike;
+      }
+      if (resolving.includes(part.$ref)) return false;
+      return this.isModel(resolvePointer(this.spec, part.$ref), [...resolving, part.$ref]);
+    });
+  }
+}
+
+/**
+ * Python literal for a string, number, boolean or null; undefined for
+ * anything else.
+ */
+export function pythonLiteral(value: any): string | undefined {
+  if (typeof value === 'string') {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `'${escaped}'`;
+  }
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (value === null) return 'None';
+  return undefined;
+}
+
+/**
+ * Docstring lines from paragraphs (blank ones are skipped), at `indent`.
+ */
+export function docstring(paragraphs: Array<string | undefined>, indent: string): string[] {
+  const text = paragraphs
+    .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+    .map(part => part.trim())
+    .join('\n\n')
+    .replace(/\\/g, '\\\\')
+    .replace(/"""/g, '\\"\\"\\"');
+  if (!text) return [];
+
+  const lines = text.split('\n');
+  if (lines.length === 1) {
+    // A quote right before the closing ones would end the string early
+    return [`${indent}"""${lines[0].replace(/"$/, '\\"')}"""`];
+  }
+  return [`${indent}"""${lines[0]}`, ...lines.slice(1).map(line => (line ? `${indent}${line}` : '')), `${indent}"""`];
+}
+
+/**
+ * Snake-case name for a parameter or field, with a trailing underscore for
+ * keywords and other names it must not take.
+ */
+export function pythonName(name: string, reserved: string[] = []): string {
+  const result = snakeCase(name);
+  return PYTHON_KEYWORDS.includes(result) || reserved.includes(result) ? `${result}_` : result;
+}
+
+// pydantic treats names starting with an underscore as private attributes
+function fieldName(property: string): string {
+  const name = pythonName(property, RESERVED_FIELDS) || 'field';
+  return name.startsWith('_') ? `field${name}` : name;
+}
+
+function comments(schema: Schema | boolean): string[] {
+  if (typeof schema !== 'object') return [];
+  const text = (schema.description || '').trim();
+  const lines = text ? text.split('\n').map(line => (line ? `# ${line}` : '#')) : [];
+  if (schema.deprecated) lines.push('# Deprecated.');
+  return lines;
+}
+
+function hasType(schema: Schema): boolean {
+  return ['$ref', 'type', 'properties', 'items', 'prefixItems', 'allOf', 'oneOf', 'anyOf', 'enum', 'const']
+    .some(keyword => (schema as Record<string, unknown>)[keyword] !== undefined);
+}
+
+function impliedType(schema: Schema): string {
+  if (schema.properties || schema.additionalProperties !== undefined || schema.patternProperties) return 'object';
+  if (schema.items || schema.prefixItems) return 'array';
+  return 'any';
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { SnippetGenerator, heading } from './snippet';
+
+export const cSharpGenerator: SnippetGenerator = {
+  language: 'csharp',
+  label: 'C# (HttpClient)',
+  generate(request) {
+    // Content-Type belongs to the content, not the request headers
+    const headers = request.headers.filter(header => header.name.toLowerCase() !== 'content-type');
+    const method = request.method.charAt(0) + request.method.slice(1).toLowerCase();
+
+    let code = `${heading(request, '//')}\n`;
+    code += `using System;\n`;
+    code += `using System.Net.Http;\n`;
+    if (request.body) code += `using System.Text;\n`;
+    code += '\n';
+
+    code += `using var client = new HttpClient();\n`;
+    code += `using var request = new HttpRequestMessage(HttpMethod.${method}, ${cSharpString(request.url)});\n`;
+    headers.forEach(header => {
+      code += `request.Headers.TryAddWithoutValidation(${cSharpString(header.name)}, ${cSharpString(header.value)});\n`;
+    });
+    if (request.body) {
+      code += `request.Content = new StringContent(${cSharpString(request.body.text)}, Encoding.UTF8, ${cSharpString(request.body.contentType)});\n`;
+    }
+    code += '\n';
+
+    code += `using var response = await client.SendAsync(request);\n`;
+    code += `Console.WriteLine((int)response.StatusCode);\n`;
+    code += `Console.WriteLine(await response.Content.ReadAsStringAsync());`;
+
+    return code;
+  },
+};
+
+// Multi-line values become verbatim strings, where quotes are doubled
+function cSharpString(value: string): string {
+  return value.includes('\n') ? `@"${value.replace(/"/g, '""')}"` : JSON.stringify(value);
+}
\ No newline at end of file
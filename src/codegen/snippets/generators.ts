@@ -0,0 +1,44 @@
+import { SnippetGenerator } from './snippet';
+import { axiosGenerator, fetchGenerator, typeScriptGenerator } from './javascript';
+import { pythonGenerator } from './python';
+import { curlGenerator, httpieGenerator, powerShellGenerator } from './shell';
+import { goGenerator } from './go';
+import { javaGenerator } from './java';
+import { cSharpGenerator } from './csharp';
+import { rustGenerator } from './rust';
+import { kotlinGenerator } from './kotlin';
+import { phpGenerator } from './php';
+import { rubyGenerator } from './ruby';
+
+// A new language only needs a generator added here
+export const SNIPPET_GENERATORS: SnippetGenerator[] = [
+  fetchGenerator,
+  typeScriptGenerator,
+  axiosGenerator,
+  pythonGenerator,
+  curlGenerator,
+  httpieGenerator,
+  powerShellGenerator,
+  goGenerator,
+  javaGenerator,
+  cSharpGenerator,
+  rustGenerator,
+  kotlinGenerator,
+  phpGenerator,
+  rubyGenerator,
+];
+
+// Every name a snippet language can be requested by
+export function snippetLanguages(): string[] {
+  return SNIPPET_GENERATORS.flatMap(generator => [generator.language, ...(generator.aliases || [])]);
+}
+
+export function findSnippetGenerator(language: string): SnippetGenerator {
+  const generator = SNIPPET_GENERATORS.find(candidate =>
+    candidate.language === language || (candidate.aliases || []).includes(language)
+  );
+  if (!generator) {
+    throw new Error(`Unsupported language: ${language}. Available languages: ${snippetLanguages().join(', ')}`);
+  }
+  return generator;
+}
\ No newline at end of file
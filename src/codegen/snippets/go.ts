@@ -0,0 +1,46 @@
+import { SnippetGenerator, heading } from './snippet';
+
+export const goGenerator: SnippetGenerator = {
+  language: 'go',
+  label: 'Go (net/http)',
+  generate(request) {
+    const imports = ['fmt', 'io', 'net/http'];
+    if (request.body) imports.push('strings');
+
+    let code = `${heading(request, '//')}\n`;
+    code += `package main\n\n`;
+    code += `import (\n${imports.map(name => `\t"${name}"\n`).join('')})\n\n`;
+    code += `func main() {\n`;
+
+    if (request.body) {
+      code += `\tbody := strings.NewReader(${goString(request.body.text)})\n`;
+    }
+    code += `\treq, err := http.NewRequest(${goString(request.method)}, ${goString(request.url)}, ${request.body ? 'body' : 'nil'})\n`;
+    code += `\tif err != nil {\n\t\tpanic(err)\n\t}\n`;
+    request.headers.forEach(header => {
+      code += `\treq.Header.Set(${goString(header.name)}, ${goString(header.value)})\n`;
+    });
+    code += '\n';
+
+    code += `\tresp, err := http.DefaultClient.Do(req)\n`;
+    code += `\tif err != nil {\n\t\tpanic(err)\n\t}\n`;
+    code += `\tdefer resp.Body.Close()\n\n`;
+
+    code += `\tdata, err := io.ReadAll(resp.Body)\n`;
+    code += `\tif err != nil {\n\t\tpanic(err)\n\t}\n`;
+    code += `\tfmt.Println(resp.Status)\n`;
+    code += `\tfmt.Println(string(data))\n`;
+    code += `}`;
+
+    return code;
+  },
+};
+
+// Raw string literal where possible, so that multi-line bodies stay readable
+function goString(value: string): string {
+  if (value.includes('\n') && !value.includes('`')) {
+    return `\`${value}\``;
+  }
+  // JSON string escapes are valid in Go string literals
+  return JSON.stringify(value);
+}
\ No newline at end of file
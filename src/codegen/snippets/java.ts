@@ -0,0 +1,51 @@
+import { SnippetGenerator, heading } from './snippet';
+
+// Methods with a shorthand on HttpRequest.Builder that takes a body
+const BODY_METHODS = ['POST', 'PUT'];
+
+export const javaGenerator: SnippetGenerator = {
+  language: 'java',
+  label: 'Java (java.net.http)',
+  generate(request) {
+    let code = `${heading(request, '//')}\n`;
+    code += `import java.net.URI;\n`;
+    code += `import java.net.http.HttpClient;\n`;
+    code += `import java.net.http.HttpRequest;\n`;
+    code += `import java.net.http.HttpResponse;\n\n`;
+
+    code += `HttpClient client = HttpClient.newHttpClient();\n`;
+    code += `HttpRequest request = HttpRequest.newBuilder()\n`;
+    code += `    .uri(URI.create(${javaString(request.url)}))\n`;
+    request.headers.forEach(header => {
+      code += `    .header(${javaString(header.name)}, ${javaString(header.value)})\n`;
+    });
+
+    const publisher = request.body
+      ? `HttpRequest.BodyPublishers.ofString(${javaString(request.body.text, '        ')})`
+      : 'HttpRequest.BodyPublishers.noBody()';
+    if (request.method === 'GET' || (request.method === 'DELETE' && !request.body)) {
+      code += `    .${request.method}()\n`;
+    } else if (BODY_METHODS.includes(request.method)) {
+      code += `    .${request.method}(${publisher})\n`;
+    } else {
+      code += `    .method(${javaString(request.method)}, ${publisher})\n`;
+    }
+    code += `    .build();\n\n`;
+
+    code += `HttpResponse<String> response = client.send(request, HttpResponse.BodyHandlers.ofString());\n`;
+    code += `System.out.println(response.statusCode());\n`;
+    code += `System.out.println(response.body());`;
+
+    return code;
+  },
+};
+
+// Multi-line values become text blocks (Java 15+), closed on their last line so
+// that no newline is added
+function javaString(value: string, indent: string = ''): string {
+  if (value.includes('\n')) {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/"""/g, '\\"""');
+    return `"""\n${escaped.replace(/^(?=.)/gm, indent)}"""`;
+  }
+  return JSON.stringify(value);
+}
\ No newline at end of file
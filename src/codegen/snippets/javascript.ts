@@ -0,0 +1,228 @@
+import { isJsonMediaType } from '../../core/media-types';
+import { SnippetGenerator, SnippetParameter, SnippetRequest, heading, plainValue } from './snippet';
+
+export const fetchGenerator: SnippetGenerator = {
+  language: 'javascript',
+  aliases: ['fetch'],
+  label: 'JavaScript (fetch)',
+  generate(request) {
+    let code = `${heading(request, '//')}\n\n`;
+    code += pathParamDeclarations(request);
+    code += `const url = \`${request.baseUrl}${templatePath(request)}\`;\n\n`;
+
+    if (request.query.length > 0) {
+      code += `// Query parameters\n`;
+      code += `const params = new URLSearchParams({\n`;
+      request.query.forEach(param => {
+        code += `  ${objectKey(param.name)}: ${jsLiteral(param.value, '  ')},${comment(param)}\n`;
+      });
+      code += `});\n\n`;
+    }
+
+    code += headerDeclarations(request.headers, 'const headers = ', '');
+
+    if (request.body) {
+      code += `// Request body\n`;
+      code += `const body = ${bodyExpression(request)};\n\n`;
+    }
+
+    code += `const response = await fetch(${request.query.length > 0 ? '`${url}?${params}`' : 'url'}, {\n`;
+    code += `  method: '${request.method}',\n`;
+    code += `  headers,\n`;
+    if (request.body) {
+      code += `  body,\n`;
+    }
+    code += `});\n\n`;
+
+    code += `const data = await response.json();\n`;
+    code += `console.log(data);`;
+
+    return code;
+  },
+};
+
+export const typeScriptGenerator: SnippetGenerator = {
+  language: 'typescript',
+  label: 'TypeScript (fetch)',
+  generate(request) {
+    const functionName = toFunctionName(request.operationId || `${request.method.toLowerCase()}${pathToName(request.path)}`);
+    let code = `${heading(request, '//')}\n\n`;
+
+    if (request.body) {
+      code += `interface RequestBody {\n`;
+      code += `  // Define request body structure\n`;
+      code += `  [key: string]: any;\n`;
+      code += `}\n\n`;
+    }
+
+    code += `interface Response {\n`;
+    code += `  // Define response structure\n`;
+    code += `  [key: string]: any;\n`;
+    code += `}\n\n`;
+
+    const functionParams: string[] = [];
+    request.pathParams.forEach(param => {
+      functionParams.push(`  ${toVariableName(param.name)}: string`);
+    });
+    if (request.query.length > 0) {
+      functionParams.push(`  params?: { ${request.query.map(param => `${objectKey(param.name)}?: any`).join(', ')} }`);
+    }
+    if (request.body) {
+      functionParams.push(`  body: RequestBody`);
+    }
+
+    const signature = functionParams.length > 0 ? `\n${functionParams.join(',\n')}\n` : '';
+    code += `async function ${functionName}(${signature}): Promise<Response> {\n`;
+    code += `  const url = \`${request.baseUrl}${templatePath(request)}\`;\n\n`;
+
+    if (request.query.length > 0) {
+      code += `  const queryParams = new URLSearchParams(params as any).toString();\n`;
+      code += `  const fullUrl = queryParams ? \`\${url}?\${queryParams}\` : url;\n\n`;
+    }
+
+    code += headerDeclarations(request.headers, 'const headers: HeadersInit = ', '  ');
+
+    code += `  const response = await fetch(${request.query.length > 0 ? 'fullUrl' : 'url'}, {\n`;
+    code += `    method: '${request.method}',\n`;
+    code += `    headers,\n`;
+    if (request.body) {
+      code += isJsonMediaType(request.body.contentType)
+        ? `    body: JSON.stringify(body),\n`
+        : `    body: String(body),\n`;
+    }
+    code += `  });\n\n`;
+
+    code += `  if (!response.ok) {\n`;
+    code += `    throw new Error(\`HTTP error! status: \${response.status}\`);\n`;
+    code += `  }\n\n`;
+
+    code += `  return await response.json() as Response;\n`;
+    code += `}\n\n`;
+
+    // Example call with values generated from the spec
+    const callArgs = request.pathParams.map(param => jsLiteral(plainValue(param.value)));
+    if (request.query.length > 0) {
+      callArgs.push(jsLiteral(Object.fromEntries(request.query.map(param => [param.name, param.value]))));
+    }
+    if (request.body) {
+      callArgs.push(jsLiteral(isJsonMediaType(request.body.contentType) ? request.body.value : request.body.text));
+    }
+    code += `const result = await ${functionName}(${callArgs.join(', ')});`;
+
+    return code;
+  },
+};
+
+export const axiosGenerator: SnippetGenerator = {
+  language: 'axios',
+  label: 'JavaScript (axios)',
+  generate(request) {
+    let code = `import axios from 'axios';\n\n`;
+    code += `${heading(request, '//')}\n\n`;
+    code += pathParamDeclarations(request);
+    code += `const url = \`${request.baseUrl}${templatePath(request)}\`;\n\n`;
+
+    code += `const config = {\n`;
+    code += `  method: '${request.method.toLowerCase()}',\n`;
+    code += `  url,\n`;
+    if (request.headers.length > 0) {
+      code += `  headers: {\n`;
+      request.headers.forEach(header => {
+        code += `    '${header.name}': ${jsLiteral(header.value)},${comment(header)}\n`;
+      });
+      code += `  },\n`;
+    }
+
+    if (request.query.length > 0) {
+      code += `  params: {\n`;
+      request.query.forEach(param => {
+        code += `    ${objectKey(param.name)}: ${jsLiteral(param.value, '    ')},${comment(param)}\n`;
+      });
+      code += `  },\n`;
+    }
+
+    if (request.body) {
+      const data = isJsonMediaType(request.body.contentType) ? request.body.value : request.body.text;
+      code += `  data: ${jsLiteral(data, '  ')},\n`;
+    }
+
+    code += `};\n\n`;
+
+    code += `try {\n`;
+    code += `  const response = await axios(config);\n`;
+    code += `  console.log(response.data);\n`;
+    code += `} catch (error) {\n`;
+    code += `  console.error('Error:', error.response?.data || error.message);\n`;
+    code += `}`;
+
+    return code;
+  },
+};
+
+function pathParamDeclarations(request: SnippetRequest): string {
+  if (request.pathParams.length === 0) {
+    return '';
+  }
+  let code = `// Path parameters\n`;
+  request.pathParams.forEach(param => {
+    code += `const ${toVariableName(param.name)} = ${jsLiteral(param.value)};${comment(param)}\n`;
+  });
+  return `${code}\n`;
+}
+
+// The path as a template literal over the path parameter variables
+function templatePath(request: SnippetRequest): string {
+  return request.pathParams.reduce(
+    (path, param) => path.split(`{${param.name}}`).join(`\${${toVariableName(param.name)}}`),
+    request.path
+  );
+}
+
+function headerDeclarations(headers: SnippetParameter[], declaration: string, indent: string): string {
+  if (headers.length === 0) {
+    return `${indent}${declaration}{};\n\n`;
+  }
+  let code = `${indent}${declaration}{\n`;
+  headers.forEach(header => {
+    code += `${indent}  '${header.name}': ${jsLiteral(header.value)},${comment(header)}\n`;
+  });
+  return `${code}${indent}};\n\n`;
+}
+
+function bodyExpression(request: SnippetRequest): string {
+  const body = request.body!;
+  return isJsonMediaType(body.contentType) ? `JSON.stringify(${jsLiteral(body.value)})` : jsLiteral(body.text);
+}
+
+function comment(param: SnippetParameter): string {
+  return param.description ? ` // ${param.description}` : '';
+}
+
+function objectKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : jsLiteral(name);
+}
+
+// Multi-line values are indented to continue at the given indentation
+function jsLiteral(value: any, indent: string = ''): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  return (JSON.stringify(value, null, 2) ?? 'undefined').replace(/\n/g, `\n${indent}`);
+}
+
+function toVariableName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9]/g, '_').replace(/^(\d)/, '_$1');
+}
+
+function toFunctionName(name: string): string {
+  return toVariableName(name).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+}
+
+function pathToName(path: string): string {
+  return path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.replace(/[{}]/g, ''))
+    .map(segment => segment.charAt(0).toUpperCase() + segment.slice(1))
+    .join('');
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { SnippetGenerator, heading } from './snippet';
+
+// Methods OkHttp only sends with a body
+const BODY_REQUIRED = ['POST', 'PUT', 'PATCH'];
+
+export const kotlinGenerator: SnippetGenerator = {
+  language: 'kotlin',
+  label: 'Kotlin (OkHttp)',
+  generate(request) {
+    // OkHttp takes the content type from the body's media type
+    const headers = request.headers.filter(header => header.name.toLowerCase() !== 'content-type');
+    const needsBody = request.body !== undefined || BODY_REQUIRED.includes(request.method);
+
+    let code = `${heading(request, '//')}\n`;
+    if (request.body) code += `import okhttp3.MediaType.Companion.toMediaType\n`;
+    code += `import okhttp3.OkHttpClient\n`;
+    code += `import okhttp3.Request\n`;
+    if (needsBody) code += `import okhttp3.RequestBody.Companion.toRequestBody\n`;
+    code += '\n';
+
+    code += `val client = OkHttpClient()\n`;
+    if (request.body) {
+      code += `val body = ${kotlinString(request.body.text)}\n`;
+      code += `    .toRequestBody(${kotlinString(request.body.contentType)}.toMediaType())\n`;
+    }
+    code += `val request = Request.Builder()\n`;
+    code += `    .url(${kotlinString(request.url)})\n`;
+    headers.forEach(header => {
+      code += `    .header(${kotlinString(header.name)}, ${kotlinString(header.value)})\n`;
+    });
+    const body = request.body ? 'body' : needsBody ? '"".toRequestBody()' : 'null';
+    code += `    .method(${kotlinString(request.method)}, ${body})\n`;
+    code += `    .build()\n\n`;
+
+    code += `client.newCall(request).execute().use { response ->\n`;
+    code += `    println(response.code)\n`;
+    code += `    println(response.body?.string())\n`;
+    code += `}`;
+
+    return code;
+  },
+};
+
+// Raw strings keep multi-line bodies readable; `$` starts a template in both kinds
+function kotlinString(value: string): string {
+  if (value.includes('\n') && !value.includes('"""')) {
+    return `"""${value.replace(/\$/g, "${'$'}")}"""`;
+  }
+  return JSON.stringify(value).replace(/\$/g, '\\$');
+}
\ No newline at end of file
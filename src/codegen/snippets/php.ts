@@ -0,0 +1,37 @@
+import { SnippetGenerator, heading } from './snippet';
+
+export const phpGenerator: SnippetGenerator = {
+  language: 'php',
+  label: 'PHP (Guzzle)',
+  generate(request) {
+    let code = `<?php\n${heading(request, '//')}\n`;
+    code += `require 'vendor/autoload.php';\n\n`;
+    code += `use GuzzleHttp\\Client;\n\n`;
+
+    code += `$client = new Client();\n`;
+    code += `$response = $client->request(${phpString(request.method)}, ${phpString(request.url)}, [\n`;
+    if (request.headers.length > 0) {
+      code += `    'headers' => [\n`;
+      request.headers.forEach(header => {
+        code += `        ${phpString(header.name)} => ${phpString(header.value)},\n`;
+      });
+      code += `    ],\n`;
+    }
+    if (request.body) {
+      code += `    'body' => ${phpString(request.body.text)},\n`;
+    }
+    // Error responses are printed like any other instead of thrown
+    code += `    'http_errors' => false,\n`;
+    code += `]);\n\n`;
+
+    code += `echo $response->getStatusCode(), PHP_EOL;\n`;
+    code += `echo $response->getBody(), PHP_EOL;`;
+
+    return code;
+  },
+};
+
+// Single-quoted: only backslashes and quotes are escaped, nothing is interpolated
+function phpString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { isJsonMediaType } from '../../core/media-types';
+import { SnippetGenerator, SnippetParameter, heading } from './snippet';
+
+export const pythonGenerator: SnippetGenerator = {
+  language: 'python',
+  label: 'Python (requests)',
+  generate(request) {
+    let code = `import requests\nimport json\n\n`;
+    code += `${heading(request, '#')}\n\n`;
+
+    if (request.pathParams.length > 0) {
+      code += `# Path parameters\n`;
+      request.pathParams.forEach(param => {
+        code += `${toSnakeCase(param.name)} = ${pythonLiteral(param.value)}${comment(param)}\n`;
+      });
+      code += '\n';
+    }
+
+    const urlPath = request.pathParams.reduce(
+      (path, param) => path.split(`{${param.name}}`).join(`{${toSnakeCase(param.name)}}`),
+      request.path
+    );
+    code += `url = f"${request.baseUrl}${urlPath}"\n\n`;
+
+    if (request.headers.length > 0) {
+      code += `headers = {\n`;
+      request.headers.forEach(header => {
+        code += `    ${pythonLiteral(header.name)}: ${pythonLiteral(header.value)},${comment(header)}\n`;
+      });
+      code += `}\n\n`;
+    }
+
+    if (request.query.length > 0) {
+      code += `# Query parameters\n`;
+      code += `params = {\n`;
+      request.query.forEach(param => {
+        code += `    ${pythonLiteral(param.name)}: ${pythonLiteral(param.value, '    ')},${comment(param)}\n`;
+      });
+      code += `}\n\n`;
+    }
+
+    const json = request.body !== undefined && isJsonMediaType(request.body.contentType);
+    if (request.body) {
+      code += `# Request body\n`;
+      code += `data = ${pythonLiteral(json ? request.body.value : request.body.text)}\n\n`;
+    }
+
+    code += `response = requests.request(\n`;
+    code += `    "${request.method}",\n`;
+    code += `    url,\n`;
+    if (request.headers.length > 0) {
+      code += `    headers=headers,\n`;
+    }
+    if (request.query.length > 0) {
+      code += `    params=params,\n`;
+    }
+    if (request.body) {
+      code += json ? `    json=data,\n` : `    data=data,\n`;
+    }
+    code += `)\n\n`;
+
+    code += `# Check response\n`;
+    code += `if response.ok:\n`;
+    code += `    result = response.json()\n`;
+    code += `    print(json.dumps(result, indent=2))\n`;
+    code += `else:\n`;
+    code += `    print(f"Error: {response.status_code}")\n`;
+    code += `    print(response.text)`;
+
+    return code;
+  },
+};
+
+function comment(param: SnippetParameter): string {
+  return param.description ? `  # ${param.description}` : '';
+}
+
+function pythonLiteral(value: any, indent: string = ''): string {
+  const literal = JSON.stringify(value, null, 4) ?? 'None';
+  // JSON and Python literals differ only in their keywords (outside strings)
+  return literal
+    .replace(/"(?:[^"\\]|\\.)*"|\b(true|false|null)\b/g, (match, keyword) => {
+      if (!keyword) return match;
+      return keyword === 'true' ? 'True' : keyword === 'false' ? 'False' : 'None';
+    })
+    .replace(/\n/g, `\n${indent}`);
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+}
\ No newline at end of file
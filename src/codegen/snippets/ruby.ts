@@ -0,0 +1,39 @@
+import { SnippetGenerator, heading } from './snippet';
+
+export const rubyGenerator: SnippetGenerator = {
+  language: 'ruby',
+  label: 'Ruby (Net::HTTP)',
+  generate(request) {
+    const requestClass = request.method.charAt(0) + request.method.slice(1).toLowerCase();
+
+    let code = `${heading(request, '#')}\n`;
+    code += `require 'net/http'\n`;
+    code += `require 'uri'\n\n`;
+
+    code += `uri = URI(${rubyString(request.url)})\n`;
+    code += `request = Net::HTTP::${requestClass}.new(uri)\n`;
+    request.headers.forEach(header => {
+      code += `request[${rubyString(header.name)}] = ${rubyString(header.value)}\n`;
+    });
+    if (request.body) {
+      // Quoted heredoc: the body is taken literally
+      code += `request.body = <<~'BODY'\n`;
+      code += `${request.body.text.replace(/^(?=.)/gm, '  ')}\n`;
+      code += `BODY\n`;
+    }
+    code += '\n';
+
+    code += `response = Net::HTTP.start(uri.hostname, uri.port, use_ssl: uri.scheme == 'https') do |http|\n`;
+    code += `  http.request(request)\n`;
+    code += `end\n\n`;
+
+    code += `puts response.code\n`;
+    code += `puts response.body`;
+
+    return code;
+  },
+};
+
+function rubyString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
\ No newline at end of file
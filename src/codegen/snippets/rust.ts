@@ -0,0 +1,44 @@
+import { SnippetGenerator, heading } from './snippet';
+
+export const rustGenerator: SnippetGenerator = {
+  language: 'rust',
+  label: 'Rust (reqwest)',
+  generate(request) {
+    let code = `${heading(request, '//')}\n`;
+    code += `// Cargo.toml: reqwest = "0.12", tokio = { version = "1", features = ["full"] }\n\n`;
+
+    code += `#[tokio::main]\n`;
+    code += `async fn main() -> Result<(), reqwest::Error> {\n`;
+    code += `    let client = reqwest::Client::new();\n`;
+    code += `    let response = client\n`;
+    code += `        .request(reqwest::Method::${request.method}, ${rustString(request.url)})\n`;
+    request.headers.forEach(header => {
+      code += `        .header(${rustString(header.name)}, ${rustString(header.value)})\n`;
+    });
+    if (request.body) {
+      code += `        .body(${rustString(request.body.text)})\n`;
+    }
+    code += `        .send()\n`;
+    code += `        .await?;\n\n`;
+
+    code += `    println!("{}", response.status());\n`;
+    code += `    println!("{}", response.text().await?);\n`;
+    code += `    Ok(())\n`;
+    code += `}`;
+
+    return code;
+  },
+};
+
+// Values with quotes or backslashes become raw strings, with as many #s as it
+// takes to not be closed early
+function rustString(value: string): string {
+  if (!/["\\]/.test(value)) {
+    return `"${value}"`;
+  }
+  let hashes = '#';
+  while (value.includes(`"${hashes}`)) {
+    hashes += '#';
+  }
+  return `r${hashes}"${value}"${hashes}`;
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { snippetCredentials } from './security';
+import { OpenAPISpec, Operation, SecurityRequirement } from '../../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Secured', version: '1.0.0' },
+  security: [{ bearerAuth: [] }],
+  paths: {},
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      basic: { type: 'http', scheme: 'basic' },
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      queryKey: { type: 'apiKey', in: 'query', name: 'key' },
+      session: { type: 'apiKey', in: 'cookie', name: 'SESSION' },
+      oidc: { type: 'openIdConnect', openIdConnectUrl: 'https://id.example.com/.well-known/openid-configuration' },
+      oauth: {
+        type: 'oauth2',
+        flows: {
+          clientCredentials: { tokenUrl: 'https://id.example.com/token', scopes: { 'read:items': 'Read items' } },
+          authorizationCode: {
+            authorizationUrl: 'https://id.example.com/authorize',
+            tokenUrl: 'https://id.example.com/token',
+            scopes: { 'read:items': 'Read items' },
+          },
+        },
+      },
+    },
+  },
+};
+
+const operation = (security?: Operation['security']): Operation => ({ security, responses: {} });
+
+describe('snippetCredentials', () => {
+  it("falls back to the API's security", () => {
+    expect(snippetCredentials(spec, operation())).toEqual({
+      schemes: ['bearerAuth'],
+      headers: [{ name: 'Authorization', value: 'Bearer YOUR_JWT_TOKEN' }],
+      query: [],
+      cookies: [],
+      notes: ['Authentication: bearerAuth', 'bearerAuth: bearer token (JWT)'],
+    });
+  });
+
+  it('describes OAuth2 flows and scopes, and lists the alternatives', () => {
+    const credentials = snippetCredentials(spec, operation([{ oauth: ['read:items'] }, { apiKey: [], session: [] }, {}]));
+
+    expect(credentials.headers).toEqual([{ name: 'Authorization', value: 'Bearer YOUR_ACCESS_TOKEN' }]);
+    expect(credentials.notes).toEqual([
+      'Authentication: oauth (alternatives: apiKey + session, anonymous)',
+      'oauth: OAuth2 access token with scope read:items',
+      '  authorizationCode flow: authorization URL https://id.example.com/authorize, token URL https://id.example.com/token',
+      '  clientCredentials flow: token URL https://id.example.com/token',
+    ]);
+  });
+
+  it('combines the schemes of the selected requirement', () => {
+    const credentials = snippetCredentials(spec, operation([{ oauth: [] }, { apiKey: [], session: [] }]), ['session', 'apiKey']);
+
+    expect(credentials).toEqual({
+      schemes: ['apiKey', 'session'],
+      headers: [{ name: 'X-API-Key', value: 'YOUR_API_KEY' }],
+      query: [],
+      cookies: ['SESSION=YOUR_SESSION'],
+      notes: [
+        'Authentication: apiKey + session (alternatives: oauth)',
+        "apiKey: API key in the 'X-API-Key' header",
+        "session: API key in the 'SESSION' cookie",
+      ],
+    });
+  });
+
+  it('places each kind of credential where its scheme expects it', () => {
+    const security: SecurityRequirement[] = [{ basic: [] }, { queryKey: [] }, { oidc: ['openid'] }];
+
+    expect(snippetCredentials(spec, operation(security)).headers).toEqual([
+      { name: 'Authorization', value: `Basic ${Buffer.from('YOUR_USERNAME:YOUR_PASSWORD').toString('base64')}` },
+    ]);
+    expect(snippetCredentials(spec, operation(security), ['queryKey']).query).toEqual([
+      { name: 'key', value: 'YOUR_QUERY_KEY' },
+    ]);
+    expect(snippetCredentials(spec, operation(security), ['oidc']).notes).toEqual([
+      'Authentication: oidc (alternatives: basic, queryKey)',
+      'oidc: OpenID Connect access token with scope openid',
+      '  discovery document: https://id.example.com/.well-known/openid-configuration',
+    ]);
+  });
+
+  it('sends nothing for operations without security', () => {
+    expect(snippetCredentials(spec, operation([]))).toEqual({
+      schemes: [],
+      headers: [],
+      query: [],
+      cookies: [],
+      notes: ['No authentication is declared for this operation'],
+    });
+  });
+
+  it('rejects selections that match no requirement', () => {
+    expect(() => snippetCredentials(spec, operation([{ basic: [] }, { queryKey: [] }]), ['bearerAuth'])).toThrow(
+      'No security requirement of this operation uses exactly bearerAuth (requirements: basic, queryKey)'
+    );
+  });
+});
\ No newline at end of file
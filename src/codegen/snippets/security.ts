@@ -0,0 +1,129 @@
+import { OAuthFlows, OpenAPISpec, Operation, SecurityRequirement, SecurityScheme } from '../../types/openapi';
+import { deref } from '../../core/ref-resolver';
+import { words } from '../naming';
+import { SnippetParameter } from './snippet';
+
+/**
+ * Placeholder credentials for one of an operation's security requirements,
+ * placed where its schemes expect them.
+ */
+export interface SnippetCredentials {
+  // Schemes of the requirement the snippet meets (all of them: they are combined)
+  schemes: string[];
+  headers: SnippetParameter[];
+  query: SnippetParameter[];
+  // `name=value` pairs for the Cookie header
+  cookies: string[];
+  // How to obtain the credentials, as comment lines for the snippet
+  notes: string[];
+}
+
+const FLOW_NAMES: Array<keyof OAuthFlows> = ['authorizationCode', 'clientCredentials', 'password', 'implicit'];
+
+/**
+ * Credentials for the operation's (or else the API's) security. The first
+ * requirement is used unless `selected` names the schemes of another one;
+ * the notes mention the alternatives.
+ */
+export function snippetCredentials(spec: OpenAPISpec, operation: Operation, selected?: string[]): SnippetCredentials {
+  const credentials: SnippetCredentials = { schemes: [], headers: [], query: [], cookies: [], notes: [] };
+  const requirements = operation.security || spec.security || [];
+  if (requirements.length === 0) {
+    credentials.notes.push('No authentication is declared for this operation');
+    return credentials;
+  }
+
+  const describe = (requirement: SecurityRequirement) => Object.keys(requirement).join(' + ') || 'anonymous';
+  let requirement: SecurityRequirement | undefined;
+  if (selected && selected.length > 0) {
+    requirement = requirements.find(candidate => {
+      const names = Object.keys(candidate);
+      return names.length === selected.length && selected.every(name => names.includes(name));
+    });
+    if (!requirement) {
+      throw new Error(`No security requirement of this operation uses exactly ${selected.join(' + ')} (requirements: ${requirements.map(describe).join(', ')})`);
+    }
+  } else {
+    requirement = requirements.find(candidate => Object.keys(candidate).length > 0) || requirements[0];
+  }
+
+  const others = requirements.filter(candidate => candidate !== requirement).map(describe);
+  credentials.notes.push(`Authentication: ${describe(requirement)}${others.length > 0 ? ` (alternatives: ${others.join(', ')})` : ''}`);
+
+  const schemes = spec.components?.securitySchemes || {};
+  for (const [name, scopes] of Object.entries(requirement)) {
+    if (!schemes[name]) {
+      throw new Error(`Security scheme '${name}' is not defined in components.securitySchemes`);
+    }
+    addCredential(credentials, name, deref(spec, schemes[name]), scopes);
+    credentials.schemes.push(name);
+  }
+  return credentials;
+}
+
+function addCredential(credentials: SnippetCredentials, name: string, scheme: SecurityScheme, scopes: string[]): void {
+  const placeholder = `YOUR_${words(name).join('_').toUpperCase()}`;
+
+  switch (scheme.type) {
+    case 'apiKey': {
+      if (!scheme.name) {
+        throw new Error(`Security scheme '${name}' has no parameter name`);
+      }
+      if (scheme.in === 'query') {
+        credentials.query.push({ name: scheme.name, value: placeholder });
+        credentials.notes.push(`${name}: API key in the '${scheme.name}' query parameter`);
+      } else if (scheme.in === 'cookie') {
+        credentials.cookies.push(`${scheme.name}=${placeholder}`);
+        credentials.notes.push(`${name}: API key in the '${scheme.name}' cookie`);
+      } else {
+        credentials.headers.push({ name: scheme.name, value: placeholder });
+        credentials.notes.push(`${name}: API key in the '${scheme.name}' header`);
+      }
+      return;
+    }
+    case 'http': {
+      const httpScheme = (scheme.scheme || '').toLowerCase();
+      if (httpScheme === 'basic') {
+        const encoded = Buffer.from('YOUR_USERNAME:YOUR_PASSWORD').toString('base64');
+        credentials.headers.push({ name: 'Authorization', value: `Basic ${encoded}` });
+        credentials.notes.push(`${name}: HTTP basic authentication, base64 of 'YOUR_USERNAME:YOUR_PASSWORD'`);
+      } else if (httpScheme === 'bearer') {
+        const token = scheme.bearerFormat ? `YOUR_${words(scheme.bearerFormat).join('_').toUpperCase()}_TOKEN` : 'YOUR_TOKEN';
+        credentials.headers.push({ name: 'Authorization', value: `Bearer ${token}` });
+        credentials.notes.push(`${name}: bearer token${scheme.bearerFormat ? ` (${scheme.bearerFormat})` : ''}`);
+      } else {
+        credentials.headers.push({ name: 'Authorization', value: `${scheme.scheme} YOUR_CREDENTIALS` });
+        credentials.notes.push(`${name}: HTTP ${scheme.scheme} authentication`);
+      }
+      return;
+    }
+    case 'oauth2': {
+      credentials.headers.push({ name: 'Authorization', value: 'Bearer YOUR_ACCESS_TOKEN' });
+      credentials.notes.push(`${name}: OAuth2 access token${scopeList(scopes)}`);
+      for (const flowName of FLOW_NAMES) {
+        const flow = scheme.flows?.[flowName];
+        if (!flow) continue;
+        const urls = [
+          flow.authorizationUrl && `authorization URL ${flow.authorizationUrl}`,
+          flow.tokenUrl && `token URL ${flow.tokenUrl}`,
+        ].filter(Boolean);
+        credentials.notes.push(`  ${flowName} flow${urls.length > 0 ? `: ${urls.join(', ')}` : ''}`);
+      }
+      return;
+    }
+    case 'openIdConnect':
+      credentials.headers.push({ name: 'Authorization', value: 'Bearer YOUR_ACCESS_TOKEN' });
+      credentials.notes.push(`${name}: OpenID Connect access token${scopeList(scopes)}`);
+      if (scheme.openIdConnectUrl) {
+        credentials.notes.push(`  discovery document: ${scheme.openIdConnectUrl}`);
+      }
+      return;
+    default:
+      // mutualTLS (OpenAPI 3.1) authenticates the connection, not the request
+      credentials.notes.push(`${name}: '${(scheme as any).type}' authentication is not shown in this snippet`);
+  }
+}
+
+function scopeList(scopes: string[]): string {
+  return scopes.length > 0 ? ` with scope${scopes.length > 1 ? 's' : ''} ${scopes.join(', ')}` : '';
+}
\ No newline at end of file
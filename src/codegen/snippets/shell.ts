@@ -0,0 +1,88 @@
+import { SnippetGenerator, heading } from './snippet';
+
+export const curlGenerator: SnippetGenerator = {
+  language: 'curl',
+  label: 'curl',
+  generate(request) {
+    const lines = [`curl -X ${request.method} ${shellQuote(request.url)}`];
+    request.headers.forEach(header => {
+      lines.push(`  -H ${shellQuote(`${header.name}: ${header.value}`)}`);
+    });
+    if (request.body) {
+      lines.push(`  --data-raw ${shellQuote(request.body.text)}`);
+    }
+    return `${heading(request, '#')}\n\n${lines.join(' \\\n')}`;
+  },
+};
+
+export const httpieGenerator: SnippetGenerator = {
+  language: 'httpie',
+  label: 'HTTPie',
+  generate(request) {
+    const lines = [`http ${request.method} ${shellQuote(request.url)}`];
+    // `Name:value` request items; the raw body keeps HTTPie from encoding its own JSON
+    request.headers.forEach(header => {
+      lines.push(`  ${shellQuote(`${header.name}:${header.value}`)}`);
+    });
+    if (request.body) {
+      lines.push(`  --raw ${shellQuote(request.body.text)}`);
+    }
+    return `${heading(request, '#')}\n\n${lines.join(' \\\n')}`;
+  },
+};
+
+export const powerShellGenerator: SnippetGenerator = {
+  language: 'powershell',
+  label: 'PowerShell (Invoke-RestMethod)',
+  generate(request) {
+    // Invoke-RestMethod takes the content type as a parameter of its own
+    const headers = request.headers.filter(header => header.name.toLowerCase() !== 'content-type');
+    let code = `${heading(request, '#')}\n\n`;
+
+    if (headers.length > 0) {
+      code += `$headers = @{\n`;
+      headers.forEach(header => {
+        code += `    ${powerShellString(header.name)} = ${powerShellString(header.value)}\n`;
+      });
+      code += `}\n`;
+    }
+    if (request.body) {
+      // A here-string's closing '@ has to start the line
+      code += `$body = @'\n${request.body.text}\n'@\n`;
+    }
+    if (headers.length > 0 || request.body) {
+      code += '\n';
+    }
+
+    const params: Array<[string, string]> = [
+      ['Uri', powerShellString(request.url)],
+      ['Method', powerShellString(request.method)],
+    ];
+    if (headers.length > 0) params.push(['Headers', '$headers']);
+    if (request.body) {
+      params.push(['ContentType', powerShellString(request.body.contentType)]);
+      params.push(['Body', '$body']);
+    }
+    const width = Math.max(...params.map(([name]) => name.length));
+
+    code += `$params = @{\n`;
+    params.forEach(([name, value]) => {
+      code += `    ${name.padEnd(width)} = ${value}\n`;
+    });
+    code += `}\n\n`;
+
+    code += `$response = Invoke-RestMethod @params\n`;
+    code += `$response | ConvertTo-Json -Depth 10`;
+
+    return code;
+  },
+};
+
+// Single-quoted for POSIX shells: nothing inside is expanded
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function powerShellString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
\ No newline at end of file
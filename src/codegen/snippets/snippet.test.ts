@@ -0,0 +1,145 @@
+import { buildSnippetRequest } from './snippet';
+import { SNIPPET_GENERATORS, findSnippetGenerator } from './generators';
+import { OpenAPISpec } from '../../types/openapi';
+
+const snippetSpec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Orders', version: '1.0.0' },
+  servers: [{ url: 'https://{region}.api.example.com/v1', variables: { region: { default: 'eu' } } }],
+  paths: {
+    '/orders/{orderId}/items': {
+      parameters: [{ name: 'orderId', in: 'path', required: true, schema: { type: 'integer' }, example: 42 }],
+      get: {
+        summary: 'List order items',
+        parameters: [
+          { name: 'status', in: 'query', schema: { type: 'array', items: { type: 'string' } }, example: ['open', 'held'] },
+          { name: 'fields', in: 'query', explode: false, schema: { type: 'array', items: { type: 'string' } }, example: ['sku', 'qty'] },
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string', format: 'uuid' } },
+          { name: 'locale', in: 'cookie', schema: { type: 'string' }, example: 'de' },
+        ],
+        responses: { 200: { description: 'Items' } },
+      },
+      post: {
+        operationId: 'addOrderItem',
+        security: [{ apiKey: [] }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['sku', 'quantity'],
+                properties: {
+                  sku: { type: 'string', example: 'SKU-1' },
+                  quantity: { type: 'integer', minimum: 1 },
+                  note: { type: 'string', example: 'Gift "wrap"\nplease' },
+                },
+              },
+            },
+          },
+        },
+        responses: { 201: { description: 'Added' } },
+      },
+    },
+    '/orders': {
+      post: {
+        requestBody: {
+          content: {
+            'application/x-www-form-urlencoded': {
+              schema: { type: 'object', properties: { sku: { type: 'string', example: 'SKU 1' }, tags: { type: 'array', items: { type: 'string' }, example: ['a', 'b'] } } },
+            },
+          },
+        },
+        responses: { 201: { description: 'Created' } },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+  },
+};
+
+function build(path: string, method: 'get' | 'post', options = {}) {
+  const pathItem = snippetSpec.paths[path];
+  return buildSnippetRequest(snippetSpec, path, method, pathItem, pathItem[method]!, options);
+}
+
+describe('buildSnippetRequest', () => {
+  it('serializes parameters according to their style', () => {
+    const request = build('/orders/{orderId}/items', 'get');
+
+    expect(request.url).toBe('https://eu.api.example.com/v1/orders/42/items?status=open&status=held&fields=sku,qty');
+    expect(request.pathParams).toEqual([{ name: 'orderId', value: 42, description: undefined }]);
+    expect(request.headers).toEqual([
+      { name: 'X-Request-Id', value: '3fa85f64-5717-4562-b3fc-2c963f66afa6', description: undefined },
+      { name: 'Cookie', value: 'locale=de' },
+    ]);
+    expect(request.body).toBeUndefined();
+  });
+
+  it('sends the example body with its content type', () => {
+    const request = build('/orders/{orderId}/items', 'post');
+
+    expect(request.title).toBe('POST /orders/{orderId}/items');
+    expect(request.operationId).toBe('addOrderItem');
+    expect(request.headers).toEqual([{ name: 'Content-Type', value: 'application/json' }]);
+    expect(request.body).toEqual({
+      contentType: 'application/json',
+      value: { sku: 'SKU-1', quantity: 1, note: 'Gift "wrap"\nplease' },
+      text: JSON.stringify({ sku: 'SKU-1', quantity: 1, note: 'Gift "wrap"\nplease' }, null, 2),
+    });
+  });
+
+  it('form-encodes urlencoded bodies', () => {
+    expect(build('/orders', 'post').body).toEqual({
+      contentType: 'application/x-www-form-urlencoded',
+      value: { sku: 'SKU 1', tags: ['a', 'b'] },
+      text: 'sku=SKU%201&tags=a%2Cb',
+    });
+  });
+
+  it('adds placeholder credentials with includeAuth', () => {
+    const request = build('/orders/{orderId}/items', 'post', { includeAuth: true });
+
+    expect(request.authentication).toEqual(['apiKey']);
+    expect(request.notes).toEqual(['Authentication: apiKey', "apiKey: API key in the 'X-API-Key' header"]);
+    expect(request.headers).toEqual([
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'X-API-Key', value: 'YOUR_API_KEY' },
+    ]);
+  });
+
+  it('uses the given base URL', () => {
+    expect(build('/orders', 'post', { baseUrl: 'http://localhost:4010' }).url).toBe('http://localhost:4010/orders');
+  });
+});
+
+describe('findSnippetGenerator', () => {
+  it('finds generators by language and alias', () => {
+    expect(findSnippetGenerator('java').language).toBe('java');
+    for (const generator of SNIPPET_GENERATORS) {
+      for (const alias of generator.aliases || []) {
+        expect(findSnippetGenerator(alias)).toBe(generator);
+      }
+    }
+  });
+
+  it('lists the available languages for an unknown one', () => {
+    expect(() => findSnippetGenerator('cobol')).toThrow(/^Unsupported language: cobol\. Available languages: javascript, .*ruby/);
+  });
+});
+
+describe('snippet generators', () => {
+  const requests = {
+    query: build('/orders/{orderId}/items', 'get'),
+    json: build('/orders/{orderId}/items', 'post', { includeAuth: true }),
+    form: build('/orders', 'post'),
+  };
+
+  it.each(SNIPPET_GENERATORS.map(generator => [generator.language, generator] as const))('generates %s', (_, generator) => {
+    for (const [kind, request] of Object.entries(requests)) {
+      expect(generator.generate(request)).toMatchSnapshot(kind);
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { OpenAPISpec, Operation, PathItem } from '../../types/openapi';
+import { parameterExample, requestBodyExample } from '../../core/example-generator';
+import { normalizeMediaType } from '../../core/media-types';
+import {
+  serializeCookieParameter,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQueryParameter,
+} from '../../core/parameter-serializer';
+import { defaultBaseUrl, operationParameters } from '../operations';
+import { snippetCredentials } from './security';
+
+export interface SnippetParameter {
+  name: string;
+  // Example value from the spec (for headers: the value as sent)
+  value: any;
+  description?: string;
+}
+
+/**
+ * Everything a snippet sends, worked out once from the spec so that each
+ * language only has to render it.
+ */
+export interface SnippetRequest {
+  // The operation's summary, or `METHOD /path`
+  title: string;
+  // Further comment lines: how to obtain the credentials
+  notes: string[];
+  // Security schemes the snippet sends (placeholder) credentials for
+  authentication: string[];
+  // Upper-case HTTP method
+  method: string;
+  path: string;
+  operationId?: string;
+  baseUrl: string;
+  // Base URL, path with the example path parameters and the serialized query string
+  url: string;
+  pathParams: SnippetParameter[];
+  query: SnippetParameter[];
+  // Content-Type, credentials, header parameters and a Cookie header for cookie parameters and keys
+  headers: SnippetParameter[];
+  // Not sent for GET and HEAD
+  body?: {
+    contentType: string;
+    value: any;
+    // The body as sent: JSON, form-encoded or the string example itself
+    text: string;
+  };
+}
+
+export interface SnippetGenerator {
+  language: string;
+  // Other names the language can be requested by
+  aliases?: string[];
+  // Language and HTTP library, for listings
+  label: string;
+  generate(request: SnippetRequest): string;
+}
+
+export interface SnippetOptions {
+  // Base URL of the requests (default: the first server)
+  baseUrl?: string;
+  // Where the spec was loaded from, for resolving relative server URLs
+  specUrl?: string | null;
+  includeAuth?: boolean;
+  // Schemes of the security requirement to authenticate with (default: the first)
+  security?: string[];
+}
+
+/**
+ * Collect the example request for an operation: parameter values from the
+ * spec's examples (or generated from their schemas), serialized according to
+ * their style, and the example request body.
+ */
+export function buildSnippetRequest(
+  spec: OpenAPISpec,
+  path: string,
+  method: string,
+  pathItem: PathItem,
+  operation: Operation,
+  options: SnippetOptions = {}
+): SnippetRequest {
+  const upperMethod = method.toUpperCase();
+  const baseUrl = options.baseUrl || (spec.servers?.length ? defaultBaseUrl(spec, options) : 'https://api.example.com');
+  const parameters = operationParameters(spec, { path, method: upperMethod, pathItem, operation });
+
+  const pathParams: SnippetParameter[] = [];
+  const query: SnippetParameter[] = [];
+  const paramHeaders: SnippetParameter[] = [];
+  const queryPairs: string[] = [];
+  const cookies: string[] = [];
+  let urlPath = path;
+
+  for (const param of parameters) {
+    const value = parameterExample(spec, param);
+    const entry: SnippetParameter = { name: param.name, value, description: param.description };
+    switch (param.in) {
+      case 'path':
+        pathParams.push(entry);
+        urlPath = urlPath.split(`{${param.name}}`).join(serializePathParameter(param, value));
+        break;
+      case 'query':
+        query.push(entry);
+        queryPairs.push(...serializeQueryParameter(param, value));
+        break;
+      case 'header':
+        paramHeaders.push({ ...entry, value: serializeHeaderParameter(param, value) });
+        break;
+      case 'cookie':
+        cookies.push(...serializeCookieParameter(param, value));
+        break;
+    }
+  }
+
+  let body: SnippetRequest['body'];
+  if (operation.requestBody && upperMethod !== 'GET' && upperMethod !== 'HEAD') {
+    const example = requestBodyExample(spec, operation);
+    const contentType = example?.contentType || 'application/json';
+    const value = example?.value ?? {};
+    body = { contentType, value, text: bodyText(contentType, value) };
+  }
+
+  const credentials = options.includeAuth ? snippetCredentials(spec, operation, options.security) : undefined;
+  if (credentials) {
+    query.push(...credentials.query);
+    queryPairs.push(...credentials.query.map(key => `${encodeURIComponent(key.name)}=${encodeURIComponent(key.value)}`));
+    cookies.push(...credentials.cookies);
+  }
+
+  const headers: SnippetParameter[] = [];
+  if (body) {
+    headers.push({ name: 'Content-Type', value: body.contentType });
+  }
+  headers.push(...(credentials?.headers || []), ...paramHeaders);
+  if (cookies.length > 0) {
+    headers.push({ name: 'Cookie', value: cookies.join('; ') });
+  }
+
+  return {
+    title: operation.summary || `${upperMethod} ${path}`,
+    notes: credentials?.notes || [],
+    authentication: credentials?.schemes || [],
+    method: upperMethod,
+    path,
+    operationId: operation.operationId,
+    baseUrl,
+    url: `${baseUrl}${urlPath}${queryPairs.length > 0 ? `?${queryPairs.join('&')}` : ''}`,
+    pathParams,
+    query,
+    headers,
+    body,
+  };
+}
+
+/**
+ * The title and notes as a comment, one line each.
+ */
+export function heading(request: SnippetRequest, commentPrefix: string): string {
+  return [request.title, ...request.notes].map(line => `${commentPrefix} ${line}`).join('\n');
+}
+
+// Values as they appear in URLs and headers: arrays comma-separated
+export function plainValue(value: any): string {
+  if (Array.isArray(value)) return value.map(item => plainValue(item)).join(',');
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function bodyText(contentType: string, value: any): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (normalizeMediaType(contentType) === 'application/x-www-form-urlencoded' && value !== null && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, item]) => `${encodeURIComponent(key)}=${encodeURIComponent(plainValue(item))}`)
+      .join('&');
+  }
+  return JSON.stringify(value, null, 2) ?? '';
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+import * as ts from 'typescript';
+import { generateTypeModule } from './type-module';
+import { OpenAPISpec, Schema } from '../types/openapi';
+
+function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Shop', version: '1.0.0' },
+  paths: {
+    '/orders': {
+      post: {
+        requestBody: { content: { 'application/json': { schema: ref('Order') } } },
+        responses: { 201: { description: 'Created', content: { 'application/json': { schema: ref('Order') } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Order: {
+        type: 'object',
+        required: ['id', 'lines'],
+        properties: {
+          id: { type: 'string', format: 'uuid', readOnly: true },
+          lines: { type: 'array', minItems: 1, items: ref('Line') },
+          status: ref('Status'),
+        },
+      },
+      Line: {
+        type: 'object',
+        required: ['sku', 'quantity'],
+        properties: {
+          sku: { type: 'string', pattern: '^[A-Z]+-\\d+$' },
+          quantity: { type: 'integer', minimum: 1 },
+          note: { type: 'string', nullable: true, description: 'Shown on the packing slip' },
+        },
+      },
+      Status: { type: 'string', enum: ['open', 'shipped'] },
+      Money: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+    },
+  },
+};
+
+// Run a generated module and return its exports
+function load(code: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const exports: Record<string, any> = {};
+  new Function('exports', 'require', outputText)(exports, require);
+  return exports;
+}
+
+describe('generateTypeModule', () => {
+  it('declares the requested schemas', () => {
+    expect(generateTypeModule(spec, { schemaNames: ['Line', 'Money'] })).toEqual({
+      code: [
+        'export interface Line {',
+        '  sku: string;',
+        '  quantity: number;',
+        '  /** Shown on the packing slip */',
+        '  note?: string | null;',
+        '}',
+        '',
+        'export type Money = number | string;',
+        '',
+      ].join('\n'),
+      types: ['Line', 'Money'],
+    });
+  });
+
+  it('declares every schema by default', () => {
+    expect(generateTypeModule(spec).types).toEqual(['OrderRequest', 'OrderResponse', 'Line', 'Status', 'Money']);
+  });
+
+  it('declares the schemas an operation uses, with request and response variants', () => {
+    const types = generateTypeModule(spec, { operation: { path: '/orders', method: 'POST' } });
+
+    expect(types.types).toEqual(['OrderRequest', 'OrderResponse', 'Line', 'Status']);
+    expect(types.code).toContain('/** Order as sent in requests, without readOnly properties */\nexport interface OrderRequest {\n  lines: Line[];\n  status?: Status;\n}');
+    expect(types.code).toContain('export interface OrderResponse {\n  id: string;\n  lines: Line[];\n  status?: Status;\n}');
+  });
+
+  it('reports unknown operations and schemas', () => {
+    expect(() => generateTypeModule(spec, { operation: { path: '/carts', method: 'get' } })).toThrow('Path not found: /carts');
+    expect(() => generateTypeModule(spec, { operation: { path: '/orders', method: 'get' } })).toThrow('Method get not found for path /orders');
+    expect(() => generateTypeModule(spec, { schemaNames: ['Cart'] })).toThrow('Schema not found: Cart');
+  });
+
+  it('adds a zod schema after each type', () => {
+    const { code } = generateTypeModule(spec, { schemaNames: ['Line'], zod: true });
+
+    expect(code).toBe([
+      "import { z } from 'zod';",
+      '',
+      'export interface Line {',
+      '  sku: string;',
+      '  quantity: number;',
+      '  /** Shown on the packing slip */',
+      '  note?: string | null;',
+      '}',
+      '',
+      'export const LineSchema: z.ZodType<Line> = z.object({',
+      "  sku: z.string().regex(new RegExp('^[A-Z]+-\\\\d+$')),",
+      '  quantity: z.number().int().gte(1),',
+      '  note: z.string().nullable().optional(),',
+      '});',
+      '',
+    ].join('\n'));
+  });
+
+  it('generates zod schemas that validate like the spec', () => {
+    const { OrderRequestSchema, OrderResponseSchema } = load(generateTypeModule(spec, { schemaNames: ['Order'], zod: true }).code);
+
+    expect(OrderRequestSchema.safeParse({ lines: [{ sku: 'AB-1', quantity: 2, note: null }], status: 'open' }).success).toBe(true);
+    expect(OrderResponseSchema.safeParse({ id: '3fa85f64-5717-4562-b3fc-2c963f66afa6', lines: [{ sku: 'AB-1', quantity: 1 }] }).success).toBe(true);
+
+    const invalid = [
+      { lines: [] },
+      { lines: [{ sku: 'ab-1', quantity: 1 }] },
+      { lines: [{ sku: 'AB-1', quantity: 1.5 }] },
+      { lines: [{ sku: 'AB-1', quantity: 1 }], status: 'lost' },
+    ];
+    invalid.forEach(order => expect(OrderRequestSchema.safeParse(order).success).toBe(false));
+    expect(OrderResponseSchema.safeParse({ id: 'order-1', lines: [{ sku: 'AB-1', quantity: 1 }] }).success).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { OpenAPISpec, Operation, PathItem, Schema } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
+import { NameRegistry } from './naming';
+import { GLOBAL_TYPES, TypeScriptTypes } from './typescript-types';
+import { ZodSchemas } from './zod-schemas';
+
+export interface TypeModuleOptions {
+  // Component schemas to generate (default: all of them)
+  schemaNames?: string[];
+  // Generate the schemas an operation uses instead
+  operation?: { path: string; method: string };
+  // Also generate a zod schema per type
+  zod?: boolean;
+}
+
+export interface GeneratedTypes {
+  code: string;
+  // Declared type names (zod constants add a `Schema` suffix)
+  types: string[];
+}
+
+/**
+ * Generate a TypeScript module declaring component schemas and everything
+ * they refer to, optionally with matching zod schemas.
+ */
+export function generateTypeModule(spec: OpenAPISpec, options: TypeModuleOptions = {}): GeneratedTypes {
+  const types = new TypeScriptTypes(spec, new NameRegistry(['z', ...GLOBAL_TYPES]));
+
+  if (options.operation) {
+    useOperation(spec, types, options.operation.path, options.operation.method);
+  } else if (options.schemaNames && options.schemaNames.length > 0) {
+    options.schemaNames.forEach(name => types.use(name));
+  } else {
+    types.useAll();
+  }
+
+  const declarations = types.declarations();
+  const zod = options.zod ? new ZodSchemas(spec, types) : null;
+  const blocks = declarations.map(declaration =>
+    zod ? `${declaration.code}\n\n${zod.declaration(declaration)}` : declaration.code
+  );
+
+  return {
+    code: [...(zod ? ["import { z } from 'zod';"] : []), ...blocks].join('\n\n') + '\n',
+    types: declarations.map(declaration => declaration.typeName),
+  };
+}
+
+// Mark the component schemas of an operation's parameters, request body
+// (request variants) and responses (response variants) as used
+function useOperation(spec: OpenAPISpec, types: TypeScriptTypes, path: string, method: string): void {
+  const pathItem: PathItem | undefined = spec.paths[path] && deref(spec, spec.paths[path]);
+  if (!pathItem) {
+    throw new Error(`Path not found: ${path}`);
+  }
+  const operation = pathItem[method.toLowerCase() as keyof PathItem] as Operation | undefined;
+  if (!operation) {
+    throw new Error(`Method ${method} not found for path ${path}`);
+  }
+
+  const requestSchemas: Array<Schema | undefined> = [];
+  for (const raw of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const param = deref(spec, raw);
+    requestSchemas.push(param.schema, ...Object.values(param.content || {}).map(media => media.schema));
+  }
+  const requestBody = operation.requestBody && deref(spec, operation.requestBody);
+  requestSchemas.push(...Object.values(requestBody?.content || {}).map(media => media.schema));
+
+  const responseSchemas: Array<Schema | undefined> = [];
+  for (const raw of Object.values(operation.responses || {})) {
+    const response = deref(spec, raw);
+    responseSchemas.push(...Object.values(response?.content || {}).map(media => media.schema));
+    responseSchemas.push(...Object.values(response?.headers || {}).map(header => deref(spec, header).schema));
+  }
+
+  // Rendering records the components a type refers to
+  requestSchemas.forEach(schema => types.typeOf(schema, '', 'request'));
+  responseSchemas.forEach(schema => types.typeOf(schema, '', 'response'));
+}
\ No newline at end of file
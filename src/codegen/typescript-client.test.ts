@@ -0,0 +1,202 @@
+import * as ts from 'typescript';
+import { generateTypeScriptClient } from './typescript-client';
+import { OpenAPISpec, Schema } from '../types/openapi';
+
+function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        tags: ['pets'],
+        parameters: [
+          { name: 'kind', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+          { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+          { name: 'session', in: 'cookie', schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'Pets', content: { 'application/json': { schema: { type: 'array', items: ref('Pet') } } } } },
+      },
+      post: {
+        operationId: 'createPet',
+        tags: ['pets'],
+        requestBody: { required: true, content: { 'application/json': { schema: ref('Pet') } } },
+        responses: {
+          201: { description: 'Created', content: { 'application/json': { schema: ref('Pet') } } },
+          '4XX': { description: 'Rejected', content: { 'application/json': { schema: ref('Error') } } },
+        },
+      },
+    },
+    '/pets/{petId}': {
+      get: {
+        operationId: 'getPet',
+        tags: ['pets'],
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { 200: { description: 'Pet', content: { 'application/json': { schema: ref('Pet') } } } },
+      },
+    },
+    '/health': {
+      get: { responses: { 204: { description: 'Healthy' } } },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'string', readOnly: true },
+          name: { type: 'string' },
+          kind: { type: 'string', enum: ['cat', 'dog'] },
+        },
+      },
+      Error: { type: 'object', required: ['message'], properties: { message: { type: 'string' } } },
+    },
+  },
+};
+
+const FILE_NAME = 'client.ts';
+
+// Type errors of a generated module, checked strictly against ES2022 and the DOM
+function typeErrors(code: string): string[] {
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) =>
+    fileName === FILE_NAME
+      ? ts.createSourceFile(fileName, code, languageVersion)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  const program = ts.createProgram([FILE_NAME], options, host);
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+// Run a generated module and return its exports
+function load(code: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const exports: Record<string, any> = {};
+  new Function('exports', outputText)(exports);
+  return exports;
+}
+
+interface SentRequest {
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+// A fetch answering every request with the given response, recording what was sent
+function fakeFetch(status: number, data?: unknown) {
+  const sent: SentRequest[] = [];
+  const fetch = async (url: string, init: RequestInit) => {
+    sent.push({
+      url,
+      method: init.method,
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: init.body,
+    });
+    return data === undefined
+      ? new Response(null, { status })
+      : new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+  return { fetch, sent };
+}
+
+describe('generateTypeScriptClient', () => {
+  it('groups operations by tag into API classes', () => {
+    const client = generateTypeScriptClient(spec);
+
+    expect(client.className).toBe('PetStoreClient');
+    expect(client.groups).toEqual([
+      { tag: 'pets', property: 'pets', methods: ['listPets', 'createPet', 'getPet'] },
+      { tag: 'default', property: 'default', methods: ['getHealth'] },
+    ]);
+    expect(client.schemaCount).toBe(3);
+  });
+
+  it('only generates the operations of the given tag', () => {
+    const client = generateTypeScriptClient(spec, { tag: 'pets', className: 'Pets' });
+
+    expect(client.className).toBe('Pets');
+    expect(client.groups.map(group => group.tag)).toEqual(['pets']);
+    expect(client.code).not.toContain('getHealth');
+    expect(client.code).toContain("const DEFAULT_BASE_URL = 'https://api.example.com/v1';");
+  });
+
+  it('splits schemas with readOnly properties into request and response types', () => {
+    const { code } = generateTypeScriptClient(spec);
+
+    expect(code).toContain('export interface PetRequest {\n  name: string;\n  kind?: \'cat\' | \'dog\';\n}');
+    expect(code).toContain('export interface PetResponse {\n  id: string;\n  name: string;\n  kind?: \'cat\' | \'dog\';\n}');
+    expect(code).toContain('createPet(body: PetRequest, options?: RequestOptions): Promise<CreatePetResponse>');
+  });
+
+  it('generates a module that type-checks', () => {
+    expect(typeErrors(generateTypeScriptClient(spec).code)).toEqual([]);
+  });
+
+  it('sends parameters where the spec puts them', async () => {
+    const { PetStoreClient } = load(generateTypeScriptClient(spec).code);
+    const { fetch, sent } = fakeFetch(200, []);
+    const client = new PetStoreClient({ fetch, headers: { 'X-Client': 'test' } });
+
+    await client.pets.listPets({ kind: ['cat', 'dog'], 'X-Trace': 'abc', session: 'a b' });
+    await client.pets.getPet({ petId: 'rex/1' });
+
+    expect(sent).toEqual([
+      {
+        url: 'https://api.example.com/v1/pets?kind=cat&kind=dog',
+        method: 'GET',
+        headers: { cookie: 'session=a%20b', 'x-client': 'test', 'x-trace': 'abc' },
+        body: undefined,
+      },
+      { url: 'https://api.example.com/v1/pets/rex%2F1', method: 'GET', headers: { 'x-client': 'test' }, body: undefined },
+    ]);
+  });
+
+  it('sends JSON bodies and lets the auth provider add credentials', async () => {
+    const { PetStoreClient } = load(generateTypeScriptClient(spec).code);
+    const { fetch, sent } = fakeFetch(201, { id: '1', name: 'Rex' });
+    const client = new PetStoreClient({
+      fetch,
+      baseUrl: 'http://localhost:4010',
+      auth: (request: { headers: Headers }) => request.headers.set('Authorization', 'Bearer token'),
+    });
+
+    const response = await client.pets.createPet({ name: 'Rex' });
+
+    expect(sent).toEqual([{
+      url: 'http://localhost:4010/pets',
+      method: 'POST',
+      headers: { authorization: 'Bearer token', 'content-type': 'application/json' },
+      body: '{"name":"Rex"}',
+    }]);
+    expect(response.status).toBe(201);
+    expect(response.data).toEqual({ id: '1', name: 'Rex' });
+  });
+
+  it('returns documented error responses and throws for undocumented ones', async () => {
+    const { PetStoreClient, ApiError } = load(generateTypeScriptClient(spec).code);
+
+    const rejected = new PetStoreClient({ fetch: fakeFetch(422, { message: 'Invalid' }).fetch });
+    await expect(rejected.pets.createPet({ name: '' })).resolves.toMatchObject({ status: 422, data: { message: 'Invalid' } });
+
+    const failing = new PetStoreClient({ fetch: fakeFetch(500, { message: 'Down' }).fetch });
+    const error = await failing.pets.createPet({ name: 'Rex' }).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Unexpected response status 500', status: 500, data: { message: 'Down' } });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,537 @@
+import { MediaType, OpenAPISpec, Operation, Parameter } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
+import { isJsonMediaType, normalizeMediaType } from '../core/media-types';
+import { NameRegistry, camelCase, isIdentifier, pascalCase } from './naming';
+import { Direction, GLOBAL_TYPES, TypeScriptTypes, docComment, literal, union } from './typescript-types';
+import {
+  ClientGeneratorOptions,
+  GeneratedClient,
+  OperationEntry,
+  UNTAGGED,
+  defaultBaseUrl,
+  groupOperations,
+  operationParameters,
+  requestMediaType,
+} from './operations';
+
+// Declared by the runtime part of the module, or globals it relies on. The
+// runtime refers to `Error` and `Response` through globalThis, so schemas
+// with those (common) names keep them
+const RESERVED_NAMES = [
+  'ApiResponse', 'ApiError', 'PreparedRequest', 'AuthProvider', 'FetchLike', 'ClientOptions',
+  'RequestOptions', 'ParameterSpec', 'OperationSpec', 'HttpClient', 'HttpStatus', 'InformationalStatus',
+  'SuccessStatus', 'RedirectStatus', 'ClientErrorStatus', 'ServerErrorStatus',
+  'Exclude', 'FormData', 'Headers', 'Promise', 'RequestInit', 'URL', 'URLSearchParams', ...GLOBAL_TYPES,
+];
+
+// Runtime types for the status codes of each `NXX` range
+const STATUS_RANGES: Record<string, string> = {
+  '1': 'InformationalStatus',
+  '2': 'SuccessStatus',
+  '3': 'RedirectStatus',
+  '4': 'ClientErrorStatus',
+  '5': 'ServerErrorStatus',
+};
+
+/**
+ * Generate a self-contained TypeScript module for a spec: types for the
+ * component schemas, one method per operation grouped into a class per tag,
+ * and a small fetch-based runtime whose fetch and auth can be swapped out.
+ */
+export function generateTypeScriptClient(spec: OpenAPISpec, options: ClientGeneratorOptions = {}): GeneratedClient {
+  return new TypeScriptClientGenerator(spec, options).generate();
+}
+
+class TypeScriptClientGenerator {
+  private spec: OpenAPISpec;
+  private options: ClientGeneratorOptions;
+  private names = new NameRegistry(RESERVED_NAMES);
+  private types: TypeScriptTypes;
+  // Declarations of parameter, body and response types of the operations
+  private operationTypes: string[] = [];
+
+  constructor(spec: OpenAPISpec, options: ClientGeneratorOptions) {
+    this.spec = spec;
+    this.options = options;
+    this.types = new TypeScriptTypes(spec, this.names);
+  }
+
+  generate(): GeneratedClient {
+    const { tag } = this.options;
+    const grouped = groupOperations(this.spec, tag);
+    if (!tag) {
+      this.types.useAll();
+    }
+
+    const className = this.names.claim(this.options.className || `${pascalCase(this.spec.info?.title || '') || 'Api'}Client`);
+    const groups: GeneratedClient['groups'] = [];
+    const groupClasses: string[] = [];
+    const classes: string[] = [];
+
+    for (const [groupTag, entries] of grouped) {
+      const groupClass = this.names.claim(`${pascalCase(groupTag) || 'Default'}Api`);
+      const methodNames = new NameRegistry();
+      const methods = entries.map(entry => this.method(entry, methodNames.claim(this.methodName(entry))));
+
+      groups.push({ tag: groupTag, property: camelCase(groupTag) || 'default', methods: methods.map(method => method.name) });
+      groupClasses.push(groupClass);
+      classes.push(this.groupClass(groupClass, groupTag, methods.map(method => method.code)));
+    }
+
+    const schemas = this.types.declarations().map(declaration => declaration.code);
+    const sections = [
+      this.header(),
+      `const DEFAULT_BASE_URL = ${literal(defaultBaseUrl(this.spec, this.options))};`,
+      ...(schemas.length > 0 ? ['// Schemas', ...schemas] : []),
+      '// Operations',
+      ...this.operationTypes,
+      ...classes,
+      this.clientClass(className, groups, groupClasses),
+      '// Runtime',
+      RUNTIME,
+    ];
+
+    return {
+      code: sections.join('\n\n') + '\n',
+      className,
+      groups,
+      schemaCount: schemas.length,
+    };
+  }
+
+  private methodName(entry: OperationEntry): string {
+    return camelCase(entry.operation.operationId || `${entry.method.toLowerCase()} ${entry.path}`) || 'operation';
+  }
+
+  private method(entry: OperationEntry, name: string): { name: string; code: string } {
+    const { path, method, operation } = entry;
+    const typePrefix = pascalCase(name);
+    const parameters = operationParameters(this.spec, entry);
+
+    const args: string[] = [];
+    if (parameters.length > 0) {
+      const paramsType = this.names.claim(`${typePrefix}Params`);
+      const members = parameters.flatMap(param => {
+        const key = isIdentifier(param.name) ? param.name : literal(param.name);
+        const optional = param.required || param.in === 'path' ? '' : '?';
+        return [...docComment(param, '  '), `  ${key}${optional}: ${this.parameterType(param)};`];
+      });
+      this.operationTypes.push(`export interface ${paramsType} {\n${members.join('\n')}\n}`);
+
+      const required = parameters.some(param => param.required || param.in === 'path');
+      args.push(required ? `params: ${paramsType}` : `params: ${paramsType} = {}`);
+    }
+    const body = this.requestBody(operation, typePrefix);
+    if (body) {
+      args.push(`body${body.required ? '' : '?'}: ${body.type}`);
+    }
+    args.push('options?: RequestOptions');
+    const responseType = this.responseType(operation, typePrefix);
+
+    const operationSpec = [
+      `      id: ${literal(operation.operationId || name)},`,
+      `      method: '${method}',`,
+      `      path: ${literal(path)},`,
+      `      parameters: [${parameters.map(param => this.parameterSpec(param)).join(', ')}],`,
+      ...(body ? [`      mediaType: ${literal(body.mediaType)},`] : []),
+      `      responses: [${Object.keys(operation.responses || {}).map(code => literal(code)).join(', ')}],`,
+    ];
+
+    const doc = docComment({
+      summary: operation.summary || `${method} ${path}`,
+      description: operation.description,
+      deprecated: operation.deprecated,
+    }, '  ');
+
+    const code = [
+      ...doc,
+      `  ${name}(${args.join(', ')}): Promise<${responseType}> {`,
+      `    return this.http.request<${responseType}>({`,
+      ...operationSpec,
+      `    }, ${parameters.length > 0 ? 'params' : '{}'}, ${body ? 'body' : 'undefined'}, options);`,
+      '  }',
+    ].join('\n');
+
+    return { name, code };
+  }
+
+  private parameterType(param: Parameter): string {
+    if (param.schema) {
+      return this.types.typeOf(param.schema, '  ', 'request');
+    }
+    const media = Object.values(param.content || {})[0];
+    return this.types.typeOf(media?.schema, '  ', 'request');
+  }
+
+  private parameterSpec(param: Parameter): string {
+    const fields = [`name: ${literal(param.name)}`, `in: '${param.in}'`];
+    if (param.in === 'query' && param.style && param.style !== 'form') fields.push(`style: '${param.style}'`);
+    if (param.in === 'query' && param.explode !== undefined) fields.push(`explode: ${param.explode}`);
+    if (!param.schema && param.content) fields.push('json: true');
+    return `{ ${fields.join(', ')} }`;
+  }
+
+  /**
+   * Type of the request body in the media type the runtime sends it as.
+   */
+  private requestBody(
+    operation: Operation,
+    typePrefix: string
+  ): { type: string; mediaType: string; required: boolean } | null {
+    const requestBody = operation.requestBody && deref(this.spec, operation.requestBody);
+    const content = requestBody?.content || {};
+    const mediaType = requestMediaType(content);
+
+    if (!requestBody || !mediaType) {
+      return null;
+    }
+
+    return {
+      type: this.named(`${typePrefix}Request`, this.contentType(mediaType, content[mediaType], 'request')),
+      mediaType,
+      required: requestBody.required === true,
+    };
+  }
+
+  /**
+   * Union of `ApiResponse<status, data>` over the documented responses.
+   */
+  private responseType(operation: Operation, typePrefix: string): string {
+    const codes = Object.keys(operation.responses || {});
+    const variants = Object.entries(operation.responses || {}).map(([code, rawResponse]) => {
+      const response = deref(this.spec, rawResponse);
+      const content = Object.entries(response?.content || {});
+      const data = content.length === 0
+        ? 'undefined'
+        : union(content.map(([mediaType, media]) => this.contentType(mediaType, media, 'response')));
+      const status = this.statusType(code, codes);
+      const suffix = code === 'default' ? 'Default' : code.toUpperCase();
+      return `ApiResponse<${status}, ${this.named(`${typePrefix}Response${suffix}`, data)}>`;
+    });
+
+    const responseType = union(variants.length > 0 ? variants : ['ApiResponse<number, unknown>']);
+    if (variants.length <= 1) {
+      return responseType;
+    }
+
+    const name = this.names.claim(`${typePrefix}Response`);
+    this.operationTypes.push(`export type ${name} =\n${variants.map(variant => `  | ${variant}`).join('\n')};`);
+    return name;
+  }
+
+  /**
+   * Status type of a response code. Ranges and `default` leave out the codes
+   * documented separately, so that checking `status` narrows `data`.
+   */
+  private statusType(code: string, codes: string[]): string {
+    if (/^\d{3}$/.test(code)) {
+      return code;
+    }
+
+    const explicit = codes.filter(other => /^\d{3}$/.test(other));
+    const range = /^([1-5])XX$/i.exec(code);
+    if (range) {
+      const excluded = explicit.filter(other => other[0] === range[1]);
+      return excluded.length > 0 ? `Exclude<${STATUS_RANGES[range[1]]}, ${excluded.join(' | ')}>` : STATUS_RANGES[range[1]];
+    }
+
+    const ranges = codes
+      .map(other => /^([1-5])XX$/i.exec(other))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => STATUS_RANGES[match[1]]);
+    const excluded = [...explicit, ...ranges];
+    return excluded.length > 0 ? `Exclude<HttpStatus, ${excluded.join(' | ')}>` : 'HttpStatus';
+  }
+
+  // JSON and form content is typed by its schema; other content is text or
+  // binary, as the runtime's decodeBody reads it
+  private contentType(mediaType: string, media: MediaType, direction: Direction): string {
+    const normalized = normalizeMediaType(mediaType);
+    if (isJsonMediaType(mediaType) || normalized === 'application/x-www-form-urlencoded' || normalized === 'multipart/form-data') {
+      return this.types.typeOf(media.schema, '', direction);
+    }
+    if (normalized.startsWith('text/') || normalized.endsWith('xml')) {
+      return 'string';
+    }
+    return direction === 'request' && media.schema ? this.types.typeOf(media.schema, '', direction) : 'Blob';
+  }
+
+  // Object types get a name of their own instead of being repeated inline
+  private named(name: string, type: string): string {
+    if (!type.includes('\n')) {
+      return type;
+    }
+    const claimed = this.names.claim(name);
+    this.operationTypes.push(`export type ${claimed} = ${type};`);
+    return claimed;
+  }
+
+  private groupClass(name: string, tag: string, methods: string[]): string {
+    const description = this.spec.tags?.find(candidate => candidate.name === tag)?.description;
+    const doc = docComment({ summary: tag === UNTAGGED ? 'Operations without a tag' : `Operations tagged '${tag}'`, description }, '');
+
+    return [
+      ...doc,
+      `export class ${name} {`,
+      '  private readonly http: HttpClient;',
+      '',
+      '  constructor(http: HttpClient) {',
+      '    this.http = http;',
+      '  }',
+      '',
+      methods.join('\n\n'),
+      '}',
+    ].join('\n');
+  }
+
+  private clientClass(name: string, groups: GeneratedClient['groups'], classNames: string[]): string {
+    const properties = groups.map((group, index) => `  readonly ${group.property}: ${classNames[index]};`);
+    const assignments = groups.map((group, index) => `    this.${group.property} = new ${classNames[index]}(http);`);
+
+    return [
+      `export class ${name} {`,
+      ...properties,
+      '',
+      '  constructor(options: ClientOptions = {}) {',
+      '    const http = new HttpClient(options);',
+      ...assignments,
+      '  }',
+      '}',
+    ].join('\n');
+  }
+
+  private header(): string {
+    const { title = 'API', version } = this.spec.info || {};
+    const lines = [
+      `${title}${version ? ` ${version}` : ''} client`,
+      '',
+      'Generated from the OpenAPI description; edits will be lost when it is regenerated.',
+    ];
+    return ['/**', ...lines.map(line => ` *${line ? ` ${line.replace(/\*\//g, '*\\/')}` : ''}`), ' */'].join('\n');
+  }
+}
+
+// Emitted verbatim at the end of every generated module
+const RUNTIME = `export type InformationalStatus = 100 | 101 | 102 | 103;
+export type SuccessStatus = 200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226;
+export type RedirectStatus = 300 | 301 | 302 | 303 | 304 | 305 | 307 | 308;
+export type ClientErrorStatus =
+  | 400 | 401 | 402 | 403 | 404 | 405 | 406 | 407 | 408 | 409 | 410 | 411 | 412 | 413 | 414
+  | 415 | 416 | 417 | 418 | 421 | 422 | 423 | 424 | 425 | 426 | 428 | 429 | 431 | 451;
+export type ServerErrorStatus = 500 | 501 | 502 | 503 | 504 | 505 | 506 | 507 | 508 | 510 | 511;
+export type HttpStatus = InformationalStatus | SuccessStatus | RedirectStatus | ClientErrorStatus | ServerErrorStatus;
+
+export interface ApiResponse<Status extends number, Data> {
+  status: Status;
+  data: Data;
+  headers: Headers;
+}
+
+/** Thrown for responses with a status code the spec does not document */
+export class ApiError extends globalThis.Error {
+  readonly status: number;
+  readonly data: unknown;
+  readonly headers: Headers;
+
+  constructor(status: number, data: unknown, headers: Headers) {
+    super(\`Unexpected response status \${status}\`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    this.headers = headers;
+  }
+}
+
+/** A request about to be sent; an AuthProvider may change its URL and headers */
+export interface PreparedRequest {
+  operationId: string;
+  method: string;
+  url: URL;
+  headers: Headers;
+  body?: RequestInit['body'];
+}
+
+export type AuthProvider = (request: PreparedRequest) => void | Promise<void>;
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<globalThis.Response>;
+
+export interface ClientOptions {
+  /** Base URL of the API, without a trailing slash (default: DEFAULT_BASE_URL) */
+  baseUrl?: string;
+  /** fetch implementation (default: the global fetch) */
+  fetch?: FetchLike;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Adds credentials to every request */
+  auth?: AuthProvider;
+}
+
+export interface RequestOptions {
+  /** Headers for this request only */
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface ParameterSpec {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  style?: string;
+  explode?: boolean;
+  /** Parameters described by \`content\` are sent as JSON */
+  json?: boolean;
+}
+
+export interface OperationSpec {
+  id: string;
+  method: string;
+  path: string;
+  parameters: ParameterSpec[];
+  /** Media type of the request body */
+  mediaType?: string;
+  /** Documented response codes ('200', '4XX', 'default') */
+  responses: string[];
+}
+
+export class HttpClient {
+  private readonly options: ClientOptions;
+
+  constructor(options: ClientOptions = {}) {
+    this.options = options;
+  }
+
+  async request<R extends ApiResponse<number, unknown>>(
+    operation: OperationSpec,
+    params: object,
+    body: unknown,
+    options: RequestOptions = {}
+  ): Promise<R> {
+    const values = params as Record<string, unknown>;
+    const headers = new Headers(this.options.headers);
+    const query: string[] = [];
+    const cookies: string[] = [];
+    let path = operation.path;
+
+    for (const parameter of operation.parameters) {
+      let value = values[parameter.name];
+      if (value === undefined || value === null) continue;
+      if (parameter.json) value = JSON.stringify(value);
+
+      if (parameter.in === 'path') {
+        path = path.replace(\`{\${parameter.name}}\`, encodeURIComponent(serializeValue(value)));
+      } else if (parameter.in === 'query') {
+        query.push(...serializeQuery(parameter, value));
+      } else if (parameter.in === 'header') {
+        headers.set(parameter.name, serializeValue(value));
+      } else {
+        cookies.push(\`\${parameter.name}=\${encodeURIComponent(serializeValue(value))}\`);
+      }
+    }
+    if (cookies.length > 0) headers.set('Cookie', cookies.join('; '));
+    for (const [name, value] of Object.entries(options.headers ?? {})) headers.set(name, value);
+
+    const request: PreparedRequest = {
+      operationId: operation.id,
+      method: operation.method,
+      url: new URL((this.options.baseUrl ?? DEFAULT_BASE_URL) + path + (query.length > 0 ? \`?\${query.join('&')}\` : '')),
+      headers,
+      body: body === undefined ? undefined : encodeBody(operation.mediaType ?? 'application/json', body, headers),
+    };
+    await this.options.auth?.(request);
+
+    const fetchImpl: FetchLike = this.options.fetch ?? ((url, init) => fetch(url, init));
+    const response = await fetchImpl(request.url.toString(), {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: options.signal,
+    });
+
+    const data = await decodeBody(response, request.method);
+    if (operation.responses.length > 0 && !operation.responses.some(code => statusMatches(code, response.status))) {
+      throw new ApiError(response.status, data, response.headers);
+    }
+    return { status: response.status, data, headers: response.headers } as R;
+  }
+}
+
+function serializeValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(serializeValue).join(',');
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => \`\${key},\${serializeValue(item)}\`).join(',');
+  }
+  return String(value);
+}
+
+function serializeQuery(parameter: ParameterSpec, value: unknown): string[] {
+  const name = encodeURIComponent(parameter.name);
+  const style = parameter.style ?? 'form';
+  const explode = parameter.explode ?? style === 'form';
+  const encode = (item: unknown) => encodeURIComponent(serializeValue(item));
+
+  if (Array.isArray(value)) {
+    if (explode) return value.map(item => \`\${name}=\${encode(item)}\`);
+    const separator = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ',';
+    return [\`\${name}=\${value.map(encode).join(separator)}\`];
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (style === 'deepObject') {
+      return entries.map(([key, item]) => \`\${name}[\${encodeURIComponent(key)}]=\${encode(item)}\`);
+    }
+    if (explode) return entries.map(([key, item]) => \`\${encodeURIComponent(key)}=\${encode(item)}\`);
+    return [\`\${name}=\${entries.map(([key, item]) => \`\${encodeURIComponent(key)},\${encode(item)}\`).join(',')}\`];
+  }
+  return [\`\${name}=\${encode(value)}\`];
+}
+
+function formValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Form fields of an object body; array values become repeated fields
+function formFields(body: unknown): Array<[string, unknown]> {
+  return Object.entries(body as Record<string, unknown>)
+    .flatMap(([name, value]) => (Array.isArray(value) ? value : [value]).map((item): [string, unknown] => [name, item]))
+    .filter(([, item]) => item !== undefined && item !== null);
+}
+
+function encodeBody(mediaType: string, body: unknown, headers: Headers): RequestInit['body'] {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+
+  if (type === 'multipart/form-data') {
+    // fetch sets the Content-Type, with the boundary
+    if (body instanceof FormData) return body;
+    const form = new FormData();
+    formFields(body).forEach(([name, item]) => form.append(name, item instanceof Blob ? item : formValue(item)));
+    return form;
+  }
+
+  if (!type.includes('*')) headers.set('Content-Type', mediaType);
+  if (type === 'application/json' || type.endsWith('+json')) {
+    return JSON.stringify(body);
+  }
+  if (type === 'application/x-www-form-urlencoded') {
+    const form = new URLSearchParams();
+    formFields(body).forEach(([name, item]) => form.append(name, formValue(item)));
+    return form;
+  }
+  return body as RequestInit['body'];
+}
+
+async function decodeBody(response: globalThis.Response, method: string): Promise<unknown> {
+  if (method === 'HEAD' || [204, 205, 304].includes(response.status)) return undefined;
+
+  const type = (response.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+  if (type === '' || type.startsWith('text/') || type.endsWith('json') || type.endsWith('xml')) {
+    const text = await response.text();
+    if (text === '') return undefined;
+    return type === 'application/json' || type.endsWith('+json') ? JSON.parse(text) : text;
+  }
+  return response.blob();
+}
+
+function statusMatches(code: string, status: number): boolean {
+  if (code === 'default') return true;
+  if (/^[1-5]XX$/i.test(code)) return code[0] === String(status)[0];
+  return Number(code) === status;
+}`;
\ No newline at end of file
@@ -0,0 +1,507 @@
+import { OpenAPISpec, Schema } from '../types/openapi';
+import { deref, resolvePointer, toPointer } from '../core/ref-resolver';
+import { declaredTypes, isNullable } from '../core/schema-types';
+import { NameRegistry, isIdentifier, pascalCase } from './naming';
+
+// Global types the generated types refer to; schemas must not shadow them
+export const GLOBAL_TYPES = ['Array', 'Blob', 'Record'];
+
+// Requests leave out readOnly properties, responses writeOnly ones
+export type Direction = 'request' | 'response';
+
+export interface TypeDeclaration {
+  schemaName: string;
+  // Set for the request/response variants of schemas with readOnly or writeOnly properties
+  direction?: Direction;
+  typeName: string;
+  code: string;
+}
+
+interface RenderState {
+  // $refs being inlined, to stop at cycles
+  resolving: string[];
+  direction?: Direction;
+}
+
+/**
+ * Turns OpenAPI schemas into TypeScript types. References to
+ * `components.schemas` become named types; every component that is referred
+ * to is recorded so its declaration can be emitted afterwards (see
+ * `declarations`). Other references are inlined.
+ *
+ * Components that (directly or through their references) have readOnly or
+ * writeOnly properties get a request and a response variant, `UserRequest`
+ * and `UserResponse`, used wherever a direction is given.
+ */
+export class TypeScriptTypes {
+  private spec: OpenAPISpec;
+  private typeNames = new Map<string, string>();
+  private variantNames = new Map<string, Record<Direction, string>>();
+  // Component schema name by its `$ref`
+  private refs = new Map<string, string>();
+  // Used types, as `${schemaName}|${direction}` (direction empty for the plain type)
+  private used = new Set<string>();
+
+  constructor(spec: OpenAPISpec, names: NameRegistry) {
+    this.spec = spec;
+    const schemaNames = Object.keys(spec.components?.schemas || {});
+    schemaNames.forEach(name => this.refs.set(toPointer('components', 'schemas', name), name));
+
+    // Names are claimed up front so they do not depend on which operations
+    // are generated
+    const directional = this.directionalSchemas();
+    for (const name of schemaNames) {
+      const typeName = names.claim(pascalCase(name) || 'Schema');
+      this.typeNames.set(name, typeName);
+      if (directional.has(name)) {
+        this.variantNames.set(name, {
+          request: names.claim(`${typeName}Request`),
+          response: names.claim(`${typeName}Response`),
+        });
+      }
+    }
+  }
+
+  get schemaNames(): string[] {
+    return [...this.typeNames.keys()];
+  }
+
+  /**
+   * Type name of a component schema (its variant for a direction, if it has
+   * them), marking it as used.
+   */
+  typeName(schemaName: string, direction?: Direction): string {
+    const variants = this.variantNames.get(schemaName);
+    if (variants && direction) {
+      this.used.add(`${schemaName}|${direction}`);
+      return variants[direction];
+    }
+    this.used.add(`${schemaName}|`);
+    return this.typeNames.get(schemaName)!;
+  }
+
+  /**
+   * Mark a component schema as used, with both variants if it has them.
+   */
+  use(schemaName: string): void {
+    if (!this.typeNames.has(schemaName)) {
+      throw new Error(`Schema not found: ${schemaName}`);
+    }
+    if (this.variantNames.has(schemaName)) {
+      this.typeName(schemaName, 'request');
+      this.typeName(schemaName, 'response');
+    } else {
+      this.typeName(schemaName);
+    }
+  }
+
+  /**
+   * Mark every component schema as used, so `declarations` emits all of them.
+   */
+  useAll(): void {
+    this.typeNames.forEach((_, name) => this.use(name));
+  }
+
+  /**
+   * `export interface`/`export type` declarations for the used component
+   * schemas (and the ones they refer to), in the spec's order.
+   */
+  declarations(): TypeDeclaration[] {
+    const declared = new Map<string, TypeDeclaration>();
+    let pending = [...this.used];
+
+    while (pending.length > 0) {
+      for (const key of pending) {
+        const [schemaName, direction] = key.split('|') as [string, Direction | ''];
+        declared.set(key, this.declare(schemaName, direction || undefined));
+      }
+      pending = [...this.used].filter(key => !declared.has(key));
+    }
+
+    return this.schemaNames.flatMap(name =>
+      ['', 'request', 'response']
+        .map(direction => declared.get(`${name}|${direction}`))
+        .filter((declaration): declaration is TypeDeclaration => declaration !== undefined)
+    );
+  }
+
+  /**
+   * TypeScript type expression for a schema. Object types span several lines,
+   * indented to continue at `indent`.
+   */
+  typeOf(schema: Schema | boolean | undefined, indent: string = '', direction?: Direction): string {
+    return this.render(schema, indent, { resolving: [], direction });
+  }
+
+  /**
+   * Properties of an object schema that apply in a direction, with whether
+   * they are required.
+   */
+  properties(schema: Schema, direction?: Direction): Array<{ name: string; schema: Schema; required: boolean }> {
+    const required = new Set(schema.required || []);
+    return Object.entries(schema.properties || {})
+      .filter(([, property]) => {
+        if (!direction || typeof property !== 'object') return true;
+        const resolved = deref(this.spec, property);
+        const readOnly = property.readOnly || resolved?.readOnly;
+        const writeOnly = property.writeOnly || resolved?.writeOnly;
+        return direction === 'request' ? !readOnly : !writeOnly;
+      })
+      .map(([name, property]) => ({ name, schema: property, required: required.has(name) }));
+  }
+
+  /**
+   * Alternatives of a `oneOf`/`anyOf` with a discriminator, each with its tag
+   * value: the `mapping` entries, then the schema name of every alternative
+   * the mapping does not cover. Null without a discriminator, or when an
+   * alternative is not a component schema.
+   */
+  taggedAlternatives(schema: Schema): { propertyName: string; variants: Array<{ tag: string; schema: Schema }> } | null {
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (!schema.discriminator?.propertyName || !alternatives) {
+      return null;
+    }
+
+    const variants: Array<{ tag: string; schema: Schema }> = [];
+    const mapped = new Set<string>();
+    for (const [tag, target] of Object.entries(schema.discriminator.mapping || {})) {
+      // Mapping values are schema names or references
+      const ref = target.includes('/') ? target : toPointer('components', 'schemas', target);
+      variants.push({ tag, schema: { $ref: ref } });
+      mapped.add(ref);
+    }
+    for (const alternative of alternatives) {
+      const name = alternative.$ref ? this.refs.get(alternative.$ref) : undefined;
+      if (name === undefined) return null;
+      if (!mapped.has(alternative.$ref!)) variants.push({ tag: name, schema: alternative });
+    }
+
+    return { propertyName: schema.discriminator.propertyName, variants };
+  }
+
+  /**
+   * Component schema name a `$ref` points to, if it points to one.
+   */
+  componentName(ref: string): string | undefined {
+    return this.refs.get(ref);
+  }
+
+  /**
+   * Whether a schema is declared as an interface (a plain object type).
+   */
+  isPlainObject(schema: Schema | boolean): boolean {
+    if (typeof schema !== 'object' || schema.$ref || schema.allOf || schema.oneOf || schema.anyOf) return false;
+    if (schema.enum || schema.const !== undefined || isNullable(schema)) return false;
+    const types = declaredTypes(schema);
+    return schema.properties !== undefined && (types.length === 0 || (types.length === 1 && types[0] === 'object'));
+  }
+
+  private render(schema: Schema | boolean | undefined, indent: string, state: RenderState): string {
+    if (schema === undefined || schema === true) return 'unknown';
+    if (schema === false) return 'never';
+
+    if (typeof schema.$ref === 'string') {
+      return this.withNull(this.refType(schema.$ref, indent, state), schema);
+    }
+
+    if (schema.const !== undefined) {
+      return literal(schema.const);
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      const literals = schema.enum.map(value => literal(value));
+      if (isNullable(schema) && !schema.enum.includes(null)) literals.push('null');
+      return union(literals);
+    }
+
+    const parts: string[] = [];
+    if (schema.allOf) {
+      parts.push(...schema.allOf.map(part => this.render(part, indent, state)));
+    }
+    const tagged = this.taggedAlternatives(schema);
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (tagged) {
+      const key = isIdentifier(tagged.propertyName) ? tagged.propertyName : literal(tagged.propertyName);
+      parts.push(union(tagged.variants.map(variant =>
+        `({ ${key}: ${literal(variant.tag)} } & ${parenthesize(this.render(variant.schema, indent, state), '|')})`
+      )));
+    } else if (alternatives) {
+      parts.push(union(alternatives.map(part => this.render(part, indent, state))));
+    }
+
+    const types = declaredTypes(schema);
+    const hasStructure = schema.properties !== undefined || schema.additionalProperties !== undefined
+      || schema.items !== undefined || schema.prefixItems !== undefined;
+    // Next to allOf/oneOf only properties or items add anything
+    if (parts.length === 0 || hasStructure) {
+      const own = (types.length > 0 ? types : [this.impliedType(schema)])
+        .map(type => this.typeOfKind(schema, type, indent, state));
+      parts.push(union(own));
+    }
+
+    const type = parts.length === 1 ? parts[0] : parts.map(part => parenthesize(part, '|')).join(' & ');
+    return this.withNull(type, schema);
+  }
+
+  // `name?: Type;` lines with doc comments, each starting at `indent`
+  private members(schema: Schema, indent: string, state: RenderState): string[] {
+    const lines: string[] = [];
+
+    for (const property of this.properties(schema, state.direction)) {
+      lines.push(...docComment(property.schema, indent));
+      const key = isIdentifier(property.name) ? property.name : literal(property.name);
+      lines.push(`${indent}${key}${property.required ? '' : '?'}: ${this.render(property.schema, indent, state)};`);
+    }
+
+    const extra = schema.additionalProperties ?? (schema.patternProperties ? true : undefined);
+    if (extra !== undefined && extra !== false) {
+      // An index signature has to admit the declared properties as well
+      const valueType = lines.length > 0 ? 'unknown' : this.render(extra, indent, state);
+      lines.push(`${indent}[key: string]: ${valueType};`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Render a component schema (or one of its variants) as `export interface`
+   * (plain objects) or `export type`.
+   */
+  private declare(schemaName: string, direction?: Direction): TypeDeclaration {
+    const schema: Schema = this.spec.components!.schemas![schemaName];
+    const baseName = this.typeNames.get(schemaName)!;
+    const typeName = direction ? this.variantNames.get(schemaName)![direction] : baseName;
+    const state: RenderState = { resolving: [toPointer('components', 'schemas', schemaName)], direction };
+
+    const doc = docComment({
+      summary: direction === 'request'
+        ? `${baseName} as sent in requests, without readOnly properties`
+        : direction === 'response' ? `${baseName} as returned in responses, without writeOnly properties` : undefined,
+      description: typeof schema === 'object' ? schema.description : undefined,
+      deprecated: typeof schema === 'object' ? schema.deprecated : undefined,
+    }, '');
+    const prefix = doc.length > 0 ? `${doc.join('\n')}\n` : '';
+
+    let code: string;
+    if (this.isPlainObject(schema)) {
+      const body = this.members(schema, '  ', state);
+      code = `${prefix}export interface ${typeName} {\n${body.join('\n')}${body.length > 0 ? '\n' : ''}}`;
+    } else {
+      code = `${prefix}export type ${typeName} = ${this.render(schema, '', state)};`;
+    }
+
+    return { schemaName, direction, typeName, code };
+  }
+
+  private refType(ref: string, indent: string, state: RenderState): string {
+    const name = this.refs.get(ref);
+    if (name !== undefined) {
+      return this.typeName(name, state.direction);
+    }
+
+    // Anything else (a property of a component, $defs, ...) is inlined
+    const target = resolvePointer(this.spec, ref);
+    if (target === undefined || state.resolving.includes(ref)) {
+      return 'unknown';
+    }
+    return this.render(target, indent, { ...state, resolving: [...state.resolving, ref] });
+  }
+
+  private impliedType(schema: Schema): string {
+    if (schema.properties || schema.additionalProperties !== undefined || schema.patternProperties) return 'object';
+    if (schema.items || schema.prefixItems) return 'array';
+    return 'any';
+  }
+
+  private typeOfKind(schema: Schema, type: string, indent: string, state: RenderState): string {
+    switch (type) {
+      case 'string':
+        return schema.format === 'binary' ? 'Blob' : 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return this.arrayType(schema, indent, state);
+      case 'object':
+        return this.objectType(schema, indent, state);
+      default:
+        return 'unknown';
+    }
+  }
+
+  private arrayType(schema: Schema, indent: string, state: RenderState): string {
+    if (schema.prefixItems) {
+      const minItems = schema.minItems || 0;
+      const elements = schema.prefixItems.map((item, index) =>
+        `${this.render(item, indent, state)}${index >= minItems ? '?' : ''}`
+      );
+      if ((schema.items as Schema | boolean | undefined) !== false) {
+        elements.push(`...${arrayOf(this.render(schema.items, indent, state))}`);
+      }
+      return `[${elements.join(', ')}]`;
+    }
+    return arrayOf(this.render(schema.items, indent, state));
+  }
+
+  private objectType(schema: Schema, indent: string, state: RenderState): string {
+    if (!schema.properties) {
+      const extra = schema.additionalProperties ?? true;
+      if (extra === false) return 'Record<string, never>';
+      return `Record<string, ${this.render(extra, indent, state)}>`;
+    }
+
+    const members = this.members(schema, `${indent}  `, state);
+    return members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : '{}';
+  }
+
+  private withNull(type: string, schema: Schema): string {
+    return isNullable(schema) && type !== 'null' ? union([type, 'null']) : type;
+  }
+
+  /**
+   * Component schemas whose properties, or those of the components they
+   * refer to, include readOnly or writeOnly ones.
+   */
+  private directionalSchemas(): Set<string> {
+    const schemas = this.spec.components?.schemas || {};
+    const direct = new Set<string>();
+    const dependencies = new Map<string, Set<string>>();
+
+    for (const [name, schema] of Object.entries(schemas)) {
+      const refs = new Set<string>();
+      if (this.scanDirectional(schema, refs, [])) direct.add(name);
+      dependencies.set(name, refs);
+    }
+
+    const directional = new Set<string>();
+    for (const name of Object.keys(schemas)) {
+      const queue = [name];
+      const seen = new Set(queue);
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (direct.has(current)) {
+          directional.add(name);
+          break;
+        }
+        dependencies.get(current)?.forEach(next => {
+          if (!seen.has(next)) {
+            seen.add(next);
+            queue.push(next);
+          }
+        });
+      }
+    }
+    return directional;
+  }
+
+  // Whether a schema has readOnly/writeOnly properties of its own; the
+  // components it refers to are collected in `refs`
+  private scanDirectional(schema: Schema | boolean | undefined, refs: Set<string>, resolving: string[]): boolean {
+    if (!schema || typeof schema !== 'object') return false;
+
+    if (typeof schema.$ref === 'string') {
+      const name = this.refs.get(schema.$ref);
+      if (name !== undefined) {
+        refs.add(name);
+        return false;
+      }
+      if (resolving.includes(schema.$ref)) return false;
+      return this.scanDirectional(resolvePointer(this.spec, schema.$ref), refs, [...resolving, schema.$ref]);
+    }
+
+    let found = Object.values(schema.properties || {}).some(property => {
+      const resolved = deref(this.spec, property);
+      return property?.readOnly || property?.writeOnly || resolved?.readOnly || resolved?.writeOnly;
+    });
+
+    const children: Array<Schema | boolean | undefined> = [
+      ...Object.values(schema.properties || {}),
+      ...(schema.allOf || []),
+      ...(schema.oneOf || []),
+      ...(schema.anyOf || []),
+      ...(schema.prefixItems || []),
+      schema.items,
+      schema.additionalProperties,
+    ];
+    for (const child of children) {
+      if (this.scanDirectional(child, refs, resolving)) found = true;
+    }
+    return found;
+  }
+}
+
+/**
+ * JSDoc lines for a schema's description and deprecation, at `indent`.
+ */
+export function docComment(
+  source: { description?: string; summary?: string; deprecated?: boolean } | boolean | undefined,
+  indent: string
+): string[] {
+  if (!source || typeof source !== 'object') return [];
+
+  const text = [source.summary, source.description]
+    .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+    .join('\n\n');
+  const lines = text ? text.trim().replace(/\*\//g, '*\\/').split('\n') : [];
+  if (source.deprecated) lines.push('@deprecated');
+
+  if (lines.length === 0) return [];
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map(line => `${indent} *${line ? ` ${line}` : ''}`), `${indent} */`];
+}
+
+/**
+ * Union of type expressions, without duplicates; `unknown` absorbs the rest.
+ */
+export function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  if (unique.includes('unknown') || unique.includes('any')) return 'unknown';
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+/**
+ * TypeScript literal for a JSON value, with single-quoted strings. Objects
+ * and arrays have no literal type and give `unknown`.
+ */
+export function literal(value: any): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+    return String(value);
+  }
+  return 'unknown';
+}
+
+function arrayOf(type: string): string {
+  return hasTopLevel(type, '|') || hasTopLevel(type, '&') ? `Array<${type}>` : `${type}[]`;
+}
+
+function parenthesize(type: string, operator: string): string {
+  return hasTopLevel(type, operator) ? `(${type})` : type;
+}
+
+// Whether an operator occurs outside brackets and string literals
+function hasTopLevel(type: string, operator: string): boolean {
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+    if (quoted) {
+      if (char === '\\') i++;
+      else if (char === "'") quoted = false;
+    } else if (char === "'") {
+      quoted = true;
+    } else if ('{[(<'.includes(char)) {
+      depth++;
+    } else if ('}])>'.includes(char)) {
+      depth--;
+    } else if (char === operator && depth === 0) {
+      return true;
+    }
+  }
+  return false;
+}
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { OpenAPISpec, Schema } from '../types/openapi';
+import { resolvePointer, toPointer } from '../core/ref-resolver';
+import { declaredTypes, isNullable, numericBounds } from '../core/schema-types';
+import { isIdentifier } from './naming';
+import { Direction, TypeDeclaration, TypeScriptTypes, literal } from './typescript-types';
+
+interface RenderState {
+  resolving: string[];
+  direction?: Direction;
+}
+
+// String formats with a zod check of their own
+const STRING_FORMATS: Record<string, string> = {
+  email: '.email()',
+  uuid: '.uuid()',
+  uri: '.url()',
+  url: '.url()',
+  'date-time': '.datetime({ offset: true })',
+};
+
+/**
+ * Zod schemas for the types declared by a TypeScriptTypes instance, one
+ * `export const UserSchema: z.ZodType<User>` per type. Components are
+ * referenced through `z.lazy`, so the order of the constants and cycles
+ * between them do not matter.
+ */
+export class ZodSchemas {
+  private spec: OpenAPISpec;
+  private types: TypeScriptTypes;
+
+  constructor(spec: OpenAPISpec, types: TypeScriptTypes) {
+    this.spec = spec;
+    this.types = types;
+  }
+
+  declaration(type: TypeDeclaration): string {
+    const schema = this.spec.components!.schemas![type.schemaName];
+    const state: RenderState = {
+      resolving: [toPointer('components', 'schemas', type.schemaName)],
+      direction: type.direction,
+    };
+    return `export const ${zodSchemaName(type.typeName)}: z.ZodType<${type.typeName}> = ${this.render(schema, '', state)};`;
+  }
+
+  private render(schema: Schema | boolean | undefined, indent: string, state: RenderState): string {
+    if (schema === undefined || schema === true) return 'z.unknown()';
+    if (schema === false) return 'z.never()';
+
+    if (typeof schema.$ref === 'string') {
+      return this.withNull(this.refSchema(schema.$ref, indent, state), schema);
+    }
+
+    if (schema.const !== undefined) {
+      return literalSchema(schema.const);
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      const values = schema.enum.filter(value => value !== null);
+      const nullable = isNullable(schema) || values.length < schema.enum.length;
+      const choices = values.length > 0 && values.every(value => typeof value === 'string')
+        ? `z.enum([${values.map(value => literal(value)).join(', ')}])`
+        : unionOf(values.map(value => literalSchema(value)));
+      return nullable ? `${choices}.nullable()` : choices;
+    }
+
+    const parts: string[] = [];
+    if (schema.allOf) {
+      parts.push(...schema.allOf.map(part => this.render(part, indent, state)));
+    }
+    const tagged = this.types.taggedAlternatives(schema);
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (tagged) {
+      const key = isIdentifier(tagged.propertyName) ? tagged.propertyName : literal(tagged.propertyName);
+      parts.push(unionOf(tagged.variants.map(variant =>
+        `z.object({ ${key}: z.literal(${literal(variant.tag)}) }).and(${this.render(variant.schema, indent, state)})`
+      )));
+    } else if (alternatives) {
+      parts.push(unionOf(alternatives.map(part => this.render(part, indent, state))));
+    }
+
+    const types = declaredTypes(schema);
+    const hasStructure = schema.properties !== undefined || schema.additionalProperties !== undefined
+      || schema.items !== undefined || schema.prefixItems !== undefined;
+    // Mirrors TypeScriptTypes: next to allOf/oneOf only properties or items add anything
+    if (parts.length === 0 || hasStructure) {
+      const own = (types.length > 0 ? types : [impliedType(schema)])
+        .map(type => this.schemaOfKind(schema, type, indent, state));
+      parts.push(unionOf(own));
+    }
+
+    const combined = parts.slice(1).reduce((result, part) => `${result}.and(${part})`, parts[0]);
+    return this.withNull(combined, schema);
+  }
+
+  private refSchema(ref: string, indent: string, state: RenderState): string {
+    const name = this.types.componentName(ref);
+    if (name !== undefined) {
+      return `z.lazy(() => ${zodSchemaName(this.types.typeName(name, state.direction))})`;
+    }
+
+    const target = resolvePointer(this.spec, ref);
+    if (target === undefined || state.resolving.includes(ref)) {
+      return 'z.unknown()';
+    }
+    return this.render(target, indent, { ...state, resolving: [...state.resolving, ref] });
+  }
+
+  private schemaOfKind(schema: Schema, type: string, indent: string, state: RenderState): string {
+    switch (type) {
+      case 'string':
+        return this.stringSchema(schema);
+      case 'integer':
+      case 'number':
+        return this.numberSchema(schema, type === 'integer');
+      case 'boolean':
+        return 'z.boolean()';
+      case 'null':
+        return 'z.null()';
+      case 'array':
+        return this.arraySchema(schema, indent, state);
+      case 'object':
+        return this.objectSchema(schema, indent, state);
+      default:
+        return 'z.unknown()';
+    }
+  }
+
+  private stringSchema(schema: Schema): string {
+    if (schema.format === 'binary') return 'z.instanceof(Blob)';
+
+    let result = 'z.string()';
+    if (schema.format && STRING_FORMATS[schema.format]) result += STRING_FORMATS[schema.format];
+    if (schema.minLength !== undefined) result += `.min(${schema.minLength})`;
+    if (schema.maxLength !== undefined) result += `.max(${schema.maxLength})`;
+    if (schema.pattern) result += `.regex(new RegExp(${literal(schema.pattern)}))`;
+    return result;
+  }
+
+  private numberSchema(schema: Schema, integer: boolean): string {
+    let result = integer ? 'z.number().int()' : 'z.number()';
+    const { lower, upper } = numericBounds(schema);
+    if (lower) result += `.${lower.exclusive ? 'gt' : 'gte'}(${lower.value})`;
+    if (upper) result += `.${upper.exclusive ? 'lt' : 'lte'}(${upper.value})`;
+    if (schema.multipleOf !== undefined) result += `.multipleOf(${schema.multipleOf})`;
+    return result;
+  }
+
+  private arraySchema(schema: Schema, indent: string, state: RenderState): string {
+    if (schema.prefixItems) {
+      const minItems = schema.minItems || 0;
+      const elements = schema.prefixItems.map((item, index) =>
+        `${this.render(item, indent, state)}${index >= minItems ? '.optional()' : ''}`
+      );
+      const tuple = `z.tuple([${elements.join(', ')}])`;
+      return (schema.items as Schema | boolean | undefined) === false
+        ? tuple
+        : `${tuple}.rest(${this.render(schema.items, indent, state)})`;
+    }
+
+    let result = `z.array(${this.render(schema.items, indent, state)})`;
+    if (schema.minItems !== undefined) result += `.min(${schema.minItems})`;
+    if (schema.maxItems !== undefined) result += `.max(${schema.maxItems})`;
+    return result;
+  }
+
+  private objectSchema(schema: Schema, indent: string, state: RenderState): string {
+    const extra = schema.additionalProperties ?? (schema.patternProperties ? true : undefined);
+
+    if (!schema.properties) {
+      if (extra === false) return 'z.object({}).strict()';
+      return `z.record(z.string(), ${this.render(extra ?? true, indent, state)})`;
+    }
+
+    const memberIndent = `${indent}  `;
+    const members = this.types.properties(schema, state.direction).map(property => {
+      const key = isIdentifier(property.name) ? property.name : literal(property.name);
+      const value = this.render(property.schema, memberIndent, state);
+      return `${memberIndent}${key}: ${value}${property.required ? '' : '.optional()'},`;
+    });
+
+    let result = members.length > 0 ? `z.object({\n${members.join('\n')}\n${indent}})` : 'z.object({})';
+    // Same as the index signature of the TypeScript type
+    if (extra === false) result += '.strict()';
+    else if (extra !== undefined) result += '.catchall(z.unknown())';
+    return result;
+  }
+
+  private withNull(expression: string, schema: Schema): string {
+    return isNullable(schema) && expression !== 'z.null()' && expression !== 'z.unknown()'
+      ? `${expression}.nullable()`
+      : expression;
+  }
+}
+
+function impliedType(schema: Schema): string {
+  if (schema.properties || schema.additionalProperties !== undefined || schema.patternProperties) return 'object';
+  if (schema.items || schema.prefixItems) return 'array';
+  return 'any';
+}
+
+function literalSchema(value: any): string {
+  if (value === null) return 'z.null()';
+  const type = literal(value);
+  return type === 'unknown' ? 'z.unknown()' : `z.literal(${type})`;
+}
+
+// z.union needs at least two members; z.unknown() absorbs the others
+function unionOf(schemas: string[]): string {
+  const unique = [...new Set(schemas)];
+  if (unique.includes('z.unknown()')) return 'z.unknown()';
+  if (unique.length === 0) return 'z.never()';
+  return unique.length === 1 ? unique[0] : `z.union([${unique.join(', ')}])`;
+}
+
+// Name of the zod schema constant for a generated type
+function zodSchemaName(typeName: string): string {
+  return `${typeName}Schema`;
+}
\ No newline at end of file
@@ -1,4 +1,15 @@
-import { Config, ConfigSchema, CliOptions } from '../types/config';
+import {
+  CallEndpointConfig,
+  CliOptions,
+  Config,
+  ConfigSchema,
+  Credential,
+  LintConfig,
+  SpecAuth,
+  SpecSource,
+  TransportType,
+  ValidationMode,
+} from '../types/config';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -38,13 +49,35 @@ export class ConfigManager {
     if (process.env.RETRY_DELAY) {
       config.retryDelay = parseInt(process.env.RETRY_DELAY, 10);
     }
+    if (process.env.MCP_TRANSPORT) {
+      config.transport = process.env.MCP_TRANSPORT as Config['transport'];
+    }
+    if (process.env.MCP_HOST) {
+      config.host = process.env.MCP_HOST;
+    }
+    if (process.env.MCP_PORT) {
+      config.port = parseInt(process.env.MCP_PORT, 10);
+    }
+    if (process.env.OPENAPI_ALLOW_SPEC_URLS) {
+      config.allowSpecUrls = process.env.OPENAPI_ALLOW_SPEC_URLS === 'true';
+    }
+    if (process.env.OPENAPI_VALIDATION) {
+      config.validation = process.env.OPENAPI_VALIDATION as Config['validation'];
+    }
+    config.auth = this.loadAuthFromEnv();
+    if (process.env.CALL_ALLOWED_HOSTS) {
+      config.callEndpoint = {
+        readOnly: true,
+        allowedHosts: process.env.CALL_ALLOWED_HOSTS.split(',').map(host => host.trim()).filter(Boolean),
+      };
+    }
 
     // Load from config file if exists
     const configFilePath = path.join(process.cwd(), 'openapi-mcp.config.json');
     if (fs.existsSync(configFilePath)) {
       try {
         const fileConfig = JSON.parse(fs.readFileSync(configFilePath, 'utf-8'));
-        config = { ...config, ...fileConfig };
+        config = { ...config, ...fileConfig, auth: { ...config.auth, ...fileConfig.auth } };
       } catch (error) {
         console.warn(`Failed to load config file: ${error}`);
       }
@@ -53,6 +86,7 @@ export class ConfigManager {
     // Override with CLI options
     if (cliOptions) {
       if (cliOptions.url) config.openApiUrl = cliOptions.url;
+      if (cliOptions.spec) config.openApiUrl = cliOptions.spec;
       if (cliOptions.cacheTtl !== undefined) config.cacheTtl = cliOptions.cacheTtl;
       if (cliOptions.cacheDir) config.cacheDir = cliOptions.cacheDir;
       if (cliOptions.logLevel) config.logLevel = cliOptions.logLevel as Config['logLevel'];
@@ -60,12 +94,90 @@ export class ConfigManager {
       if (cliOptions.requestTimeout !== undefined) config.requestTimeout = cliOptions.requestTimeout;
       if (cliOptions.retryAttempts !== undefined) config.retryAttempts = cliOptions.retryAttempts;
       if (cliOptions.retryDelay !== undefined) config.retryDelay = cliOptions.retryDelay;
+      if (cliOptions.transport) config.transport = cliOptions.transport as Config['transport'];
+      if (cliOptions.host) config.host = cliOptions.host;
+      if (cliOptions.port !== undefined) config.port = cliOptions.port;
+      if (cliOptions.allowSpecUrls) config.allowSpecUrls = true;
+      if (cliOptions.validation) config.validation = cliOptions.validation as Config['validation'];
+      config.auth = { ...config.auth, ...this.loadAuthFromCli(cliOptions) };
+      if (cliOptions.allowHost && cliOptions.allowHost.length > 0) {
+        config.callEndpoint = { readOnly: true, ...config.callEndpoint, allowedHosts: cliOptions.allowHost };
+      }
+      if (cliOptions.allowWrites) {
+        config.callEndpoint = { allowedHosts: [], ...config.callEndpoint, readOnly: false };
+      }
     }
 
     // Validate and apply defaults
     return ConfigSchema.parse(config);
   }
 
+  private loadAuthFromEnv(): SpecAuth {
+    const auth: SpecAuth = {};
+
+    if (process.env.OPENAPI_HEADERS) {
+      try {
+        auth.headers = JSON.parse(process.env.OPENAPI_HEADERS);
+      } catch (error) {
+        console.warn(`Ignoring OPENAPI_HEADERS, expected a JSON object: ${error}`);
+      }
+    }
+    if (process.env.OPENAPI_BEARER_TOKEN) {
+      auth.bearerToken = process.env.OPENAPI_BEARER_TOKEN;
+    }
+    if (process.env.OPENAPI_BEARER_TOKEN_COMMAND) {
+      auth.bearerTokenCommand = process.env.OPENAPI_BEARER_TOKEN_COMMAND;
+    }
+    if (process.env.OPENAPI_BASIC_AUTH) {
+      auth.basic = this.parseBasicAuth(process.env.OPENAPI_BASIC_AUTH);
+    }
+    if (process.env.OPENAPI_CLIENT_CERT) {
+      auth.clientCert = process.env.OPENAPI_CLIENT_CERT;
+    }
+    if (process.env.OPENAPI_CLIENT_KEY) {
+      auth.clientKey = process.env.OPENAPI_CLIENT_KEY;
+    }
+    if (process.env.OPENAPI_CLIENT_KEY_PASSPHRASE) {
+      auth.clientKeyPassphrase = process.env.OPENAPI_CLIENT_KEY_PASSPHRASE;
+    }
+    if (process.env.OPENAPI_CA_BUNDLE) {
+      auth.caBundle = process.env.OPENAPI_CA_BUNDLE;
+    }
+
+    return auth;
+  }
+
+  private loadAuthFromCli(cliOptions: CliOptions): SpecAuth {
+    const auth: SpecAuth = {};
+
+    if (cliOptions.header && cliOptions.header.length > 0) {
+      auth.headers = {};
+      for (const header of cliOptions.header) {
+        const separator = header.indexOf(':');
+        if (separator <= 0) {
+          throw new Error(`Invalid header "${header}", expected "Name: value"`);
+        }
+        auth.headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+      }
+    }
+    if (cliOptions.bearerToken) auth.bearerToken = cliOptions.bearerToken;
+    if (cliOptions.bearerTokenCommand) auth.bearerTokenCommand = cliOptions.bearerTokenCommand;
+    if (cliOptions.basicAuth) auth.basic = this.parseBasicAuth(cliOptions.basicAuth);
+    if (cliOptions.clientCert) auth.clientCert = cliOptions.clientCert;
+    if (cliOptions.clientKey) auth.clientKey = cliOptions.clientKey;
+    if (cliOptions.caBundle) auth.caBundle = cliOptions.caBundle;
+
+    return auth;
+  }
+
+  private parseBasicAuth(value: string): SpecAuth['basic'] {
+    const separator = value.indexOf(':');
+    if (separator < 0) {
+      throw new Error('Invalid basic auth credentials, expected "username:password"');
+    }
+    return { username: value.slice(0, separator), password: value.slice(separator + 1) };
+  }
+
   getConfig(): Config {
     return this.config;
   }
@@ -74,6 +186,14 @@ export class ConfigManager {
     return this.config.openApiUrl;
   }
 
+  get specs(): SpecSource[] {
+    return this.config.specs;
+  }
+
+  get defaultSpec(): string | undefined {
+    return this.config.defaultSpec;
+  }
+
   get cacheTtl(): number {
     return this.config.cacheTtl;
   }
@@ -102,6 +222,42 @@ export class ConfigManager {
     return this.config.retryDelay;
   }
 
+  get transport(): TransportType {
+    return this.config.transport;
+  }
+
+  get host(): string {
+    return this.config.host;
+  }
+
+  get port(): number {
+    return this.config.port;
+  }
+
+  get allowSpecUrls(): boolean {
+    return this.config.allowSpecUrls ?? this.config.transport === 'stdio';
+  }
+
+  get auth(): SpecAuth | undefined {
+    return this.config.auth;
+  }
+
+  get credentials(): Record<string, Credential> | undefined {
+    return this.config.credentials;
+  }
+
+  get callEndpoint(): CallEndpointConfig {
+    return this.config.callEndpoint;
+  }
+
+  get lint(): LintConfig {
+    return this.config.lint;
+  }
+
+  get validation(): ValidationMode {
+    return this.config.validation;
+  }
+
   updateUrl(url: string): void {
     this.config.openApiUrl = url;
   }
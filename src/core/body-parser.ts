@@ -0,0 +1,341 @@
+import { Encoding, OpenAPISpec, Schema } from '../types/openapi';
+import { deref } from './ref-resolver';
+import { normalizeMediaType, isJsonMediaType } from './media-types';
+
+export interface BodyParseResult {
+  value: any;
+  errors: Array<{ path: string; message: string }>;
+}
+
+// A multipart part given with its metadata rather than as a bare value
+interface MultipartPart {
+  value: any;
+  contentType?: string;
+  filename?: string;
+  headers?: Record<string, string>;
+}
+
+const PART_DESCRIPTOR_KEYS = ['value', 'contentType', 'filename', 'headers'];
+
+const DELIMITERS: Record<string, string> = {
+  form: ',',
+  simple: ',',
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+};
+
+/**
+ * Primary type of a schema, looking through `$ref`s and OpenAPI 3.1 type arrays.
+ */
+export function schemaType(spec: OpenAPISpec, schema: Schema | undefined): string | undefined {
+  const resolved: any = schema ? deref(spec, schema) : undefined;
+  if (!resolved) return undefined;
+
+  if (Array.isArray(resolved.type)) {
+    return resolved.type.find((type: string) => type !== 'null');
+  }
+  if (resolved.type) {
+    return resolved.type;
+  }
+  if (resolved.properties) return 'object';
+  if (resolved.items) return 'array';
+  return undefined;
+}
+
+/**
+ * Convert a string taken from a URL, header or form field into the primitive
+ * type its schema asks for. Values that don't look like that type are left as
+ * strings so schema validation reports them.
+ */
+export function coercePrimitive(spec: OpenAPISpec, raw: any, schema: Schema | undefined): any {
+  if (typeof raw !== 'string') {
+    return raw;
+  }
+
+  switch (schemaType(spec, schema)) {
+    case 'integer':
+    case 'number': {
+      if (raw.trim() === '') return raw;
+      const num = Number(raw);
+      return Number.isNaN(num) ? raw : num;
+    }
+    case 'boolean':
+      if (raw === 'true') return true;
+      if (raw === 'false') return false;
+      return raw;
+    case 'null':
+      return raw === '' || raw === 'null' ? null : raw;
+    case 'object':
+    case 'array': {
+      const trimmed = raw.trim();
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+          return JSON.parse(trimmed);
+        } catch {
+          return raw;
+        }
+      }
+      return raw;
+    }
+    default:
+      return raw;
+  }
+}
+
+function propertySchema(spec: OpenAPISpec, schema: Schema | undefined, name: string): Schema | undefined {
+  const resolved: any = schema ? deref(spec, schema) : undefined;
+  if (!resolved) return undefined;
+
+  if (resolved.properties?.[name]) {
+    return resolved.properties[name];
+  }
+  // Look into allOf members, the common way of composing form schemas
+  for (const member of resolved.allOf || []) {
+    const found = propertySchema(spec, member, name);
+    if (found) return found;
+  }
+  if (resolved.additionalProperties && typeof resolved.additionalProperties === 'object') {
+    return resolved.additionalProperties;
+  }
+  return undefined;
+}
+
+/**
+ * Parse an application/x-www-form-urlencoded body (a raw string or an object
+ * of field values) into a typed object, honouring each field's Encoding
+ * `style`/`explode`.
+ */
+export function parseFormBody(
+  spec: OpenAPISpec,
+  body: any,
+  schema: Schema | undefined,
+  encoding: Record<string, Encoding> = {}
+): BodyParseResult {
+  const errors: BodyParseResult['errors'] = [];
+  const fields = new Map<string, string[]>();
+
+  if (typeof body === 'string') {
+    const params = new URLSearchParams(body.startsWith('?') ? body.substring(1) : body);
+    for (const [key, value] of params) {
+      fields.set(key, [...(fields.get(key) || []), value]);
+    }
+  } else if (body && typeof body === 'object' && !Array.isArray(body)) {
+    for (const [key, value] of Object.entries(body)) {
+      fields.set(key, Array.isArray(value) ? value.map(String) : [typeof value === 'string' ? value : JSON.stringify(value)]);
+    }
+  } else {
+    errors.push({ path: 'body', message: 'Form body must be a URL-encoded string or an object of fields' });
+    return { value: body, errors };
+  }
+
+  const value: Record<string, any> = {};
+  const deepObjects = new Map<string, Record<string, any>>();
+
+  for (const [key, values] of fields) {
+    // deepObject style: field[prop]=value
+    const deepMatch = key.match(/^([^[\]]+)\[([^[\]]+)\]$/);
+    if (deepMatch && encoding[deepMatch[1]]?.style === 'deepObject') {
+      const [, name, prop] = deepMatch;
+      const target = deepObjects.get(name) || {};
+      const fieldSchema = propertySchema(spec, schema, name);
+      target[prop] = coercePrimitive(spec, values[values.length - 1], propertySchema(spec, fieldSchema, prop));
+      deepObjects.set(name, target);
+      continue;
+    }
+
+    const fieldSchema = propertySchema(spec, schema, key);
+    const fieldEncoding = encoding[key] || {};
+    const style = fieldEncoding.style || 'form';
+    const explode = fieldEncoding.explode ?? style === 'form';
+
+    if (schemaType(spec, fieldSchema) === 'array') {
+      const itemSchema = (deref(spec, fieldSchema) as any)?.items;
+      const items = explode
+        ? values
+        : values.flatMap(item => item.split(DELIMITERS[style] || ','));
+      value[key] = items.map(item => coercePrimitive(spec, item, itemSchema));
+    } else {
+      if (values.length > 1) {
+        errors.push({ path: `body/${key}`, message: `Field '${key}' is repeated but is not an array` });
+      }
+      value[key] = coercePrimitive(spec, values[values.length - 1], fieldSchema);
+    }
+  }
+
+  for (const [name, object] of deepObjects) {
+    value[name] = object;
+  }
+
+  return { value, errors };
+}
+
+/**
+ * Parse a multipart/form-data body into an object of part values, checking
+ * each part against its Encoding object (allowed content types and required
+ * part headers). Accepts a raw multipart payload (when the content type
+ * carries a boundary) or an object whose values are bare part values or
+ * `{ value, contentType, filename, headers }` descriptors.
+ */
+export function parseMultipartBody(
+  spec: OpenAPISpec,
+  body: any,
+  contentType: string,
+  schema: Schema | undefined,
+  encoding: Record<string, Encoding> = {}
+): BodyParseResult {
+  const errors: BodyParseResult['errors'] = [];
+  let parts: Map<string, MultipartPart[]>;
+
+  if (typeof body === 'string') {
+    const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+    if (!boundary) {
+      errors.push({ path: 'body', message: 'Raw multipart body given but the content type has no boundary parameter' });
+      return { value: body, errors };
+    }
+    parts = splitMultipart(body, boundary);
+  } else if (body && typeof body === 'object' && !Array.isArray(body)) {
+    parts = new Map();
+    for (const [name, raw] of Object.entries(body)) {
+      const items = Array.isArray(raw) && schemaType(spec, propertySchema(spec, schema, name)) === 'array' ? raw : [raw];
+      parts.set(name, items.map(item => (isPartDescriptor(item) ? item : { value: item })));
+    }
+  } else {
+    errors.push({ path: 'body', message: 'Multipart body must be a raw multipart string or an object of parts' });
+    return { value: body, errors };
+  }
+
+  const value: Record<string, any> = {};
+
+  for (const [name, partList] of parts) {
+    const fieldSchema = propertySchema(spec, schema, name);
+    const isArray = schemaType(spec, fieldSchema) === 'array';
+    const valueSchema = isArray ? (deref(spec, fieldSchema) as any)?.items : fieldSchema;
+    const partEncoding = encoding[name];
+
+    const values = partList.map(part => {
+      checkPartEncoding(spec, name, part, valueSchema, partEncoding, errors);
+
+      if (part.contentType && isJsonMediaType(part.contentType) && typeof part.value === 'string') {
+        try {
+          return JSON.parse(part.value);
+        } catch {
+          errors.push({ path: `body/${name}`, message: `Part '${name}' is declared as ${part.contentType} but is not valid JSON` });
+          return part.value;
+        }
+      }
+      return coercePrimitive(spec, part.value, valueSchema);
+    });
+
+    if (!isArray && values.length > 1) {
+      errors.push({ path: `body/${name}`, message: `Part '${name}' is repeated but is not an array` });
+    }
+    value[name] = isArray ? values : values[values.length - 1];
+  }
+
+  return { value, errors };
+}
+
+function isPartDescriptor(value: any): value is MultipartPart {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    'value' in value &&
+    Object.keys(value).every(key => PART_DESCRIPTOR_KEYS.includes(key))
+  );
+}
+
+/**
+ * Default part content type per the OpenAPI spec's Encoding object rules.
+ */
+function defaultPartContentType(spec: OpenAPISpec, schema: Schema | undefined): string {
+  const resolved: any = schema ? deref(spec, schema) : undefined;
+  const type = schemaType(spec, schema);
+
+  if (type === 'object' || type === 'array') return 'application/json';
+  if (type === 'string' && (resolved?.format === 'binary' || resolved?.format === 'byte' || resolved?.contentEncoding)) {
+    return 'application/octet-stream';
+  }
+  return 'text/plain';
+}
+
+function mediaRangeMatches(range: string, mediaType: string): boolean {
+  const wanted = normalizeMediaType(range);
+  const actual = normalizeMediaType(mediaType);
+  if (wanted === '*/*' || wanted === actual) return true;
+  if (wanted.endsWith('/*')) return actual.startsWith(wanted.slice(0, -1));
+  return false;
+}
+
+function checkPartEncoding(
+  spec: OpenAPISpec,
+  name: string,
+  part: MultipartPart,
+  schema: Schema | undefined,
+  partEncoding: Encoding | undefined,
+  errors: BodyParseResult['errors']
+): void {
+  if (part.contentType) {
+    const allowed = (partEncoding?.contentType || defaultPartContentType(spec, schema))
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean);
+    if (!allowed.some(range => mediaRangeMatches(range, part.contentType!))) {
+      errors.push({
+        path: `body/${name}`,
+        message: `Part '${name}' has content type '${part.contentType}' but the spec allows ${allowed.join(', ')}`,
+      });
+    }
+  }
+
+  for (const [headerName, header] of Object.entries(partEncoding?.headers || {})) {
+    // Content-Type is governed by `contentType`, not `headers`
+    if (headerName.toLowerCase() === 'content-type') continue;
+
+    const provided = Object.keys(part.headers || {}).some(key => key.toLowerCase() === headerName.toLowerCase());
+    if (header.required && !provided) {
+      errors.push({
+        path: `body/${name}`,
+        message: `Part '${name}' is missing required header '${headerName}'`,
+      });
+    }
+  }
+}
+
+function splitMultipart(body: string, boundary: string): Map<string, MultipartPart[]> {
+  const parts = new Map<string, MultipartPart[]>();
+  const sections = body.split(`--${boundary}`).slice(1);
+
+  for (const section of sections) {
+    if (section.startsWith('--')) break;
+
+    const trimmed = section.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+    const separator = trimmed.match(/\r?\n\r?\n/);
+    if (!separator || separator.index === undefined) continue;
+
+    const headerBlock = trimmed.substring(0, separator.index);
+    const content = trimmed.substring(separator.index + separator[0].length);
+
+    const headers: Record<string, string> = {};
+    for (const line of headerBlock.split(/\r?\n/)) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers[line.substring(0, colon).trim().toLowerCase()] = line.substring(colon + 1).trim();
+      }
+    }
+
+    const disposition = headers['content-disposition'] || '';
+    const name = disposition.match(/\bname="([^"]*)"/)?.[1];
+    if (!name) continue;
+
+    const part: MultipartPart = {
+      value: content,
+      contentType: headers['content-type'],
+      filename: disposition.match(/\bfilename="([^"]*)"/)?.[1],
+      headers,
+    };
+    parts.set(name, [...(parts.get(name) || []), part]);
+  }
+
+  return parts;
+}
\ No newline at end of file
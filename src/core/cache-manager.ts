@@ -4,16 +4,26 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import * as os from 'os';
 import { OpenAPISpec } from '../types/openapi';
+import { redactUrl } from './spec-auth';
 import * as zlib from 'zlib';
 import { promisify } from 'util';
 
 const gzip = promisify(zlib.gzip);
 const gunzip = promisify(zlib.gunzip);
 
-export interface CacheEntry {
-  spec: OpenAPISpec;
+export interface CacheValidators {
+  // HTTP sources
   etag?: string;
   lastModified?: string;
+  // Local file sources
+  mtimeMs?: number;
+  contentHash?: string;
+  // Files pulled in through external $refs, with their modification times
+  dependencies?: Record<string, number>;
+}
+
+export interface CacheEntry extends CacheValidators {
+  spec: OpenAPISpec;
   timestamp: number;
   url: string;
 }
@@ -100,13 +110,13 @@ export class CacheManager {
     return null;
   }
 
-  async set(url: string, spec: OpenAPISpec, etag?: string, lastModified?: string): Promise<void> {
+  async set(url: string, spec: OpenAPISpec, validators: CacheValidators = {}): Promise<void> {
     const entry: CacheEntry = {
       spec,
-      etag,
-      lastModified,
+      ...validators,
       timestamp: Date.now(),
-      url,
+      // The URL may carry credentials; only its redacted form is persisted
+      url: redactUrl(url),
     };
 
     // Store in memory cache
@@ -0,0 +1,205 @@
+import { generateExample, parameterExample, requestBodyExample } from './example-generator';
+import { SchemaValidator } from './schema-validator';
+import { OpenAPISpec, Schema } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/owners': {
+      post: {
+        requestBody: {
+          content: {
+            'application/xml': { schema: { $ref: '#/components/schemas/Owner' } },
+            'application/json': { schema: { $ref: '#/components/schemas/Owner' } },
+          },
+        },
+        responses: {},
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Owner: {
+        type: 'object',
+        required: ['id', 'name', 'pets'],
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          name: { type: 'string' },
+          password: { type: 'string', writeOnly: true },
+          code: { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' },
+          pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+        },
+      },
+      Pet: {
+        type: 'object',
+        required: ['name', 'owner'],
+        properties: {
+          name: { type: 'string' },
+          owner: { $ref: '#/components/schemas/Owner' },
+          parent: { $ref: '#/components/schemas/Pet' },
+        },
+      },
+      Node: {
+        type: 'object',
+        required: ['value', 'next'],
+        properties: {
+          value: { type: 'integer' },
+          next: { $ref: '#/components/schemas/NullableNode' },
+        },
+      },
+      NullableNode: {
+        type: 'object',
+        nullable: true,
+        required: ['next'],
+        properties: { next: { $ref: '#/components/schemas/NullableNode' } },
+      },
+      Animal: {
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: { propertyName: 'kind', mapping: { cat: '#/components/schemas/Cat' } },
+      },
+      Cat: {
+        type: 'object',
+        required: ['kind'],
+        properties: { kind: { type: 'string' }, lives: { type: 'integer', minimum: 1, maximum: 9 } },
+      },
+      Dog: { type: 'object', properties: { kind: { type: 'string' } } },
+    },
+  },
+};
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+describe('generateExample', () => {
+  it('prefers documented values over generated ones', () => {
+    expect(generateExample(spec, { type: 'string', example: 'documented', default: 'fallback' })).toBe('documented');
+    expect(generateExample(spec, { type: 'string', default: 'fallback', enum: ['a', 'fallback'] })).toBe('fallback');
+    expect(generateExample(spec, { type: 'string', enum: ['a', 'b'] })).toBe('a');
+    expect(generateExample(spec, { type: 'string', example: 'documented' }, { useExamples: false })).toBe('string');
+  });
+
+  it('follows formats, property names and numeric constraints', () => {
+    const schema: Schema = {
+      type: 'object',
+      properties: {
+        email: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' },
+        price: { type: 'number', minimum: 0, exclusiveMinimum: true, multipleOf: 0.25 },
+        code: { type: 'string', minLength: 8 },
+      },
+    };
+
+    expect(generateExample(spec, schema)).toEqual({
+      email: 'alice@example.com',
+      createdAt: '2024-01-15T09:30:00Z',
+      price: 0.25,
+      code: 'stringxx',
+    });
+  });
+
+  it('leaves out readOnly properties in requests and writeOnly ones in responses', () => {
+    const request = generateExample(spec, ref('Owner'), { direction: 'request' });
+    const response = generateExample(spec, ref('Owner'), { direction: 'response' });
+
+    expect(request).not.toHaveProperty('id');
+    expect(request).toHaveProperty('password');
+    expect(response).toHaveProperty('id');
+    expect(response).not.toHaveProperty('password');
+  });
+
+  it('sets the discriminator to the value that selects the option', () => {
+    expect(generateExample(spec, ref('Animal'))).toEqual({ kind: 'cat', lives: 1 });
+  });
+
+  it('gives the same values for the same seed', () => {
+    const schema: Schema = { type: 'object', properties: { name: { type: 'string' }, age: { type: 'integer' } } };
+
+    expect(generateExample(spec, schema, { seed: 7 })).toEqual(generateExample(spec, schema, { seed: 7 }));
+  });
+
+  it('generates strings that match their pattern', () => {
+    expect(generateExample(spec, { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' })).toBe('AAA-0000');
+    expect(generateExample(spec, { type: 'string', format: 'email', pattern: '^[a-z]+@corp\\.io$' })).toBe('a@corp.io');
+  });
+
+  it('leaves out optional strings whose pattern cannot be generated', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string', pattern: '^(?=.*\\d)[a-z\\d]{4}$' },
+        hint: { type: 'string', pattern: '^(?=.*\\d)[a-z\\d]{4}$' },
+      },
+    };
+
+    expect(generateExample(spec, schema)).toEqual({ token: 'string' });
+  });
+
+  it('ends recursive schemas where the recursion can stop', () => {
+    expect(generateExample(spec, ref('Owner'), { direction: 'response' })).toEqual({
+      id: 0,
+      name: 'Alice Johnson',
+      code: 'AAA-0000',
+      pets: [],
+    });
+    expect(generateExample(spec, ref('Pet'), { direction: 'response' })).toEqual({
+      name: 'Alice Johnson',
+      owner: { id: 0, name: 'Alice Johnson', code: 'AAA-0000', pets: [] },
+    });
+    expect(generateExample(spec, ref('Node'))).toEqual({ value: 0, next: { next: null } });
+  });
+
+  it('generates recursive examples that pass validation', () => {
+    const validator = new SchemaValidator(spec);
+
+    for (const name of ['Owner', 'Pet', 'Node']) {
+      const example = generateExample(spec, ref(name), { direction: 'response' });
+      expect(validator.validate(example, ref(name), 'body', 'response')).toEqual([]);
+    }
+  });
+
+  it('fills only required properties past maxDepth', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['a'],
+      properties: {
+        a: {
+          type: 'object',
+          required: ['b'],
+          properties: {
+            b: { type: 'object', properties: { c: { type: 'string' } } },
+            tags: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    };
+
+    expect(generateExample(spec, schema, { maxDepth: 0 })).toEqual({ a: { b: {} } });
+  });
+});
+
+describe('requestBodyExample', () => {
+  it('prefers the JSON media type', () => {
+    const operation = spec.paths['/owners'].post!;
+
+    expect(requestBodyExample(spec, operation)).toEqual({
+      contentType: 'application/json',
+      value: { name: 'Alice Johnson', password: 'string', code: 'AAA-0000', pets: [] },
+    });
+  });
+
+  it('rejects undocumented content types', () => {
+    const operation = spec.paths['/owners'].post!;
+
+    expect(() => requestBodyExample(spec, operation, 'text/plain')).toThrow(
+      "Content type 'text/plain' is not documented for this request body (documented: application/xml, application/json)"
+    );
+  });
+});
+
+describe('parameterExample', () => {
+  it('generates a value from the parameter schema', () => {
+    expect(parameterExample(spec, { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1 } })).toBe(1);
+    expect(parameterExample(spec, { name: 'q', in: 'query', example: 'shoes', schema: { type: 'string' } })).toBe('shoes');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,516 @@
+import { MediaType, OpenAPISpec, Operation, Parameter, Schema } from '../types/openapi';
+import { deref, resolvePointer } from './ref-resolver';
+import { isJsonMediaType } from './media-types';
+import { isNullable, numericBounds } from './schema-types';
+import { matchesPattern, patternExample } from './pattern-example';
+
+export interface ExampleOptions {
+  // Requests omit readOnly properties, responses omit writeOnly ones
+  direction?: 'request' | 'response';
+  // Nesting depth after which only required properties and minItems are filled
+  maxDepth?: number;
+  // Vary the generated values; the same seed always gives the same example
+  seed?: number;
+  // Include properties that are not required (default true)
+  includeOptional?: boolean;
+  // Use documented `example`/`examples` values (default true)
+  useExamples?: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 8;
+
+// Returned where a schema refers back to itself and no valid value can end the
+// cycle: optional properties are left out, arrays stay empty, and required
+// values pass it up to the nearest place that can
+const CYCLE = Symbol('cycle');
+
+// Values used without a seed; seeded generation varies them (see randomFormat)
+const STRING_FORMATS: Record<string, string> = {
+  'date-time': '2024-01-15T09:30:00Z',
+  date: '2024-01-15',
+  time: '09:30:00',
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '192.168.0.1',
+  ipv6: '2001:db8::1',
+  byte: 'U3dhZ2dlciByb2Nrcw==',
+  binary: '<binary>',
+  password: 'P@ssw0rd!',
+};
+
+// Plausible values for common property names, matched case-insensitively
+const NAMED_STRINGS: Array<[RegExp, string[]]> = [
+  [/^(first_?name|given_?name)$/i, ['Alice', 'Bob', 'Carmen', 'Dmitri', 'Emeka']],
+  [/^(last_?name|family_?name|surname)$/i, ['Johnson', 'Okafor', 'Petrov', 'Silva', 'Tanaka']],
+  [/^(full_?name|display_?name|name)$/i, ['Alice Johnson', 'Bob Okafor', 'Carmen Silva', 'Dmitri Petrov']],
+  [/^(user_?name|login|handle)$/i, ['alice', 'bob_o', 'csilva', 'dpetrov']],
+  [/email/i, ['alice@example.com', 'bob@example.com', 'carmen@example.com']],
+  [/phone|mobile/i, ['+1-555-0100', '+44 20 7946 0958', '+1-555-0199']],
+  [/^city$/i, ['Berlin', 'Lagos', 'Lisbon', 'Osaka', 'Toronto']],
+  [/^country$/i, ['Germany', 'Nigeria', 'Portugal', 'Japan', 'Canada']],
+  [/^country_?code$/i, ['DE', 'NG', 'PT', 'JP', 'CA']],
+  [/^(street|address(_?line)?1?)$/i, ['221B Baker Street', '1600 Amphitheatre Parkway', '10 Downing Street']],
+  [/^(zip|postal)_?code$/i, ['10115', '94043', 'SW1A 2AA']],
+  [/^currency$/i, ['USD', 'EUR', 'JPY']],
+  [/^(language|locale)$/i, ['en', 'de', 'pt-BR']],
+  [/^(title|subject|summary)$/i, ['Quarterly report', 'Welcome aboard', 'Release notes']],
+  [/^(description|comment|note|message|bio)s?$/i, ['A short description.', 'Looks good to me.', 'Handle with care.']],
+  [/(url|uri|link|href|website)$/i, ['https://example.com', 'https://example.org/docs']],
+  [/^(color|colour)$/i, ['red', 'green', 'blue']],
+  [/^(status|state)$/i, ['active', 'pending', 'archived']],
+  [/(company|organi[sz]ation)(_?name)?$/i, ['Acme Corp', 'Globex', 'Initech']],
+];
+
+/**
+ * Build an example value for a schema: `example`/`default`/`enum` values are
+ * used when present, everything else is synthesized from the types.
+ */
+export function generateExample(spec: OpenAPISpec, schema: Schema | undefined, options: ExampleOptions = {}): any {
+  return new ExampleGenerator(spec, options).example(schema);
+}
+
+/**
+ * Example for a media type: its own `example`, then the first of its named
+ * `examples` (or the one called `exampleName`), then one built from the schema.
+ */
+export function mediaTypeExample(
+  spec: OpenAPISpec,
+  media: MediaType,
+  options: ExampleOptions = {},
+  exampleName?: string
+): any {
+  if (exampleName && media.examples?.[exampleName]) {
+    return deref(spec, media.examples[exampleName]).value;
+  }
+  if (options.useExamples !== false) {
+    const documented = documentedExample(spec, media);
+    if (documented !== undefined) {
+      return documented;
+    }
+  }
+  return generateExample(spec, media.schema, options);
+}
+
+/**
+ * Example value for a parameter, from its own examples, its content or its
+ * schema.
+ */
+export function parameterExample(spec: OpenAPISpec, param: Parameter, options: ExampleOptions = {}): any {
+  const resolved = deref(spec, param);
+  if (options.useExamples !== false) {
+    const documented = documentedExample(spec, resolved);
+    if (documented !== undefined) {
+      return documented;
+    }
+  }
+
+  const media = Object.values(resolved.content || {})[0];
+  if (media) {
+    return mediaTypeExample(spec, media, { direction: 'request', ...options });
+  }
+
+  return new ExampleGenerator(spec, { direction: 'request', ...options }).example(resolved.schema, resolved.name);
+}
+
+/**
+ * Example request body of an operation in the given content type, or the
+ * first JSON (else the first documented) type. Null without a request body.
+ */
+export function requestBodyExample(
+  spec: OpenAPISpec,
+  operation: Operation,
+  contentType?: string,
+  options: ExampleOptions = {}
+): { contentType: string; value: any } | null {
+  const requestBody = operation.requestBody ? deref(spec, operation.requestBody) : undefined;
+  const content = requestBody?.content || {};
+  const types = Object.keys(content);
+  const selected = contentType || types.find(type => isJsonMediaType(type)) || types[0];
+
+  if (!selected) {
+    return null;
+  }
+  if (!content[selected]) {
+    throw new Error(`Content type '${selected}' is not documented for this request body (documented: ${types.join(', ')})`);
+  }
+
+  return {
+    contentType: selected,
+    value: mediaTypeExample(spec, content[selected], { direction: 'request', ...options }),
+  };
+}
+
+function documentedExample(spec: OpenAPISpec, target: { example?: any; examples?: Record<string, any> }): any {
+  if (target.example !== undefined) {
+    return target.example;
+  }
+  const named = Object.values(target.examples || {})
+    .map(example => deref(spec, example))
+    .find(example => example && example.value !== undefined);
+  return named?.value;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32), so a seed reproduces an example.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+class ExampleGenerator {
+  private spec: OpenAPISpec;
+  private options: ExampleOptions;
+  private random: (() => number) | null;
+
+  constructor(spec: OpenAPISpec, options: ExampleOptions) {
+    this.spec = spec;
+    this.options = options;
+    this.random = options.seed !== undefined ? createRandom(options.seed) : null;
+  }
+
+  example(schema: Schema | undefined, name?: string): any {
+    const value = this.generate(schema, 0, new Set(), name);
+    // Only schemas that require themselves get here, and nothing satisfies them
+    return value === CYCLE ? this.emptyValue(deref(this.spec, schema!)) : value;
+  }
+
+  private generate(input: Schema | undefined, depth: number, visiting: Set<Schema>, name?: string): any {
+    if (!input) return {};
+
+    const schema = deref(this.spec, input);
+    if (this.options.useExamples !== false) {
+      if (schema.example !== undefined) return schema.example;
+      // OpenAPI 3.1 schemas carry an `examples` array
+      if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    }
+    if (schema.const !== undefined) return schema.const;
+    if (schema.default !== undefined) return schema.default;
+    if (schema.enum && schema.enum.length > 0) return this.pick(schema.enum);
+
+    if (visiting.has(schema)) {
+      return isNullable(schema) ? null : CYCLE;
+    }
+    visiting.add(schema);
+    try {
+      if (schema.allOf) {
+        return this.generateAllOf(schema, depth, visiting, name);
+      }
+      if (schema.oneOf || schema.anyOf) {
+        return this.generateAlternative(schema, depth, visiting, name);
+      }
+
+      switch (this.schemaType(schema)) {
+        case 'object':
+          return this.generateObject(schema, depth, visiting);
+        case 'array':
+          return this.generateArray(schema, depth, visiting, name);
+        case 'string':
+          return this.generateString(schema, name);
+        case 'integer':
+          return this.generateNumber(schema, true);
+        case 'number':
+          return this.generateNumber(schema, false);
+        case 'boolean':
+          return this.random ? this.random() < 0.5 : true;
+        case 'null':
+          return null;
+        default:
+          return {};
+      }
+    } finally {
+      visiting.delete(schema);
+    }
+  }
+
+  private pick<T>(values: T[]): T {
+    return this.random ? values[Math.floor(this.random() * values.length)] : values[0];
+  }
+
+  private randomInt(min: number, max: number): number {
+    return this.random ? min + Math.floor(this.random() * (max - min + 1)) : min;
+  }
+
+  private schemaType(schema: Schema): string | undefined {
+    const type = schema.type;
+    if (Array.isArray(type)) {
+      return type.find(t => t !== 'null') || type[0];
+    }
+    if (type) return type;
+    if (schema.properties || schema.additionalProperties) return 'object';
+    if (schema.items || schema.prefixItems) return 'array';
+    return undefined;
+  }
+
+  private emptyValue(schema: Schema): any {
+    const type = this.schemaType(schema);
+    if (type === 'array') return [];
+    if (type === 'object' || !type) return {};
+    return null;
+  }
+
+  private isShallow(depth: number): boolean {
+    return depth > (this.options.maxDepth ?? DEFAULT_MAX_DEPTH);
+  }
+
+  private isSkipped(schema: Schema): boolean {
+    const resolved = deref(this.spec, schema);
+    return (this.options.direction === 'request' && resolved.readOnly === true)
+      || (this.options.direction === 'response' && resolved.writeOnly === true);
+  }
+
+  private generateAllOf(schema: Schema, depth: number, visiting: Set<Schema>, name?: string): any {
+    const { allOf, ...rest } = schema;
+    const parts = [...allOf!, ...(Object.keys(rest).length > 0 ? [rest as Schema] : [])]
+      .map(part => this.generate(part, depth + 1, visiting, name));
+
+    if (parts.includes(CYCLE)) return CYCLE;
+    if (parts.every(part => part !== null && typeof part === 'object' && !Array.isArray(part))) {
+      return Object.assign({}, ...parts);
+    }
+    return parts[parts.length - 1];
+  }
+
+  /**
+   * oneOf/anyOf: one non-null option, with the discriminator property set to
+   * the value that selects it. Options that lead back into a cycle are
+   * passed over for the others.
+   */
+  private generateAlternative(schema: Schema, depth: number, visiting: Set<Schema>, name?: string): any {
+    const options = (schema.oneOf || schema.anyOf)!;
+    const candidates = options.filter(option => deref(this.spec, option).type !== 'null');
+    const pool = candidates.length > 0 ? candidates : options;
+    const first = this.pick(pool);
+
+    const { oneOf, anyOf, ...rest } = schema;
+    const base = Object.keys(rest).length > 0 && (rest.properties || rest.type === 'object')
+      ? this.generateObject(rest as Schema, depth, visiting)
+      : {};
+    if (base === CYCLE) return CYCLE;
+
+    let option = first;
+    let value = this.generate(option, depth + 1, visiting, name);
+    for (const other of pool) {
+      if (value !== CYCLE) break;
+      if (other === first) continue;
+      option = other;
+      value = this.generate(option, depth + 1, visiting, name);
+    }
+
+    if (value === CYCLE || value === null || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+
+    const result = { ...base, ...value };
+    if (schema.discriminator) {
+      const mapped = this.discriminatorValue(schema, option);
+      if (mapped !== undefined) {
+        result[schema.discriminator.propertyName] = mapped;
+      }
+    }
+    return result;
+  }
+
+  private discriminatorValue(schema: Schema, option: Schema): string | undefined {
+    const target = deref(this.spec, option);
+    const mapping = schema.discriminator?.mapping || {};
+
+    for (const [value, ref] of Object.entries(mapping)) {
+      if (ref === option.$ref || resolvePointer(this.spec, ref) === target) {
+        return value;
+      }
+    }
+
+    // Without a mapping the discriminator value is the schema's component name
+    const refName = option.$ref?.split('/').pop();
+    if (refName) return refName;
+    return Object.entries(this.spec.components?.schemas || {})
+      .find(([, component]) => component === target)?.[0];
+  }
+
+  private generateObject(schema: Schema, depth: number, visiting: Set<Schema>): Record<string, any> | typeof CYCLE {
+    const result: Record<string, any> = {};
+    const required = new Set(schema.required || []);
+    const includeOptional = this.options.includeOptional !== false && !this.isShallow(depth);
+
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (this.isSkipped(property)) continue;
+      if (!includeOptional && !required.has(name)) continue;
+
+      const value = this.generate(property, depth + 1, visiting, name);
+      if (required.has(name)) {
+        if (value === CYCLE) return CYCLE;
+      } else if (value === CYCLE || !this.matchesOwnPattern(property, value)) {
+        // Better left out than invalid
+        continue;
+      }
+      result[name] = value;
+    }
+
+    // Free-form maps get enough entries to satisfy minProperties (at least one)
+    if (schema.additionalProperties && Object.keys(schema.properties || {}).length === 0) {
+      const valueSchema: Schema = typeof schema.additionalProperties === 'object' ? schema.additionalProperties : {};
+      const count = Math.max(schema.minProperties ?? 1, 1);
+      for (let i = 1; Object.keys(result).length < count; i++) {
+        const value = this.generate(valueSchema, depth + 1, visiting);
+        if (value === CYCLE) {
+          if ((schema.minProperties ?? 0) > 0) return CYCLE;
+          break;
+        }
+        result[`additionalProp${i}`] = value;
+      }
+    }
+
+    return result;
+  }
+
+  // Strings that could not be made to match their schema's pattern fail it
+  private matchesOwnPattern(schema: Schema, value: any): boolean {
+    const pattern = deref(this.spec, schema).pattern;
+    return typeof value !== 'string' || !pattern || matchesPattern(pattern, value);
+  }
+
+  private generateArray(schema: Schema, depth: number, visiting: Set<Schema>, name?: string): any[] | typeof CYCLE {
+    if (schema.prefixItems) {
+      return this.generateTuple(schema, depth, visiting, name);
+    }
+    if (!schema.items) return [];
+
+    const min = this.isShallow(depth) ? schema.minItems ?? 0 : Math.max(schema.minItems ?? 1, 1);
+    const max = Math.max(schema.maxItems ?? (this.random ? min + 2 : min), schema.minItems ?? 0);
+    const count = Math.min(this.randomInt(min, max), max);
+    const items: any[] = [];
+    const seen = new Set<string>();
+
+    // uniqueItems: retry a few times per item, then settle for fewer items.
+    // Without a seed every item is the same, so retries use seeded variants.
+    for (let attempt = 0; items.length < count && attempt < count * 5; attempt++) {
+      const generator = this.random || attempt === 0 || !schema.uniqueItems
+        ? this
+        : new ExampleGenerator(this.spec, { ...this.options, seed: attempt });
+      const item = generator.generate(schema.items, depth + 1, visiting, name);
+      if (item === CYCLE) {
+        return (schema.minItems ?? 0) > 0 ? CYCLE : [];
+      }
+      if (schema.uniqueItems) {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) continue;
+        seen.add(key);
+      }
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * 3.1 tuples: one value per `prefixItems` entry, then `items` for as many
+   * more as `minItems` asks for.
+   */
+  private generateTuple(schema: Schema, depth: number, visiting: Set<Schema>, name?: string): any[] | typeof CYCLE {
+    const items = schema.prefixItems!.map(item => this.generate(item, depth + 1, visiting, name));
+    if (schema.items) {
+      while (items.length < (schema.minItems ?? 0)) {
+        items.push(this.generate(schema.items, depth + 1, visiting, name));
+      }
+    }
+    if (items.includes(CYCLE)) return CYCLE;
+    return schema.maxItems !== undefined ? items.slice(0, schema.maxItems) : items;
+  }
+
+  private generateString(schema: Schema, name?: string): string {
+    let value = schema.format && STRING_FORMATS[schema.format]
+      ? this.formatValue(schema.format)
+      : this.namedValue(name) ?? (this.random ? `string${this.randomInt(1, 999)}` : 'string');
+
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      value = value.padEnd(schema.minLength, 'x');
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      value = value.substring(0, schema.maxLength);
+    }
+
+    // A pattern wins over format and name guesses; when no matching string can
+    // be built (lookarounds, backreferences) the guess stays
+    if (schema.pattern && !matchesPattern(schema.pattern, value)) {
+      const pick = (count: number) => this.randomInt(0, count - 1);
+      value = patternExample(schema.pattern, { minLength: schema.minLength, maxLength: schema.maxLength }, pick) ?? value;
+    }
+    return value;
+  }
+
+  private namedValue(name: string | undefined): string | undefined {
+    if (!name) return undefined;
+    const match = NAMED_STRINGS.find(([pattern]) => pattern.test(name));
+    return match ? this.pick(match[1]) : undefined;
+  }
+
+  private formatValue(format: string): string {
+    if (!this.random) {
+      return STRING_FORMATS[format];
+    }
+
+    const hex = (length: number) => Array.from({ length }, () => this.randomInt(0, 15).toString(16)).join('');
+    const date = new Date(Date.UTC(2020, 0, 1) + this.randomInt(0, 5 * 365) * 86400000 + this.randomInt(0, 86399) * 1000);
+    const iso = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    switch (format) {
+      case 'date-time':
+        return iso;
+      case 'date':
+        return iso.substring(0, 10);
+      case 'time':
+        return iso.substring(11, 19);
+      case 'email':
+        return `${this.pick(['alice', 'bob', 'carmen', 'dmitri'])}${this.randomInt(1, 99)}@example.com`;
+      case 'uuid':
+        return `${hex(8)}-${hex(4)}-4${hex(3)}-${this.pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`;
+      case 'ipv4':
+        return `10.${this.randomInt(0, 255)}.${this.randomInt(0, 255)}.${this.randomInt(1, 254)}`;
+      case 'uri':
+      case 'url':
+        return `https://example.com/${hex(6)}`;
+      default:
+        return STRING_FORMATS[format];
+    }
+  }
+
+  private generateNumber(schema: Schema, integer: boolean): number {
+    const { lower, upper } = numericBounds(schema);
+    const step = schema.multipleOf ?? (integer ? 1 : 0.5);
+
+    let min = lower?.value;
+    let max = upper?.value;
+    if (min !== undefined && lower!.exclusive) min += integer ? 1 : step;
+    if (max !== undefined && upper!.exclusive) max -= integer ? 1 : step;
+
+    let value: number;
+    if (this.random) {
+      const low = min ?? (max === undefined ? 1 : max >= 0 ? 0 : max - 100);
+      const high = max ?? low + (integer ? 1000 : 100);
+      value = low + this.random() * (high - low);
+    } else {
+      value = min ?? (max !== undefined ? Math.min(0, max) : 0);
+    }
+
+    if (schema.multipleOf) {
+      value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+      if (max !== undefined && value > max) value -= schema.multipleOf;
+      value = Number(value.toFixed(10));
+    } else if (integer) {
+      value = Math.ceil(value);
+    } else if (this.random) {
+      value = Math.round(value * 100) / 100;
+    }
+    return value;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { HttpTransportServer } from './http-server';
+import { OpenAPIMCPServer } from './mcp-server';
+import { ConfigManager } from '../config';
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets': { get: { summary: 'List pets', responses: { 200: { description: 'Pets' } } } },
+  },
+};
+
+let dir: string;
+
+beforeAll(() => {
+  // Spec loading logs to stderr
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-server-'));
+  fs.writeFileSync(path.join(dir, 'pets.json'), JSON.stringify(spec));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+async function startServer(transport: 'http' | 'sse') {
+  const config = new ConfigManager({ url: path.join(dir, 'pets.json'), cacheDir: path.join(dir, 'cache'), transport });
+  const mcpServer = new OpenAPIMCPServer(config);
+  const server = new HttpTransportServer(mcpServer, transport);
+  await server.listen('127.0.0.1', 0);
+
+  const httpServer = server['httpServer'];
+  const baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  const close = () => new Promise<void>(resolve => {
+    httpServer.closeAllConnections();
+    httpServer.close(() => resolve());
+  });
+  return { mcpServer, baseUrl, close };
+}
+
+async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+function text(result: any): string {
+  return result.content[0].text;
+}
+
+describe('HttpTransportServer', () => {
+  describe('with the Streamable HTTP transport', () => {
+    let server: Awaited<ReturnType<typeof startServer>>;
+
+    beforeEach(async () => {
+      server = await startServer('http');
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it('serves a session per client from the shared specs', async () => {
+      const first = await connect(new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`)));
+      const second = await connect(new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`)));
+
+      const tools = await first.listTools();
+      expect(tools.tools.map(tool => tool.name)).toContain('list_endpoints');
+      expect(text(await first.callTool({ name: 'list_endpoints', arguments: {} }))).toContain('/pets');
+      expect(text(await second.callTool({ name: 'list_endpoints', arguments: {} }))).toContain('/pets');
+      expect(server.mcpServer.sessionCount).toBe(2);
+
+      await first.close();
+      await second.close();
+    });
+
+    it('reports health with the sessions and specs', async () => {
+      const client = await connect(new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`)));
+      await client.callTool({ name: 'list_endpoints', arguments: {} });
+
+      const response = await fetch(`${server.baseUrl}/health`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        status: 'ok',
+        transport: 'http',
+        sessions: 1,
+        specs: [{ name: 'default', loaded: true }],
+      });
+
+      await client.close();
+    });
+
+    it('only opens sessions with an initialize request', async () => {
+      const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+      const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+      const missing = await fetch(`${server.baseUrl}/mcp`, { method: 'POST', headers, body });
+      const unknown = await fetch(`${server.baseUrl}/mcp`, { method: 'POST', headers: { ...headers, 'Mcp-Session-Id': 'nope' }, body });
+      const malformed = await fetch(`${server.baseUrl}/mcp`, { method: 'POST', headers, body: '{' });
+
+      expect(missing.status).toBe(400);
+      expect(await missing.json()).toMatchObject({ error: { code: -32000, message: 'Bad Request: missing Mcp-Session-Id header' } });
+      expect(unknown.status).toBe(404);
+      expect(await unknown.json()).toMatchObject({ error: { code: -32001, message: 'Session not found: nope' } });
+      expect(malformed.status).toBe(400);
+      expect(await malformed.json()).toMatchObject({ error: { code: -32700 } });
+    });
+
+    it('answers 404 for other endpoints', async () => {
+      const response = await fetch(`${server.baseUrl}/sse`);
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Not found: GET /sse' });
+    });
+  });
+
+  describe('with the SSE transport', () => {
+    it('serves clients over an event stream', async () => {
+      const server = await startServer('sse');
+      const client = await connect(new SSEClientTransport(new URL(`${server.baseUrl}/sse`)));
+
+      expect(text(await client.callTool({ name: 'list_endpoints', arguments: {} }))).toContain('/pets');
+
+      const unknown = await fetch(`${server.baseUrl}/messages?sessionId=nope`, { method: 'POST', body: '{}' });
+      expect(unknown.status).toBe(404);
+
+      await client.close();
+      await server.close();
+    });
+  });
+});
\ No newline at end of file
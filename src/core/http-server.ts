@@ -0,0 +1,185 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { OpenAPIMCPServer } from './mcp-server';
+
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+const HEALTH_ENDPOINT = '/health';
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Serves MCP over HTTP, either with the Streamable HTTP transport (`/mcp`)
+ * or the older HTTP+SSE transport (`/sse` + `/messages`). Every client gets
+ * its own MCP session; specs and caches are shared through the MCP server.
+ */
+export class HttpTransportServer {
+  private mcpServer: OpenAPIMCPServer;
+  private transport: 'http' | 'sse';
+  private httpServer: http.Server;
+  private streamableTransports: Map<string, StreamableHTTPServerTransport> = new Map();
+  private sseTransports: Map<string, SSEServerTransport> = new Map();
+
+  constructor(mcpServer: OpenAPIMCPServer, transport: 'http' | 'sse') {
+    this.mcpServer = mcpServer;
+    this.transport = transport;
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+  }
+
+  listen(host: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === HEALTH_ENDPOINT && req.method === 'GET') {
+        this.sendJson(res, 200, this.mcpServer.health());
+      } else if (this.transport === 'http' && url.pathname === MCP_ENDPOINT) {
+        await this.handleStreamableRequest(req, res);
+      } else if (this.transport === 'sse' && url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+        await this.handleSseConnect(res);
+      } else if (this.transport === 'sse' && url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+        await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      } else {
+        this.sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      console.error(`Error handling ${req.method} ${url.pathname}: ${error}`);
+      if (!res.headersSent) {
+        this.sendJson(res, 500, { error: String(error) });
+      }
+    }
+  }
+
+  private async handleStreamableRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        this.sendJsonRpcError(res, 400, -32700, `Parse error: ${error}`);
+        return;
+      }
+    }
+
+    if (sessionId) {
+      const existing = this.streamableTransports.get(sessionId);
+      if (!existing) {
+        this.sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    // Without a session id only an initialize request may open a new session
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id header');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.streamableTransports.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.streamableTransports.delete(transport.sessionId);
+      }
+    };
+
+    await this.mcpServer.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    this.sseTransports.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      this.sseTransports.delete(transport.sessionId);
+    };
+
+    await this.mcpServer.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const transport = sessionId ? this.sseTransports.get(sessionId) : undefined;
+    if (!transport) {
+      this.sendJson(res, 404, { error: `Session not found: ${sessionId}` });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      this.sendJsonRpcError(res, 400, -32700, `Parse error: ${error}`);
+      return;
+    }
+
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, data: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+
+  private sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, {
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    });
+  }
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      try {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { OpenAPIMCPServer } from './mcp-server';
+import { SpecRegistry } from './spec-registry';
+import { ConfigManager } from '../config';
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets': { get: { responses: { 200: { description: 'Pets' } } } },
+  },
+};
+
+let dir: string;
+let server: http.Server;
+let baseUrl: string;
+// Path and Authorization header of each spec request
+let requests: Array<{ path: string; authorization?: string }>;
+
+beforeEach(async () => {
+  // Spec loading logs to stderr
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-'));
+  requests = [];
+  server = http.createServer((req, res) => {
+    requests.push({ path: req.url || '/', authorization: req.headers.authorization });
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(spec));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function registryOf(mcpServer: OpenAPIMCPServer): SpecRegistry {
+  return mcpServer['registry'];
+}
+
+async function connect(mcpServer: OpenAPIMCPServer): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await mcpServer.connect(serverTransport);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function text(result: any): string {
+  return result.content[0].text;
+}
+
+describe('OpenAPIMCPServer spec credentials', () => {
+  it('sends the server-wide credentials to the configured spec', async () => {
+    const mcpServer = new OpenAPIMCPServer(new ConfigManager({
+      url: `${baseUrl}/openapi.json`,
+      bearerToken: 'secret',
+      cacheDir: path.join(dir, 'cache'),
+    }));
+
+    await registryOf(mcpServer).resolve();
+
+    expect(requests).toEqual([{ path: '/openapi.json', authorization: 'Bearer secret' }]);
+  });
+
+  it('fetches URLs named by a tool call without credentials', async () => {
+    const mcpServer = new OpenAPIMCPServer(new ConfigManager({
+      url: `${baseUrl}/openapi.json`,
+      bearerToken: 'secret',
+      cacheDir: path.join(dir, 'cache'),
+    }));
+    const client = await connect(mcpServer);
+
+    expect(text(await client.callTool({ name: 'get_api_info', arguments: { url: `${baseUrl}/other.json` } }))).toContain('Pets');
+    await registryOf(mcpServer).fetchUrl(`${baseUrl}/latest.json`);
+
+    expect(requests).toEqual([
+      { path: '/other.json', authorization: undefined },
+      { path: '/latest.json', authorization: undefined },
+    ]);
+    // The spec is kept for the session, not registered for everyone
+    expect(registryOf(mcpServer).names()).toEqual(['default']);
+  });
+
+  it('refuses url arguments when spec URLs are not allowed', async () => {
+    const mcpServer = new OpenAPIMCPServer(new ConfigManager({
+      url: `${baseUrl}/openapi.json`,
+      cacheDir: path.join(dir, 'cache'),
+      transport: 'http',
+    }));
+    const client = await connect(mcpServer);
+
+    expect(text(await client.callTool({ name: 'get_api_info', arguments: { url: `${baseUrl}/other.json` } }))).toBe(
+      'Error loading OpenAPI spec: Error: Loading specs by URL or file path is disabled on this server; use one of the configured specs (see list_specs)'
+    );
+    // A configured spec can still be named by its URL
+    expect(text(await client.callTool({ name: 'get_api_info', arguments: { url: `${baseUrl}/openapi.json` } }))).toContain('Pets');
+    expect(requests.map(request => request.path)).toEqual(['/openapi.json']);
+  });
+
+  it('loads url arguments over http when spec URLs are allowed', async () => {
+    const mcpServer = new OpenAPIMCPServer(new ConfigManager({
+      url: `${baseUrl}/openapi.json`,
+      cacheDir: path.join(dir, 'cache'),
+      transport: 'http',
+      allowSpecUrls: true,
+    }));
+    const client = await connect(mcpServer);
+
+    expect(text(await client.callTool({ name: 'get_api_info', arguments: { url: `${baseUrl}/other.json` } }))).toContain('Pets');
+    expect(requests.map(request => request.path)).toEqual(['/other.json']);
+  });
+});
+
+describe('OpenAPIMCPServer spec URLs', () => {
+  it('masks credentials in the spec URL shown to clients', async () => {
+    const mcpServer = new OpenAPIMCPServer(new ConfigManager({
+      url: `${baseUrl}/openapi.json?api_key=secret`,
+      cacheDir: path.join(dir, 'cache'),
+    }));
+    const client = await connect(mcpServer);
+    const masked = `${baseUrl}/openapi.json?api_key=***`;
+
+    const specs = JSON.parse(text(await client.callTool({ name: 'list_specs', arguments: {} })));
+    const info = JSON.parse(text(await client.callTool({ name: 'get_api_info', arguments: {} })));
+    const prompt = await client.getPrompt({ name: 'write_integration_tests', arguments: { path: '/pets', method: 'GET' } });
+
+    expect(specs.specs[0].url).toBe(masked);
+    expect(info.specUrl).toBe(masked);
+    expect((prompt.messages[0].content as any).text).toContain(`Spec: ${masked}`);
+    expect(JSON.stringify(prompt)).not.toContain('secret');
+  });
+});
\ No newline at end of file
@@ -1,14 +1,27 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { OpenAPISpec } from '../types/openapi';
 import { OpenAPIClient } from './openapi-client';
 import { CacheManager } from './cache-manager';
+import { SpecRegistry, SpecEntry, DEFAULT_SPEC_NAME, SPEC_URLS_DISABLED } from './spec-registry';
+import { diffSpecs } from './spec-diff';
+import { mergeAuth, redactUrl } from './spec-auth';
 import { ConfigManager } from '../config';
+import { SpecResources, specNameFromUri } from '../resources/spec-resources';
+import { HttpTransportServer } from './http-server';
 
 // Import tools
 import { ListEndpointsTool } from '../tools/list-endpoints';
@@ -16,32 +29,51 @@ import { GetEndpointDetailsTool } from '../tools/get-endpoint-details';
 import { SearchEndpointsTool } from '../tools/search-endpoints';
 import { GetSchemasTool } from '../tools/get-schemas';
 import { GenerateCodeTool } from '../tools/generate-code';
+import { GenerateClientTool } from '../tools/generate-client';
+import { GenerateTypesTool } from '../tools/generate-types';
 import { ValidateRequestTool } from '../tools/validate-request';
+import { ValidateResponseTool } from '../tools/validate-response';
 import { GetApiInfoTool } from '../tools/get-api-info';
 import { RefreshSpecTool } from '../tools/refresh-spec';
+import { ListSpecsTool } from '../tools/list-specs';
+import { CallEndpointTool } from '../tools/call-endpoint';
+import { GenerateExampleTool } from '../tools/generate-example';
+import { DiffSpecsTool } from '../tools/diff-specs';
+import { LintSpecTool } from '../tools/lint-spec';
+import { StartMockServerTool } from '../tools/start-mock-server';
+import { BaseTool } from '../tools/base-tool';
+
+// Import prompts
+import { ImplementClientPrompt } from '../prompts/implement-client';
+import { WriteIntegrationTestsPrompt } from '../prompts/write-integration-tests';
+import { ExplainAuthPrompt } from '../prompts/explain-auth';
+import { ReviewRequestPrompt } from '../prompts/review-request';
+import { BasePrompt } from '../prompts/base-prompt';
+
+/**
+ * State of one connected client. Over stdio there is exactly one; the HTTP
+ * transports create one per MCP session, all sharing the registry and cache.
+ */
+interface Session {
+  server: Server;
+  // Resource URIs the client subscribed to
+  subscriptions: Set<string>;
+  // Specs loaded from a tool's `url` argument, kept for this session only
+  urlSpecs: Map<string, SpecEntry>;
+}
 
 export class OpenAPIMCPServer {
-  private server: Server;
+  private sessions: Set<Session> = new Set();
   private openApiClient: OpenAPIClient;
   private cacheManager: CacheManager;
   private configManager: ConfigManager;
-  private currentSpec: OpenAPISpec | null = null;
-  private currentUrl: string | null = null;
-  private tools: Map<string, any> = new Map();
+  private registry: SpecRegistry;
+  private tools: Map<string, BaseTool> = new Map();
+  private prompts: Map<string, BasePrompt> = new Map();
+  private resources: SpecResources;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
-    this.server = new Server(
-      {
-        name: 'openapi-spec-mcp-server',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
 
     // Initialize cache manager
     this.cacheManager = new CacheManager(
@@ -55,11 +87,45 @@ export class OpenAPIMCPServer {
       this.cacheManager,
       configManager.requestTimeout,
       configManager.retryAttempts,
-      configManager.retryDelay
+      configManager.retryDelay,
+      configManager.validation
     );
 
-    this.setupHandlers();
+    this.registry = new SpecRegistry(this.openApiClient);
+    this.registerSpecs();
+    this.resources = new SpecResources(this.registry);
+    this.registry.onChange((entry, previous) => this.notifySpecChanged(entry.name, previous !== null));
+
     this.registerTools();
+    this.registerPrompts();
+  }
+
+  private registerSpecs(): void {
+    // The server-wide credentials go to the configured specs only, never to
+    // a URL a tool call names
+    const auth = this.configManager.auth;
+    for (const source of this.configManager.specs) {
+      this.registry.register(source.name, source.url, {
+        description: source.description,
+        auth: mergeAuth(auth, source.auth),
+        credentials: source.credentials,
+      });
+    }
+
+    // A single --url/OPENAPI_URL spec is served as "default" unless it is
+    // already one of the named specs
+    const openApiUrl = this.configManager.openApiUrl;
+    if (openApiUrl) {
+      const existing = this.registry.findByUrl(openApiUrl);
+      const entry = existing || this.registry.register(DEFAULT_SPEC_NAME, openApiUrl, { auth });
+      if (!this.configManager.defaultSpec) {
+        this.registry.setDefault(entry.name);
+      }
+    }
+
+    if (this.configManager.defaultSpec) {
+      this.registry.setDefault(this.configManager.defaultSpec);
+    }
   }
 
   private registerTools(): void {
@@ -69,21 +135,124 @@ export class OpenAPIMCPServer {
     this.tools.set('search_endpoints', new SearchEndpointsTool());
     this.tools.set('get_schemas', new GetSchemasTool());
     this.tools.set('generate_code', new GenerateCodeTool());
+    this.tools.set('generate_client', new GenerateClientTool());
+    this.tools.set('generate_types', new GenerateTypesTool());
     this.tools.set('validate_request', new ValidateRequestTool());
+    this.tools.set('validate_response', new ValidateResponseTool());
     this.tools.set('get_api_info', new GetApiInfoTool());
     this.tools.set('refresh_spec', new RefreshSpecTool());
+    this.tools.set('list_specs', new ListSpecsTool());
+    this.tools.set('call_endpoint', new CallEndpointTool({
+      ...this.configManager.callEndpoint,
+      credentials: this.configManager.credentials,
+      timeout: this.configManager.requestTimeout,
+    }));
+    this.tools.set('generate_example', new GenerateExampleTool());
+    this.tools.set('start_mock_server', new StartMockServerTool());
+    this.tools.set('diff_specs', new DiffSpecsTool({ allowSpecUrls: this.configManager.allowSpecUrls }));
+    this.tools.set('lint_spec', new LintSpecTool(this.configManager.lint));
+  }
+
+  private registerPrompts(): void {
+    this.prompts.set('implement_client', new ImplementClientPrompt());
+    this.prompts.set('write_integration_tests', new WriteIntegrationTestsPrompt());
+    this.prompts.set('explain_auth', new ExplainAuthPrompt());
+    this.prompts.set('review_request', new ReviewRequestPrompt());
+  }
+
+  private createSession(): Session {
+    const server = new Server(
+      {
+        name: 'openapi-spec-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
+        },
+      }
+    );
+
+    const session: Session = { server, subscriptions: new Set(), urlSpecs: new Map() };
+
+    this.setupHandlers(session);
+    this.setupResourceHandlers(session);
+    this.setupPromptHandlers(server);
+
+    return session;
   }
 
-  private setupHandlers(): void {
+  /**
+   * Serve one client over the given transport. The session is dropped when
+   * the transport closes.
+   */
+  async connect(transport: Transport): Promise<void> {
+    const session = this.createSession();
+    session.server.onclose = () => {
+      this.sessions.delete(session);
+    };
+
+    this.sessions.add(session);
+    await session.server.connect(transport);
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  health(): Record<string, any> {
+    return {
+      status: 'ok',
+      transport: this.configManager.transport,
+      sessions: this.sessions.size,
+      specs: this.registry.list().map(entry => ({
+        name: entry.name,
+        loaded: entry.spec !== null,
+        error: entry.error,
+      })),
+    };
+  }
+
+  /**
+   * The spec a tool's `url` argument names: a configured spec with that URL,
+   * else the session's own copy, loaded on first use if URL loading is
+   * enabled.
+   */
+  private async resolveUrl(session: Session, url: string, forceRefresh: boolean = false): Promise<SpecEntry> {
+    const configured = this.registry.findByUrl(url);
+    if (configured) {
+      return forceRefresh ? this.registry.load(configured.name, true) : this.registry.resolve(configured.name);
+    }
+
+    if (!this.configManager.allowSpecUrls) {
+      throw new Error(SPEC_URLS_DISABLED);
+    }
+
+    let entry = session.urlSpecs.get(url);
+    if (!entry || forceRefresh) {
+      entry = await this.registry.loadUrl(url, forceRefresh);
+      session.urlSpecs.set(url, entry);
+    }
+    return entry;
+  }
+
+  private setupHandlers(session: Session): void {
+    const { server } = session;
+
     // Handle list tools request
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools: Tool[] = [];
       
       for (const [name, tool] of this.tools) {
         tools.push({
           name,
           description: tool.description,
-          inputSchema: tool.schema,
+          inputSchema: tool.inputSchema as Tool['inputSchema'],
         });
       }
 
@@ -91,7 +260,7 @@ export class OpenAPIMCPServer {
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       // Check if spec is loaded for tools that require it
@@ -101,46 +270,33 @@ export class OpenAPIMCPServer {
         'search_endpoints',
         'get_schemas',
         'generate_code',
+        'generate_client',
+        'generate_types',
         'validate_request',
+        'validate_response',
         'get_api_info',
+        'call_endpoint',
+        'start_mock_server',
+        'generate_example',
+        'diff_specs',
+        'lint_spec',
       ];
 
-      if (toolsRequiringSpec.includes(name) && !this.currentSpec) {
-        // Try to load spec from URL if provided
-        if (args && typeof args === 'object' && 'url' in args && typeof args.url === 'string') {
-          try {
-            this.currentSpec = await this.openApiClient.fetchSpec(args.url);
-            this.currentUrl = args.url;
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Error loading OpenAPI spec: ${error}`,
-                },
-              ],
-            };
-          }
-        } else if (this.configManager.openApiUrl) {
-          try {
-            this.currentSpec = await this.openApiClient.fetchSpec(this.configManager.openApiUrl);
-            this.currentUrl = this.configManager.openApiUrl;
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Error loading OpenAPI spec from config: ${error}`,
-                },
-              ],
-            };
-          }
-        } else {
+      const specName = args && typeof args.spec === 'string' ? args.spec : undefined;
+      const specUrl = args && typeof args.url === 'string' ? args.url : undefined;
+
+      let entry: SpecEntry | null = null;
+      if (toolsRequiringSpec.includes(name)) {
+        try {
+          entry = specUrl
+            ? await this.resolveUrl(session, specUrl)
+            : await this.registry.resolve(specName);
+        } catch (error) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'No OpenAPI specification loaded. Please provide a URL or configure one.',
+                text: `Error loading OpenAPI spec: ${error}`,
               },
             ],
           };
@@ -150,29 +306,43 @@ export class OpenAPIMCPServer {
       // Handle refresh_spec tool specially
       if (name === 'refresh_spec') {
         try {
-          const url = (args && typeof args === 'object' && 'url' in args && typeof args.url === 'string') 
-            ? args.url 
-            : this.currentUrl || this.configManager.openApiUrl;
-          
-          if (!url) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'No URL available to refresh. Please provide a URL.',
-                },
-              ],
-            };
+          let previous: OpenAPISpec | null;
+          if (specUrl) {
+            previous = (this.registry.findByUrl(specUrl) || session.urlSpecs.get(specUrl))?.spec ?? null;
+            entry = await this.resolveUrl(session, specUrl, true);
+          } else {
+            const refreshName = specName || this.registry.defaultSpecName;
+            entry = refreshName ? this.registry.get(refreshName) || null : null;
+            if (refreshName && !entry) {
+              throw new Error(`Unknown spec: ${refreshName}`);
+            }
+
+            if (!entry) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: 'No URL available to refresh. Please provide a URL.',
+                  },
+                ],
+              };
+            }
+
+            previous = entry.spec;
+            await this.registry.load(entry.name, true);
           }
 
-          this.currentSpec = await this.openApiClient.refreshSpec(url);
-          this.currentUrl = url;
-          
+          // Report what changed since the version that was loaded before
+          const result = {
+            message: `OpenAPI specification '${entry.name}' refreshed successfully.`,
+            changes: previous && entry.spec ? diffSpecs(previous, entry.spec) : undefined,
+          };
+
           return {
             content: [
               {
                 type: 'text',
-                text: 'OpenAPI specification refreshed successfully.',
+                text: JSON.stringify(result, null, 2),
               },
             ],
           };
@@ -203,7 +373,10 @@ export class OpenAPIMCPServer {
 
       try {
         // Execute the tool
-        const result = await tool.execute(args, this.currentSpec, this.currentUrl);
+        const result = await tool.execute(args, entry?.spec ?? null, entry?.url ?? null, {
+          registry: this.registry,
+          specName: entry?.name ?? null,
+        });
         
         return {
           content: [
@@ -226,11 +399,105 @@ export class OpenAPIMCPServer {
     });
   }
 
+  private setupResourceHandlers(session: Session): void {
+    const { server, subscriptions } = session;
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.resources.list(request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.resources.templates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return { contents: await this.resources.read(request.params.uri) };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: Array.from(this.prompts.entries()).map(([name, prompt]) => ({
+          name,
+          description: prompt.description,
+          arguments: prompt.promptArguments,
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+
+      const prompt = this.prompts.get(name);
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+      }
+
+      const entry = await this.registry.resolve(args.spec);
+      const text = await prompt.render(args, entry.spec!, entry.url, {
+        registry: this.registry,
+        specName: entry.name,
+      });
+
+      return {
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user' as const,
+            content: { type: 'text' as const, text },
+          },
+        ],
+      };
+    });
+  }
+
+  /**
+   * A spec was loaded for the first time or its document changed: the
+   * resource list changes for every client, and subscribers of a reloaded
+   * spec's resources are told to re-read them.
+   */
+  private notifySpecChanged(specName: string, reloaded: boolean): void {
+    // Notifications fail while a client is still connecting
+    const ignore = () => undefined;
+
+    for (const { server, subscriptions } of this.sessions) {
+      server.sendResourceListChanged().catch(ignore);
+
+      if (!reloaded) continue;
+      for (const uri of subscriptions) {
+        if (specNameFromUri(uri) === specName) {
+          server.sendResourceUpdated({ uri }).catch(ignore);
+        }
+      }
+    }
+  }
+
+  /**
+   * Return the named spec (or the default one), loading it if needed.
+   */
+  async resolveSpec(name?: string): Promise<SpecEntry> {
+    return this.registry.resolve(name);
+  }
+
+  /**
+   * Register a spec for every session, as if it were configured.
+   */
   async loadSpec(url: string): Promise<void> {
     try {
-      this.currentSpec = await this.openApiClient.fetchSpec(url);
-      this.currentUrl = url;
-      console.error(`Successfully loaded OpenAPI spec from ${url}`);
+      const registered = this.registry.findByUrl(url) || this.registry.register(url, url, { auth: this.configManager.auth });
+      const entry = await this.registry.resolve(registered.name);
+      console.error(`Successfully loaded OpenAPI spec '${entry.name}' from ${redactUrl(url)}`);
     } catch (error) {
       console.error(`Failed to load OpenAPI spec: ${error}`);
       throw error;
@@ -238,18 +505,23 @@ export class OpenAPIMCPServer {
   }
 
   async run(): Promise<void> {
-    // Load initial spec if configured
-    if (this.configManager.openApiUrl) {
-      try {
-        await this.loadSpec(this.configManager.openApiUrl);
-      } catch (error) {
-        console.error(`Failed to load initial spec: ${error}`);
-      }
+    // Load configured specs up front; failures are retried on first use
+    const loaded = await this.registry.loadAll();
+    if (this.registry.size > 0) {
+      console.error(`Loaded ${loaded.length}/${this.registry.size} OpenAPI specs`);
     }
 
     // Start the server
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('OpenAPI MCP Server running...');
+    const transport = this.configManager.transport;
+    if (transport === 'stdio') {
+      await this.connect(new StdioServerTransport());
+      console.error('OpenAPI MCP Server running...');
+      return;
+    }
+
+    // HTTP transports serve many clients from the same registry and cache
+    const { host, port } = this.configManager;
+    await new HttpTransportServer(this, transport).listen(host, port);
+    console.error(`OpenAPI MCP Server running on http://${host}:${port} (${transport})`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { MediaType } from '../types/openapi';
+
+/**
+ * Strip parameters (`; charset=utf-8`) and normalize case.
+ */
+export function normalizeMediaType(mediaType: string): string {
+  return mediaType.split(';')[0].trim().toLowerCase();
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  const normalized = normalizeMediaType(mediaType);
+  return normalized === 'application/json' || normalized.endsWith('+json');
+}
+
+/**
+ * Pick the entry of a `content` map that applies to a concrete media type.
+ * Exact matches win over `+json` suffix matches, which win over ranges like
+ * `application/*` and `*\/*`.
+ */
+export function findMediaType(
+  content: Record<string, MediaType>,
+  mediaType: string
+): { key: string; mediaType: MediaType } | null {
+  const wanted = normalizeMediaType(mediaType);
+  const [wantedType, wantedSubtype = ''] = wanted.split('/');
+  const entries = Object.entries(content);
+
+  const exact = entries.find(([key]) => normalizeMediaType(key) === wanted);
+  if (exact) {
+    return { key: exact[0], mediaType: exact[1] };
+  }
+
+  // application/vnd.api+json is served by a documented application/json
+  if (wantedSubtype.endsWith('+json')) {
+    const json = entries.find(([key]) => normalizeMediaType(key) === `${wantedType}/json`);
+    if (json) {
+      return { key: json[0], mediaType: json[1] };
+    }
+  }
+
+  const typeRange = entries.find(([key]) => normalizeMediaType(key) === `${wantedType}/*`);
+  if (typeRange) {
+    return { key: typeRange[0], mediaType: typeRange[1] };
+  }
+
+  const anyRange = entries.find(([key]) => normalizeMediaType(key) === '*/*');
+  if (anyRange) {
+    return { key: anyRange[0], mediaType: anyRange[1] };
+  }
+
+  return null;
+}
\ No newline at end of file
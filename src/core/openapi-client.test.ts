@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { OpenAPIClient } from './openapi-client';
+import { CacheManager } from './cache-manager';
+import { ValidationMode } from '../types/config';
+
+interface TestServer {
+  url: string;
+  // Path and Authorization header of each request
+  requests: Array<{ path: string; authorization?: string }>;
+  documents: Record<string, unknown>;
+  close: () => Promise<void>;
+}
+
+// Serve JSON documents by path, recording what each request carried
+async function serve(): Promise<TestServer> {
+  const server = http.createServer((req, res) => {
+    testServer.requests.push({ path: req.url || '/', authorization: req.headers.authorization });
+    const document = testServer.documents[req.url || '/'];
+    res.writeHead(document ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(document ?? { error: 'Not found' }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const testServer: TestServer = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: [],
+    documents: {},
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+  return testServer;
+}
+
+let dir: string;
+
+beforeEach(() => {
+  // Fetching and caching log to stderr
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openapi-client-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function createClient(validation?: ValidationMode): OpenAPIClient {
+  return new OpenAPIClient(new CacheManager(path.join(dir, 'cache'), 3600, 10), 5000, 1, 100, validation);
+}
+
+describe('OpenAPIClient authenticated fetching', () => {
+  let api: TestServer;
+  let other: TestServer;
+
+  beforeEach(async () => {
+    api = await serve();
+    other = await serve();
+
+    // The spec refers to a schema on its own origin and one on another host
+    api.documents['/pet.json'] = { type: 'object', properties: { name: { type: 'string' } } };
+    other.documents['/error.json'] = { type: 'object', properties: { message: { type: 'string' } } };
+    api.documents['/openapi.json'] = {
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              200: { description: 'Pet', content: { 'application/json': { schema: { $ref: `${api.url}/pet.json` } } } },
+              default: { description: 'Error', content: { 'application/json': { schema: { $ref: `${other.url}/error.json` } } } },
+            },
+          },
+        },
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await api.close();
+    await other.close();
+  });
+
+  it('sends credentials to the spec origin only', async () => {
+    const spec = await createClient().fetchSpec(`${api.url}/openapi.json`, false, { bearerToken: 'secret' });
+
+    expect(spec.paths['/pets'].get!.responses['200'].content!['application/json'].schema).toEqual(api.documents['/pet.json']);
+    expect(api.requests).toEqual([
+      { path: '/openapi.json', authorization: 'Bearer secret' },
+      { path: '/pet.json', authorization: 'Bearer secret' },
+    ]);
+    expect(other.requests).toEqual([{ path: '/error.json', authorization: undefined }]);
+  });
+
+  it('sends credentials to the configured extra hosts', async () => {
+    await createClient().fetchSpec(`${api.url}/openapi.json`, false, {
+      bearerToken: 'secret',
+      hosts: [new URL(other.url).host],
+    });
+
+    expect(other.requests).toEqual([{ path: '/error.json', authorization: 'Bearer secret' }]);
+  });
+
+  it('reports documents that cannot be fetched', async () => {
+    await expect(createClient().fetchSpec(`${api.url}/private.json`, false, { bearerToken: 'secret' }))
+      .rejects.toThrow('Failed to fetch OpenAPI spec: AxiosError: Request failed with status code 404');
+  });
+});
+
+describe('OpenAPIClient schema validation', () => {
+  let file: string;
+
+  beforeEach(() => {
+    file = path.join(dir, 'openapi.yaml');
+    fs.writeFileSync(file, [
+      'openapi: 3.0.3',
+      'info:',
+      '  title: Pets',
+      'paths:',
+      '  /pets:',
+      '    get:',
+      '      responses:',
+      "        '200':",
+      '          description: Pets',
+    ].join('\n'));
+  });
+
+  it('refuses invalid documents in strict mode', async () => {
+    await expect(createClient('strict').fetchSpec(file)).rejects.toThrow(
+      "Invalid spec, 1 schema violation(s):\n  #/info/version (line 3:3): Missing required property 'version'"
+    );
+  });
+
+  it('does not fall back to the cached version of a refused document', async () => {
+    const api = await serve();
+    const client = createClient('strict');
+    try {
+      api.documents['/openapi.json'] = { openapi: '3.0.3', info: { title: 'Pets', version: '1.0.0' }, paths: {} };
+      await client.fetchSpec(`${api.url}/openapi.json`);
+
+      api.documents['/openapi.json'] = { openapi: '3.0.3', info: { title: 'Pets' }, paths: {} };
+      await expect(client.fetchSpec(`${api.url}/openapi.json`, true)).rejects.toThrow(
+        "Failed to fetch OpenAPI spec: SpecValidationError: Invalid spec, 1 schema violation(s):\n  #/info/version (line 1:27): Missing required property 'version'"
+      );
+
+      // Failed requests still fall back to it
+      delete api.documents['/openapi.json'];
+      expect((await client.fetchSpec(`${api.url}/openapi.json`, true)).info.version).toBe('1.0.0');
+    } finally {
+      await api.close();
+    }
+  });
+
+  it('loads invalid documents in lenient mode and when validation is off', async () => {
+    const lenient = await createClient('lenient').fetchSpec(file);
+    const unchecked = await createClient('off').fetchSpec(file, true);
+
+    expect(lenient.info).toEqual({ title: 'Pets' });
+    expect(unchecked.info).toEqual({ title: 'Pets' });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('does not match the OpenAPI schema (1 problem(s))'));
+  });
+});
\ No newline at end of file
@@ -1,47 +1,69 @@
 import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
 import * as yaml from 'yaml';
 import $RefParser from '@apidevtools/json-schema-ref-parser';
 import { OpenAPISpec } from '../types/openapi';
+import { SpecAuth, ValidationMode } from '../types/config';
 import { CacheManager } from './cache-manager';
+import { isLocalSource, resolveLocalSpecPath } from './spec-source';
+import { convertSwagger2 } from './swagger-converter';
+import { ResolvedAuth, authRequestConfig, redactUrl, resolveAuth } from './spec-auth';
+import { SpecValidationError, SpecValidationIssue, formatIssues, validateDocument } from './spec-validator';
 
 export class OpenAPIClient {
   private cacheManager: CacheManager;
   private requestTimeout: number;
   private retryAttempts: number;
   private retryDelay: number;
+  private validationMode: ValidationMode;
 
   constructor(
     cacheManager: CacheManager,
     requestTimeout: number = 30000,
     retryAttempts: number = 3,
-    retryDelay: number = 1000
+    retryDelay: number = 1000,
+    validationMode: ValidationMode = 'lenient'
   ) {
     this.cacheManager = cacheManager;
     this.requestTimeout = requestTimeout;
     this.retryAttempts = retryAttempts;
     this.retryDelay = retryDelay;
+    this.validationMode = validationMode;
   }
 
-  async fetchSpec(url: string, forceRefresh: boolean = false): Promise<OpenAPISpec> {
+  /**
+   * Load a spec. `auth` holds the credentials for fetching it; only specs
+   * from the configuration have any, a URL given to a tool is fetched
+   * without. With `store` off the cache is neither updated nor used as a
+   * fallback.
+   */
+  async fetchSpec(url: string, forceRefresh: boolean = false, auth?: SpecAuth, store: boolean = true): Promise<OpenAPISpec> {
+    if (isLocalSource(url)) {
+      return this.loadLocalSpec(url, forceRefresh, auth, store);
+    }
+
     // Check cache first unless force refresh is requested
     if (!forceRefresh) {
       const cached = await this.cacheManager.get(url);
       if (cached) {
-        console.error(`Using cached OpenAPI spec for ${url}`);
+        console.error(`Using cached OpenAPI spec for ${redactUrl(url)}`);
         return cached.spec;
       }
     }
 
-    console.error(`Fetching OpenAPI spec from ${url}`);
+    console.error(`Fetching OpenAPI spec from ${redactUrl(url)}`);
     
     // Prepare request headers
     const headers: Record<string, string> = {
       'Accept': 'application/json, application/yaml, text/yaml, text/plain',
     };
 
-    // Add conditional request headers if we have cached data
-    const etag = this.cacheManager.getEtag(url);
-    const lastModified = this.cacheManager.getLastModified(url);
+    // Add conditional request headers if we have cached data (and may
+    // answer a 304 with it)
+    const etag = store ? this.cacheManager.getEtag(url) : undefined;
+    const lastModified = store ? this.cacheManager.getLastModified(url) : undefined;
     
     if (etag) {
       headers['If-None-Match'] = etag;
@@ -51,10 +73,16 @@ export class OpenAPIClient {
     }
 
     try {
+      const resolvedAuth = await resolveAuth(auth, this.requestTimeout, url);
+      const authConfig = authRequestConfig(resolvedAuth, url, url);
+
       const response = await this.fetchWithRetry(url, {
+        ...authConfig,
         timeout: this.requestTimeout,
-        headers,
+        headers: { ...authConfig.headers, ...headers },
         validateStatus: (status) => status < 400 || status === 304,
+        // Keep the source text so validation issues can point at lines
+        responseType: 'text',
       });
 
       // If not modified, return cached version
@@ -66,24 +94,30 @@ export class OpenAPIClient {
         }
       }
 
-      // Parse the response
-      const spec = await this.parseResponse(response);
+      // Parse the response and check it against the OpenAPI schemas
+      const document = await this.parseResponse(response);
+      const issues = this.checkDocument(document, typeof response.data === 'string' ? response.data : undefined, url);
+      const spec = this.upgradeSpec(document);
       
-      // Resolve all $ref references
-      const resolvedSpec = await this.resolveReferences(spec, url);
+      // Pull external $ref targets into the document
+      const { spec: resolvedSpec } = await this.bundleReferences(spec, url, resolvedAuth);
       
       // Validate the spec
-      this.validateSpec(resolvedSpec);
+      this.validateSpec(resolvedSpec, issues);
       
       // Cache the spec
-      const responseEtag = response.headers['etag'];
-      const responseLastModified = response.headers['last-modified'];
-      await this.cacheManager.set(url, resolvedSpec, responseEtag, responseLastModified);
+      if (store) {
+        await this.cacheManager.set(url, resolvedSpec, {
+          etag: response.headers['etag'],
+          lastModified: response.headers['last-modified'],
+        });
+      }
       
       return resolvedSpec;
     } catch (error) {
-      // If we have a cached version and the request failed, return the cached version
-      const cached = await this.cacheManager.get(url);
+      // If we have a cached version and the request failed, return the cached
+      // version; a document that strict validation refused is reported instead
+      const cached = store && !(error instanceof SpecValidationError) ? await this.cacheManager.get(url) : null;
       if (cached) {
         console.warn(`Failed to fetch updated spec, using cached version: ${error}`);
         return cached.spec;
@@ -93,6 +127,64 @@ export class OpenAPIClient {
     }
   }
 
+  private async loadLocalSpec(location: string, forceRefresh: boolean, auth?: SpecAuth, store: boolean = true): Promise<OpenAPISpec> {
+    let filePath: string;
+    let stats: fs.Stats;
+    try {
+      filePath = resolveLocalSpecPath(location);
+      stats = fs.statSync(filePath);
+    } catch (error) {
+      throw new Error(`Failed to load OpenAPI spec: ${error}`);
+    }
+
+    // Local files are keyed on their modification time and content hash
+    // instead of HTTP validators, and on the files their $refs pull in
+    const cached = forceRefresh ? null : await this.cacheManager.get(filePath);
+    const dependenciesUnchanged = cached !== null && this.unchangedFiles(cached.dependencies);
+    if (cached && dependenciesUnchanged && cached.mtimeMs === stats.mtimeMs) {
+      console.error(`Using cached OpenAPI spec for ${filePath}`);
+      return cached.spec;
+    }
+
+    console.error(`Loading OpenAPI spec from ${filePath}`);
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+
+      // Touched but unchanged: keep the cached spec, remember the new mtime
+      if (cached && dependenciesUnchanged && cached.contentHash === contentHash) {
+        await this.cacheManager.set(filePath, cached.spec, { mtimeMs: stats.mtimeMs, contentHash, dependencies: cached.dependencies });
+        return cached.spec;
+      }
+
+      const document = this.parseContent(content, path.extname(filePath));
+      const issues = this.checkDocument(document, content, filePath);
+      const spec = this.upgradeSpec(document);
+
+      // Relative $refs are resolved against the file's directory. Remote
+      // $refs of a local spec only get credentials for the configured hosts.
+      const resolvedAuth = auth?.hosts?.length ? await resolveAuth(auth, this.requestTimeout, filePath) : null;
+      const { spec: resolvedSpec, files } = await this.bundleReferences(spec, filePath, resolvedAuth);
+
+      this.validateSpec(resolvedSpec, issues);
+
+      // A spec whose references failed to resolve is not cached, so fixing
+      // the referenced file takes effect
+      if (store && files) {
+        const dependencies: Record<string, number> = {};
+        for (const file of files.filter(file => file !== filePath)) {
+          dependencies[file] = fs.statSync(file).mtimeMs;
+        }
+        await this.cacheManager.set(filePath, resolvedSpec, { mtimeMs: stats.mtimeMs, contentHash, dependencies });
+      }
+
+      return resolvedSpec;
+    } catch (error) {
+      throw new Error(`Failed to load OpenAPI spec from ${filePath}: ${error}`);
+    }
+  }
+
   private async fetchWithRetry(
     url: string,
     config: AxiosRequestConfig
@@ -134,11 +226,15 @@ export class OpenAPIClient {
       return data;
     }
 
-    // Parse based on content type or try both formats
-    if (contentType.includes('yaml') || contentType.includes('yml')) {
+    return this.parseContent(data, contentType);
+  }
+
+  private parseContent(data: string, formatHint: string): any {
+    // Parse based on content type / file extension or try both formats
+    if (formatHint.includes('yaml') || formatHint.includes('yml')) {
       return yaml.parse(data);
-    } else if (contentType.includes('json')) {
-      return typeof data === 'string' ? JSON.parse(data) : data;
+    } else if (formatHint.includes('json')) {
+      return JSON.parse(data);
     } else {
       // Try to detect format
       const trimmed = data.trim();
@@ -150,15 +246,27 @@ export class OpenAPIClient {
     }
   }
 
-  private async resolveReferences(spec: any, _baseUrl: string): Promise<OpenAPISpec> {
+  /**
+   * Bundle the spec into a single document: external `$ref`s (resolved
+   * relative to the location the spec was loaded from) are pulled in, local
+   * ones are kept. The result has no circular objects, so it can be cached
+   * and serialized; tools resolve references on demand (see `expandRefs`).
+   * `files` lists the local files that were read, null if bundling failed.
+   */
+  private async bundleReferences(
+    spec: any,
+    baseUrl: string,
+    auth: ResolvedAuth | null
+  ): Promise<{ spec: OpenAPISpec; files: string[] | null }> {
+    const parser = new $RefParser();
     try {
-      // Use json-schema-ref-parser to resolve all $ref references
-      const resolved = await $RefParser.dereference(spec, {
+      const bundled = await parser.bundle(baseUrl, spec, {
         resolve: {
           http: {
             read: async (file: any) => {
               const url = typeof file === 'string' ? file : file.url;
               const response = await this.fetchWithRetry(url, {
+                ...authRequestConfig(auth, baseUrl, url),
                 timeout: this.requestTimeout,
               });
               return this.parseResponse(response);
@@ -167,31 +275,69 @@ export class OpenAPIClient {
         },
       });
 
-      return resolved as OpenAPISpec;
+      return { spec: bundled as OpenAPISpec, files: parser.$refs.paths('file') };
     } catch (error) {
-      console.error(`Failed to fully resolve references: ${error}`);
+      console.error(`Failed to bundle external references: ${error}`);
       // Return the spec as-is if reference resolution fails
-      return spec as OpenAPISpec;
+      return { spec: spec as OpenAPISpec, files: null };
+    }
+  }
+
+  // Whether the files a cached spec was bundled from still have the
+  // modification times recorded with it
+  private unchangedFiles(dependencies: Record<string, number> = {}): boolean {
+    return Object.entries(dependencies).every(([file, mtimeMs]) => {
+      try {
+        return fs.statSync(file).mtimeMs === mtimeMs;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  private upgradeSpec(spec: any): any {
+    // Swagger 2.0 documents are converted to OpenAPI 3.0 before any tool sees them
+    if (spec && typeof spec === 'object' && spec.swagger) {
+      if (!String(spec.swagger).startsWith('2.')) {
+        throw new Error(`Unsupported Swagger version: ${spec.swagger}. Only Swagger 2.x and OpenAPI 3.x are supported.`);
+      }
+
+      const { spec: converted, warnings } = convertSwagger2(spec);
+      console.error(`Converted Swagger ${spec.swagger} spec to OpenAPI ${converted.openapi} (${warnings.length} warnings)`);
+      return converted;
     }
+
+    return spec;
   }
 
-  private validateSpec(spec: OpenAPISpec): void {
-    // Basic validation - support both OpenAPI 3.x and Swagger 2.0
-    const version = (spec as any).openapi || (spec as any).swagger;
+  /**
+   * Validate a parsed document against the OpenAPI schema of its version.
+   * Strict mode refuses invalid documents; lenient mode logs the problems.
+   */
+  private checkDocument(document: any, source: string | undefined, location: string): SpecValidationIssue[] {
+    if (this.validationMode === 'off') {
+      return [];
+    }
 
-    if (!version) {
+    const issues = validateDocument(document, source);
+    if (issues.length === 0) {
+      return [];
+    }
+
+    if (this.validationMode === 'strict') {
+      throw new SpecValidationError(issues);
+    }
+
+    console.error(`Warning: ${redactUrl(location)} does not match the OpenAPI schema (${issues.length} problem(s)):\n${formatIssues(issues)}`);
+    return issues;
+  }
+
+  private validateSpec(spec: OpenAPISpec, issues: SpecValidationIssue[] = []): void {
+    if (!spec.openapi) {
       throw new Error('Invalid spec: missing version field (openapi or swagger)');
     }
 
-    // Check if it's Swagger 2.0
-    if ((spec as any).swagger) {
-      if (!(spec as any).swagger.startsWith('2.')) {
-        throw new Error(`Unsupported Swagger version: ${(spec as any).swagger}. Only Swagger 2.x and OpenAPI 3.x are supported.`);
-      }
-      console.error(`Warning: This is a Swagger 2.0 spec. Consider upgrading to OpenAPI 3.x for better compatibility.`);
-      // Add openapi field for compatibility
-      (spec as any).openapi = '3.0.0';
-    } else if (!spec.openapi.startsWith('3.')) {
+    if (!spec.openapi.startsWith('3.')) {
       throw new Error(`Unsupported OpenAPI version: ${spec.openapi}. Only OpenAPI 3.x is supported.`);
     }
 
@@ -199,16 +345,33 @@ export class OpenAPIClient {
       throw new Error('Invalid spec: missing info object');
     }
 
-    if (!spec.paths || Object.keys(spec.paths).length === 0) {
+    // Specs loaded despite schema violations must still be safe to browse
+    if (!spec.paths || typeof spec.paths !== 'object' || Array.isArray(spec.paths)) {
+      spec.paths = {};
+    }
+
+    // 3.1 documents may describe only webhooks or components
+    if (Object.keys(spec.paths).length === 0 && !spec.webhooks) {
       console.error('Warning: Spec has no paths defined');
     }
+
+    if (issues.length > 0) {
+      spec['x-validation'] = { issues };
+    }
   }
 
   async fetchFromUrl(url: string): Promise<OpenAPISpec> {
     return this.fetchSpec(url, false);
   }
 
-  async refreshSpec(url: string): Promise<OpenAPISpec> {
-    return this.fetchSpec(url, true);
+  async refreshSpec(url: string, auth?: SpecAuth): Promise<OpenAPISpec> {
+    return this.fetchSpec(url, true, auth);
+  }
+
+  /**
+   * The current version of a spec, leaving the cached one in place.
+   */
+  async fetchLatest(url: string, auth?: SpecAuth): Promise<OpenAPISpec> {
+    return this.fetchSpec(url, true, auth, false);
   }
 }
\ No newline at end of file
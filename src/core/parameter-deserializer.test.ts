@@ -0,0 +1,112 @@
+import {
+  deserializeMultiValueParameter,
+  deserializeStringParameter,
+  parseCookieHeader,
+  parseQueryString,
+} from './parameter-deserializer';
+import { OpenAPISpec, Parameter, Schema } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Parameters', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Ids: { type: 'array', items: { type: 'integer' } },
+      Filter: {
+        type: 'object',
+        properties: { role: { type: 'string' }, age: { type: 'integer' }, active: { type: 'boolean' } },
+      },
+    },
+  },
+};
+
+const ids: Schema = { $ref: '#/components/schemas/Ids' };
+const filter: Schema = { $ref: '#/components/schemas/Filter' };
+
+function param(location: Parameter['in'], schema: Schema, options: Partial<Parameter> = {}): Parameter {
+  return { name: 'id', in: location, schema, ...options };
+}
+
+describe('parseQueryString', () => {
+  it('keeps repeated and bracketed keys, decoding values', () => {
+    expect(parseQueryString('?id=1&id=2&filter%5Brole%5D=a+b&flag')).toEqual(new Map([
+      ['id', ['1', '2']],
+      ['filter[role]', ['a b']],
+      ['flag', ['']],
+    ]));
+  });
+});
+
+describe('parseCookieHeader', () => {
+  it('splits and decodes cookie pairs', () => {
+    expect(parseCookieHeader('session=a%20b; id=3;  id=4')).toEqual(new Map([
+      ['session', ['a b']],
+      ['id', ['3', '4']],
+    ]));
+  });
+});
+
+describe('deserializeStringParameter', () => {
+  it.each([
+    ['simple', false, '3,4,5'],
+    ['label', false, '.3,4,5'],
+    ['label', true, '.3.4.5'],
+    ['matrix', false, ';id=3,4,5'],
+    ['matrix', true, ';id=3;id=4;id=5'],
+  ])('deserializes %s arrays (explode: %s)', (style, explode, raw) => {
+    expect(deserializeStringParameter(spec, param('path', ids, { style: style as Parameter['style'], explode }), raw)).toEqual([3, 4, 5]);
+  });
+
+  it.each([
+    ['simple', false, 'role,admin,age,30'],
+    ['simple', true, 'role=admin,age=30'],
+    ['matrix', true, ';role=admin;age=30'],
+  ])('deserializes %s objects (explode: %s)', (style, explode, raw) => {
+    expect(deserializeStringParameter(spec, param('path', filter, { style: style as Parameter['style'], explode }), raw))
+      .toEqual({ role: 'admin', age: 30 });
+  });
+
+  it('coerces primitives and decodes path segments', () => {
+    expect(deserializeStringParameter(spec, param('path', { type: 'boolean' }), 'true')).toBe(true);
+    expect(deserializeStringParameter(spec, param('path', { type: 'string' }), 'a%2Fb')).toBe('a/b');
+    expect(deserializeStringParameter(spec, param('header', { type: 'string' }), 'a%2Fb')).toBe('a%2Fb');
+  });
+
+  it('parses parameters described by content as JSON', () => {
+    const content = { 'application/json': { schema: filter } };
+    expect(deserializeStringParameter(spec, { name: 'filter', in: 'header', content }, '{"age":30}')).toEqual({ age: 30 });
+  });
+});
+
+describe('deserializeMultiValueParameter', () => {
+  it('collects exploded form arrays from repeated keys', () => {
+    expect(deserializeMultiValueParameter(spec, param('query', ids), parseQueryString('id=3&id=4'))).toEqual([3, 4]);
+  });
+
+  it.each([
+    ['form', 'id=3,4'],
+    ['spaceDelimited', 'id=3%204'],
+    ['pipeDelimited', 'id=3|4'],
+  ])('splits %s arrays without explode', (style, query) => {
+    const parameter = param('query', ids, { style: style as Parameter['style'], explode: false });
+    expect(deserializeMultiValueParameter(spec, parameter, parseQueryString(query))).toEqual([3, 4]);
+  });
+
+  it('reads exploded form objects from their property keys', () => {
+    const parameter = param('query', filter, { name: 'filter' });
+    expect(deserializeMultiValueParameter(spec, parameter, parseQueryString('role=admin&active=false&other=1')))
+      .toEqual({ role: 'admin', active: false });
+  });
+
+  it('reads deepObject parameters from bracketed keys', () => {
+    const parameter = param('query', filter, { name: 'filter', style: 'deepObject', explode: true });
+    expect(deserializeMultiValueParameter(spec, parameter, parseQueryString('filter[role]=admin&filter[age]=30')))
+      .toEqual({ role: 'admin', age: 30 });
+  });
+
+  it('returns undefined for absent parameters', () => {
+    expect(deserializeMultiValueParameter(spec, param('cookie', { type: 'string' }), parseCookieHeader('other=1'))).toBeUndefined();
+    expect(deserializeMultiValueParameter(spec, param('query', filter, { style: 'deepObject' }), new Map())).toBeUndefined();
+  });
+});
\ No newline at end of file
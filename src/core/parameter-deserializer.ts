@@ -0,0 +1,221 @@
+import { OpenAPISpec, Parameter, Schema } from '../types/openapi';
+import { deref } from './ref-resolver';
+import { coercePrimitive, schemaType } from './body-parser';
+
+// Raw values keyed by name; query strings and cookies may repeat a key
+export type RawValues = Map<string, string[]>;
+
+const DELIMITERS: Record<string, string> = {
+  form: ',',
+  simple: ',',
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+};
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+function decodePath(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Split a raw query string (with or without the leading `?`) into decoded
+ * key/value lists, preserving repeated keys and bracketed deepObject keys.
+ */
+export function parseQueryString(query: string): RawValues {
+  const values: RawValues = new Map();
+  const trimmed = query.startsWith('?') ? query.substring(1) : query;
+
+  for (const pair of trimmed.split('&')) {
+    if (!pair) continue;
+    const equals = pair.indexOf('=');
+    const key = decode(equals >= 0 ? pair.substring(0, equals) : pair);
+    const value = equals >= 0 ? decode(pair.substring(equals + 1)) : '';
+    values.set(key, [...(values.get(key) || []), value]);
+  }
+
+  return values;
+}
+
+/**
+ * Split a raw Cookie header (`a=1; b=2`) into decoded values.
+ */
+export function parseCookieHeader(cookie: string): RawValues {
+  const values: RawValues = new Map();
+
+  for (const pair of cookie.split(';')) {
+    const trimmed = pair.trim();
+    if (!trimmed) continue;
+    const equals = trimmed.indexOf('=');
+    const key = equals >= 0 ? trimmed.substring(0, equals).trim() : trimmed;
+    const value = equals >= 0 ? decodePath(trimmed.substring(equals + 1).trim()) : '';
+    values.set(key, [...(values.get(key) || []), value]);
+  }
+
+  return values;
+}
+
+function defaultStyle(location: Parameter['in']): string {
+  return location === 'query' || location === 'cookie' ? 'form' : 'simple';
+}
+
+function parameterSchema(spec: OpenAPISpec, param: Parameter): Schema | undefined {
+  if (param.schema) {
+    return param.schema;
+  }
+  // Parameters described with `content` carry a single media type entry
+  const media = param.content ? Object.values(param.content)[0] : undefined;
+  return media?.schema ? (deref(spec, media.schema) as Schema) : undefined;
+}
+
+function coerceArray(spec: OpenAPISpec, items: string[], schema: Schema | undefined): any[] {
+  const itemSchema = (deref(spec, schema) as any)?.items;
+  return items.map(item => coercePrimitive(spec, item, itemSchema));
+}
+
+function coerceObject(spec: OpenAPISpec, entries: Array<[string, string]>, schema: Schema | undefined): Record<string, any> {
+  const resolved: any = schema ? deref(spec, schema) : undefined;
+  const object: Record<string, any> = {};
+  for (const [key, value] of entries) {
+    object[key] = coercePrimitive(spec, value, resolved?.properties?.[key]);
+  }
+  return object;
+}
+
+// "k1,v1,k2,v2" (explode=false) or "k1=v1,k2=v2" (explode=true)
+function splitObject(tokens: string[], explode: boolean): Array<[string, string]> {
+  if (explode) {
+    return tokens.map(token => {
+      const equals = token.indexOf('=');
+      return equals >= 0
+        ? [token.substring(0, equals), token.substring(equals + 1)] as [string, string]
+        : [token, ''] as [string, string];
+    });
+  }
+
+  const entries: Array<[string, string]> = [];
+  for (let i = 0; i < tokens.length; i += 2) {
+    entries.push([tokens[i], tokens[i + 1] ?? '']);
+  }
+  return entries;
+}
+
+/**
+ * Deserialize a path or header parameter string according to the parameter's
+ * `style` (simple, label, matrix) and `explode`, coercing primitives to the
+ * schema's types.
+ */
+export function deserializeStringParameter(spec: OpenAPISpec, param: Parameter, raw: string): any {
+  const schema = parameterSchema(spec, param);
+  const style = param.style || defaultStyle(param.in);
+  const explode = param.explode ?? false;
+  const type = schemaType(spec, schema);
+
+  if (param.content) {
+    try {
+      return JSON.parse(param.in === 'path' ? decodePath(raw) : raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  let value = raw;
+  let separator = ',';
+
+  if (style === 'label') {
+    value = value.startsWith('.') ? value.substring(1) : value;
+    separator = explode ? '.' : ',';
+  } else if (style === 'matrix') {
+    if (type === 'object' && explode) {
+      // ;role=admin;firstName=Alex
+      const tokens = value.split(';').filter(Boolean).map(decodePath);
+      return coerceObject(spec, splitObject(tokens, true), schema);
+    }
+    if (type === 'array' && explode) {
+      // ;id=3;id=4;id=5
+      const prefix = `${param.name}=`;
+      const items = value.split(';').filter(Boolean)
+        .map(token => decodePath(token.startsWith(prefix) ? token.substring(prefix.length) : token));
+      return coerceArray(spec, items, schema);
+    }
+    const prefix = `;${param.name}=`;
+    value = value.startsWith(prefix) ? value.substring(prefix.length) : value.replace(/^;/, '');
+  }
+
+  const decodeToken = param.in === 'path' ? decodePath : (token: string) => token;
+
+  switch (type) {
+    case 'array':
+      return coerceArray(spec, value === '' ? [] : value.split(separator).map(decodeToken), schema);
+    case 'object':
+      return coerceObject(spec, splitObject(value.split(separator).map(decodeToken), explode), schema);
+    default:
+      return coercePrimitive(spec, decodeToken(value), schema);
+  }
+}
+
+/**
+ * Deserialize a query or cookie parameter from the raw values, according to
+ * the parameter's `style` (form, spaceDelimited, pipeDelimited, deepObject)
+ * and `explode`. Returns undefined when the parameter is absent.
+ */
+export function deserializeMultiValueParameter(spec: OpenAPISpec, param: Parameter, values: RawValues): any {
+  const schema = parameterSchema(spec, param);
+  const style = param.style || defaultStyle(param.in);
+  const explode = param.explode ?? style === 'form';
+  const type = schemaType(spec, schema);
+
+  if (style === 'deepObject') {
+    const entries: Array<[string, string]> = [];
+    const prefix = `${param.name}[`;
+    for (const [key, list] of values) {
+      if (key.startsWith(prefix) && key.endsWith(']')) {
+        entries.push([key.substring(prefix.length, key.length - 1), list[list.length - 1]]);
+      }
+    }
+    return entries.length > 0 ? coerceObject(spec, entries, schema) : undefined;
+  }
+
+  if (type === 'object' && explode && !param.content) {
+    // form + explode spreads the object's properties over separate keys
+    const properties = Object.keys((deref(spec, schema) as any)?.properties || {});
+    const entries: Array<[string, string]> = properties
+      .filter(property => values.has(property))
+      .map(property => [property, values.get(property)![values.get(property)!.length - 1]]);
+    return entries.length > 0 ? coerceObject(spec, entries, schema) : undefined;
+  }
+
+  const list = values.get(param.name);
+  if (!list) {
+    return undefined;
+  }
+
+  if (param.content) {
+    try {
+      return JSON.parse(list[list.length - 1]);
+    } catch {
+      return list[list.length - 1];
+    }
+  }
+
+  switch (type) {
+    case 'array':
+      return explode
+        ? coerceArray(spec, list, schema)
+        : coerceArray(spec, list.flatMap(item => (item === '' ? [] : item.split(DELIMITERS[style] || ','))), schema);
+    case 'object':
+      return coerceObject(spec, splitObject(list[list.length - 1].split(','), false), schema);
+    default:
+      return coercePrimitive(spec, list[list.length - 1], schema);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import {
+  serializeCookieParameter,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQueryParameter,
+} from './parameter-serializer';
+import { deserializeMultiValueParameter, deserializeStringParameter, parseQueryString } from './parameter-deserializer';
+import { OpenAPISpec, Parameter } from '../types/openapi';
+
+const spec: OpenAPISpec = { openapi: '3.0.3', info: { title: 'Parameters', version: '1.0.0' }, paths: {} };
+
+const array = { type: 'array', items: { type: 'integer' } } as const;
+const object = { type: 'object', properties: { role: { type: 'string' }, age: { type: 'integer' } } } as const;
+
+function param(location: Parameter['in'], options: Partial<Parameter> = {}): Parameter {
+  return { name: 'id', in: location, ...options };
+}
+
+describe('serializePathParameter', () => {
+  it.each([
+    ['simple', false, [3, 4, 5], '3,4,5'],
+    ['simple', true, { role: 'admin', age: 30 }, 'role=admin,age=30'],
+    ['label', false, [3, 4, 5], '.3,4,5'],
+    ['label', true, [3, 4, 5], '.3.4.5'],
+    ['matrix', false, { role: 'admin', age: 30 }, ';id=role,admin,age,30'],
+    ['matrix', true, [3, 4, 5], ';id=3;id=4;id=5'],
+    ['matrix', false, 'a b', ';id=a%20b'],
+  ])('serializes %s (explode: %s) %j', (style, explode, value, expected) => {
+    expect(serializePathParameter(param('path', { style: style as Parameter['style'], explode }), value)).toBe(expected);
+  });
+
+  it('percent-encodes values unless reserved characters are allowed', () => {
+    expect(serializePathParameter(param('path'), 'a/b c')).toBe('a%2Fb%20c');
+    expect(serializePathParameter(param('path', { allowReserved: true }), 'a/b c')).toBe('a/b%20c');
+  });
+});
+
+describe('serializeQueryParameter', () => {
+  it.each([
+    ['form', true, [3, 4], ['id=3', 'id=4']],
+    ['form', false, [3, 4], ['id=3,4']],
+    ['spaceDelimited', false, [3, 4], ['id=3%204']],
+    ['pipeDelimited', false, [3, 4], ['id=3|4']],
+    ['form', true, { role: 'admin', age: 30 }, ['role=admin', 'age=30']],
+    ['form', false, { role: 'admin', age: 30 }, ['id=role,admin,age,30']],
+    ['deepObject', true, { role: 'admin', age: 30 }, ['id%5Brole%5D=admin', 'id%5Bage%5D=30']],
+  ])('serializes %s (explode: %s) %j', (style, explode, value, expected) => {
+    expect(serializeQueryParameter(param('query', { style: style as Parameter['style'], explode }), value)).toEqual(expected);
+  });
+
+  it('sends parameters described by content as JSON', () => {
+    const parameter = param('query', { content: { 'application/json': { schema: object } } });
+    expect(serializeQueryParameter(parameter, { role: 'admin' })).toEqual(['id=%7B%22role%22%3A%22admin%22%7D']);
+  });
+});
+
+describe('serializeHeaderParameter', () => {
+  it('joins values with commas without encoding them', () => {
+    expect(serializeHeaderParameter(param('header'), ['a b', 'c/d'])).toBe('a b,c/d');
+    expect(serializeHeaderParameter(param('header', { explode: true }), { role: 'admin' })).toBe('role=admin');
+  });
+});
+
+describe('serializeCookieParameter', () => {
+  it('sends exploded values as separate cookies', () => {
+    expect(serializeCookieParameter(param('cookie'), [3, 4])).toEqual(['id=3', 'id=4']);
+    expect(serializeCookieParameter(param('cookie', { explode: false }), [3, 4])).toEqual(['id=3,4']);
+    expect(serializeCookieParameter(param('cookie'), 'a;b')).toEqual(['id=a%3Bb']);
+  });
+});
+
+describe('round trips with the deserializer', () => {
+  it.each([
+    ['simple', false, array, [3, 4, 5]],
+    ['label', true, array, [3, 4, 5]],
+    ['matrix', true, array, [3, 4, 5]],
+    ['matrix', true, object, { role: 'a/b', age: 30 }],
+  ])('reads back %s (explode: %s) path values', (style, explode, schema, value) => {
+    const parameter = param('path', { style: style as Parameter['style'], explode, schema });
+    expect(deserializeStringParameter(spec, parameter, serializePathParameter(parameter, value))).toEqual(value);
+  });
+
+  it.each([
+    ['form', true, array, [3, 4, 5]],
+    ['pipeDelimited', false, array, [3, 4, 5]],
+    ['spaceDelimited', false, array, [3, 4, 5]],
+    ['deepObject', true, object, { role: 'a&b', age: 30 }],
+  ])('reads back %s (explode: %s) query values', (style, explode, schema, value) => {
+    const parameter = param('query', { style: style as Parameter['style'], explode, schema });
+    const query = serializeQueryParameter(parameter, value).join('&');
+    expect(deserializeMultiValueParameter(spec, parameter, parseQueryString(query))).toEqual(value);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { Parameter } from '../types/openapi';
+
+const DELIMITERS: Record<string, string> = {
+  form: ',',
+  simple: ',',
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+};
+
+// Reserved characters (RFC 3986) left as-is for allowReserved parameters
+const RESERVED_ESCAPES = /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi;
+
+function defaultStyle(location: Parameter['in']): string {
+  return location === 'query' || location === 'cookie' ? 'form' : 'simple';
+}
+
+function encode(value: string, allowReserved: boolean = false): string {
+  const encoded = encodeURIComponent(value);
+  return allowReserved ? encoded.replace(RESERVED_ESCAPES, match => decodeURIComponent(match)) : encoded;
+}
+
+function stringify(value: any): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Serialize a path parameter value according to its `style` (simple, label,
+ * matrix) and `explode`. The result is percent-encoded.
+ */
+export function serializePathParameter(param: Parameter, value: any): string {
+  const style = param.style || defaultStyle(param.in);
+  const explode = param.explode ?? false;
+  const enc = (item: any) => encode(stringify(item), param.allowReserved);
+
+  if (param.content) {
+    return enc(JSON.stringify(value));
+  }
+
+  if (style === 'label') {
+    if (Array.isArray(value)) {
+      return '.' + value.map(enc).join(explode ? '.' : ',');
+    }
+    if (isObject(value)) {
+      return '.' + Object.entries(value)
+        .map(([key, item]) => (explode ? `${enc(key)}=${enc(item)}` : `${enc(key)},${enc(item)}`))
+        .join(explode ? '.' : ',');
+    }
+    return `.${enc(value)}`;
+  }
+
+  if (style === 'matrix') {
+    const name = enc(param.name);
+    if (Array.isArray(value)) {
+      return explode
+        ? value.map(item => `;${name}=${enc(item)}`).join('')
+        : `;${name}=${value.map(enc).join(',')}`;
+    }
+    if (isObject(value)) {
+      return explode
+        ? Object.entries(value).map(([key, item]) => `;${enc(key)}=${enc(item)}`).join('')
+        : `;${name}=${Object.entries(value).map(([key, item]) => `${enc(key)},${enc(item)}`).join(',')}`;
+    }
+    return `;${name}=${enc(value)}`;
+  }
+
+  return serializeSimple(value, explode, enc);
+}
+
+/**
+ * Serialize a header parameter value (always style `simple`). Header values
+ * are not percent-encoded.
+ */
+export function serializeHeaderParameter(param: Parameter, value: any): string {
+  if (param.content) {
+    return JSON.stringify(value);
+  }
+  return serializeSimple(value, param.explode ?? false, stringify);
+}
+
+/**
+ * Serialize a query parameter into `name=value` pairs according to its
+ * `style` (form, spaceDelimited, pipeDelimited, deepObject) and `explode`.
+ */
+export function serializeQueryParameter(param: Parameter, value: any): string[] {
+  const style = param.style || defaultStyle(param.in);
+  const explode = param.explode ?? style === 'form';
+  const enc = (item: any) => encode(stringify(item), param.allowReserved);
+  const name = encode(param.name);
+
+  if (param.content) {
+    return [`${name}=${enc(JSON.stringify(value))}`];
+  }
+
+  if (style === 'deepObject' && isObject(value)) {
+    return Object.entries(value).map(([key, item]) => `${name}%5B${encode(key)}%5D=${enc(item)}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (explode) {
+      return value.map(item => `${name}=${enc(item)}`);
+    }
+    // The delimiter itself stays literal; a space is sent as %20
+    const delimiter = style === 'spaceDelimited' ? '%20' : DELIMITERS[style] || ',';
+    return [`${name}=${value.map(enc).join(delimiter)}`];
+  }
+
+  if (isObject(value)) {
+    return explode
+      ? Object.entries(value).map(([key, item]) => `${encode(key)}=${enc(item)}`)
+      : [`${name}=${Object.entries(value).map(([key, item]) => `${enc(key)},${enc(item)}`).join(',')}`];
+  }
+
+  return [`${name}=${enc(value)}`];
+}
+
+/**
+ * Serialize a cookie parameter into `name=value` pairs (style `form`).
+ */
+export function serializeCookieParameter(param: Parameter, value: any): string[] {
+  const explode = param.explode ?? true;
+  const enc = (item: any) => encode(stringify(item));
+
+  if (param.content) {
+    return [`${param.name}=${enc(JSON.stringify(value))}`];
+  }
+
+  if (Array.isArray(value)) {
+    return explode
+      ? value.map(item => `${param.name}=${enc(item)}`)
+      : [`${param.name}=${value.map(enc).join(',')}`];
+  }
+
+  if (isObject(value)) {
+    return explode
+      ? Object.entries(value).map(([key, item]) => `${key}=${enc(item)}`)
+      : [`${param.name}=${Object.entries(value).map(([key, item]) => `${enc(key)},${enc(item)}`).join(',')}`];
+  }
+
+  return [`${param.name}=${enc(value)}`];
+}
+
+function serializeSimple(value: any, explode: boolean, enc: (item: any) => string): string {
+  if (Array.isArray(value)) {
+    return value.map(enc).join(',');
+  }
+  if (isObject(value)) {
+    return Object.entries(value)
+      .map(([key, item]) => (explode ? `${enc(key)}=${enc(item)}` : `${enc(key)},${enc(item)}`))
+      .join(',');
+  }
+  return enc(value);
+}
\ No newline at end of file
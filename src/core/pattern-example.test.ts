@@ -0,0 +1,62 @@
+import { matchesPattern, patternExample } from './pattern-example';
+
+describe('patternExample', () => {
+  it.each([
+    '^\\d{5}(-\\d{4})?$',
+    '^[A-Z]{2}-[0-9a-f]{4,}$',
+    '^(foo|bar)_\\w+$',
+    '^(?<year>\\d{4})-(?:0[1-9]|1[0-2])$',
+    '^[^@\\s]+@[^@\\s]+\\.io$',
+    '^\\p{Lu}\\p{Ll}+$',
+    '^a{2}\\{b\\}$',
+    'v\\d+',
+  ])('generates a match for %s', pattern => {
+    const value = patternExample(pattern);
+
+    expect(value).toBeDefined();
+    expect(new RegExp(pattern, 'u').test(value!)).toBe(true);
+  });
+
+  it('generates the shortest match by default', () => {
+    expect(patternExample('^\\d{5}(-\\d{4})?$')).toBe('00000');
+    expect(patternExample('^[a-z]+$')).toBe('a');
+  });
+
+  it('repeats unbounded parts to reach minLength', () => {
+    expect(patternExample('^[a-z]+$', { minLength: 4 })).toBe('aaaa');
+    expect(patternExample('^\\d{5}(-\\d{4})?$', { minLength: 6 })).toBe('00000-0000');
+  });
+
+  it('gives up when no match fits maxLength', () => {
+    expect(patternExample('^\\d{5}$', { maxLength: 4 })).toBeUndefined();
+  });
+
+  it('uses pick to vary characters and alternatives', () => {
+    expect(patternExample('^(foo|bar)[xyz]$', {}, count => count - 1)).toBe('barz');
+  });
+
+  it('does not generate lookarounds, backreferences or word boundaries', () => {
+    expect(patternExample('^(?=.*\\d).{8,}$')).toBeUndefined();
+    expect(patternExample('^(a)\\1$')).toBeUndefined();
+    expect(patternExample('\\bword\\b')).toBeUndefined();
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(patternExample('(unclosed')).toBeUndefined();
+  });
+});
+
+describe('matchesPattern', () => {
+  it('tests values against the pattern', () => {
+    expect(matchesPattern('^[a-z]+$', 'abc')).toBe(true);
+    expect(matchesPattern('^[a-z]+$', 'ABC')).toBe(false);
+  });
+
+  it('accepts patterns that only compile without the unicode flag', () => {
+    expect(matchesPattern('^[\\w-.]+$', 'a-b.c')).toBe(true);
+  });
+
+  it('lets values pass invalid patterns', () => {
+    expect(matchesPattern('(unclosed', 'anything')).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,253 @@
+// A regular expression, reduced to what generating a match needs
+type Node =
+  | { kind: 'chars'; source: string }
+  | { kind: 'literal'; value: string }
+  | { kind: 'sequence'; items: Node[] }
+  | { kind: 'choice'; options: Node[] }
+  | { kind: 'repeat'; node: Node; min: number; max: number };
+
+// Characters a generated string is built from, in order of preference
+const CHARACTER_POOL = [
+  ...'abcdefghijklmnopqrstuvwxyz',
+  ...'0123456789',
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  ...'_-. @:/+',
+  ...'!"#$%&\'()*,;<=>?[\\]^`{|}~',
+];
+
+// How far an unbounded quantifier (`*`, `+`, `{n,}`) may go to reach minLength
+const MAX_EXTRA_REPEATS = 64;
+
+/**
+ * Generate a string matching a `pattern`, as short as the pattern allows
+ * but within the length bounds. `pick` chooses among equally good
+ * characters and alternatives (the first without one). Undefined for
+ * patterns using lookarounds, backreferences or other features that cannot
+ * be generated, and when no match fits the bounds.
+ */
+export function patternExample(
+  pattern: string,
+  bounds: { minLength?: number; maxLength?: number } = {},
+  pick: (count: number) => number = () => 0
+): string | undefined {
+  const regex = compile(pattern);
+  if (!regex) return undefined;
+
+  let tree: Node;
+  try {
+    tree = new PatternParser(pattern).parse();
+  } catch {
+    return undefined;
+  }
+
+  const minLength = bounds.minLength ?? 0;
+  const maxLength = bounds.maxLength ?? Infinity;
+  for (let extra = 0; extra <= MAX_EXTRA_REPEATS; extra++) {
+    const value = render(tree, extra, pick);
+    if (value === undefined) return undefined;
+    if (value.length > maxLength) return undefined;
+    if (value.length >= minLength) {
+      return regex.test(value) ? value : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a value matches a schema's `pattern` (unparseable patterns match
+ * everything, like in the validator's lenient handling).
+ */
+export function matchesPattern(pattern: string, value: string): boolean {
+  const regex = compile(pattern);
+  return !regex || regex.test(value);
+}
+
+function compile(pattern: string): RegExp | null {
+  for (const flags of ['u', '']) {
+    try {
+      return new RegExp(pattern, flags);
+    } catch {
+      // Patterns written without the unicode flag in mind, e.g. `[\w-.]`
+    }
+  }
+  return null;
+}
+
+function render(node: Node, extra: number, pick: (count: number) => number): string | undefined {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'chars': {
+      const test = compile(`^(?:${node.source})$`);
+      const matching = test ? CHARACTER_POOL.filter(char => test.test(char)) : [];
+      return matching.length > 0 ? matching[pick(matching.length)] : undefined;
+    }
+    case 'sequence': {
+      let result = '';
+      for (const item of node.items) {
+        const part = render(item, extra, pick);
+        if (part === undefined) return undefined;
+        result += part;
+      }
+      return result;
+    }
+    case 'choice':
+      return render(node.options[pick(node.options.length)], extra, pick);
+    case 'repeat': {
+      const count = Math.min(node.min + extra, node.max);
+      let result = '';
+      for (let i = 0; i < count; i++) {
+        const part = render(node.node, extra, pick);
+        if (part === undefined) return undefined;
+        result += part;
+      }
+      return result;
+    }
+  }
+}
+
+class PatternParser {
+  private source: string;
+  private position = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  parse(): Node {
+    const node = this.parseChoice();
+    if (this.position < this.source.length) {
+      throw new Error(`Unexpected '${this.source[this.position]}'`);
+    }
+    return node;
+  }
+
+  private parseChoice(): Node {
+    const options = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.position++;
+      options.push(this.parseSequence());
+    }
+    return options.length === 1 ? options[0] : { kind: 'choice', options };
+  }
+
+  private parseSequence(): Node {
+    const items: Node[] = [];
+    while (this.position < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      const atom = this.parseAtom();
+      if (atom) items.push(this.parseQuantifier(atom));
+    }
+    return { kind: 'sequence', items };
+  }
+
+  // Null for anchors, which generate nothing
+  private parseAtom(): Node | null {
+    const char = this.source[this.position++];
+    switch (char) {
+      case '^':
+      case '$':
+        return null;
+      case '.':
+        return { kind: 'chars', source: '.' };
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return this.parseClass();
+      case '\\':
+        return this.parseEscape();
+      case '*':
+      case '+':
+      case '?':
+      case '{':
+        throw new Error(`Nothing to repeat at ${this.position - 1}`);
+      default:
+        return { kind: 'literal', value: char };
+    }
+  }
+
+  private parseGroup(): Node {
+    if (this.peek() === '?') {
+      const kind = this.source.slice(this.position, this.position + 3);
+      if (kind.startsWith('?:')) {
+        this.position += 2;
+      } else if (kind.startsWith('?<') && kind !== '?<=' && kind !== '?<!') {
+        this.position = this.source.indexOf('>', this.position) + 1;
+        if (this.position === 0) throw new Error('Unterminated group name');
+      } else {
+        throw new Error('Lookarounds are not supported');
+      }
+    }
+    const node = this.parseChoice();
+    if (this.source[this.position++] !== ')') {
+      throw new Error('Unterminated group');
+    }
+    return node;
+  }
+
+  private parseClass(): Node {
+    const start = this.position - 1;
+    if (this.peek() === '^') this.position++;
+    // A `]` right after `[` or `[^` is a literal
+    if (this.peek() === ']') this.position++;
+    while (this.position < this.source.length && this.source[this.position] !== ']') {
+      this.position += this.source[this.position] === '\\' ? 2 : 1;
+    }
+    if (this.position >= this.source.length) {
+      throw new Error('Unterminated character class');
+    }
+    this.position++;
+    return { kind: 'chars', source: this.source.slice(start, this.position) };
+  }
+
+  private parseEscape(): Node {
+    const char = this.source[this.position++];
+    if (char === undefined) throw new Error('Trailing backslash');
+    if (/[1-9k]/.test(char)) throw new Error('Backreferences are not supported');
+    if (char === 'b' || char === 'B') throw new Error('Word boundaries are not supported');
+
+    if (char === 'u' || char === 'x' || char === 'p' || char === 'P' || char === 'c') {
+      // Let the regex engine interpret the escape: A, \x41, \p{L}, \cJ
+      const match = /^(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[pP]\{[^}]+\}|c[a-zA-Z])/.exec(this.source.slice(this.position - 1));
+      if (!match) throw new Error(`Invalid escape \\${char}`);
+      this.position += match[0].length - 1;
+      return { kind: 'chars', source: `\\${match[0]}` };
+    }
+
+    const controls: Record<string, string> = { n: '\n', r: '\r', t: '\t', f: '\f', v: '\v', '0': '\0' };
+    if (controls[char] !== undefined) {
+      return { kind: 'literal', value: controls[char] };
+    }
+    return /[dDwWsS]/.test(char) ? { kind: 'chars', source: `\\${char}` } : { kind: 'literal', value: char };
+  }
+
+  private parseQuantifier(node: Node): Node {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+
+    if (char === '*' || char === '+' || char === '?') {
+      this.position++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.position));
+      if (!match) {
+        // Not a quantifier: a literal brace, as in non-unicode regexes
+        return node;
+      }
+      this.position += match[0].length;
+      min = parseInt(match[1], 10);
+      max = match[2] === undefined ? min : match[3] ? parseInt(match[3], 10) : Infinity;
+    } else {
+      return node;
+    }
+
+    // Lazy and possessive-looking suffixes change nothing for generation
+    if (this.peek() === '?') this.position++;
+    return { kind: 'repeat', node, min, max };
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.position];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { deref, expandRefs, resolvePointer, toPointer } from './ref-resolver';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Trees', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Node: {
+        type: 'object',
+        properties: {
+          label: { $ref: '#/components/schemas/Label' },
+          children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+        },
+      },
+      Label: { type: 'string', maxLength: 20 },
+      ShortLabel: { $ref: '#/components/schemas/Label', maxLength: 5 },
+      Alias: { $ref: '#/components/schemas/Label' },
+      Loop: { $ref: '#/components/schemas/Loop' },
+      'a/b~c': { type: 'integer' },
+    },
+  },
+};
+
+describe('toPointer / resolvePointer', () => {
+  it('escapes and unescapes ~ and / in segments', () => {
+    const pointer = toPointer('components', 'schemas', 'a/b~c');
+
+    expect(pointer).toBe('#/components/schemas/a~1b~0c');
+    expect(resolvePointer(spec, pointer)).toEqual({ type: 'integer' });
+  });
+
+  it('returns undefined for external and missing references', () => {
+    expect(resolvePointer(spec, 'other.yaml#/Node')).toBeUndefined();
+    expect(resolvePointer(spec, '#/components/schemas/Missing')).toBeUndefined();
+  });
+});
+
+describe('deref', () => {
+  it('follows chains of references', () => {
+    expect(deref(spec, { $ref: '#/components/schemas/Alias' })).toEqual({ type: 'string', maxLength: 20 });
+  });
+
+  it('stops at self-references and unresolvable references', () => {
+    expect(deref(spec, { $ref: '#/components/schemas/Loop' })).toEqual({ $ref: '#/components/schemas/Loop' });
+    expect(deref(spec, { $ref: '#/nowhere' })).toEqual({ $ref: '#/nowhere' });
+  });
+});
+
+describe('expandRefs', () => {
+  const node = spec.components!.schemas!.Node;
+  const pointer = toPointer('components', 'schemas', 'Node');
+
+  it('marks references back into a schema being expanded as circular', () => {
+    expect(expandRefs(spec, node, 'full', pointer)).toEqual({
+      type: 'object',
+      properties: {
+        label: { type: 'string', maxLength: 20 },
+        children: { type: 'array', items: { $circular: '#/components/schemas/Node' } },
+      },
+    });
+  });
+
+  it('expands one level of a recursive reference before marking it', () => {
+    expect(expandRefs(spec, { $ref: '#/components/schemas/Node' }, 'full')).toEqual({
+      type: 'object',
+      properties: {
+        label: { type: 'string', maxLength: 20 },
+        children: { type: 'array', items: { $circular: '#/components/schemas/Node' } },
+      },
+    });
+  });
+
+  it('stops after the given number of levels', () => {
+    const reference = { $ref: '#/components/schemas/Node' };
+
+    expect(expandRefs(spec, reference, 'none')).toEqual(reference);
+    expect(expandRefs(spec, reference, 'shallow')).toEqual({
+      type: 'object',
+      properties: {
+        label: { $ref: '#/components/schemas/Label' },
+        children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+      },
+    });
+    expect(expandRefs(spec, { items: reference }, 2)).toEqual(expandRefs(spec, { items: reference }, 'full'));
+  });
+
+  it('applies keywords next to a $ref on top of its target', () => {
+    expect(expandRefs(spec, spec.components!.schemas!.ShortLabel)).toEqual({ type: 'string', maxLength: 5 });
+  });
+
+  it('leaves unresolvable references as they are', () => {
+    expect(expandRefs(spec, { $ref: 'other.yaml#/Node' })).toEqual({ $ref: 'other.yaml#/Node' });
+  });
+
+  it('rejects unknown resolution modes', () => {
+    expect(() => expandRefs(spec, node, 'deep' as any)).toThrow(
+      "Unknown reference resolution 'deep' (expected none, shallow or full)"
+    );
+  });
+});
\ No newline at end of file
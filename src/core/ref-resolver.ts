@@ -0,0 +1,117 @@
+import { OpenAPISpec } from '../types/openapi';
+
+/**
+ * JSON pointer (as a URI fragment) to a location in the spec.
+ */
+export function toPointer(...segments: Array<string | number>): string {
+  return '#/' + segments.map(segment => String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('/');
+}
+
+/**
+ * Look up a local JSON pointer reference (`#/components/schemas/User`) in the
+ * spec. Returns undefined for external or unresolvable references.
+ */
+export function resolvePointer(spec: OpenAPISpec, ref: string): any {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+
+  const segments = ref
+    .substring(1)
+    .split('/')
+    .filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current: any = spec;
+  for (const segment of segments) {
+    if (current && typeof current === 'object' && segment in current) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Follow `$ref`s until a concrete object is reached. Unresolvable references
+ * are returned unchanged.
+ */
+export function deref<T>(spec: OpenAPISpec, value: T): T {
+  let current: any = value;
+  const seen = new Set<string>();
+
+  while (current && typeof current === 'object' && typeof current.$ref === 'string') {
+    if (seen.has(current.$ref)) break;
+    seen.add(current.$ref);
+
+    const target = resolvePointer(spec, current.$ref);
+    if (target === undefined) break;
+    current = target;
+  }
+
+  return current as T;
+}
+
+export type RefResolution = 'none' | 'shallow' | 'full';
+
+// `$ref` levels inlined by each resolution mode
+const RESOLUTION_DEPTH: Record<RefResolution, number> = {
+  none: 0,
+  shallow: 1,
+  full: Infinity,
+};
+
+/**
+ * Copy of a value with local `$ref`s replaced by their targets, `depth`
+ * references deep (nested `$ref`s past that are left as they are). A
+ * reference back to a target that is being expanded becomes
+ * `{ "$circular": "#/components/schemas/Node" }`, so the copy is always a tree.
+ * `pointer` is where the value itself lives, if it is a component.
+ */
+export function expandRefs(
+  spec: OpenAPISpec,
+  value: any,
+  depth: number | RefResolution = Infinity,
+  pointer?: string
+): any {
+  const limit = typeof depth === 'number' ? depth : RESOLUTION_DEPTH[depth];
+  if (limit === undefined) {
+    throw new Error(`Unknown reference resolution '${depth}' (expected none, shallow or full)`);
+  }
+
+  const expand = (node: any, remaining: number, expanding: string[]): any => {
+    if (Array.isArray(node)) {
+      return node.map(item => expand(item, remaining, expanding));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string' && remaining > 0) {
+      const ref: string = node.$ref;
+      if (expanding.includes(ref)) {
+        return { $circular: ref };
+      }
+
+      const target = resolvePointer(spec, ref);
+      if (target !== undefined) {
+        const expanded = expand(target, remaining - 1, [...expanding, ref]);
+        // 3.1 allows keywords next to a $ref; they refine the target
+        const { $ref: _ref, ...siblings } = node;
+        if (Object.keys(siblings).length === 0 || !expanded || typeof expanded !== 'object' || Array.isArray(expanded)) {
+          return expanded;
+        }
+        return { ...expanded, ...expand(siblings, remaining, expanding) };
+      }
+    }
+
+    const copy: Record<string, any> = {};
+    for (const [key, child] of Object.entries(node)) {
+      copy[key] = expand(child, remaining, expanding);
+    }
+    return copy;
+  };
+
+  return expand(value, limit, pointer ? [pointer] : []);
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { OutgoingRequest, applySecurity, encodeRequestBody, isHostAllowed, operationServers, resolveServerUrl } from './request-builder';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Secured', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com' }],
+  paths: {},
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      queryKey: { type: 'apiKey', in: 'query', name: 'api key' },
+      session: { type: 'apiKey', in: 'cookie', name: 'sid' },
+      basic: { type: 'http', scheme: 'basic' },
+      bearer: { type: 'http', scheme: 'bearer' },
+      oauth: { type: 'oauth2', flows: {} },
+    },
+  },
+};
+
+function emptyRequest(): OutgoingRequest {
+  return { headers: {}, query: [], cookies: [] };
+}
+
+describe('operationServers', () => {
+  it('prefers operation servers over path and document servers', () => {
+    const pathItem = { servers: [{ url: 'https://path.example.com' }] };
+    expect(operationServers(spec, pathItem, { servers: [{ url: 'https://op.example.com' }], responses: {} })).toEqual([{ url: 'https://op.example.com' }]);
+    expect(operationServers(spec, pathItem, { responses: {} })).toEqual([{ url: 'https://path.example.com' }]);
+    expect(operationServers(spec, {}, { responses: {} })).toEqual([{ url: 'https://api.example.com' }]);
+  });
+});
+
+describe('resolveServerUrl', () => {
+  const servers = [
+    { url: 'https://{region}.api.example.com/{version}/', variables: { region: { default: 'eu', enum: ['eu', 'us'] }, version: { default: 'v1' } } },
+    { url: '/sandbox' },
+  ];
+
+  it('substitutes variables, falling back to their defaults', () => {
+    expect(resolveServerUrl(servers, undefined, {}, null)).toBe('https://eu.api.example.com/v1');
+    expect(resolveServerUrl(servers, 0, { region: 'us', version: 'v2' }, null)).toBe('https://us.api.example.com/v2');
+  });
+
+  it('resolves relative servers against the spec URL', () => {
+    expect(resolveServerUrl(servers, '1', {}, 'https://docs.example.com/specs/openapi.json')).toBe('https://docs.example.com/sandbox');
+    expect(() => resolveServerUrl(servers, 1, {}, '/specs/openapi.json'))
+      .toThrow("Server URL '/sandbox' is relative and the spec was not loaded over HTTP; pass an absolute server URL");
+  });
+
+  it('rejects out-of-range indexes and values outside a variable enum', () => {
+    expect(() => resolveServerUrl(servers, 2, {}, null)).toThrow('Server index 2 is out of range (0-1)');
+    expect(() => resolveServerUrl(servers, 0, { region: 'ap' }, null)).toThrow("Server variable 'region' must be one of: eu, us");
+  });
+
+  it('uses other URLs as given', () => {
+    expect(resolveServerUrl(servers, 'http://localhost:4010/', {}, null)).toBe('http://localhost:4010');
+  });
+});
+
+describe('isHostAllowed', () => {
+  const allowed = ['api.example.com', 'localhost:4010', '*.staging.example.com'];
+
+  it('matches host names, host:port and wildcard subdomains', () => {
+    expect(isHostAllowed(allowed, 'https://API.example.com/v1')).toBe(true);
+    expect(isHostAllowed(allowed, 'http://localhost:4010')).toBe(true);
+    expect(isHostAllowed(allowed, 'https://eu.staging.example.com')).toBe(true);
+  });
+
+  it('rejects other hosts and ports', () => {
+    expect(isHostAllowed(allowed, 'http://localhost:8080')).toBe(false);
+    expect(isHostAllowed(allowed, 'https://api.example.com.evil.io')).toBe(false);
+    expect(isHostAllowed(allowed, 'https://staging.example.com')).toBe(false);
+    expect(isHostAllowed([], 'https://api.example.com')).toBe(false);
+  });
+});
+
+describe('applySecurity', () => {
+  it('applies the first requirement the credentials satisfy', () => {
+    const request = emptyRequest();
+    const applied = applySecurity(spec, [{ bearer: [] }, { apiKey: [], session: [] }], { apiKey: 'k/1', session: 's 1' }, request);
+
+    expect(applied).toEqual({ schemes: ['apiKey', 'session'], secrets: ['k/1', 'k%2F1', 's 1', 's%201'] });
+    expect(request).toEqual({ headers: { 'X-API-Key': 'k/1' }, query: [], cookies: ['sid=s%201'] });
+  });
+
+  it('encodes basic, bearer, OAuth and query credentials', () => {
+    const request = emptyRequest();
+    applySecurity(spec, [{ queryKey: [] }], { queryKey: 'q&1' }, request);
+    expect(request.query).toEqual(['api%20key=q%261']);
+
+    const basic = emptyRequest();
+    expect(applySecurity(spec, [{ basic: [] }], { basic: { username: 'ada', password: 'pw' } }, basic).secrets)
+      .toEqual(['ada:pw', 'YWRhOnB3']);
+    expect(basic.headers).toEqual({ Authorization: 'Basic YWRhOnB3' });
+
+    const oauth = emptyRequest();
+    applySecurity(spec, [{ oauth: ['read'] }], { oauth: 'token' }, oauth);
+    expect(oauth.headers).toEqual({ Authorization: 'Bearer token' });
+  });
+
+  it('sends anonymous requests when a requirement allows it', () => {
+    const request = emptyRequest();
+    expect(applySecurity(spec, [{ bearer: [] }, {}], {}, request)).toEqual({ schemes: [], secrets: [] });
+    expect(request).toEqual(emptyRequest());
+  });
+
+  it('warns when no requirement can be met', () => {
+    expect(applySecurity(spec, [{ bearer: [] }, { apiKey: [], session: [] }], { apiKey: 'k' }, emptyRequest()).warning).toBe(
+      'No credentials configured for the security requirements of this operation (bearer, apiKey + session); the request was sent without authentication'
+    );
+  });
+});
+
+describe('encodeRequestBody', () => {
+  it('encodes objects for the content type', () => {
+    expect(encodeRequestBody({ a: 1, tags: ['x', 'y'] }, 'application/x-www-form-urlencoded')).toBe('a=1&tags=x&tags=y');
+    expect(encodeRequestBody({ a: 1 }, 'application/merge-patch+json')).toBe('{"a":1}');
+    expect(encodeRequestBody({ a: 1 }, 'text/plain')).toBe('{"a":1}');
+    expect(encodeRequestBody('raw', 'application/json')).toBe('raw');
+    expect(encodeRequestBody(null, 'application/json')).toBeUndefined();
+  });
+
+  it('builds multipart form data with typed parts', async () => {
+    const form = encodeRequestBody({
+      name: 'Ada',
+      meta: { role: 'admin' },
+      file: { value: 'hello', contentType: 'text/csv', filename: 'a.csv' },
+    }, 'multipart/form-data') as FormData;
+
+    expect(form.get('name')).toBe('Ada');
+    const meta = form.get('meta') as Blob;
+    expect(meta.type).toBe('application/json');
+    expect(await meta.text()).toBe('{"role":"admin"}');
+    const file = form.get('file') as File;
+    expect([file.name, file.type, await file.text()]).toEqual(['a.csv', 'text/csv', 'hello']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,238 @@
+import { OpenAPISpec, Operation, PathItem, SecurityRequirement, SecurityScheme, Server } from '../types/openapi';
+import { Credential } from '../types/config';
+import { deref } from './ref-resolver';
+import { isJsonMediaType, normalizeMediaType } from './media-types';
+
+export interface OutgoingRequest {
+  headers: Record<string, string>;
+  // Encoded `name=value` pairs
+  query: string[];
+  cookies: string[];
+}
+
+export interface AppliedSecurity {
+  // Schemes whose credentials were added to the request
+  schemes: string[];
+  // Credential values, for masking them in output
+  secrets: string[];
+  warning?: string;
+}
+
+/**
+ * Servers that apply to an operation: operation-level servers override
+ * path-level ones, which override the document's.
+ */
+export function operationServers(spec: OpenAPISpec, pathItem: PathItem, operation: Operation): Server[] {
+  if (operation.servers && operation.servers.length > 0) return operation.servers;
+  if (pathItem.servers && pathItem.servers.length > 0) return pathItem.servers;
+  if (spec.servers && spec.servers.length > 0) return spec.servers;
+  return [{ url: '/' }];
+}
+
+/**
+ * Pick a server by index or URL (default: the first one) and substitute its
+ * variables, falling back to their defaults. Relative server URLs are
+ * resolved against the location the spec was fetched from.
+ */
+export function resolveServerUrl(
+  servers: Server[],
+  selection: string | number | undefined,
+  variables: Record<string, string> = {},
+  specUrl: string | null
+): string {
+  let server: Server;
+  if (selection === undefined || selection === '') {
+    server = servers[0];
+  } else if (typeof selection === 'number' || /^\d+$/.test(selection)) {
+    const index = Number(selection);
+    if (!servers[index]) {
+      throw new Error(`Server index ${index} is out of range (0-${servers.length - 1})`);
+    }
+    server = servers[index];
+  } else {
+    server = servers.find(candidate => candidate.url === selection) || { url: selection };
+  }
+
+  let url = server.url.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+    const variable = server.variables?.[name];
+    const value = variables[name] ?? variable?.default;
+    if (value === undefined) {
+      throw new Error(`No value for server variable '${name}' of ${server.url}`);
+    }
+    if (variable?.enum && variable.enum.length > 0 && !variable.enum.includes(value)) {
+      throw new Error(`Server variable '${name}' must be one of: ${variable.enum.join(', ')}`);
+    }
+    return value;
+  });
+
+  if (!/^https?:\/\//i.test(url)) {
+    if (!specUrl || !/^https?:\/\//i.test(specUrl)) {
+      throw new Error(`Server URL '${url}' is relative and the spec was not loaded over HTTP; pass an absolute server URL`);
+    }
+    url = new URL(url, specUrl).toString();
+  }
+
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Whether a URL's host is allowed by a host list. Entries match the host
+ * name (or host:port); `*.example.com` also matches any subdomain.
+ */
+export function isHostAllowed(allowedHosts: string[], url: string): boolean {
+  const { host, hostname } = new URL(url);
+
+  return allowedHosts.some(entry => {
+    const allowed = entry.toLowerCase();
+    if (allowed.startsWith('*.')) {
+      return hostname.toLowerCase().endsWith(allowed.substring(1));
+    }
+    return allowed === host.toLowerCase() || allowed === hostname.toLowerCase();
+  });
+}
+
+/**
+ * Add credentials for the first security requirement that can be met with
+ * the configured credentials. An empty requirement (`{}`) means the
+ * operation may be called anonymously.
+ */
+export function applySecurity(
+  spec: OpenAPISpec,
+  requirements: SecurityRequirement[],
+  credentials: Record<string, Credential>,
+  request: OutgoingRequest
+): AppliedSecurity {
+  const applied: AppliedSecurity = { schemes: [], secrets: [] };
+  if (requirements.length === 0) {
+    return applied;
+  }
+
+  const schemes = spec.components?.securitySchemes || {};
+
+  for (const requirement of requirements) {
+    const names = Object.keys(requirement);
+    if (names.length === 0) {
+      return applied;
+    }
+
+    const satisfiable = names.every(name => schemes[name] && credentials[name] !== undefined);
+    if (!satisfiable) continue;
+
+    for (const name of names) {
+      const scheme = deref(spec, schemes[name]);
+      applied.secrets.push(...applyCredential(name, scheme, credentials[name], request));
+      applied.schemes.push(name);
+    }
+    return applied;
+  }
+
+  const options = requirements.map(requirement => Object.keys(requirement).join(' + ')).join(', ');
+  applied.warning = `No credentials configured for the security requirements of this operation (${options}); the request was sent without authentication`;
+  return applied;
+}
+
+function applyCredential(
+  name: string,
+  scheme: SecurityScheme,
+  credential: Credential,
+  request: OutgoingRequest
+): string[] {
+  const secret = typeof credential === 'string' ? credential : `${credential.username}:${credential.password}`;
+
+  switch (scheme.type) {
+    case 'apiKey': {
+      if (!scheme.name) {
+        throw new Error(`Security scheme '${name}' has no parameter name`);
+      }
+      if (scheme.in === 'query') {
+        request.query.push(`${encodeURIComponent(scheme.name)}=${encodeURIComponent(secret)}`);
+      } else if (scheme.in === 'cookie') {
+        request.cookies.push(`${scheme.name}=${encodeURIComponent(secret)}`);
+      } else {
+        request.headers[scheme.name] = secret;
+      }
+      return [secret, encodeURIComponent(secret)];
+    }
+    case 'http': {
+      const httpScheme = (scheme.scheme || '').toLowerCase();
+      if (httpScheme === 'basic') {
+        const encoded = Buffer.from(secret).toString('base64');
+        request.headers['Authorization'] = `Basic ${encoded}`;
+        return [secret, encoded];
+      }
+      const prefix = httpScheme === 'bearer' ? 'Bearer' : scheme.scheme;
+      request.headers['Authorization'] = `${prefix} ${secret}`;
+      return [secret];
+    }
+    case 'oauth2':
+    case 'openIdConnect':
+      // The credential is an access token obtained out of band
+      request.headers['Authorization'] = `Bearer ${secret}`;
+      return [secret];
+    default:
+      throw new Error(`Security scheme '${name}' of type '${(scheme as any).type}' is not supported`);
+  }
+}
+
+/**
+ * Encode a request body for sending. Objects are serialized as JSON, as
+ * application/x-www-form-urlencoded or as multipart/form-data depending on
+ * the content type; strings are sent as given.
+ */
+export function encodeRequestBody(body: any, contentType: string): string | FormData | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+
+  const mediaType = normalizeMediaType(contentType);
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(body)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        params.append(key, typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item));
+      }
+    }
+    return params.toString();
+  }
+
+  if (mediaType === 'multipart/form-data') {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(body)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        appendFormPart(form, key, item);
+      }
+    }
+    return form;
+  }
+
+  if (isJsonMediaType(mediaType) || typeof body === 'object') {
+    return JSON.stringify(body);
+  }
+
+  return String(body);
+}
+
+// Parts are plain values or { value, contentType, filename } descriptors
+function appendFormPart(form: FormData, name: string, part: any): void {
+  if (part && typeof part === 'object' && 'value' in part) {
+    const value = typeof part.value === 'string' ? part.value : JSON.stringify(part.value);
+    const blob = new Blob([value], { type: part.contentType || 'text/plain' });
+    if (part.filename) {
+      form.append(name, blob, part.filename);
+    } else {
+      form.append(name, blob);
+    }
+    return;
+  }
+
+  if (part !== null && typeof part === 'object') {
+    form.append(name, new Blob([JSON.stringify(part)], { type: 'application/json' }));
+    return;
+  }
+
+  form.append(name, String(part));
+}
\ No newline at end of file
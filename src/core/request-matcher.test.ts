@@ -0,0 +1,114 @@
+import { matchOperation, parseRequestInput } from './request-matcher';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Users', version: '2.0.0' },
+  servers: [
+    { url: 'https://api.example.com/{version}', variables: { version: { default: 'v2', enum: ['v1', 'v2'] } } },
+  ],
+  paths: {
+    '/users': { get: { responses: {} }, post: { responses: {} } },
+    '/users/{id}': { get: { responses: {} }, delete: { responses: {} } },
+    '/users/me': { get: { responses: {} } },
+    '/users/{id}/orders/{orderId}': { get: { responses: {} } },
+  },
+};
+
+describe('parseRequestInput', () => {
+  it('takes a bare URL with the default method', () => {
+    expect(parseRequestInput('https://api.example.com/v2/users', 'delete')).toEqual({
+      method: 'DELETE',
+      url: 'https://api.example.com/v2/users',
+      headers: {},
+    });
+  });
+
+  it('parses "METHOD URL"', () => {
+    expect(parseRequestInput('post /v2/users')).toEqual({ method: 'POST', url: '/v2/users', headers: {} });
+  });
+
+  it('parses a raw HTTP request, using the Host header for relative targets', () => {
+    const raw = [
+      'POST /v2/users HTTP/1.1',
+      'Host: api.example.com',
+      'Content-Type: application/json',
+      '',
+      '{"name": "Ada"}',
+    ].join('\r\n');
+
+    expect(parseRequestInput(raw)).toEqual({
+      method: 'POST',
+      url: 'https://api.example.com/v2/users',
+      headers: { Host: 'api.example.com', 'Content-Type': 'application/json' },
+      body: '{"name": "Ada"}',
+    });
+  });
+
+  it('parses curl commands with quoting and line continuations', () => {
+    const command = `curl -X PUT 'https://api.example.com/v2/users/42' \\
+      -H "Authorization: Bearer abc" \\
+      --json '{"name": "Ada \\"the\\" Countess"}'`;
+
+    expect(parseRequestInput(command)).toEqual({
+      method: 'PUT',
+      url: 'https://api.example.com/v2/users/42',
+      headers: { Authorization: 'Bearer abc', 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: '{"name": "Ada \\"the\\" Countess"}',
+    });
+  });
+
+  it('follows curl defaults for -d, -G and -u', () => {
+    expect(parseRequestInput('curl https://api.example.com/v2/users -d name=Ada -u ada:secret')).toEqual({
+      method: 'POST',
+      url: 'https://api.example.com/v2/users',
+      headers: {
+        Authorization: `Basic ${Buffer.from('ada:secret').toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: 'name=Ada',
+    });
+    expect(parseRequestInput('curl -G https://api.example.com/v2/users?limit=5 -d page=2')).toMatchObject({
+      method: 'GET',
+      url: 'https://api.example.com/v2/users?limit=5&page=2',
+      body: undefined,
+    });
+  });
+
+  it('rejects curl commands without a URL', () => {
+    expect(() => parseRequestInput('curl -X GET')).toThrow('No URL found in curl command');
+  });
+});
+
+describe('matchOperation', () => {
+  it('strips the server base path and extracts path parameters', () => {
+    expect(matchOperation(spec, 'get', 'https://api.example.com/v2/users/42/orders/a%20b?expand=items')).toEqual({
+      path: '/users/{id}/orders/{orderId}',
+      method: 'GET',
+      pathParams: { id: '42', orderId: 'a%20b' },
+      query: '?expand=items',
+      server: 'https://api.example.com/{version}',
+    });
+  });
+
+  it('matches server variables against their enum', () => {
+    expect(matchOperation(spec, 'GET', '/v1/users').path).toBe('/users');
+    expect(() => matchOperation(spec, 'GET', '/v3/users')).toThrow('No path in the spec matches /v3/users');
+  });
+
+  it('matches paths given without the base path', () => {
+    const match = matchOperation(spec, 'GET', '/users/42/');
+
+    expect(match.path).toBe('/users/{id}');
+    expect(match.server).toBeUndefined();
+  });
+
+  it('prefers literal segments over templated ones', () => {
+    expect(matchOperation(spec, 'GET', '/v2/users/me').path).toBe('/users/me');
+    expect(matchOperation(spec, 'DELETE', '/v2/users/me')).toMatchObject({ path: '/users/{id}', pathParams: { id: 'me' } });
+  });
+
+  it('names the path when only the method does not match', () => {
+    expect(() => matchOperation(spec, 'PATCH', '/v2/users/42')).toThrow('Method PATCH not found for path /users/{id}');
+  });
+});
\ No newline at end of file
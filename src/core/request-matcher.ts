@@ -0,0 +1,335 @@
+import { OpenAPISpec, PathItem } from '../types/openapi';
+import { deref } from './ref-resolver';
+
+export interface ParsedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface OperationMatch {
+  // Templated path as it appears in spec.paths, e.g. /users/{id}
+  path: string;
+  method: string;
+  // Raw (still percent-encoded) path parameter values
+  pathParams: Record<string, string>;
+  query: string;
+  server?: string;
+}
+
+const HTTP_METHODS = ['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH', 'TRACE'];
+
+/**
+ * Parse a request given as a bare URL, "METHOD URL", a raw HTTP/1.x request
+ * or a curl command line.
+ */
+export function parseRequestInput(input: string, defaultMethod: string = 'GET'): ParsedRequest {
+  const trimmed = input.trim();
+
+  if (/^curl\s/i.test(trimmed)) {
+    return parseCurlCommand(trimmed);
+  }
+
+  const lines = trimmed.split(/\r?\n/);
+  const firstLine = lines[0].trim().split(/\s+/);
+
+  if (HTTP_METHODS.includes(firstLine[0].toUpperCase()) && firstLine.length >= 2) {
+    const method = firstLine[0].toUpperCase();
+    const target = firstLine[1];
+
+    // "GET https://api.x.com/v2/users/42" on a single line
+    if (lines.length === 1) {
+      return { method, url: target, headers: {} };
+    }
+
+    // Raw HTTP request: request line, headers, blank line, body
+    const headers: Record<string, string> = {};
+    let index = 1;
+    for (; index < lines.length; index++) {
+      const line = lines[index];
+      if (line.trim() === '') {
+        index++;
+        break;
+      }
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers[line.substring(0, colon).trim()] = line.substring(colon + 1).trim();
+      }
+    }
+    const body = lines.slice(index).join('\n');
+
+    const hostHeader = Object.keys(headers).find(key => key.toLowerCase() === 'host');
+    const url = /^https?:\/\//i.test(target) || !hostHeader
+      ? target
+      : `https://${headers[hostHeader]}${target}`;
+
+    return { method, url, headers, body: body === '' ? undefined : body };
+  }
+
+  return { method: defaultMethod.toUpperCase(), url: trimmed, headers: {} };
+}
+
+/**
+ * Split a shell command line into arguments, honouring single/double quotes,
+ * backslash escapes and line continuations.
+ */
+function tokenizeShell(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      const next = command[++i];
+      if (next !== '\n' && next !== '\r') {
+        current += next;
+        inToken = true;
+      }
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+function parseCurlCommand(command: string): ParsedRequest {
+  const tokens = tokenizeShell(command).slice(1);
+  const headers: Record<string, string> = {};
+  const dataParts: string[] = [];
+  let method: string | undefined;
+  let url: string | undefined;
+  let getWithData = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = () => tokens[++i] ?? '';
+
+    switch (token) {
+      case '-X':
+      case '--request':
+        method = next().toUpperCase();
+        break;
+      case '-H':
+      case '--header': {
+        const header = next();
+        const colon = header.indexOf(':');
+        if (colon > 0) {
+          headers[header.substring(0, colon).trim()] = header.substring(colon + 1).trim();
+        }
+        break;
+      }
+      case '-d':
+      case '--data':
+      case '--data-raw':
+      case '--data-binary':
+      case '--data-ascii':
+      case '--data-urlencode':
+        dataParts.push(next());
+        break;
+      case '--json':
+        dataParts.push(next());
+        headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+        headers['Accept'] = headers['Accept'] || 'application/json';
+        break;
+      case '-b':
+      case '--cookie':
+        headers['Cookie'] = next();
+        break;
+      case '-u':
+      case '--user':
+        headers['Authorization'] = `Basic ${Buffer.from(next()).toString('base64')}`;
+        break;
+      case '-A':
+      case '--user-agent':
+        headers['User-Agent'] = next();
+        break;
+      case '-e':
+      case '--referer':
+        headers['Referer'] = next();
+        break;
+      case '-G':
+      case '--get':
+        getWithData = true;
+        break;
+      case '-I':
+      case '--head':
+        method = 'HEAD';
+        break;
+      case '--url':
+        url = next();
+        break;
+      case '-o':
+      case '--output':
+      case '-w':
+      case '--write-out':
+      case '--connect-timeout':
+      case '-m':
+      case '--max-time':
+      case '--cacert':
+      case '--cert':
+      case '--key':
+        // Options with a value that don't affect the request shape
+        next();
+        break;
+      default:
+        if (!token.startsWith('-') && !url) {
+          url = token;
+        }
+    }
+  }
+
+  if (!url) {
+    throw new Error('No URL found in curl command');
+  }
+
+  let body: string | undefined = dataParts.length > 0 ? dataParts.join('&') : undefined;
+
+  if (body !== undefined && getWithData) {
+    url += (url.includes('?') ? '&' : '?') + body;
+    body = undefined;
+  }
+
+  if (body !== undefined && !Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+    // curl's default for -d
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  }
+
+  return {
+    method: method || (body !== undefined ? 'POST' : 'GET'),
+    url,
+    headers,
+    body,
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Base paths the spec's servers mount the API under, longest first. Server
+ * variables match their enum values, or any single path segment.
+ */
+function serverBasePaths(spec: OpenAPISpec): Array<{ server?: string; pattern: RegExp }> {
+  const bases: Array<{ server?: string; pattern: RegExp; length: number }> = [];
+
+  for (const server of spec.servers || []) {
+    // Drop scheme and host; keep only the path part of the server URL
+    const withoutOrigin = server.url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/^\/\/[^/]*/, '');
+    const basePath = withoutOrigin.replace(/\/+$/, '');
+    if (!basePath) continue;
+
+    const source = basePath
+      .split(/(\{[^}]+\})/)
+      .map(part => {
+        if (!(part.startsWith('{') && part.endsWith('}'))) {
+          return escapeRegExp(part);
+        }
+        const values = server.variables?.[part.slice(1, -1)]?.enum;
+        return values && values.length > 0 ? `(?:${values.map(escapeRegExp).join('|')})` : '[^/]+';
+      })
+      .join('');
+    bases.push({ server: server.url, pattern: new RegExp(`^${source}(?=/|$)`), length: basePath.length });
+  }
+
+  bases.sort((a, b) => b.length - a.length);
+  return [...bases, { server: undefined, pattern: /^/, length: 0 }];
+}
+
+/**
+ * Match a concrete request URL against the spec's path templates, stripping
+ * any server base path first. Literal segments win over templated ones.
+ */
+export function matchOperation(spec: OpenAPISpec, method: string, url: string): OperationMatch {
+  const parsed = new URL(url, 'http://localhost');
+  const requestPath = parsed.pathname.replace(/\/+$/, '') || '/';
+  const methodLower = method.toLowerCase() as keyof PathItem;
+
+  let pathWithoutMethod: string | null = null;
+
+  for (const base of serverBasePaths(spec)) {
+    const baseMatch = requestPath.match(base.pattern);
+    if (!baseMatch) continue;
+
+    const relativePath = requestPath.substring(baseMatch[0].length) || '/';
+    const candidates: Array<{ path: string; params: Record<string, string>; literals: number }> = [];
+
+    for (const template of Object.keys(spec.paths || {})) {
+      const names: string[] = [];
+      const source = template
+        .replace(/\/+$/, '')
+        .split(/(\{[^}]+\})/)
+        .map(part => {
+          if (part.startsWith('{') && part.endsWith('}')) {
+            names.push(part.slice(1, -1));
+            return '([^/]+)';
+          }
+          return escapeRegExp(part);
+        })
+        .join('');
+      const match = relativePath.match(new RegExp(`^${source || '/'}$`));
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      names.forEach((name, index) => {
+        params[name] = match[index + 1];
+      });
+
+      candidates.push({
+        path: template,
+        params,
+        literals: template.replace(/\{[^}]+\}/g, '').length,
+      });
+    }
+
+    candidates.sort((a, b) => b.literals - a.literals);
+
+    for (const candidate of candidates) {
+      if (deref(spec, spec.paths[candidate.path])[methodLower]) {
+        return {
+          path: candidate.path,
+          method: method.toUpperCase(),
+          pathParams: candidate.params,
+          query: parsed.search,
+          server: base.server,
+        };
+      }
+      pathWithoutMethod = pathWithoutMethod || candidate.path;
+    }
+  }
+
+  if (pathWithoutMethod) {
+    throw new Error(`Method ${method.toUpperCase()} not found for path ${pathWithoutMethod}`);
+  }
+  throw new Error(`No path in the spec matches ${requestPath}`);
+}
\ No newline at end of file
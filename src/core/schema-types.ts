@@ -0,0 +1,49 @@
+import { Schema } from '../types/openapi';
+
+export interface NumericBound {
+  value: number;
+  exclusive: boolean;
+}
+
+/**
+ * Types a schema declares, without `null`: `type: ['string', 'null']` (3.1)
+ * and `type: string, nullable: true` (3.0) both give `['string']`.
+ */
+export function declaredTypes(schema: Schema): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return types.filter(type => type !== 'null');
+}
+
+/**
+ * Whether a schema allows `null`, through 3.0 `nullable` or a 3.1 `null` type.
+ */
+export function isNullable(schema: Schema): boolean {
+  if (schema.nullable === true) return true;
+  return Array.isArray(schema.type) ? schema.type.includes('null') : schema.type === 'null';
+}
+
+/**
+ * Lower and upper bound of a numeric schema. OpenAPI 3.0 marks `minimum` and
+ * `maximum` exclusive with a boolean, 3.1 gives the exclusive bound itself;
+ * when both kinds are present the stricter one wins.
+ */
+export function numericBounds(schema: Schema): { lower?: NumericBound; upper?: NumericBound } {
+  return {
+    lower: bound(schema.minimum, schema.exclusiveMinimum, (a, b) => a > b),
+    upper: bound(schema.maximum, schema.exclusiveMaximum, (a, b) => a < b),
+  };
+}
+
+function bound(
+  inclusive: number | undefined,
+  exclusive: boolean | number | undefined,
+  stricter: (a: number, b: number) => boolean
+): NumericBound | undefined {
+  if (typeof exclusive !== 'number') {
+    return inclusive === undefined ? undefined : { value: inclusive, exclusive: exclusive === true };
+  }
+  if (inclusive !== undefined && stricter(inclusive, exclusive)) {
+    return { value: inclusive, exclusive: false };
+  }
+  return { value: exclusive, exclusive: true };
+}
\ No newline at end of file
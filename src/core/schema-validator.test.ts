@@ -0,0 +1,126 @@
+import { SchemaValidator } from './schema-validator';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Shop', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Item: {
+        type: 'object',
+        required: ['sku', 'price'],
+        properties: {
+          sku: { type: 'string' },
+          price: { type: 'number', minimum: 0, exclusiveMinimum: true },
+        },
+      },
+      Order: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          secret: { type: 'string', writeOnly: true },
+          items: { type: 'array', items: { $ref: '#/components/schemas/Item' } },
+          note: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['open', 'closed'] },
+        },
+      },
+      Node: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+        },
+      },
+      Pet: {
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: { propertyName: 'kind' },
+      },
+      Cat: { type: 'object', required: ['kind', 'lives'], properties: { kind: { type: 'string' }, lives: { type: 'integer' } } },
+      Dog: { type: 'object', required: ['kind', 'bark'], properties: { kind: { type: 'string' }, bark: { type: 'boolean' } } },
+    },
+  },
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+describe('SchemaValidator', () => {
+  const validator = new SchemaValidator(spec);
+
+  it('accepts valid values', () => {
+    const order = { items: [{ sku: 'A-1', price: 9.5 }], note: null, status: 'open' };
+
+    expect(validator.validate(order, ref('Order'), 'body')).toEqual([]);
+  });
+
+  it('points each error at the offending value', () => {
+    const order = { items: [{ sku: 'A-1', price: 1 }, { price: 0 }], status: 'lost', extra: true };
+
+    expect(validator.validate(order, ref('Order'), 'body')).toEqual([
+      { path: 'body/extra', message: 'is not allowed (additional property)', keyword: 'additionalProperties' },
+      { path: 'body/items/1/sku', message: 'is required', keyword: 'required' },
+      { path: 'body/items/1/price', message: 'must be > 0', keyword: 'exclusiveMinimum' },
+      { path: 'body/status', message: 'must be one of: "open", "closed"', keyword: 'enum' },
+    ]);
+  });
+
+  it('follows recursive references', () => {
+    const tree = { name: 'root', children: [{ children: [{ name: 5 }] }] };
+
+    expect(validator.validate(tree, ref('Node'), 'body')).toEqual([
+      { path: 'body/children/0/children/0/name', message: 'must be string', keyword: 'type' },
+    ]);
+  });
+
+  it('rejects readOnly properties in requests and writeOnly properties in responses', () => {
+    const order = { id: 1, secret: 'hunter2' };
+
+    expect(validator.validate(order, ref('Order'), 'body', 'request')).toEqual([
+      { path: 'body/id', message: "'id' is readOnly and must not be sent in a request", keyword: 'x-forbidden' },
+    ]);
+    expect(validator.validate(order, ref('Order'), 'body', 'response')).toEqual([
+      { path: 'body/secret', message: "'secret' is writeOnly and must not be returned in a response", keyword: 'x-forbidden' },
+    ]);
+  });
+
+  it('reports errors of the schema the discriminator selects', () => {
+    expect(validator.validate({ kind: 'Dog', bark: 'loud' }, ref('Pet'), 'body')).toEqual([
+      { path: 'body/bark', message: 'must be boolean', keyword: 'type' },
+    ]);
+    expect(validator.validate({ kind: 'Bird' }, ref('Pet'), 'body')).toEqual([
+      { path: 'body/kind', message: 'must be one of: "Cat", "Dog"', keyword: 'enum' },
+    ]);
+  });
+
+  it('allows null for a nullable $ref in OpenAPI 3.0', () => {
+    const nullableItem = { ...ref('Item'), nullable: true, description: 'Gift item' };
+
+    expect(validator.validate(null, nullableItem, 'body')).toEqual([]);
+    expect(validator.validate({ sku: 'A-1', price: 2 }, nullableItem, 'body')).toEqual([]);
+    expect(validator.validate({ sku: 'A-1' }, nullableItem, 'body')).toEqual([
+      { path: 'body/price', message: 'is required', keyword: 'required' },
+      { path: 'body', message: 'must be null', keyword: 'type' },
+      { path: 'body', message: 'must match a schema in anyOf', keyword: 'anyOf' },
+    ]);
+    expect(validator.validate(null, ref('Item'), 'body')).toEqual([
+      { path: 'body', message: 'must be object', keyword: 'type' },
+    ]);
+  });
+
+  it('prefixes errors with the given location', () => {
+    expect(validator.validate('7', { type: 'integer', format: 'int32' }, 'query/limit')).toEqual([
+      { path: 'query/limit', message: 'must be integer', keyword: 'type' },
+    ]);
+  });
+
+  it('validates OpenAPI 3.1 schemas as JSON Schema 2020-12', () => {
+    const validator31 = new SchemaValidator({ ...spec, openapi: '3.1.0' });
+    const pair = { type: 'array', prefixItems: [{ type: 'integer' }, { type: 'integer' }] };
+
+    expect(validator31.validate(null, { type: ['string', 'null'] }, 'body')).toEqual([]);
+    expect(validator31.validate([1, 'x'], pair, 'body')).toEqual([
+      { path: 'body/1', message: 'must be integer', keyword: 'type' },
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,409 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { OpenAPISpec, Schema } from '../types/openapi';
+import { resolvePointer } from './ref-resolver';
+
+export type SchemaDirection = 'request' | 'response';
+
+export interface SchemaValidationError {
+  // Slash-separated location of the offending value, e.g. body/items/3/price
+  path: string;
+  message: string;
+  keyword: string;
+}
+
+interface ConversionContext {
+  direction: SchemaDirection;
+  defs: Record<string, any>;
+  refNames: Map<string, string>;
+  inProgress: Map<object, { converted: any; name?: string }>;
+}
+
+const FORBIDDEN_KEYWORD = 'x-forbidden';
+
+// OpenAPI formats that ajv-formats does not know about
+const INT32_RANGE = { min: -2147483648, max: 2147483647 };
+
+/**
+ * Validates values against OpenAPI schemas with a full JSON Schema engine.
+ *
+ * OpenAPI 3.0 schemas are rewritten to draft-07 JSON Schema first
+ * (`nullable`, boolean `exclusiveMinimum`/`exclusiveMaximum`, `readOnly` /
+ * `writeOnly`, `discriminator`); OpenAPI 3.1 schemas are validated as JSON
+ * Schema 2020-12. Local `$ref`s are resolved against the spec document.
+ */
+export class SchemaValidator {
+  private static instances: WeakMap<OpenAPISpec, SchemaValidator> = new WeakMap();
+
+  private spec: OpenAPISpec;
+  private ajv: Ajv;
+  private isOpenApi31: boolean;
+  private compiled: Record<SchemaDirection, WeakMap<object, ValidateFunction>> = {
+    request: new WeakMap(),
+    response: new WeakMap(),
+  };
+
+  constructor(spec: OpenAPISpec) {
+    this.spec = spec;
+    this.isOpenApi31 = (spec.openapi || '').startsWith('3.1');
+
+    const options = {
+      allErrors: true,
+      strict: false,
+      allowUnionTypes: true,
+      logger: false as const,
+    };
+    this.ajv = this.isOpenApi31 ? new Ajv2020(options) : new Ajv(options);
+
+    addFormats(this.ajv);
+    this.ajv.addFormat('int32', {
+      type: 'number',
+      validate: (value: number) => Number.isInteger(value) && value >= INT32_RANGE.min && value <= INT32_RANGE.max,
+    });
+    this.ajv.addFormat('int64', { type: 'number', validate: (value: number) => Number.isInteger(value) });
+    this.ajv.addFormat('float', { type: 'number', validate: () => true });
+    this.ajv.addFormat('double', { type: 'number', validate: () => true });
+    this.ajv.addFormat('byte', /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/);
+    this.ajv.addFormat('binary', true);
+    this.ajv.addFormat('password', true);
+
+    // Used for readOnly properties in requests and writeOnly properties in responses
+    this.ajv.addKeyword({
+      keyword: FORBIDDEN_KEYWORD,
+      schemaType: 'string',
+      errors: true,
+      validate: function forbidden(message: string) {
+        (forbidden as any).errors = [{ keyword: FORBIDDEN_KEYWORD, message, params: {} }];
+        return false;
+      },
+    });
+  }
+
+  /**
+   * Shared validator for a spec, so compiled schemas are reused across calls.
+   */
+  static forSpec(spec: OpenAPISpec): SchemaValidator {
+    let validator = SchemaValidator.instances.get(spec);
+    if (!validator) {
+      validator = new SchemaValidator(spec);
+      SchemaValidator.instances.set(spec, validator);
+    }
+    return validator;
+  }
+
+  /**
+   * Validate a value and return one error per violation. `basePath` prefixes
+   * every error path (e.g. `body` or `query/limit`).
+   */
+  validate(
+    value: any,
+    schema: Schema,
+    basePath: string,
+    direction: SchemaDirection = 'request'
+  ): SchemaValidationError[] {
+    let validateFn: ValidateFunction;
+    try {
+      validateFn = this.compile(schema, direction);
+    } catch (error) {
+      return [{ path: basePath, message: `Schema could not be compiled: ${error}`, keyword: 'schema' }];
+    }
+
+    if (validateFn(value)) {
+      return [];
+    }
+
+    return this.formatErrors(validateFn.errors || [], basePath);
+  }
+
+  private compile(schema: Schema, direction: SchemaDirection): ValidateFunction {
+    const cache = this.compiled[direction];
+    const cached = cache.get(schema);
+    if (cached) {
+      return cached;
+    }
+
+    const context: ConversionContext = {
+      direction,
+      defs: {},
+      refNames: new Map(),
+      inProgress: new Map(),
+    };
+
+    const converted = this.convert(schema, context);
+    const root = { allOf: [converted], $defs: context.defs };
+
+    const validateFn = this.ajv.compile(root);
+    cache.set(schema, validateFn);
+    return validateFn;
+  }
+
+  private convert(schema: any, context: ConversionContext): any {
+    if (typeof schema === 'boolean' || !schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    // Dereferenced specs can contain circular objects; break the cycle with a $ref
+    const pending = context.inProgress.get(schema);
+    if (pending) {
+      if (!pending.name) {
+        pending.name = this.defName(`cycle${context.inProgress.size}`, context);
+        context.defs[pending.name] = pending.converted;
+      }
+      return { $ref: `#/$defs/${pending.name}` };
+    }
+
+    if (typeof schema.$ref === 'string') {
+      return this.convertRef(schema, context);
+    }
+
+    const converted: any = {};
+    context.inProgress.set(schema, { converted });
+
+    try {
+      for (const [key, value] of Object.entries<any>(schema)) {
+        switch (key) {
+          case 'properties':
+          case 'patternProperties':
+          case '$defs':
+          case 'definitions':
+          case 'dependentSchemas':
+            converted[key] = {};
+            for (const [name, subschema] of Object.entries(value || {})) {
+              converted[key][name] = this.convert(subschema, context);
+            }
+            break;
+          case 'items':
+          case 'prefixItems':
+          case 'allOf':
+          case 'anyOf':
+          case 'oneOf':
+            converted[key] = Array.isArray(value)
+              ? value.map(item => this.convert(item, context))
+              : this.convert(value, context);
+            break;
+          case 'additionalProperties':
+          case 'unevaluatedProperties':
+          case 'unevaluatedItems':
+          case 'additionalItems':
+          case 'contains':
+          case 'propertyNames':
+          case 'not':
+          case 'if':
+          case 'then':
+          case 'else':
+            converted[key] = this.convert(value, context);
+            break;
+          case 'discriminator':
+          case 'nullable':
+          case 'xml':
+          case 'externalDocs':
+          case 'example':
+            // OpenAPI-only keywords, handled below or irrelevant for validation
+            break;
+          default:
+            converted[key] = value;
+        }
+      }
+
+      if (!this.isOpenApi31) {
+        this.convertExclusiveBounds(converted);
+      }
+
+      this.applyAccessModifiers(schema, converted, context);
+
+      if (schema.discriminator && (schema.oneOf || schema.anyOf)) {
+        this.applyDiscriminator(schema, converted, context);
+      }
+
+      if (!this.isOpenApi31 && schema.nullable === true) {
+        return this.makeNullable(converted);
+      }
+
+      return converted;
+    } finally {
+      context.inProgress.delete(schema);
+    }
+  }
+
+  private convertRef(schema: any, context: ConversionContext): any {
+    const ref: string = schema.$ref;
+    if (!ref.startsWith('#')) {
+      // External references are resolved on load; anything left is unresolvable here
+      return {};
+    }
+
+    let name = context.refNames.get(ref);
+    if (!name) {
+      name = this.defName(ref.replace(/^#\/?(components\/)?/, ''), context);
+      context.refNames.set(ref, name);
+
+      const target = resolvePointer(this.spec, ref);
+      context.defs[name] = {};
+      context.defs[name] = target === undefined ? {} : this.convert(target, context);
+    }
+
+    const reference = { $ref: `#/$defs/${name}` };
+
+    // 3.1 allows keywords next to $ref; 3.0 only honours `nullable` in practice,
+    // which has to allow null next to the referenced schema rather than inside it
+    const { $ref: _ref, ...rest } = schema;
+    const nullable = !this.isOpenApi31 && rest.nullable === true;
+    if (nullable) {
+      delete rest.nullable;
+    }
+
+    let result: any = reference;
+    if (Object.keys(rest).length > 0) {
+      const converted = this.convert(rest, context);
+      if (Object.keys(converted).length > 0) {
+        result = { allOf: [reference, converted] };
+      }
+    }
+
+    return nullable ? { anyOf: [result, { type: 'null' }] } : result;
+  }
+
+  private defName(base: string, context: ConversionContext): string {
+    const safe = base.replace(/[^A-Za-z0-9_.-]/g, '_') || 'schema';
+    let name = safe;
+    let counter = 1;
+    while (name in context.defs) {
+      name = `${safe}_${counter++}`;
+    }
+    return name;
+  }
+
+  private convertExclusiveBounds(converted: any): void {
+    // OpenAPI 3.0 uses draft-04 style boolean modifiers
+    if (typeof converted.exclusiveMinimum === 'boolean') {
+      if (converted.exclusiveMinimum && converted.minimum !== undefined) {
+        converted.exclusiveMinimum = converted.minimum;
+        delete converted.minimum;
+      } else {
+        delete converted.exclusiveMinimum;
+      }
+    }
+    if (typeof converted.exclusiveMaximum === 'boolean') {
+      if (converted.exclusiveMaximum && converted.maximum !== undefined) {
+        converted.exclusiveMaximum = converted.maximum;
+        delete converted.maximum;
+      } else {
+        delete converted.exclusiveMaximum;
+      }
+    }
+  }
+
+  private applyAccessModifiers(schema: any, converted: any, context: ConversionContext): void {
+    if (!schema.properties) {
+      return;
+    }
+
+    const forbiddenFlag = context.direction === 'request' ? 'readOnly' : 'writeOnly';
+    const message = context.direction === 'request'
+      ? 'is readOnly and must not be sent in a request'
+      : 'is writeOnly and must not be returned in a response';
+
+    for (const [name, propSchema] of Object.entries<any>(schema.properties)) {
+      const target = propSchema?.$ref ? resolvePointer(this.spec, propSchema.$ref) : propSchema;
+      if (propSchema?.[forbiddenFlag] === true || target?.[forbiddenFlag] === true) {
+        converted.properties[name] = { [FORBIDDEN_KEYWORD]: `'${name}' ${message}` };
+        if (Array.isArray(converted.required)) {
+          converted.required = converted.required.filter((required: string) => required !== name);
+        }
+      }
+    }
+  }
+
+  private applyDiscriminator(schema: any, converted: any, context: ConversionContext): void {
+    const { propertyName, mapping = {} } = schema.discriminator;
+    const alternatives: any[] = schema.oneOf || schema.anyOf;
+
+    // Explicit mapping first, then implicit mapping by schema name
+    const targets: Record<string, any> = {};
+    for (const [value, ref] of Object.entries<string>(mapping)) {
+      targets[value] = { $ref: ref.startsWith('#') ? ref : `#/components/schemas/${ref}` };
+    }
+    for (const alternative of alternatives) {
+      if (alternative?.$ref && !Object.values(targets).some(t => t.$ref === alternative.$ref)) {
+        targets[alternative.$ref.split('/').pop()] = alternative;
+      }
+    }
+
+    const values = Object.keys(targets);
+    if (values.length === 0) {
+      return;
+    }
+
+    // Dispatch on the discriminator value instead of trying every alternative,
+    // so errors point into the selected schema
+    delete converted.oneOf;
+    delete converted.anyOf;
+    converted.allOf = [
+      ...(converted.allOf || []),
+      {
+        type: 'object',
+        required: [propertyName],
+        properties: { [propertyName]: { enum: values } },
+      },
+      ...values.map(value => ({
+        if: { properties: { [propertyName]: { const: value } }, required: [propertyName] },
+        then: this.convert(targets[value], context),
+      })),
+    ];
+  }
+
+  private makeNullable(converted: any): any {
+    if (converted.type !== undefined) {
+      const types = Array.isArray(converted.type) ? converted.type : [converted.type];
+      if (!types.includes('null')) {
+        converted.type = [...types, 'null'];
+      }
+      if (Array.isArray(converted.enum) && !converted.enum.includes(null)) {
+        converted.enum = [...converted.enum, null];
+      }
+      return converted;
+    }
+
+    return { anyOf: [converted, { type: 'null' }] };
+  }
+
+  private formatErrors(errors: ErrorObject[], basePath: string): SchemaValidationError[] {
+    const formatted: SchemaValidationError[] = [];
+    const seen = new Set<string>();
+
+    for (const error of errors) {
+      // if/then wrappers add a generic error next to the real one
+      if (error.keyword === 'if') continue;
+
+      const segments = error.instancePath
+        .split('/')
+        .filter(Boolean)
+        .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+      if (error.keyword === 'required') {
+        segments.push(error.params.missingProperty);
+      } else if (error.keyword === 'additionalProperties') {
+        segments.push(error.params.additionalProperty);
+      }
+
+      const path = [basePath, ...segments].filter(Boolean).join('/');
+      let message = error.message || 'is invalid';
+      if (error.keyword === 'enum' && Array.isArray(error.params.allowedValues)) {
+        message = `must be one of: ${error.params.allowedValues.map((v: any) => JSON.stringify(v)).join(', ')}`;
+      } else if (error.keyword === 'additionalProperties') {
+        message = 'is not allowed (additional property)';
+      } else if (error.keyword === 'required') {
+        message = 'is required';
+      }
+
+      const key = `${path}|${message}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      formatted.push({ path, message, keyword: error.keyword });
+    }
+
+    return formatted;
+  }
+}
\ No newline at end of file
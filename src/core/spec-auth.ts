@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as https from 'https';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { AxiosRequestConfig } from 'axios';
+import { SpecAuth } from '../types/config';
+
+// Query parameters whose values are masked when a URL is logged or cached
+const SECRET_QUERY_PARAM = /token|key|secret|password|passwd|signature|sig|auth|credential/i;
+
+const REDACTED = '***';
+
+// How long a token printed by a bearer token command is reused for a spec
+const TOKEN_TTL_MS = 60 * 1000;
+
+const execFileAsync = promisify(execFile);
+
+const tokenCache: Map<string, { token: Promise<string>; expiresAt: number }> = new Map();
+
+/**
+ * Credentials ready to be attached to requests. Built once per spec fetch so
+ * the same credentials go with every external `$ref`.
+ */
+export interface ResolvedAuth {
+  headers: Record<string, string>;
+  basic?: { username: string; password: string };
+  httpsAgent?: https.Agent;
+  hosts: string[];
+}
+
+/**
+ * Combine the server-wide credentials with a spec's own; the spec's fields
+ * win and headers are merged.
+ */
+export function mergeAuth(base?: SpecAuth, override?: SpecAuth): SpecAuth | undefined {
+  if (!base) return override;
+  if (!override) return base;
+
+  return {
+    ...base,
+    ...override,
+    headers: { ...base.headers, ...override.headers },
+  };
+}
+
+/**
+ * `cacheKey` identifies the spec; a token command's output is reused for
+ * that spec for a short while instead of running the command on every fetch.
+ */
+export async function resolveAuth(
+  auth: SpecAuth | undefined,
+  timeout: number,
+  cacheKey?: string
+): Promise<ResolvedAuth | null> {
+  if (!auth) return null;
+
+  const headers: Record<string, string> = { ...auth.headers };
+
+  const token = auth.bearerTokenCommand
+    ? await commandToken(auth.bearerTokenCommand, timeout, cacheKey)
+    : auth.bearerToken;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  let httpsAgent: https.Agent | undefined;
+  if (auth.clientCert || auth.clientKey || auth.caBundle) {
+    if (Boolean(auth.clientCert) !== Boolean(auth.clientKey)) {
+      throw new Error('Client certificate authentication needs both clientCert and clientKey');
+    }
+    httpsAgent = new https.Agent({
+      cert: auth.clientCert ? readPemFile(auth.clientCert, 'client certificate') : undefined,
+      key: auth.clientKey ? readPemFile(auth.clientKey, 'client key') : undefined,
+      passphrase: auth.clientKeyPassphrase,
+      ca: auth.caBundle ? readPemFile(auth.caBundle, 'CA bundle') : undefined,
+    });
+  }
+
+  if (Object.keys(headers).length === 0 && !auth.basic && !httpsAgent) {
+    return null;
+  }
+
+  return {
+    headers,
+    basic: auth.basic,
+    httpsAgent,
+    hosts: (auth.hosts || []).map(host => host.toLowerCase()),
+  };
+}
+
+/**
+ * Request options carrying the credentials, if `requestUrl` may receive
+ * them: the spec's own origin and the configured extra hosts do, any other
+ * host an external `$ref` points at does not.
+ */
+export function authRequestConfig(
+  auth: ResolvedAuth | null,
+  specUrl: string,
+  requestUrl: string
+): Pick<AxiosRequestConfig, 'headers' | 'auth' | 'httpsAgent'> {
+  if (!auth || !isInScope(auth, specUrl, requestUrl)) {
+    return {};
+  }
+
+  return {
+    headers: { ...auth.headers },
+    auth: auth.basic,
+    httpsAgent: auth.httpsAgent,
+  };
+}
+
+/**
+ * Mask credentials embedded in a URL (user info and token-like query
+ * parameters) before it is logged or stored.
+ */
+export function redactUrl(location: string): string {
+  let url: URL;
+  try {
+    url = new URL(location);
+  } catch {
+    return location;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return location;
+  }
+
+  if (url.username) url.username = REDACTED;
+  if (url.password) url.password = REDACTED;
+
+  for (const name of Array.from(url.searchParams.keys())) {
+    if (SECRET_QUERY_PARAM.test(name)) {
+      url.searchParams.set(name, REDACTED);
+    }
+  }
+
+  return url.toString();
+}
+
+function isInScope(auth: ResolvedAuth, specUrl: string, requestUrl: string): boolean {
+  let request: URL;
+  try {
+    request = new URL(requestUrl);
+  } catch {
+    return false;
+  }
+
+  try {
+    if (new URL(specUrl).origin === request.origin) {
+      return true;
+    }
+  } catch {
+    // Local specs have no origin; only the configured hosts get credentials
+  }
+
+  return auth.hosts.includes(request.host.toLowerCase()) || auth.hosts.includes(request.hostname.toLowerCase());
+}
+
+function commandToken(command: string, timeout: number, cacheKey: string | undefined): Promise<string> {
+  if (cacheKey === undefined) {
+    return runTokenCommand(command, timeout);
+  }
+
+  const key = `${cacheKey}\n${command}`;
+  const cached = tokenCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.token;
+  }
+
+  // Concurrent fetches share one run; failures are not kept
+  const token = runTokenCommand(command, timeout);
+  tokenCache.set(key, { token, expiresAt: Date.now() + TOKEN_TTL_MS });
+  token.catch(() => {
+    if (tokenCache.get(key)?.token === token) {
+      tokenCache.delete(key);
+    }
+  });
+  return token;
+}
+
+async function runTokenCommand(command: string, timeout: number): Promise<string> {
+  // Commands are run by the shell, like they would be typed
+  const [file, args] = process.platform === 'win32'
+    ? ['cmd.exe', ['/d', '/s', '/c', command]]
+    : ['/bin/sh', ['-c', command]];
+
+  let output: string;
+  try {
+    ({ stdout: output } = await execFileAsync(file, args, { encoding: 'utf-8', timeout, windowsHide: true }));
+  } catch (error: any) {
+    // Only report the exit status; stdout/stderr may contain secrets
+    const status = typeof error.code === 'number'
+      ? `exit code ${error.code}`
+      : error.killed ? `timed out after ${timeout}ms` : error.code || 'error';
+    throw new Error(`Bearer token command failed (${status})`);
+  }
+
+  const token = output.trim();
+  if (!token) {
+    throw new Error('Bearer token command produced no output');
+  }
+  return token;
+}
+
+function readPemFile(filePath: string, label: string): Buffer {
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read ${label} from ${filePath}: ${error}`);
+  }
+}
\ No newline at end of file
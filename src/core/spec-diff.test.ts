@@ -0,0 +1,166 @@
+import { diffSpecs } from './spec-diff';
+import { OpenAPISpec } from '../types/openapi';
+
+function baseSpec(): OpenAPISpec {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: {
+          parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } }],
+          responses: {
+            200: {
+              description: 'Users',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } },
+            },
+          },
+        },
+        post: {
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/NewUser' } } } },
+          responses: { 201: { description: 'Created' } },
+        },
+      },
+      '/users/{id}': {
+        delete: {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { 204: { description: 'Deleted' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string' },
+            status: { type: 'string', enum: ['active', 'banned'] },
+            email: { type: 'string' },
+            manager: { $ref: '#/components/schemas/User' },
+          },
+        },
+        NewUser: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' }, nickname: { type: 'string' } },
+        },
+      },
+    },
+  };
+}
+
+describe('diffSpecs', () => {
+  it('finds no changes between identical specs', () => {
+    expect(diffSpecs(baseSpec(), baseSpec())).toEqual({
+      summary: { breaking: 0, nonBreaking: 0, operationsAdded: 0, operationsRemoved: 0, operationsChanged: 0 },
+      changes: [],
+    });
+  });
+
+  it('reports added and removed operations', () => {
+    const after = baseSpec();
+    delete after.paths['/users/{id}'];
+    after.paths['/health'] = { get: { responses: { 200: { description: 'OK' } } } };
+
+    const diff = diffSpecs(baseSpec(), after);
+
+    expect(diff.changes).toEqual([
+      { type: 'removed', operation: 'DELETE /users/{id}', location: '', message: 'Operation removed', breaking: true },
+      { type: 'added', operation: 'GET /health', location: '', message: 'Operation added', breaking: false },
+    ]);
+    expect(diff.summary).toMatchObject({ breaking: 1, nonBreaking: 1, operationsAdded: 1, operationsRemoved: 1 });
+  });
+
+  it('treats new required inputs and narrower constraints as breaking', () => {
+    const after = baseSpec();
+    const get = after.paths['/users'].get!;
+    get.parameters = [
+      { name: 'limit', in: 'query', schema: { type: 'integer', maximum: 50 } },
+      { name: 'q', in: 'query', schema: { type: 'string' } },
+      { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+    ];
+    const newUser = after.components!.schemas!.NewUser;
+    newUser.required!.push('email');
+    newUser.properties!.email = { type: 'string' };
+
+    expect(diffSpecs(baseSpec(), after).changes).toEqual([
+      {
+        type: 'changed',
+        operation: 'GET /users',
+        location: 'parameters[query.limit]',
+        message: "query parameter 'limit': maximum changed from <= 100 to <= 50",
+        breaking: true,
+      },
+      {
+        type: 'added',
+        operation: 'GET /users',
+        location: 'parameters[query.q]',
+        message: "Optional query parameter 'q' added",
+        breaking: false,
+      },
+      {
+        type: 'added',
+        operation: 'GET /users',
+        location: 'parameters[header.x-tenant]',
+        message: "Required header parameter 'X-Tenant' added",
+        breaking: true,
+      },
+      {
+        type: 'added',
+        operation: 'POST /users',
+        location: 'requestBody[application/json].email',
+        message: "Required request property 'email' added",
+        breaking: true,
+      },
+    ]);
+  });
+
+  it('treats removed response fields and new enum values as breaking', () => {
+    const after = baseSpec();
+    const user = after.components!.schemas!.User;
+    user.properties!.status.enum!.push('pending');
+    delete user.properties!.email;
+    user.properties!.avatar = { type: 'string' };
+
+    const location = 'responses[200][application/json][]';
+    expect(diffSpecs(baseSpec(), after).changes).toEqual([
+      {
+        type: 'changed',
+        operation: 'GET /users',
+        location: `${location}.status`,
+        message: 'Response property \'[].status\': enum values added: "pending"',
+        breaking: true,
+      },
+      {
+        type: 'removed',
+        operation: 'GET /users',
+        location: `${location}.email`,
+        message: "Response property '[].email' removed",
+        breaking: true,
+      },
+      {
+        type: 'added',
+        operation: 'GET /users',
+        location: `${location}.avatar`,
+        message: "Optional response property '[].avatar' added",
+        breaking: false,
+      },
+    ]);
+  });
+
+  it('compares recursive schemas without looping', () => {
+    const after = baseSpec();
+    after.components!.schemas!.User.properties!.id = { type: 'integer' };
+
+    expect(diffSpecs(baseSpec(), after).changes).toEqual([
+      {
+        type: 'changed',
+        operation: 'GET /users',
+        location: 'responses[200][application/json][].id',
+        message: "Response property '[].id': type changed from string to integer",
+        breaking: true,
+      },
+    ]);
+  });
+});
\ No newline at end of file
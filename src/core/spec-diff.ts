@@ -0,0 +1,564 @@
+import { MediaType, OpenAPISpec, Operation, Parameter, PathItem, Response, Schema } from '../types/openapi';
+import { deref } from './ref-resolver';
+import { NumericBound, declaredTypes, isNullable, numericBounds } from './schema-types';
+
+export type ChangeType = 'added' | 'removed' | 'changed';
+
+export interface SpecChange {
+  type: ChangeType;
+  // "GET /users/{id}", or null for document-level changes
+  operation: string | null;
+  // Where in the operation, e.g. "requestBody[application/json].address.city"
+  location: string;
+  message: string;
+  breaking: boolean;
+}
+
+export interface SpecDiff {
+  summary: {
+    breaking: number;
+    nonBreaking: number;
+    operationsAdded: number;
+    operationsRemoved: number;
+    operationsChanged: number;
+  };
+  changes: SpecChange[];
+}
+
+type Direction = 'request' | 'response';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+// Schema nesting compared before giving up on deeper differences
+const MAX_SCHEMA_DEPTH = 12;
+
+/**
+ * Compare two versions of a spec operation by operation. Changes are breaking
+ * when a client written against `before` can fail against `after`: removed
+ * operations, parameters or response fields, new required inputs, narrowed
+ * request constraints and widened response values (e.g. new enum values).
+ */
+export function diffSpecs(before: OpenAPISpec, after: OpenAPISpec): SpecDiff {
+  return new SpecDiffer(before, after).diff();
+}
+
+class SpecDiffer {
+  private before: OpenAPISpec;
+  private after: OpenAPISpec;
+  private changes: SpecChange[] = [];
+  private operation: string | null = null;
+
+  constructor(before: OpenAPISpec, after: OpenAPISpec) {
+    this.before = before;
+    this.after = after;
+  }
+
+  diff(): SpecDiff {
+    const beforeOps = this.operations(this.before);
+    const afterOps = this.operations(this.after);
+    const changed = new Set<string>();
+
+    for (const [key, { label, operation, pathItem }] of beforeOps) {
+      const next = afterOps.get(key);
+      this.operation = label;
+
+      if (!next) {
+        this.record('removed', '', 'Operation removed', true);
+        continue;
+      }
+
+      const count = this.changes.length;
+      this.operation = next.label;
+      this.diffOperation(operation, pathItem, next.operation, next.pathItem);
+      if (this.changes.length > count) {
+        changed.add(key);
+      }
+    }
+
+    for (const [key, { label }] of afterOps) {
+      if (!beforeOps.has(key)) {
+        this.operation = label;
+        this.record('added', '', 'Operation added', false);
+      }
+    }
+
+    // 3.1 webhooks are compared for presence only: their payloads flow from
+    // the API to the client, the reverse of what the rules below assume
+    const beforeHooks = this.webhooks(this.before);
+    const afterHooks = this.webhooks(this.after);
+    for (const [key, label] of beforeHooks) {
+      if (!afterHooks.has(key)) {
+        this.operation = label;
+        this.record('removed', '', 'Webhook removed', true);
+      }
+    }
+    for (const [key, label] of afterHooks) {
+      if (!beforeHooks.has(key)) {
+        this.operation = label;
+        this.record('added', '', 'Webhook added', false);
+      }
+    }
+
+    const breaking = this.changes.filter(change => change.breaking).length;
+    return {
+      summary: {
+        breaking,
+        nonBreaking: this.changes.length - breaking,
+        operationsAdded: this.changes.filter(c => c.type === 'added' && c.location === '').length,
+        operationsRemoved: this.changes.filter(c => c.type === 'removed' && c.location === '').length,
+        operationsChanged: changed.size,
+      },
+      changes: this.changes,
+    };
+  }
+
+  /**
+   * Operations keyed by method and path template, ignoring the names of path
+   * parameters so renaming `{id}` to `{userId}` is not a removal.
+   */
+  private operations(spec: OpenAPISpec): Map<string, { label: string; operation: Operation; pathItem: PathItem }> {
+    const operations = new Map();
+    for (const [path, rawPathItem] of Object.entries(spec.paths || {})) {
+      const pathItem = deref(spec, rawPathItem);
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) continue;
+        const key = `${method} ${path.replace(/\{[^}]*\}/g, '{}')}`;
+        operations.set(key, { label: `${method.toUpperCase()} ${path}`, operation, pathItem });
+      }
+    }
+    return operations;
+  }
+
+  private webhooks(spec: OpenAPISpec): Map<string, string> {
+    const webhooks = new Map<string, string>();
+    for (const [name, rawPathItem] of Object.entries(spec.webhooks || {})) {
+      const pathItem = deref(spec, rawPathItem);
+      for (const method of HTTP_METHODS) {
+        if (pathItem?.[method]) {
+          webhooks.set(`${method} ${name}`, `${method.toUpperCase()} webhook ${name}`);
+        }
+      }
+    }
+    return webhooks;
+  }
+
+  private record(type: ChangeType, location: string, message: string, breaking: boolean): void {
+    this.changes.push({ type, operation: this.operation, location, message, breaking });
+  }
+
+  private diffOperation(before: Operation, beforePath: PathItem, after: Operation, afterPath: PathItem): void {
+    if (!before.deprecated && after.deprecated) {
+      this.record('changed', 'deprecated', 'Operation deprecated', false);
+    }
+
+    const beforeSecurity = JSON.stringify(before.security ?? this.before.security ?? []);
+    const afterSecurity = JSON.stringify(after.security ?? this.after.security ?? []);
+    if (beforeSecurity !== afterSecurity) {
+      this.record('changed', 'security', `Security requirements changed from ${beforeSecurity} to ${afterSecurity}`, true);
+    }
+
+    this.diffParameters(
+      this.parameters(this.before, before, beforePath),
+      this.parameters(this.after, after, afterPath)
+    );
+    this.diffRequestBody(before, after);
+    this.diffResponses(before.responses || {}, after.responses || {});
+  }
+
+  // Path-level parameters overridden by operation-level ones, keyed by in.name
+  private parameters(spec: OpenAPISpec, operation: Operation, pathItem: PathItem): Map<string, Parameter> {
+    const parameters = new Map<string, Parameter>();
+    for (const raw of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+      const param = deref(spec, raw);
+      // Path parameters match by position in the template, not by name
+      const key = param.in === 'path' ? `path.${param.name}` : `${param.in}.${param.in === 'header' ? param.name.toLowerCase() : param.name}`;
+      parameters.set(key, param);
+    }
+    return parameters;
+  }
+
+  private diffParameters(before: Map<string, Parameter>, after: Map<string, Parameter>): void {
+    const beforePath = Array.from(before.values()).filter(p => p.in === 'path');
+    const afterPath = Array.from(after.values()).filter(p => p.in === 'path');
+
+    for (const [key, param] of before) {
+      const location = `parameters[${key}]`;
+      // Renamed path parameters are the same parameter
+      const next = after.get(key)
+        || (param.in === 'path' && afterPath.length === beforePath.length ? afterPath[beforePath.indexOf(param)] : undefined);
+
+      if (!next) {
+        this.record('removed', location, `${param.in} parameter '${param.name}' removed`, true);
+        continue;
+      }
+
+      if (!param.required && next.required) {
+        this.record('changed', location, `${param.in} parameter '${param.name}' is now required`, true);
+      } else if (param.required && !next.required) {
+        this.record('changed', location, `${param.in} parameter '${param.name}' is now optional`, false);
+      }
+      if (!param.deprecated && next.deprecated) {
+        this.record('changed', location, `${param.in} parameter '${param.name}' deprecated`, false);
+      }
+      if ((param.style ?? null) !== (next.style ?? null) || (param.explode ?? null) !== (next.explode ?? null)) {
+        this.record('changed', location, `${param.in} parameter '${param.name}' serialization changed`, true);
+      }
+
+      this.diffSchema(param.schema, next.schema, location, `${param.in} parameter '${param.name}'`, '', 'request', 0, new Set());
+    }
+
+    for (const [key, param] of after) {
+      if (before.has(key) || param.in === 'path') continue;
+      this.record(
+        'added',
+        `parameters[${key}]`,
+        `${param.required ? 'Required' : 'Optional'} ${param.in} parameter '${param.name}' added`,
+        param.required === true
+      );
+    }
+  }
+
+  private diffRequestBody(before: Operation, after: Operation): void {
+    const beforeBody = before.requestBody ? deref(this.before, before.requestBody) : undefined;
+    const afterBody = after.requestBody ? deref(this.after, after.requestBody) : undefined;
+
+    if (!beforeBody && !afterBody) return;
+    if (!afterBody) {
+      this.record('removed', 'requestBody', 'Request body removed', true);
+      return;
+    }
+    if (!beforeBody) {
+      this.record('added', 'requestBody', `${afterBody.required ? 'Required' : 'Optional'} request body added`, afterBody.required === true);
+      return;
+    }
+
+    if (!beforeBody.required && afterBody.required) {
+      this.record('changed', 'requestBody', 'Request body is now required', true);
+    }
+
+    this.diffContent(beforeBody.content || {}, afterBody.content || {}, 'requestBody', 'request');
+  }
+
+  private diffResponses(before: Record<string, Response>, after: Record<string, Response>): void {
+    for (const [status, raw] of Object.entries(before)) {
+      const location = `responses[${status}]`;
+      if (!after[status]) {
+        // Clients that handle a documented status can no longer rely on it
+        this.record('removed', location, `Response ${status} removed`, /^2/.test(status));
+        continue;
+      }
+
+      const beforeResponse = deref(this.before, raw);
+      const afterResponse = deref(this.after, after[status]);
+      this.diffContent(beforeResponse.content || {}, afterResponse.content || {}, location, 'response');
+
+      for (const name of Object.keys(beforeResponse.headers || {})) {
+        if (!Object.keys(afterResponse.headers || {}).some(h => h.toLowerCase() === name.toLowerCase())) {
+          this.record('removed', `${location}.headers[${name}]`, `Response header '${name}' removed`, true);
+        }
+      }
+    }
+
+    for (const status of Object.keys(after)) {
+      if (!before[status]) {
+        // Clients may not handle a new status, but documenting one is not a break
+        this.record('added', `responses[${status}]`, `Response ${status} added`, false);
+      }
+    }
+  }
+
+  private diffContent(
+    before: Record<string, MediaType>,
+    after: Record<string, MediaType>,
+    location: string,
+    direction: Direction
+  ): void {
+    for (const [type, media] of Object.entries(before)) {
+      const mediaLocation = `${location}[${type}]`;
+      if (!after[type]) {
+        this.record('removed', mediaLocation, `Media type ${type} removed`, true);
+        continue;
+      }
+      const subject = `${direction === 'request' ? 'Request' : 'Response'} body (${type})`;
+      this.diffSchema(media.schema, after[type].schema, mediaLocation, subject, '', direction, 0, new Set());
+    }
+
+    for (const type of Object.keys(after)) {
+      if (!before[type]) {
+        this.record('added', `${location}[${type}]`, `Media type ${type} added`, false);
+      }
+    }
+  }
+
+  /**
+   * `subject` names the schema in messages; `field` is its property path
+   * inside the body or parameter ('' at the top).
+   */
+  private diffSchema(
+    rawBefore: Schema | undefined,
+    rawAfter: Schema | undefined,
+    location: string,
+    subject: string,
+    field: string,
+    direction: Direction,
+    depth: number,
+    visiting: Set<Schema>
+  ): void {
+    if (!rawBefore || !rawAfter || depth > MAX_SCHEMA_DEPTH) return;
+
+    // Cycles are tracked on the original schema objects; flattening copies them
+    const original = deref(this.before, rawBefore);
+    if (visiting.has(original)) return;
+    visiting.add(original);
+
+    const before = this.flatten(this.before, original);
+    const after = this.flatten(this.after, deref(this.after, rawAfter));
+
+    const isRequest = direction === 'request';
+
+    const beforeType = this.typeOf(before);
+    const afterType = this.typeOf(after);
+    if (beforeType && afterType && beforeType !== afterType) {
+      this.record('changed', location, `${subject}: type changed from ${beforeType} to ${afterType}`, true);
+      visiting.delete(original);
+      return;
+    }
+
+    if ((before.format ?? null) !== (after.format ?? null) && before.format && after.format) {
+      this.record('changed', location, `${subject}: format changed from ${before.format} to ${after.format}`, true);
+    }
+
+    const beforeNullable = isNullable(before);
+    const afterNullable = isNullable(after);
+    if (beforeNullable && !afterNullable) {
+      this.record('changed', location, `${subject}: no longer nullable`, isRequest);
+    } else if (!beforeNullable && afterNullable) {
+      this.record('changed', location, `${subject}: now nullable`, !isRequest);
+    }
+
+    this.diffEnum(before, after, location, subject, isRequest);
+    this.diffConstraints(before, after, location, subject, isRequest);
+
+    if (before.properties || after.properties) {
+      this.diffProperties(before, after, location, field, direction, depth, visiting);
+    }
+
+    if (before.items && after.items) {
+      const itemField = `${field}[]`;
+      this.diffSchema(before.items, after.items, `${location}[]`, this.propertySubject(itemField, isRequest), itemField, direction, depth + 1, visiting);
+    }
+
+    // 3.1 tuples: positions present on both sides are compared one by one
+    const beforePrefix = before.prefixItems || [];
+    const afterPrefix = after.prefixItems || [];
+    for (let i = 0; i < Math.min(beforePrefix.length, afterPrefix.length); i++) {
+      const itemField = `${field}[${i}]`;
+      this.diffSchema(beforePrefix[i], afterPrefix[i], `${location}[${i}]`, this.propertySubject(itemField, isRequest), itemField, direction, depth + 1, visiting);
+    }
+    if (beforePrefix.length !== afterPrefix.length && beforePrefix.length > 0 && afterPrefix.length > 0) {
+      this.record('changed', location, `${subject}: tuple length changed (${beforePrefix.length} → ${afterPrefix.length})`, true);
+    }
+
+    const beforeOptions = (before.oneOf || before.anyOf || []).length;
+    const afterOptions = (after.oneOf || after.anyOf || []).length;
+    if (beforeOptions !== afterOptions && beforeOptions > 0 && afterOptions > 0) {
+      const fewer = afterOptions < beforeOptions;
+      this.record(
+        'changed',
+        location,
+        `${subject}: ${fewer ? 'alternatives removed' : 'alternatives added'} (${beforeOptions} → ${afterOptions})`,
+        fewer ? isRequest : !isRequest
+      );
+    }
+
+    visiting.delete(original);
+  }
+
+  private diffProperties(
+    before: Schema,
+    after: Schema,
+    location: string,
+    field: string,
+    direction: Direction,
+    depth: number,
+    visiting: Set<Schema>
+  ): void {
+    const isRequest = direction === 'request';
+    const child = (name: string) => (field ? `${field}.${name}` : name);
+    const beforeRequired = new Set(before.required || []);
+    const afterRequired = new Set(after.required || []);
+    const beforeProps = before.properties || {};
+    const afterProps = after.properties || {};
+    for (const [name, property] of Object.entries(beforeProps)) {
+      const propLocation = `${location}.${name}`;
+      const next = afterProps[name];
+      const hidden = this.hiddenIn(this.before, property, direction);
+
+      if (!next) {
+        if (hidden) continue;
+        this.record(
+          'removed',
+          propLocation,
+          `${this.propertySubject(child(name), isRequest)} removed`,
+          // Responses lose data clients read; requests just stop reading it
+          !isRequest || after.additionalProperties === false
+        );
+        continue;
+      }
+
+      if (hidden && this.hiddenIn(this.after, next, direction)) continue;
+
+      if (isRequest && !beforeRequired.has(name) && afterRequired.has(name)) {
+        this.record('changed', propLocation, `${this.propertySubject(child(name), isRequest)} is now required`, true);
+      } else if (!isRequest && beforeRequired.has(name) && !afterRequired.has(name)) {
+        this.record('changed', propLocation, `${this.propertySubject(child(name), isRequest)} is no longer required`, true);
+      }
+
+      this.diffSchema(property, next, propLocation, this.propertySubject(child(name), isRequest), child(name), direction, depth + 1, visiting);
+    }
+
+    for (const [name, property] of Object.entries(afterProps)) {
+      if (beforeProps[name] || this.hiddenIn(this.after, property, direction)) continue;
+      const required = afterRequired.has(name);
+      this.record(
+        'added',
+        `${location}.${name}`,
+        `${required ? 'Required' : 'Optional'} ${isRequest ? 'request' : 'response'} property '${child(name)}' added`,
+        isRequest && required
+      );
+    }
+  }
+
+  private diffEnum(before: Schema, after: Schema, location: string, subject: string, isRequest: boolean): void {
+    // A 3.1 `const` is an enum of one value
+    const beforeEnum = before.enum ?? (before.const !== undefined ? [before.const] : undefined);
+    const afterEnum = after.enum ?? (after.const !== undefined ? [after.const] : undefined);
+    if (!beforeEnum && !afterEnum) return;
+
+    if (!beforeEnum && afterEnum) {
+      this.record('changed', location, `${subject}: restricted to ${JSON.stringify(afterEnum)}`, isRequest);
+      return;
+    }
+    if (beforeEnum && !afterEnum) {
+      this.record('changed', location, `${subject}: no longer restricted to ${JSON.stringify(beforeEnum)}`, !isRequest);
+      return;
+    }
+
+    const beforeValues = new Set(beforeEnum!.map(value => JSON.stringify(value)));
+    const afterValues = new Set(afterEnum!.map(value => JSON.stringify(value)));
+    const removed = [...beforeValues].filter(value => !afterValues.has(value));
+    const added = [...afterValues].filter(value => !beforeValues.has(value));
+
+    // Requests break when accepted values disappear, responses when new ones appear
+    if (removed.length > 0) {
+      this.record('changed', location, `${subject}: enum values removed: ${removed.join(', ')}`, isRequest);
+    }
+    if (added.length > 0) {
+      this.record('changed', location, `${subject}: enum values added: ${added.join(', ')}`, !isRequest);
+    }
+  }
+
+  private diffConstraints(before: Schema, after: Schema, location: string, subject: string, isRequest: boolean): void {
+    // [keyword, true when a larger value narrows what is allowed]
+    const bounds: Array<[keyof Schema, boolean]> = [
+      ['minLength', true],
+      ['maxLength', false],
+      ['minItems', true],
+      ['maxItems', false],
+      ['minProperties', true],
+      ['maxProperties', false],
+    ];
+
+    for (const [keyword, largerNarrows] of bounds) {
+      const from = before[keyword] as number | undefined;
+      const to = after[keyword] as number | undefined;
+      if (from === to) continue;
+
+      // A bound that appears narrows; one that disappears widens
+      const narrowed = from === undefined
+        ? true
+        : to === undefined
+          ? false
+          : largerNarrows ? to > from : to < from;
+
+      this.record(
+        'changed',
+        location,
+        `${subject}: ${keyword} changed from ${from ?? 'none'} to ${to ?? 'none'}`,
+        narrowed ? isRequest : !isRequest
+      );
+    }
+
+    // minimum/maximum, exclusive either the 3.0 (boolean) or the 3.1 (numeric) way
+    const beforeNumeric = numericBounds(before);
+    const afterNumeric = numericBounds(after);
+    for (const [keyword, key, largerNarrows] of [['minimum', 'lower', true], ['maximum', 'upper', false]] as const) {
+      const from = beforeNumeric[key];
+      const to = afterNumeric[key];
+      if (from?.value === to?.value && from?.exclusive === to?.exclusive) continue;
+
+      const narrowed = from === undefined
+        ? true
+        : to === undefined
+          ? false
+          : to.value === from.value
+            ? to.exclusive
+            : largerNarrows ? to.value > from.value : to.value < from.value;
+
+      this.record(
+        'changed',
+        location,
+        `${subject}: ${keyword} changed from ${this.describeBound(from, largerNarrows)} to ${this.describeBound(to, largerNarrows)}`,
+        narrowed ? isRequest : !isRequest
+      );
+    }
+
+    if ((before.pattern ?? null) !== (after.pattern ?? null)) {
+      this.record('changed', location, `${subject}: pattern changed from ${before.pattern ?? 'none'} to ${after.pattern ?? 'none'}`, isRequest || !after.pattern);
+    }
+
+    if (before.additionalProperties !== false && after.additionalProperties === false) {
+      this.record('changed', location, `${subject}: additional properties no longer allowed`, isRequest);
+    }
+  }
+
+  private propertySubject(field: string, isRequest: boolean): string {
+    return `${isRequest ? 'Request' : 'Response'} property '${field}'`;
+  }
+
+  // readOnly properties are not part of requests, writeOnly ones not of responses
+  private hiddenIn(spec: OpenAPISpec, schema: Schema, direction: Direction): boolean {
+    const resolved = deref(spec, schema);
+    return direction === 'request' ? resolved.readOnly === true : resolved.writeOnly === true;
+  }
+
+  private describeBound(bound: NumericBound | undefined, lower: boolean): string {
+    if (!bound) return 'none';
+    return `${lower ? '>' : '<'}${bound.exclusive ? '' : '='} ${bound.value}`;
+  }
+
+  // Nullability is compared separately, so ['string', 'null'] is a string
+  private typeOf(schema: Schema): string | undefined {
+    const types = declaredTypes(schema);
+    return types.length > 0 ? [...types].sort().join('|') : undefined;
+  }
+
+  /**
+   * Merge allOf parts into one schema so composed and inline definitions of
+   * the same shape compare equal.
+   */
+  private flatten(spec: OpenAPISpec, schema: Schema): Schema {
+    if (!schema.allOf) return schema;
+
+    const { allOf, ...rest } = schema;
+    const merged: Schema = { ...rest, properties: { ...(rest.properties || {}) }, required: [...(rest.required || [])] };
+    for (const part of allOf) {
+      const resolved = this.flatten(spec, deref(spec, part));
+      merged.type = merged.type || resolved.type;
+      Object.assign(merged.properties!, resolved.properties || {});
+      merged.required!.push(...(resolved.required || []));
+    }
+    return merged;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { OpenAPISpec } from '../types/openapi';
+import { Credential, SpecAuth } from '../types/config';
+import { OpenAPIClient } from './openapi-client';
+import { redactUrl } from './spec-auth';
+
+export const DEFAULT_SPEC_NAME = 'default';
+
+// Shown when a tool names a spec by URL or path and the server only serves
+// the configured specs (see `allowSpecUrls`)
+export const SPEC_URLS_DISABLED = 'Loading specs by URL or file path is disabled on this server; use one of the configured specs (see list_specs)';
+
+export interface SpecEntry {
+  name: string;
+  url: string;
+  description?: string;
+  // Credentials for fetching this spec and for calling its API; never
+  // exposed through tools
+  auth?: SpecAuth;
+  credentials?: Record<string, Credential>;
+  spec: OpenAPISpec | null;
+  loadedAt?: number;
+  error?: string;
+}
+
+/**
+ * Called when loading a spec produced a different document than before;
+ * `previous` is null the first time a spec is loaded.
+ */
+export type SpecChangeListener = (entry: SpecEntry, previous: OpenAPISpec | null) => void;
+
+/**
+ * Named OpenAPI specs served by one server instance. Specs are registered
+ * from configuration and loaded lazily on first use.
+ */
+export class SpecRegistry {
+  private openApiClient: OpenAPIClient;
+  private entries: Map<string, SpecEntry> = new Map();
+  private defaultName: string | null = null;
+  private listeners: SpecChangeListener[] = [];
+
+  constructor(openApiClient: OpenAPIClient) {
+    this.openApiClient = openApiClient;
+  }
+
+  register(
+    name: string,
+    url: string,
+    options: Pick<SpecEntry, 'description' | 'auth' | 'credentials'> = {}
+  ): SpecEntry {
+    const existing = this.entries.get(name);
+    if (existing && existing.url === url) {
+      return existing;
+    }
+
+    const entry: SpecEntry = { name, url, ...options, spec: null };
+    this.entries.set(name, entry);
+
+    if (!this.defaultName) {
+      this.defaultName = name;
+    }
+
+    return entry;
+  }
+
+  onChange(listener: SpecChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  setDefault(name: string): void {
+    if (!this.entries.has(name)) {
+      throw new Error(`Unknown spec: ${name}. Available specs: ${this.names().join(', ')}`);
+    }
+    this.defaultName = name;
+  }
+
+  get defaultSpecName(): string | null {
+    return this.defaultName;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  list(): SpecEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  get(name: string): SpecEntry | undefined {
+    return this.entries.get(name);
+  }
+
+  findByUrl(url: string): SpecEntry | undefined {
+    return this.list().find(entry => entry.url === url);
+  }
+
+  /**
+   * Return the named spec (or the default one), loading it if needed.
+   */
+  async resolve(name?: string): Promise<SpecEntry> {
+    const specName = name || this.defaultName;
+    if (!specName) {
+      throw new Error('No OpenAPI specification configured. Please provide a URL or configure one.');
+    }
+
+    const entry = this.entries.get(specName);
+    if (!entry) {
+      throw new Error(`Unknown spec: ${specName}. Available specs: ${this.names().join(', ') || 'none'}`);
+    }
+
+    if (!entry.spec) {
+      await this.load(entry.name);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Load a spec by URL that is not one of the configured specs. The entry is
+   * not registered: the caller decides how long to keep it, and it is
+   * fetched without credentials.
+   */
+  async loadUrl(url: string, forceRefresh: boolean = false): Promise<SpecEntry> {
+    const spec = await this.openApiClient.fetchSpec(url, forceRefresh);
+    return { name: url, url, spec, loadedAt: Date.now() };
+  }
+
+  /**
+   * Fetch a registered spec's document without replacing the loaded one.
+   * `latest` bypasses the cache, which keeps the version loaded before.
+   */
+  async fetch(name: string, latest: boolean = false): Promise<OpenAPISpec> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Unknown spec: ${name}. Available specs: ${this.names().join(', ') || 'none'}`);
+    }
+    return latest
+      ? this.openApiClient.fetchLatest(entry.url, entry.auth)
+      : this.openApiClient.fetchSpec(entry.url, false, entry.auth);
+  }
+
+  /**
+   * Fetch a document that is not a configured spec, by URL or file path. It
+   * is fetched without credentials and neither read from nor written to the
+   * cache.
+   */
+  async fetchUrl(url: string): Promise<OpenAPISpec> {
+    return this.openApiClient.fetchLatest(url);
+  }
+
+  async load(name: string, forceRefresh: boolean = false): Promise<SpecEntry> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Unknown spec: ${name}`);
+    }
+
+    const previous = entry.spec;
+
+    try {
+      entry.spec = forceRefresh
+        ? await this.openApiClient.refreshSpec(entry.url, entry.auth)
+        : await this.openApiClient.fetchSpec(entry.url, false, entry.auth);
+      entry.loadedAt = Date.now();
+      entry.error = undefined;
+    } catch (error) {
+      entry.error = String(error);
+      throw error;
+    }
+
+    if (!sameDocument(previous, entry.spec)) {
+      for (const listener of this.listeners) {
+        listener(entry, previous);
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Load every registered spec that is not loaded yet. Failures are recorded
+   * on the entry rather than thrown so one broken API doesn't hide the rest.
+   */
+  async loadAll(): Promise<SpecEntry[]> {
+    for (const entry of this.entries.values()) {
+      if (entry.spec) continue;
+      try {
+        await this.load(entry.name);
+      } catch (error) {
+        console.error(`Failed to load spec '${entry.name}' from ${redactUrl(entry.url)}: ${error}`);
+      }
+    }
+
+    return this.list().filter(entry => entry.spec !== null);
+  }
+}
+
+function sameDocument(a: OpenAPISpec | null, b: OpenAPISpec | null): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
\ No newline at end of file
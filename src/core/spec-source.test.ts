@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { isLocalSource, isRemoteSource, resolveLocalSpecPath } from './spec-source';
+
+describe('isRemoteSource and isLocalSource', () => {
+  it('fetches http and https URLs', () => {
+    expect(isRemoteSource('https://api.example.com/openapi.json')).toBe(true);
+    expect(isRemoteSource('HTTP://api.example.com/openapi.json')).toBe(true);
+    expect(isLocalSource('https://api.example.com/openapi.json')).toBe(false);
+  });
+
+  it('reads paths and file URIs from disk', () => {
+    expect(isLocalSource('./openapi.yaml')).toBe(true);
+    expect(isLocalSource('specs/openapi.yaml')).toBe(true);
+    expect(isLocalSource('/srv/specs/openapi.yaml')).toBe(true);
+    expect(isLocalSource('C:\\specs\\openapi.yaml')).toBe(true);
+    expect(isLocalSource('file:///srv/specs/openapi.yaml')).toBe(true);
+    expect(isRemoteSource('file:///srv/specs/openapi.yaml')).toBe(false);
+  });
+
+  it('rejects other URL schemes', () => {
+    const message = "Unsupported spec location scheme 'ftp:' (expected an http(s) URL, a file:// URI or a file path)";
+    expect(() => isLocalSource('ftp://files.example.com/openapi.yaml')).toThrow(message);
+    expect(() => isRemoteSource('ftp://files.example.com/openapi.yaml')).toThrow(message);
+    expect(() => isLocalSource('data:application/json,{}')).toThrow("Unsupported spec location scheme 'data:'");
+  });
+});
+
+describe('resolveLocalSpecPath', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-source-'));
+    fs.writeFileSync(path.join(dir, 'swagger.json'), '{}');
+    fs.writeFileSync(path.join(dir, 'openapi.yml'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves paths and file URIs to absolute paths', () => {
+    const file = path.join(dir, 'swagger.json');
+
+    expect(resolveLocalSpecPath(file)).toBe(file);
+    expect(resolveLocalSpecPath(pathToFileURL(file).href)).toBe(file);
+    expect(resolveLocalSpecPath(path.relative(process.cwd(), file))).toBe(file);
+  });
+
+  it('picks the first well-known spec file in a directory', () => {
+    expect(resolveLocalSpecPath(dir)).toBe(path.join(dir, 'openapi.yml'));
+
+    fs.rmSync(path.join(dir, 'openapi.yml'));
+    fs.rmSync(path.join(dir, 'swagger.json'));
+    expect(() => resolveLocalSpecPath(dir)).toThrow(`No OpenAPI spec found in directory ${dir}`);
+  });
+
+  it('reports missing files', () => {
+    const missing = path.join(dir, 'missing.yaml');
+
+    expect(() => resolveLocalSpecPath(missing)).toThrow(`Spec file not found: ${missing}`);
+  });
+});
\ No newline at end of file
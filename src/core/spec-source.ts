@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+// File names probed, in order, when a spec location points at a directory
+const DIRECTORY_SPEC_FILES = [
+  'openapi.yaml',
+  'openapi.yml',
+  'openapi.json',
+  'swagger.yaml',
+  'swagger.yml',
+  'swagger.json',
+];
+
+export function isRemoteSource(location: string): boolean {
+  return sourceKind(location) === 'remote';
+}
+
+export function isLocalSource(location: string): boolean {
+  return sourceKind(location) === 'local';
+}
+
+/**
+ * http(s) URLs are fetched; file: URIs and anything that doesn't parse as a
+ * URL are paths. Other schemes are refused rather than read from disk.
+ */
+function sourceKind(location: string): 'remote' | 'local' {
+  let url: URL;
+  try {
+    url = new URL(location);
+  } catch {
+    return 'local';
+  }
+
+  const scheme = url.protocol.toLowerCase();
+  if (scheme === 'http:' || scheme === 'https:') {
+    return 'remote';
+  }
+  // Windows paths parse with their drive letter as the scheme
+  if (scheme === 'file:' || /^[a-z]:$/.test(scheme)) {
+    return 'local';
+  }
+
+  throw new Error(`Unsupported spec location scheme '${scheme}' (expected an http(s) URL, a file:// URI or a file path)`);
+}
+
+/**
+ * Turn a local spec location (relative path, absolute path or file:// URI)
+ * into an absolute file path. Directories are resolved to the first
+ * well-known spec file they contain.
+ */
+export function resolveLocalSpecPath(location: string): string {
+  const filePath = location.toLowerCase().startsWith('file:')
+    ? fileURLToPath(location)
+    : path.resolve(location);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Spec file not found: ${filePath}`);
+  }
+
+  if (fs.statSync(filePath).isDirectory()) {
+    for (const candidate of DIRECTORY_SPEC_FILES) {
+      const candidatePath = path.join(filePath, candidate);
+      if (fs.existsSync(candidatePath)) {
+        return candidatePath;
+      }
+    }
+    throw new Error(
+      `No OpenAPI spec found in directory ${filePath} (looked for ${DIRECTORY_SPEC_FILES.join(', ')})`
+    );
+  }
+
+  return filePath;
+}
\ No newline at end of file
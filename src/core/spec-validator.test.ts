@@ -0,0 +1,78 @@
+import { formatIssues, validateDocument } from './spec-validator';
+
+const valid30 = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: { responses: { 200: { description: 'Pets' } } },
+    },
+  },
+};
+
+describe('validateDocument', () => {
+  it('accepts valid Swagger 2.0, OpenAPI 3.0 and 3.1 documents', () => {
+    expect(validateDocument(valid30)).toEqual([]);
+    expect(validateDocument({ ...valid30, openapi: '3.1.0' })).toEqual([]);
+    expect(validateDocument({
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: { '/pets': { get: { responses: { 200: { description: 'Pets' } } } } },
+    })).toEqual([]);
+  });
+
+  it('rejects documents without a supported version', () => {
+    expect(validateDocument([])).toEqual([{ pointer: '#', message: 'Document must be an object' }]);
+    expect(validateDocument({ info: {} })).toEqual([{ pointer: '#', message: 'Missing version field (openapi or swagger)' }]);
+    expect(validateDocument({ openapi: '4.0.0' })).toEqual([
+      { pointer: '#/openapi', message: 'Unsupported version 4.0.0 (expected Swagger 2.0 or OpenAPI 3.0/3.1)' },
+    ]);
+  });
+
+  it('reports the innermost problems at the offending property', () => {
+    const issues = validateDocument({
+      ...valid30,
+      paths: {
+        '/pets': {
+          get: {
+            parameters: [{ name: 'limit', in: 'body' }],
+            responses: { 200: { summary: 'Pets' } },
+          },
+        },
+      },
+    });
+
+    expect(issues).toEqual([
+      { pointer: '#/paths/~1pets/get/parameters/0/in', message: 'must be one of: "path", "query", "header", "cookie"' },
+      { pointer: '#/paths/~1pets/get/responses/200/description', message: "Missing required property 'description'" },
+      { pointer: '#/paths/~1pets/get/responses/200/summary', message: "Unexpected property 'summary'" },
+    ]);
+  });
+
+  it('adds line numbers from the source text', () => {
+    const source = [
+      'openapi: 3.0.3',
+      'info:',
+      '  title: Pets',
+      'paths:',
+      '  /pets:',
+      '    get:',
+      '      responses: {}',
+    ].join('\n');
+
+    const issues = validateDocument({
+      openapi: '3.0.3',
+      info: { title: 'Pets' },
+      paths: { '/pets': { get: { responses: {} } } },
+    }, source);
+
+    expect(issues).toEqual([
+      { pointer: '#/info/version', message: "Missing required property 'version'", line: 3, column: 3 },
+      { pointer: '#/paths/~1pets/get/responses', message: 'must NOT have fewer than 1 properties', line: 7, column: 18 },
+    ]);
+    expect(formatIssues(issues)).toBe([
+      "  #/info/version (line 3:3): Missing required property 'version'",
+      '  #/paths/~1pets/get/responses (line 7:18): must NOT have fewer than 1 properties',
+    ].join('\n'));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { ErrorObject, ValidateFunction } from 'ajv';
+import AjvDraft04 from 'ajv-draft-04';
+import Ajv2020 from 'ajv/dist/2020';
+import { openapi } from '@apidevtools/openapi-schemas';
+import { LineCounter, isNode, parseDocument } from 'yaml';
+
+export interface SpecValidationIssue {
+  // JSON pointer (URI fragment) to the offending value
+  pointer: string;
+  message: string;
+  // 1-based position in the source document, when it is known
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Thrown for documents refused by strict validation. Unlike a failed fetch,
+ * this is not covered up by a previously cached version.
+ */
+export class SpecValidationError extends Error {
+  readonly issues: SpecValidationIssue[];
+
+  constructor(issues: SpecValidationIssue[]) {
+    super(`Invalid spec, ${issues.length} schema violation(s):\n${formatIssues(issues)}`);
+    this.name = 'SpecValidationError';
+    this.issues = issues;
+  }
+}
+
+// Reporting stops here; a broken document can produce thousands of errors
+const MAX_ISSUES = 50;
+
+const validators: Map<string, ValidateFunction> = new Map();
+
+/**
+ * Validate a parsed (not yet converted or dereferenced) document against the
+ * official JSON Schema of its version: Swagger 2.0, OpenAPI 3.0 or 3.1.
+ * `source` is the document text, used to add line numbers to the issues.
+ */
+export function validateDocument(document: any, source?: string): SpecValidationIssue[] {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    return [{ pointer: '#', message: 'Document must be an object' }];
+  }
+
+  const version = String(document.swagger || document.openapi || '');
+  const validate = metaSchemaValidator(version);
+  if (!validate) {
+    return [{
+      pointer: document.swagger ? '#/swagger' : document.openapi ? '#/openapi' : '#',
+      message: version
+        ? `Unsupported version ${version} (expected Swagger 2.0 or OpenAPI 3.0/3.1)`
+        : 'Missing version field (openapi or swagger)',
+    }];
+  }
+
+  if (validate(document)) {
+    return [];
+  }
+
+  const issues = mostSpecific(validate.errors || []).slice(0, MAX_ISSUES);
+
+  return source ? locate(issues, source) : issues;
+}
+
+/**
+ * One line per issue, for logs and error messages.
+ */
+export function formatIssues(issues: SpecValidationIssue[]): string {
+  return issues
+    .map(issue => `  ${issue.pointer}${issue.line ? ` (line ${issue.line}:${issue.column})` : ''}: ${issue.message}`)
+    .join('\n');
+}
+
+function metaSchemaValidator(version: string): ValidateFunction | null {
+  const key = version.startsWith('2.') ? 'v2' : version.startsWith('3.0') ? 'v3' : version.startsWith('3.1') ? 'v31' : null;
+  if (!key) {
+    return null;
+  }
+
+  if (!validators.has(key)) {
+    const options = { allErrors: true, strict: false, validateFormats: false, logger: false as const };
+    // Swagger 2.0 and OpenAPI 3.0 are described in draft-04, 3.1 in 2020-12
+    const ajv = key === 'v31' ? new Ajv2020(options) : new AjvDraft04(options);
+    // Ajv resolves the `$dynamicRef: "#meta"` used for Schema Objects to the
+    // document root; the default it stands for is the plain `$defs/schema`
+    const schema: any = JSON.parse(
+      JSON.stringify(openapi[key]).replace(/"\$dynamicRef":"#meta"/g, '"$ref":"#/$defs/schema"')
+    );
+    delete schema.$schema;
+    if (key === 'v31') {
+      // Path Items may be `$ref`s; the 2021-04-15 schema only learnt that later
+      schema.$defs['path-item'].properties.$ref = { type: 'string' };
+    }
+    validators.set(key, ajv.compile(schema));
+  }
+
+  return validators.get(key)!;
+}
+
+/**
+ * Drop errors about a value when there are errors deeper inside it. A bad
+ * property in a schema fails every `oneOf` branch (including "must have
+ * required property '$ref'"); only the innermost errors say what is wrong.
+ * Enum errors for the same value are merged into one list of allowed values.
+ */
+function mostSpecific(errors: ErrorObject[]): SpecValidationIssue[] {
+  const located = errors
+    .filter(error => !['oneOf', 'anyOf', 'if', 'then', 'else'].includes(error.keyword))
+    .map(error => ({ error, pointer: '#' + error.instancePath + propertySuffix(error) }));
+
+  const issues: SpecValidationIssue[] = [];
+  const allowed: Map<string, any[]> = new Map();
+  for (const { error, pointer } of located) {
+    const prefix = pointer + '/';
+    if (located.some(other => other.pointer.startsWith(prefix))) continue;
+    // Requirements of oneOf branches that do not apply: the Reference Object
+    // next to real errors, or every branch when the field choosing between
+    // them (like a parameter's `in`) has a bad value
+    if (error.keyword === 'required' && located.some(other => other.error !== error && (
+      (error.params as any).missingProperty === '$ref'
+        ? other.error.instancePath === error.instancePath
+        : other.error.keyword === 'enum' && other.error.instancePath.startsWith(error.instancePath + '/')
+    ))) continue;
+
+    if (error.keyword === 'enum') {
+      const values = allowed.get(pointer);
+      if (values) {
+        values.push(...(error.params as any).allowedValues);
+        continue;
+      }
+      allowed.set(pointer, [...(error.params as any).allowedValues]);
+    }
+
+    issues.push({ pointer, message: describe(error) });
+  }
+
+  const seen = new Set<string>();
+  return issues
+    .map(issue => allowed.has(issue.pointer) && issue.message.startsWith('must be one of')
+      ? { ...issue, message: `must be one of: ${[...new Set(allowed.get(issue.pointer)!.map(value => JSON.stringify(value)))].join(', ')}` }
+      : issue)
+    .filter(issue => {
+      const key = `${issue.pointer}|${issue.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Unexpected and missing properties are reported at the property itself
+ * rather than at its parent.
+ */
+function propertySuffix(error: ErrorObject): string {
+  const params: any = error.params;
+  const property = params.additionalProperty ?? params.unevaluatedProperty ?? params.missingProperty;
+  return property !== undefined ? '/' + String(property).replace(/~/g, '~0').replace(/\//g, '~1') : '';
+}
+
+function describe(error: ErrorObject): string {
+  const params: any = error.params;
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return `Unexpected property '${params.additionalProperty}'`;
+    case 'unevaluatedProperties':
+      return `Unexpected property '${params.unevaluatedProperty}'`;
+    case 'required':
+      return `Missing required property '${params.missingProperty}'`;
+    case 'enum':
+      return `must be one of: ${(params.allowedValues || []).map((value: any) => JSON.stringify(value)).join(', ')}`;
+    default:
+      return error.message || error.keyword;
+  }
+}
+
+/**
+ * Add line and column numbers by looking the pointers up in the source text
+ * (JSON is parsed as YAML, which it is a subset of).
+ */
+function locate(issues: SpecValidationIssue[], source: string): SpecValidationIssue[] {
+  const lineCounter = new LineCounter();
+  let document;
+  try {
+    document = parseDocument(source, { lineCounter, uniqueKeys: false });
+  } catch {
+    return issues;
+  }
+
+  return issues.map(issue => {
+    const segments = issue.pointer
+      .substring(2)
+      .split('/')
+      .filter(Boolean)
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    // Missing values are reported at their closest existing parent
+    for (let length = segments.length; length >= 0; length--) {
+      const node = length === 0 ? document.contents : document.getIn(segments.slice(0, length), true);
+      if (isNode(node) && node.range) {
+        const { line, col } = lineCounter.linePos(node.range[0]);
+        return { ...issue, line, column: col };
+      }
+    }
+    return issue;
+  });
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { convertSwagger2 } from './swagger-converter';
+
+const petstore = {
+  swagger: '2.0',
+  info: { title: 'Petstore', version: '1.0.0' },
+  host: 'petstore.example.com',
+  basePath: '/v2',
+  schemes: ['https', 'http'],
+  consumes: ['application/json'],
+  produces: ['application/json', 'application/xml'],
+  securityDefinitions: {
+    oauth: { type: 'oauth2', flow: 'implicit', authorizationUrl: 'https://example.com/oauth', scopes: { write: 'Modify pets' } },
+    apiKey: { type: 'apiKey', name: 'api_key', in: 'header' },
+  },
+  parameters: {
+    petBody: { in: 'body', name: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+    limit: { in: 'query', name: 'limit', type: 'integer' },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        parameters: [
+          { $ref: '#/parameters/limit' },
+          { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' },
+        ],
+        responses: {
+          200: {
+            description: 'Pets',
+            schema: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+            headers: { 'X-Rate-Limit': { type: 'integer' } },
+          },
+        },
+      },
+      post: {
+        parameters: [{ $ref: '#/parameters/petBody' }],
+        responses: { 201: { description: 'Created' } },
+      },
+    },
+    '/pets/{id}/photo': {
+      parameters: [{ name: 'id', in: 'path', required: true, type: 'integer' }],
+      post: {
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'file', in: 'formData', type: 'file', required: true },
+          { name: 'caption', in: 'formData', type: 'string' },
+        ],
+        responses: { 200: { description: 'Uploaded' } },
+      },
+    },
+  },
+  definitions: {
+    Pet: {
+      type: 'object',
+      'x-nullable': true,
+      discriminator: 'kind',
+      required: ['kind'],
+      properties: {
+        kind: { type: 'string' },
+        tags: { type: 'array', items: { $ref: '#/definitions/Tag' } },
+      },
+    },
+    Tag: { type: 'object', properties: { name: { type: 'string' } } },
+  },
+};
+
+describe('convertSwagger2', () => {
+  it('turns host, basePath and schemes into servers', () => {
+    const { spec } = convertSwagger2(petstore);
+
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.servers).toEqual([
+      { url: 'https://petstore.example.com/v2' },
+      { url: 'http://petstore.example.com/v2' },
+    ]);
+  });
+
+  it('assumes https when no schemes are given, with a warning', () => {
+    const { spec, warnings } = convertSwagger2({ ...petstore, schemes: undefined });
+
+    expect(spec.servers).toEqual([{ url: 'https://petstore.example.com/v2' }]);
+    expect(warnings).toContain('No schemes defined; assuming https for host petstore.example.com');
+  });
+
+  it('moves definitions under components and rewrites their $refs', () => {
+    const { spec } = convertSwagger2(petstore);
+    const pet = spec.components!.schemas!.Pet;
+
+    expect(pet.nullable).toBe(true);
+    expect(pet.discriminator).toEqual({ propertyName: 'kind' });
+    expect(pet.properties!.tags.items).toEqual({ $ref: '#/components/schemas/Tag' });
+  });
+
+  it('turns body parameters into request bodies', () => {
+    const { spec } = convertSwagger2(petstore);
+
+    expect(spec.paths['/pets'].post!.requestBody).toEqual({ $ref: '#/components/requestBodies/petBody' });
+    expect(spec.components!.requestBodies!.petBody).toMatchObject({
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+    });
+  });
+
+  it('turns formData parameters into a multipart request body', () => {
+    const { spec } = convertSwagger2(petstore);
+
+    expect(spec.paths['/pets/{id}/photo'].post!.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              file: { type: 'string', format: 'binary' },
+              caption: { type: 'string' },
+            },
+            required: ['file'],
+          },
+        },
+      },
+    });
+  });
+
+  it('moves parameter keywords into schema and collectionFormat into style', () => {
+    const { spec } = convertSwagger2(petstore);
+    const parameters = spec.paths['/pets'].get!.parameters!;
+
+    expect(parameters[0]).toEqual({ $ref: '#/components/parameters/limit' });
+    expect(parameters[1]).toEqual({
+      name: 'tags',
+      in: 'query',
+      schema: { type: 'array', items: { type: 'string' } },
+      style: 'form',
+      explode: true,
+    });
+    expect(spec.paths['/pets/{id}/photo'].parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+    ]);
+  });
+
+  it('documents response schemas and headers for every produced media type', () => {
+    const { spec } = convertSwagger2(petstore);
+    const response = spec.paths['/pets'].get!.responses['200'];
+    const schema = { type: 'array', items: { $ref: '#/components/schemas/Pet' } };
+
+    expect(response.content).toEqual({
+      'application/json': { schema },
+      'application/xml': { schema },
+    });
+    expect(response.headers).toEqual({ 'X-Rate-Limit': { schema: { type: 'integer' } } });
+  });
+
+  it('converts security definitions to security schemes', () => {
+    const { spec } = convertSwagger2(petstore);
+
+    expect(spec.components!.securitySchemes).toEqual({
+      oauth: {
+        type: 'oauth2',
+        flows: { implicit: { authorizationUrl: 'https://example.com/oauth', scopes: { write: 'Modify pets' } } },
+      },
+      apiKey: { type: 'apiKey', name: 'api_key', in: 'header' },
+    });
+  });
+
+  it('records where the document came from', () => {
+    const { spec } = convertSwagger2(petstore);
+
+    expect(spec['x-conversion']).toEqual({ from: '2.0', warnings: [] });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,574 @@
+import {
+  OpenAPISpec,
+  Operation,
+  Parameter,
+  PathItem,
+  RequestBody,
+  Response,
+  Schema,
+  SecurityScheme,
+  Header,
+} from '../types/openapi';
+
+export interface ConversionResult {
+  spec: OpenAPISpec;
+  warnings: string[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+// Keywords that Swagger 2.0 puts directly on non-body parameters and headers
+// but OpenAPI 3.x expects inside `schema`
+const PARAMETER_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+];
+
+const DEFAULT_MEDIA_TYPES = ['application/json'];
+
+/**
+ * Convert a Swagger 2.0 document into an equivalent OpenAPI 3.0 document.
+ *
+ * Definitions, shared parameters and responses move under `components`,
+ * body/formData parameters become `requestBody`, `host`/`basePath`/`schemes`
+ * become `servers` and `securityDefinitions` become `securitySchemes`.
+ * Anything that has no 3.0 equivalent is reported as a warning.
+ */
+export function convertSwagger2(doc: any): ConversionResult {
+  return new SwaggerConverter(doc).convert();
+}
+
+class SwaggerConverter {
+  private doc: any;
+  private warnings: string[] = [];
+  private globalConsumes: string[];
+  private globalProduces: string[];
+
+  constructor(doc: any) {
+    this.doc = doc;
+    this.globalConsumes = doc.consumes || DEFAULT_MEDIA_TYPES;
+    this.globalProduces = doc.produces || DEFAULT_MEDIA_TYPES;
+  }
+
+  convert(): ConversionResult {
+    const doc = this.doc;
+    const spec: any = {
+      openapi: '3.0.3',
+      info: doc.info,
+      servers: this.convertServers(),
+      paths: {},
+    };
+
+    // Carry over top-level vendor extensions
+    for (const [key, value] of Object.entries(doc)) {
+      if (key.startsWith('x-')) {
+        spec[key] = value;
+      }
+    }
+
+    const components: Record<string, any> = {};
+
+    if (doc.definitions) {
+      components.schemas = {};
+      for (const [name, schema] of Object.entries(doc.definitions)) {
+        components.schemas[name] = this.convertSchema(schema);
+      }
+    }
+
+    if (doc.parameters) {
+      for (const [name, param] of Object.entries<any>(doc.parameters)) {
+        if (param.in === 'body') {
+          components.requestBodies = components.requestBodies || {};
+          components.requestBodies[name] = this.convertBodyParameter(param, this.globalConsumes);
+        } else if (param.in === 'formData') {
+          // formData parameters are inlined into each operation's requestBody
+          continue;
+        } else {
+          components.parameters = components.parameters || {};
+          components.parameters[name] = this.convertParameter(param);
+        }
+      }
+    }
+
+    if (doc.responses) {
+      components.responses = {};
+      for (const [name, response] of Object.entries(doc.responses)) {
+        components.responses[name] = this.convertResponse(response, this.globalProduces);
+      }
+    }
+
+    if (doc.securityDefinitions) {
+      components.securitySchemes = {};
+      for (const [name, definition] of Object.entries(doc.securityDefinitions)) {
+        components.securitySchemes[name] = this.convertSecurityScheme(name, definition);
+      }
+    }
+
+    if (Object.keys(components).length > 0) {
+      spec.components = components;
+    }
+
+    for (const [pathName, pathItem] of Object.entries<any>(doc.paths || {})) {
+      spec.paths[pathName] = this.convertPathItem(pathName, pathItem);
+    }
+
+    if (doc.security) spec.security = doc.security;
+    if (doc.tags) spec.tags = doc.tags;
+    if (doc.externalDocs) spec.externalDocs = doc.externalDocs;
+
+    spec['x-conversion'] = {
+      from: doc.swagger,
+      warnings: this.warnings,
+    };
+
+    return { spec: spec as OpenAPISpec, warnings: this.warnings };
+  }
+
+  private convertServers(): Array<{ url: string }> {
+    const { host, basePath = '/', schemes } = this.doc;
+
+    if (!host) {
+      // Relative server; resolved against wherever the spec was loaded from
+      return [{ url: basePath }];
+    }
+
+    const serverSchemes: string[] = schemes && schemes.length > 0 ? schemes : ['https'];
+    if (!schemes || schemes.length === 0) {
+      this.warnings.push(`No schemes defined; assuming https for host ${host}`);
+    }
+
+    return serverSchemes.map(scheme => ({
+      url: `${scheme}://${host}${basePath === '/' ? '' : basePath}`,
+    }));
+  }
+
+  private convertPathItem(pathName: string, pathItem: any): PathItem {
+    if (pathItem.$ref) {
+      return { $ref: pathItem.$ref };
+    }
+
+    const converted: any = {};
+    const sharedParams: any[] = pathItem.parameters || [];
+
+    for (const [key, value] of Object.entries(pathItem)) {
+      if (key.startsWith('x-')) {
+        converted[key] = value;
+      }
+    }
+
+    const nonBodyShared = sharedParams.filter(p => !this.isBodyOrFormParameter(p));
+    if (nonBodyShared.length > 0) {
+      converted.parameters = nonBodyShared.map(p => this.convertParameterOrRef(p));
+    }
+
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        converted[method] = this.convertOperation(
+          `${method.toUpperCase()} ${pathName}`,
+          pathItem[method],
+          sharedParams
+        );
+      }
+    }
+
+    return converted as PathItem;
+  }
+
+  private convertOperation(label: string, operation: any, sharedParams: any[]): Operation {
+    const converted: any = {};
+
+    for (const [key, value] of Object.entries(operation)) {
+      if (['parameters', 'responses', 'consumes', 'produces', 'schemes'].includes(key)) {
+        continue;
+      }
+      converted[key] = value;
+    }
+
+    if (operation.schemes) {
+      this.warnings.push(`${label}: operation-level schemes (${operation.schemes.join(', ')}) are not supported and were dropped`);
+    }
+
+    const consumes: string[] = operation.consumes || this.globalConsumes;
+    const produces: string[] = operation.produces || this.globalProduces;
+
+    // Operation parameters override path-level parameters with the same name/location
+    const allParams = [...sharedParams];
+    for (const param of operation.parameters || []) {
+      const resolved = this.lookupParameter(param);
+      const index = allParams.findIndex(p => {
+        const existing = this.lookupParameter(p);
+        return existing.name === resolved.name && existing.in === resolved.in;
+      });
+      if (index >= 0) {
+        allParams[index] = param;
+      } else {
+        allParams.push(param);
+      }
+    }
+
+    const ownParams = (operation.parameters || []).filter((p: any) => !this.isBodyOrFormParameter(p));
+    if (ownParams.length > 0) {
+      converted.parameters = ownParams.map((p: any) => this.convertParameterOrRef(p));
+    }
+
+    const bodyParam = allParams.find(p => this.lookupParameter(p).in === 'body');
+    const formParams = allParams
+      .map(p => this.lookupParameter(p))
+      .filter(p => p.in === 'formData');
+
+    if (bodyParam && formParams.length > 0) {
+      this.warnings.push(`${label}: has both body and formData parameters; formData parameters were dropped`);
+    }
+
+    if (bodyParam) {
+      if (bodyParam.$ref && this.refName(bodyParam.$ref, 'parameters')) {
+        converted.requestBody = {
+          $ref: `#/components/requestBodies/${this.refName(bodyParam.$ref, 'parameters')}`,
+        };
+      } else {
+        converted.requestBody = this.convertBodyParameter(bodyParam, consumes);
+      }
+    } else if (formParams.length > 0) {
+      converted.requestBody = this.convertFormParameters(label, formParams, consumes);
+    }
+
+    converted.responses = {};
+    for (const [status, response] of Object.entries(operation.responses || {})) {
+      converted.responses[status] = this.convertResponse(response, produces);
+    }
+
+    return converted as Operation;
+  }
+
+  private isBodyOrFormParameter(param: any): boolean {
+    const resolved = this.lookupParameter(param);
+    return resolved.in === 'body' || resolved.in === 'formData';
+  }
+
+  private lookupParameter(param: any): any {
+    if (param && param.$ref) {
+      const name = this.refName(param.$ref, 'parameters');
+      if (name && this.doc.parameters?.[name]) {
+        return this.doc.parameters[name];
+      }
+    }
+    return param;
+  }
+
+  private refName(ref: string, section: string): string | null {
+    const prefix = `#/${section}/`;
+    return ref.startsWith(prefix) ? ref.substring(prefix.length) : null;
+  }
+
+  private convertParameterOrRef(param: any): Parameter {
+    if (param.$ref) {
+      return { $ref: this.convertRef(param.$ref) } as any;
+    }
+    return this.convertParameter(param);
+  }
+
+  private convertParameter(param: any): Parameter {
+    const converted: any = {};
+    const schema: any = {};
+
+    for (const [key, value] of Object.entries(param)) {
+      if (PARAMETER_SCHEMA_KEYWORDS.includes(key)) {
+        schema[key] = value;
+      } else if (key !== 'collectionFormat') {
+        converted[key] = value;
+      }
+    }
+
+    if (param.type === 'file') {
+      this.warnings.push(`Parameter '${param.name}' has type 'file' outside formData; treated as binary string`);
+    }
+
+    converted.schema = this.convertSchema(schema);
+
+    if (param.type === 'array') {
+      Object.assign(converted, this.collectionFormatToStyle(param.name, param.in, param.collectionFormat));
+    }
+
+    return converted as Parameter;
+  }
+
+  private collectionFormatToStyle(
+    name: string,
+    location: string,
+    collectionFormat: string = 'csv'
+  ): { style?: string; explode?: boolean } {
+    switch (collectionFormat) {
+      case 'csv':
+        return location === 'query' || location === 'cookie'
+          ? { style: 'form', explode: false }
+          : { style: 'simple', explode: false };
+      case 'multi':
+        return { style: 'form', explode: true };
+      case 'ssv':
+        return { style: 'spaceDelimited', explode: false };
+      case 'pipes':
+        return { style: 'pipeDelimited', explode: false };
+      default:
+        this.warnings.push(`Parameter '${name}' uses collectionFormat '${collectionFormat}', which has no OpenAPI 3 equivalent`);
+        return {};
+    }
+  }
+
+  private convertBodyParameter(param: any, consumes: string[]): RequestBody {
+    const resolved = this.lookupParameter(param);
+    const schema = this.convertSchema(resolved.schema || {});
+    const content: Record<string, any> = {};
+
+    for (const mediaType of consumes) {
+      content[mediaType] = { schema };
+      if (resolved['x-examples']?.[mediaType] !== undefined) {
+        content[mediaType].example = resolved['x-examples'][mediaType];
+      }
+    }
+
+    const requestBody: any = { content };
+    if (resolved.description) requestBody.description = resolved.description;
+    if (resolved.required) requestBody.required = true;
+    if (resolved.name) requestBody['x-codegen-request-body-name'] = resolved.name;
+
+    return requestBody as RequestBody;
+  }
+
+  private convertFormParameters(label: string, params: any[], consumes: string[]): RequestBody {
+    const hasFile = params.some(p => p.type === 'file');
+    const formTypes = consumes.filter(
+      mediaType => mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data'
+    );
+
+    let mediaTypes = formTypes.length > 0 ? formTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+    if (hasFile && !mediaTypes.includes('multipart/form-data')) {
+      this.warnings.push(`${label}: file upload declared without multipart/form-data in consumes; using multipart/form-data`);
+      mediaTypes = ['multipart/form-data'];
+    }
+
+    const schema: Schema = { type: 'object', properties: {} };
+    const required: string[] = [];
+    const encoding: Record<string, any> = {};
+
+    for (const param of params) {
+      const propertySchema: any = {};
+      for (const key of PARAMETER_SCHEMA_KEYWORDS) {
+        if (param[key] !== undefined) {
+          propertySchema[key] = param[key];
+        }
+      }
+      if (param.description) propertySchema.description = param.description;
+
+      schema.properties![param.name] = this.convertSchema(propertySchema);
+      if (param.required) required.push(param.name);
+
+      if (param.type === 'array') {
+        const style = this.collectionFormatToStyle(param.name, 'query', param.collectionFormat);
+        if (style.style) {
+          encoding[param.name] = style;
+        }
+      }
+    }
+
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    const content: Record<string, any> = {};
+    for (const mediaType of mediaTypes) {
+      content[mediaType] = { schema };
+      if (mediaType === 'application/x-www-form-urlencoded' && Object.keys(encoding).length > 0) {
+        content[mediaType].encoding = encoding;
+      }
+    }
+
+    return {
+      content,
+      required: required.length > 0 ? true : undefined,
+    } as RequestBody;
+  }
+
+  private convertResponse(response: any, produces: string[]): Response {
+    if (response.$ref) {
+      return { $ref: this.convertRef(response.$ref) } as any;
+    }
+
+    const converted: any = {
+      description: response.description || '',
+    };
+
+    for (const [key, value] of Object.entries(response)) {
+      if (key.startsWith('x-')) {
+        converted[key] = value;
+      }
+    }
+
+    if (response.schema) {
+      const schema = this.convertSchema(response.schema);
+      converted.content = {};
+      for (const mediaType of produces) {
+        converted.content[mediaType] = { schema };
+        if (response.examples?.[mediaType] !== undefined) {
+          converted.content[mediaType].example = response.examples[mediaType];
+        }
+      }
+    } else if (response.examples) {
+      this.warnings.push('Response examples without a schema were dropped');
+    }
+
+    if (response.headers) {
+      converted.headers = {};
+      for (const [name, header] of Object.entries<any>(response.headers)) {
+        converted.headers[name] = this.convertHeader(header);
+      }
+    }
+
+    return converted as Response;
+  }
+
+  private convertHeader(header: any): Header {
+    const converted: any = {};
+    const schema: any = {};
+
+    for (const [key, value] of Object.entries(header)) {
+      if (PARAMETER_SCHEMA_KEYWORDS.includes(key)) {
+        schema[key] = value;
+      } else if (key !== 'collectionFormat') {
+        converted[key] = value;
+      }
+    }
+
+    converted.schema = this.convertSchema(schema);
+    return converted as Header;
+  }
+
+  private convertSecurityScheme(name: string, definition: any): SecurityScheme {
+    const base: any = {};
+    if (definition.description) base.description = definition.description;
+
+    switch (definition.type) {
+      case 'basic':
+        return { ...base, type: 'http', scheme: 'basic' };
+      case 'apiKey':
+        return { ...base, type: 'apiKey', name: definition.name, in: definition.in };
+      case 'oauth2': {
+        const scopes = definition.scopes || {};
+        const flowNames: Record<string, string> = {
+          implicit: 'implicit',
+          password: 'password',
+          application: 'clientCredentials',
+          accessCode: 'authorizationCode',
+        };
+        const flowName = flowNames[definition.flow];
+        if (!flowName) {
+          this.warnings.push(`Security scheme '${name}' has unknown OAuth2 flow '${definition.flow}'`);
+          return { ...base, type: 'oauth2', flows: {} };
+        }
+
+        const flow: any = { scopes };
+        if (definition.authorizationUrl) flow.authorizationUrl = definition.authorizationUrl;
+        if (definition.tokenUrl) flow.tokenUrl = definition.tokenUrl;
+
+        return { ...base, type: 'oauth2', flows: { [flowName]: flow } };
+      }
+      default:
+        this.warnings.push(`Security scheme '${name}' has unsupported type '${definition.type}'`);
+        return { ...base, ...definition };
+    }
+  }
+
+  private convertSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map(item => this.convertSchema(item));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    const converted: any = {};
+
+    for (const [key, value] of Object.entries(schema)) {
+      switch (key) {
+        case '$ref':
+          converted.$ref = this.convertRef(value as string);
+          break;
+        case 'x-nullable':
+          converted.nullable = value;
+          break;
+        case 'discriminator':
+          converted.discriminator = typeof value === 'string' ? { propertyName: value } : value;
+          break;
+        case 'type':
+          if (value === 'file') {
+            converted.type = 'string';
+            converted.format = 'binary';
+          } else {
+            converted.type = value;
+          }
+          break;
+        case 'properties':
+        case 'patternProperties':
+        case 'definitions': {
+          converted[key] = {};
+          for (const [propName, propSchema] of Object.entries<any>(value as object)) {
+            converted[key][propName] = this.convertSchema(propSchema);
+          }
+          break;
+        }
+        case 'items':
+        case 'additionalProperties':
+        case 'not':
+        case 'allOf':
+        case 'oneOf':
+        case 'anyOf':
+          converted[key] = typeof value === 'object' ? this.convertSchema(value) : value;
+          break;
+        default:
+          // `format: 'binary'` set by a `type: file` conversion wins
+          if (!(key === 'format' && converted.format === 'binary')) {
+            converted[key] = value;
+          }
+      }
+    }
+
+    return converted;
+  }
+
+  private convertRef(ref: string): string {
+    const hashIndex = ref.indexOf('#');
+    if (hashIndex < 0) {
+      return ref;
+    }
+
+    const file = ref.substring(0, hashIndex);
+    const pointer = ref.substring(hashIndex);
+
+    let converted = pointer
+      .replace(/^#\/definitions\//, '#/components/schemas/')
+      .replace(/^#\/responses\//, '#/components/responses/');
+
+    const paramName = this.refName(pointer, 'parameters');
+    if (paramName !== null) {
+      const param = file ? null : this.doc.parameters?.[paramName];
+      converted = param?.in === 'body'
+        ? `#/components/requestBodies/${paramName}`
+        : `#/components/parameters/${paramName}`;
+    }
+
+    return file + converted;
+  }
+}
\ No newline at end of file
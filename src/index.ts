@@ -2,16 +2,24 @@
 
 import { Command } from 'commander';
 import { OpenAPIMCPServer } from './core/mcp-server';
+import { MockServer } from './mock/mock-server';
 import { ConfigManager } from './config';
 import { CliOptions } from './types/config';
 
 const program = new Command();
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('openapi-mcp-server')
+  // Options after a subcommand belong to it (`mock --port` is not the transport port)
+  .enablePositionalOptions()
   .description('MCP server for interacting with OpenAPI specifications')
   .version('1.0.0')
-  .option('-u, --url <url>', 'OpenAPI specification URL')
+  .option('-u, --url <url>', 'OpenAPI specification URL, file path or file:// URI')
+  .option('-s, --spec <path>', 'OpenAPI specification file or directory (alias of --url)')
   .option('--cache-ttl <seconds>', 'Cache TTL in seconds', parseInt)
   .option('--cache-dir <path>', 'Cache directory path')
   .option('--log-level <level>', 'Log level (debug, info, warn, error)')
@@ -19,17 +27,31 @@ program
   .option('--request-timeout <ms>', 'Request timeout in milliseconds', parseInt)
   .option('--retry-attempts <count>', 'Number of retry attempts', parseInt)
   .option('--retry-delay <ms>', 'Delay between retries in milliseconds', parseInt)
+  .option('--transport <type>', 'Transport: stdio (default), http (Streamable HTTP) or sse')
+  .option('--host <host>', 'Host to bind the http/sse transport to')
+  .option('--port <port>', 'Port for the http/sse transport', parseInt)
+  .option('-H, --header <header>', 'Header sent when fetching specs, as "Name: value" (repeatable)', collect, [])
+  .option('--bearer-token <token>', 'Bearer token sent when fetching specs')
+  .option('--bearer-token-command <command>', 'Command that prints the bearer token sent when fetching specs')
+  .option('--basic-auth <user:password>', 'Basic auth credentials sent when fetching specs')
+  .option('--client-cert <path>', 'PEM client certificate for mutual TLS')
+  .option('--client-key <path>', 'PEM client key for mutual TLS')
+  .option('--ca-bundle <path>', 'PEM CA bundle to trust when fetching specs')
+  .option('--allow-host <host>', 'Host call_endpoint may send requests to (repeatable)', collect, [])
+  .option('--allow-writes', 'Let call_endpoint send methods other than GET and HEAD')
+  .option('--allow-spec-urls', 'Let tools load specs from a url argument over the http/sse transports')
+  .option('--validation <mode>', 'Spec validation against the OpenAPI schemas: strict, lenient (default) or off')
   .action(async (options: CliOptions) => {
     try {
       // Initialize configuration
       const configManager = new ConfigManager(options);
 
       // Validate that we have a URL
-      if (!configManager.openApiUrl && !options.url) {
+      if (!configManager.openApiUrl && configManager.specs.length === 0) {
         console.error('Error: OpenAPI URL is required. Provide it via:');
-        console.error('  - Command line: --url <url>');
+        console.error('  - Command line: --url <url> or --spec <path>');
         console.error('  - Environment variable: OPENAPI_URL=<url>');
-        console.error('  - Config file: openapi-mcp.config.json');
+        console.error('  - Config file: openapi-mcp.config.json ("openApiUrl" or "specs")');
         process.exit(1);
       }
 
@@ -55,5 +77,51 @@ program
     }
   });
 
+program
+  .command('mock')
+  .description('Serve a mock API generated from the spec')
+  .argument('[name]', 'Name of a configured spec (default: the default spec)')
+  .option('-u, --url <url>', 'OpenAPI specification URL, file path or file:// URI')
+  .option('-s, --spec <path>', 'OpenAPI specification file or directory (alias of --url)')
+  .option('--port <port>', 'Port to listen on', value => parseInt(value, 10), 4010)
+  .option('--host <host>', 'Host to bind to', '127.0.0.1')
+  .option('--no-validate', 'Answer requests that do not match the spec instead of rejecting them')
+  .action(async (name: string | undefined, mockOptions: { url?: string; spec?: string; port: number; host: string; validate: boolean }) => {
+    try {
+      const globalOptions = program.opts<CliOptions>();
+      const configManager = new ConfigManager({
+        ...globalOptions,
+        url: mockOptions.url ?? globalOptions.url,
+        spec: mockOptions.spec ?? globalOptions.spec,
+      });
+
+      if (!configManager.openApiUrl && configManager.specs.length === 0) {
+        console.error('Error: OpenAPI URL is required. Provide it via --url <url> or --spec <path>');
+        process.exit(1);
+      }
+
+      const server = new OpenAPIMCPServer(configManager);
+      const entry = await server.resolveSpec(name);
+
+      const mock = new MockServer(() => entry.spec, {
+        host: mockOptions.host,
+        port: mockOptions.port,
+        validate: mockOptions.validate,
+      });
+      const url = await mock.start();
+      console.error(`Mock server for '${entry.name}' running on ${url}`);
+
+      const shutdown = () => {
+        console.error('\nShutting down mock server...');
+        mock.stop().then(() => process.exit(0));
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error) {
+      console.error('Failed to start mock server:', error);
+      process.exit(1);
+    }
+  });
+
 // Parse command line arguments
 program.parse(process.argv);
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { LintRuleConfig, LintSeverity } from '../types/config';
+import { OpenAPISpec } from '../types/openapi';
+import { LINT_RULES } from './rules';
+
+export interface LintProblem {
+  rule: string;
+  severity: Exclude<LintSeverity, 'off'>;
+  message: string;
+  // JSON pointer (URI fragment) to the offending location
+  pointer: string;
+}
+
+export interface LintResult {
+  summary: Record<Exclude<LintSeverity, 'off'>, number>;
+  problems: LintProblem[];
+}
+
+const SEVERITY_ORDER: Array<Exclude<LintSeverity, 'off'>> = ['error', 'warn', 'info'];
+
+/**
+ * Run every lint rule over a spec. `rules` overrides the default severity
+ * (and passes options) per rule id; rules set to 'off' are skipped.
+ */
+export function lintSpec(spec: OpenAPISpec, rules: Record<string, LintRuleConfig> = {}): LintResult {
+  const unknown = Object.keys(rules).filter(id => !LINT_RULES.some(rule => rule.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown lint rules: ${unknown.join(', ')}. Available rules: ${LINT_RULES.map(rule => rule.id).join(', ')}`);
+  }
+
+  const problems: LintProblem[] = [];
+
+  for (const rule of LINT_RULES) {
+    const config = rules[rule.id];
+    const { severity: configured, ...options } = typeof config === 'object' ? config : { severity: config };
+    const severity = configured || rule.severity;
+    if (severity === 'off') continue;
+
+    rule.check(spec, (pointer, message) => {
+      problems.push({ rule: rule.id, severity, message, pointer });
+    }, options);
+  }
+
+  problems.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return {
+    summary: {
+      error: problems.filter(problem => problem.severity === 'error').length,
+      warn: problems.filter(problem => problem.severity === 'warn').length,
+      info: problems.filter(problem => problem.severity === 'info').length,
+    },
+    problems,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { lintSpec } from './linter';
+import { LINT_RULES } from './rules';
+import { OpenAPISpec } from '../types/openapi';
+
+// A spec that passes every rule
+function cleanSpec(): OpenAPISpec {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1.0.0' },
+    paths: {
+      '/users/{userId}': {
+        parameters: [{ name: 'userId', in: 'path', required: true, schema: { type: 'string' } }],
+        get: {
+          operationId: 'getUser',
+          responses: {
+            200: {
+              description: 'The user',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/User' }, example: { id: 'u1' } } },
+            },
+            404: { description: 'Not found' },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          description: 'A user',
+          properties: { id: { type: 'string' }, firstName: { type: 'string' }, lastName: { type: 'string' } },
+        },
+      },
+    },
+  };
+}
+
+function problems(spec: OpenAPISpec, rule: string) {
+  return lintSpec(spec).problems
+    .filter(problem => problem.rule === rule)
+    .map(({ pointer, message }) => ({ pointer, message }));
+}
+
+describe('lint rules', () => {
+  it('pass a clean spec', () => {
+    expect(lintSpec(cleanSpec())).toEqual({ summary: { error: 0, warn: 0, info: 0 }, problems: [] });
+  });
+
+  it('operation-operationId reports operations without an operationId', () => {
+    const spec = cleanSpec();
+    delete spec.paths['/users/{userId}'].get!.operationId;
+
+    expect(problems(spec, 'operation-operationId')).toEqual([
+      { pointer: '#/paths/~1users~1{userId}/get', message: 'GET /users/{userId} has no operationId' },
+    ]);
+  });
+
+  it('operation-operationId-unique reports reused operationIds', () => {
+    const spec = cleanSpec();
+    spec.paths['/users/{userId}'].delete = { operationId: 'getUser', responses: { 404: { description: 'Not found' } } };
+
+    expect(problems(spec, 'operation-operationId-unique')).toEqual([
+      {
+        pointer: '#/paths/~1users~1{userId}/delete/operationId',
+        message: "operationId 'getUser' of DELETE /users/{userId} is already used by GET /users/{userId}",
+      },
+    ]);
+  });
+
+  it('path-params matches template variables with path parameters', () => {
+    const spec = cleanSpec();
+    spec.paths['/users/{userId}'].parameters = [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }];
+
+    expect(problems(spec, 'path-params')).toEqual([
+      { pointer: '#/paths/~1users~1{userId}/get', message: "Path parameter 'userId' of GET /users/{userId} is not documented" },
+      { pointer: '#/paths/~1users~1{userId}/get', message: "Path parameter 'id' of GET /users/{userId} does not appear in the path" },
+    ]);
+
+    spec.paths['/users/{userId}'].parameters = [{ name: 'userId', in: 'path', schema: { type: 'string' } }];
+    expect(problems(spec, 'path-params')).toEqual([
+      { pointer: '#/paths/~1users~1{userId}/get', message: "Path parameter 'userId' of GET /users/{userId} must be required" },
+    ]);
+  });
+
+  it('operation-4xx-response accepts a default response instead of a 4xx', () => {
+    const spec = cleanSpec();
+    const responses = spec.paths['/users/{userId}'].get!.responses;
+    delete responses['404'];
+
+    expect(problems(spec, 'operation-4xx-response')).toEqual([
+      { pointer: '#/paths/~1users~1{userId}/get/responses', message: 'GET /users/{userId} documents no 4xx response' },
+    ]);
+
+    responses.default = { description: 'Error' };
+    expect(problems(spec, 'operation-4xx-response')).toEqual([]);
+  });
+
+  it('component-description reports schemas without a description', () => {
+    const spec = cleanSpec();
+    delete spec.components!.schemas!.User.description;
+
+    expect(problems(spec, 'component-description')).toEqual([
+      { pointer: '#/components/schemas/User', message: "Schema 'User' has no description" },
+    ]);
+  });
+
+  it('no-unused-components ignores self-references and counts security requirements', () => {
+    const spec = cleanSpec();
+    spec.components!.schemas!.Tree = {
+      type: 'object',
+      description: 'Only refers to itself',
+      properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Tree' } } },
+    };
+    spec.components!.securitySchemes = {
+      apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+      bearer: { type: 'http', scheme: 'bearer' },
+    };
+    spec.security = [{ bearer: [] }];
+
+    expect(problems(spec, 'no-unused-components')).toEqual([
+      { pointer: '#/components/schemas/Tree', message: "Component 'Tree' in schemas is never used" },
+      { pointer: '#/components/securitySchemes/apiKey', message: "Component 'apiKey' in securitySchemes is never used" },
+    ]);
+  });
+
+  it('property-casing reports names that break the most common casing', () => {
+    const spec = cleanSpec();
+    spec.components!.schemas!.User.properties!.created_at = { type: 'string' };
+
+    expect(problems(spec, 'property-casing')).toEqual([
+      { pointer: '#/components/schemas/User/properties/created_at', message: "Property 'created_at' is not camelCase" },
+    ]);
+  });
+
+  it('media-examples reports JSON success responses without examples', () => {
+    const spec = cleanSpec();
+    delete spec.paths['/users/{userId}'].get!.responses['200'].content!['application/json'].example;
+
+    expect(problems(spec, 'media-examples')).toEqual([
+      {
+        pointer: '#/paths/~1users~1{userId}/get/responses/200/content/application~1json',
+        message: 'Response 200 (application/json) of GET /users/{userId} has no example',
+      },
+    ]);
+  });
+});
+
+describe('lintSpec', () => {
+  it('applies configured severities and options, and skips rules that are off', () => {
+    const spec = cleanSpec();
+    delete spec.components!.schemas!.User.description;
+    delete spec.paths['/users/{userId}'].get!.operationId;
+
+    const result = lintSpec(spec, {
+      'operation-operationId': 'off',
+      'component-description': 'info',
+      'property-casing': { severity: 'error', casing: 'snake_case' },
+    });
+
+    expect(result.summary).toEqual({ error: 2, warn: 0, info: 1 });
+    expect(result.problems.map(problem => [problem.severity, problem.rule, problem.message])).toEqual([
+      ['error', 'property-casing', "Property 'firstName' is not snake_case"],
+      ['error', 'property-casing', "Property 'lastName' is not snake_case"],
+      ['info', 'component-description', "Schema 'User' has no description"],
+    ]);
+  });
+
+  it('rejects unknown rules', () => {
+    expect(() => lintSpec(cleanSpec(), { 'no-such-rule': 'off' })).toThrow(
+      `Unknown lint rules: no-such-rule. Available rules: ${LINT_RULES.map(rule => rule.id).join(', ')}`
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,290 @@
+import { LintSeverity } from '../types/config';
+import { MediaType, OpenAPISpec, Operation, Parameter, PathItem, Schema } from '../types/openapi';
+import { deref, toPointer } from '../core/ref-resolver';
+import { isJsonMediaType } from '../core/media-types';
+
+export type Report = (pointer: string, message: string) => void;
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  check(spec: OpenAPISpec, report: Report, options: Record<string, any>): void;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+// Component sections checked for unused entries
+const COMPONENT_TYPES = ['schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers', 'links', 'callbacks', 'pathItems'];
+
+function forEachOperation(
+  spec: OpenAPISpec,
+  callback: (path: string, method: string, operation: Operation, pathItem: PathItem) => void
+): void {
+  for (const [path, rawPathItem] of Object.entries(spec.paths || {})) {
+    const pathItem = deref(spec, rawPathItem);
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        callback(path, method, pathItem[method]!, pathItem);
+      }
+    }
+  }
+}
+
+type Casing = 'camelCase' | 'snake_case' | 'PascalCase' | 'kebab-case';
+
+const CASING_PATTERNS: Record<Casing, RegExp> = {
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+  'kebab-case': /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
+};
+
+/**
+ * The casing a property name shows evidence of; single lowercase words like
+ * `id` fit camelCase, snake_case and kebab-case alike and count for none.
+ */
+function casingOf(name: string): Casing | null {
+  if (/^[a-z][a-z0-9]*$/.test(name)) return null;
+  for (const casing of Object.keys(CASING_PATTERNS) as Casing[]) {
+    if (CASING_PATTERNS[casing].test(name)) return casing;
+  }
+  return null;
+}
+
+function hasExample(spec: OpenAPISpec, media: MediaType): boolean {
+  if (media.example !== undefined || Object.keys(media.examples || {}).length > 0) {
+    return true;
+  }
+  const schema = media.schema ? deref(spec, media.schema) : undefined;
+  if (!schema) return false;
+  if (schema.example !== undefined || (schema as any).examples !== undefined) return true;
+  // Arrays are documented by an example of their items
+  const items = schema.items ? deref(spec, schema.items) : undefined;
+  return items?.example !== undefined;
+}
+
+/**
+ * Find the components nothing refers to: no `$ref` outside the component's
+ * own definition points at it (or into it).
+ */
+function findUnusedComponents(spec: OpenAPISpec): Array<{ type: string; name: string }> {
+  interface Definition {
+    type: string;
+    name: string;
+    pointer: string;
+    used: boolean;
+  }
+
+  const definitions: Definition[] = [];
+  for (const type of COMPONENT_TYPES) {
+    for (const name of Object.keys((spec.components as any)?.[type] || {})) {
+      definitions.push({ type, name, pointer: toPointer('components', type, name), used: false });
+    }
+  }
+
+  const walk = (node: any, pointer: string) => {
+    if (!node || typeof node !== 'object') return;
+
+    if (typeof node.$ref === 'string') {
+      for (const definition of definitions) {
+        const target = node.$ref === definition.pointer || node.$ref.startsWith(definition.pointer + '/');
+        // Self-references don't count
+        const inside = pointer === definition.pointer || pointer.startsWith(definition.pointer + '/');
+        if (target && !inside) definition.used = true;
+      }
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      walk(value, `${pointer}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`);
+    }
+  };
+  walk(spec, '#');
+
+  const unused = definitions
+    .filter(definition => !definition.used)
+    .map(({ type, name }) => ({ type, name }));
+
+  // Security schemes are referenced by name from security requirements
+  const requirements = [...(spec.security || [])];
+  forEachOperation(spec, (_path, _method, operation) => requirements.push(...(operation.security || [])));
+  const usedSchemes = new Set(requirements.flatMap(requirement => Object.keys(requirement)));
+  for (const name of Object.keys(spec.components?.securitySchemes || {})) {
+    if (!usedSchemes.has(name)) {
+      unused.push({ type: 'securitySchemes', name });
+    }
+  }
+
+  return unused;
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'operation-operationId',
+    description: 'Operations should have an operationId',
+    severity: 'warn',
+    check(spec, report) {
+      forEachOperation(spec, (path, method, operation) => {
+        if (!operation.operationId) {
+          report(toPointer('paths', path, method), `${method.toUpperCase()} ${path} has no operationId`);
+        }
+      });
+    },
+  },
+  {
+    id: 'operation-operationId-unique',
+    description: 'operationIds must be unique',
+    severity: 'error',
+    check(spec, report) {
+      const seen = new Map<string, string>();
+      forEachOperation(spec, (path, method, operation) => {
+        if (!operation.operationId) return;
+        const first = seen.get(operation.operationId);
+        if (first) {
+          report(
+            toPointer('paths', path, method, 'operationId'),
+            `operationId '${operation.operationId}' of ${method.toUpperCase()} ${path} is already used by ${first}`
+          );
+        } else {
+          seen.set(operation.operationId, `${method.toUpperCase()} ${path}`);
+        }
+      });
+    },
+  },
+  {
+    id: 'path-params',
+    description: 'Path template variables and path parameters must match',
+    severity: 'error',
+    check(spec, report) {
+      forEachOperation(spec, (path, method, operation, pathItem) => {
+        const templateNames = (path.match(/\{[^}]+\}/g) || []).map(name => name.slice(1, -1));
+        const declared = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+          .map(param => deref(spec, param) as Parameter)
+          .filter(param => param.in === 'path');
+        const pointer = toPointer('paths', path, method);
+
+        for (const name of templateNames) {
+          if (!declared.some(param => param.name === name)) {
+            report(pointer, `Path parameter '${name}' of ${method.toUpperCase()} ${path} is not documented`);
+          }
+        }
+        for (const param of declared) {
+          if (!templateNames.includes(param.name)) {
+            report(pointer, `Path parameter '${param.name}' of ${method.toUpperCase()} ${path} does not appear in the path`);
+          } else if (param.required !== true) {
+            report(pointer, `Path parameter '${param.name}' of ${method.toUpperCase()} ${path} must be required`);
+          }
+        }
+      });
+    },
+  },
+  {
+    id: 'operation-4xx-response',
+    description: 'Operations should document at least one 4xx (or default) response',
+    severity: 'warn',
+    check(spec, report) {
+      forEachOperation(spec, (path, method, operation) => {
+        const codes = Object.keys(operation.responses || {});
+        if (!codes.some(code => /^4/.test(code) || code === 'default')) {
+          report(toPointer('paths', path, method, 'responses'), `${method.toUpperCase()} ${path} documents no 4xx response`);
+        }
+      });
+    },
+  },
+  {
+    id: 'component-description',
+    description: 'Component schemas should have a description',
+    severity: 'warn',
+    check(spec, report) {
+      for (const [name, schema] of Object.entries(spec.components?.schemas || {})) {
+        if (!deref(spec, schema).description) {
+          report(toPointer('components', 'schemas', name), `Schema '${name}' has no description`);
+        }
+      }
+    },
+  },
+  {
+    id: 'no-unused-components',
+    description: 'Components should be referenced somewhere in the spec',
+    severity: 'warn',
+    check(spec, report) {
+      for (const { type, name } of findUnusedComponents(spec)) {
+        report(toPointer('components', type, name), `Component '${name}' in ${type} is never used`);
+      }
+    },
+  },
+  {
+    id: 'property-casing',
+    description: 'Schema property names should share one casing (option "casing": camelCase, snake_case, PascalCase or kebab-case; default: the most common one)',
+    severity: 'warn',
+    check(spec, report, options) {
+      const properties: Array<{ name: string; pointer: string; casing: Casing | null }> = [];
+      const visited = new Set<Schema>();
+
+      // Component schemas and the inline schemas nested in them
+      const collect = (schema: Schema, pointer: string) => {
+        if (!schema || typeof schema !== 'object' || visited.has(schema) || schema.$ref) return;
+        visited.add(schema);
+        for (const [name, property] of Object.entries(schema.properties || {})) {
+          const propertyPointer = `${pointer}/properties/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+          properties.push({ name, pointer: propertyPointer, casing: casingOf(name) });
+          collect(property, propertyPointer);
+        }
+        if (schema.items) collect(schema.items, `${pointer}/items`);
+        for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+          (schema[keyword] || []).forEach((part, index) => collect(part, `${pointer}/${keyword}/${index}`));
+        }
+      };
+      for (const [name, schema] of Object.entries(spec.components?.schemas || {})) {
+        collect(schema, toPointer('components', 'schemas', name));
+      }
+
+      let expected = options.casing as Casing | undefined;
+      if (expected && !CASING_PATTERNS[expected]) {
+        throw new Error(`Unknown casing '${expected}' for property-casing (expected ${Object.keys(CASING_PATTERNS).join(', ')})`);
+      }
+      if (!expected) {
+        const counts = new Map<Casing, number>();
+        properties.forEach(({ casing }) => casing && counts.set(casing, (counts.get(casing) || 0) + 1));
+        expected = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+      }
+      if (!expected) return;
+
+      for (const { name, pointer } of properties) {
+        if (!CASING_PATTERNS[expected].test(name)) {
+          report(pointer, `Property '${name}' is not ${expected}`);
+        }
+      }
+    },
+  },
+  {
+    id: 'media-examples',
+    description: 'JSON request bodies and success responses should have examples',
+    severity: 'info',
+    check(spec, report) {
+      forEachOperation(spec, (path, method, operation) => {
+        const requestBody = operation.requestBody ? deref(spec, operation.requestBody) : undefined;
+        for (const [type, media] of Object.entries(requestBody?.content || {})) {
+          if (isJsonMediaType(type) && !hasExample(spec, media)) {
+            report(
+              toPointer('paths', path, method, 'requestBody', 'content', type),
+              `Request body (${type}) of ${method.toUpperCase()} ${path} has no example`
+            );
+          }
+        }
+
+        for (const [status, rawResponse] of Object.entries(operation.responses || {})) {
+          if (!/^2/.test(status)) continue;
+          for (const [type, media] of Object.entries(deref(spec, rawResponse).content || {})) {
+            if (isJsonMediaType(type) && !hasExample(spec, media)) {
+              report(
+                toPointer('paths', path, method, 'responses', status, 'content', type),
+                `Response ${status} (${type}) of ${method.toUpperCase()} ${path} has no example`
+              );
+            }
+          }
+        }
+      });
+    },
+  },
+];
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { MockServer } from './mock-server';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/pets': {
+      get: {
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', maximum: 10 } }],
+        responses: {
+          200: {
+            description: 'Pets',
+            headers: { 'X-Total': { schema: { type: 'integer' }, example: 2 } },
+            content: {
+              'application/json': {
+                examples: {
+                  two: { value: [{ id: 1, name: 'Rex' }, { id: 2, name: 'Tom' }] },
+                  empty: { value: [] },
+                },
+              },
+              'text/csv': { example: 'id,name\n1,Rex' },
+            },
+          },
+          '5XX': { description: 'Unavailable', content: { 'application/json': { example: { error: 'down' } } } },
+        },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } },
+        },
+        responses: {
+          201: { description: 'Created', content: { 'application/json': { schema: { type: 'object', properties: { id: { type: 'integer', example: 7 } } } } } },
+          400: { description: 'Invalid' },
+        },
+      },
+    },
+    '/pets/{id}': {
+      delete: { responses: { 204: { description: 'Deleted' } } },
+    },
+    '/broken': {
+      get: {
+        responses: {
+          200: { description: 'Header that cannot be sent', headers: { 'X-Note': { schema: { type: 'string' }, example: 'line\nbreak' } } },
+        },
+      },
+    },
+  },
+};
+
+describe('MockServer', () => {
+  let mock: MockServer;
+  let currentSpec: OpenAPISpec | null;
+  let url: string;
+
+  beforeEach(async () => {
+    // Each request is logged to stderr
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    currentSpec = spec;
+    mock = new MockServer(() => currentSpec, { host: '127.0.0.1', port: 0, validate: true });
+    url = await mock.start();
+  });
+
+  afterEach(async () => {
+    await mock.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('serves the first example of the first success response, under the server base path', async () => {
+    const response = await fetch(`${url}/v1/pets`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(response.headers.get('x-total')).toBe('2');
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(await response.json()).toEqual([{ id: 1, name: 'Rex' }, { id: 2, name: 'Tom' }]);
+  });
+
+  it('picks responses and examples with the Prefer header', async () => {
+    const empty = await fetch(`${url}/pets`, { headers: { Prefer: 'example=empty' } });
+    expect(await empty.json()).toEqual([]);
+
+    const unavailable = await fetch(`${url}/pets`, { headers: { Prefer: 'code=503' } });
+    expect(unavailable.status).toBe(503);
+    expect(await unavailable.json()).toEqual({ error: 'down' });
+
+    const undocumented = await fetch(`${url}/pets`, { headers: { Prefer: 'code=404' } });
+    expect(undocumented.status).toBe(400);
+    expect(await undocumented.json()).toEqual({ error: 'No response documented for status 404' });
+  });
+
+  it('rejects Prefer codes that are not status codes', async () => {
+    for (const code of ['abc', '999', '20']) {
+      const response = await fetch(`${url}/pets`, { headers: { Prefer: `code=${code}` } });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: `Invalid status in Prefer header: ${code} (expected 100-599)` });
+    }
+
+    expect((await fetch(`${url}/pets`)).status).toBe(200);
+  });
+
+  it('answers with a 500 when the response cannot be written', async () => {
+    const broken = await fetch(`${url}/broken`);
+    expect(broken.status).toBe(500);
+    expect(await broken.json()).toEqual({ error: expect.stringMatching(/Invalid character in header content \["X-Note"\]/) });
+
+    expect((await fetch(`${url}/pets`)).status).toBe(200);
+  });
+
+  it('negotiates the content type with the Accept header', async () => {
+    const response = await fetch(`${url}/pets`, { headers: { Accept: 'text/*' } });
+
+    expect(response.headers.get('content-type')).toBe('text/csv');
+    expect(await response.text()).toBe('id,name\n1,Rex');
+  });
+
+  it('generates bodies from the schema when there is no example', async () => {
+    const response = await fetch(`${url}/pets`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Rex' }),
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ id: 7 });
+  });
+
+  it('rejects requests that do not match the spec', async () => {
+    const response = await fetch(`${url}/pets?limit=50`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Request does not match the spec',
+      errors: [{ location: 'query', field: 'query/limit', message: 'must be <= 10' }],
+      warnings: [],
+    });
+  });
+
+  it('answers unknown paths, methods and empty responses', async () => {
+    const notFound = await fetch(`${url}/owners`);
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ error: 'No path in the spec matches /owners' });
+
+    const notAllowed = await fetch(`${url}/pets/1`, { method: 'PUT' });
+    expect(notAllowed.status).toBe(405);
+
+    const deleted = await fetch(`${url}/pets/1`, { method: 'DELETE' });
+    expect(deleted.status).toBe(204);
+    expect(await deleted.text()).toBe('');
+  });
+
+  it('answers CORS preflight requests for any route', async () => {
+    const response = await fetch(`${url}/anything`, { method: 'OPTIONS', headers: { 'Access-Control-Request-Method': 'PUT' } });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-methods')).toBe('GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS');
+  });
+
+  it('looks the spec up on every request', async () => {
+    currentSpec = null;
+    const response = await fetch(`${url}/pets`);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: 'No OpenAPI specification loaded' });
+  });
+});
\ No newline at end of file
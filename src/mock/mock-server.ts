@@ -0,0 +1,319 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MediaType, OpenAPISpec, Operation, PathItem, Response } from '../types/openapi';
+import { matchOperation } from '../core/request-matcher';
+import { findMediaType, isJsonMediaType, normalizeMediaType } from '../core/media-types';
+import { generateExample, mediaTypeExample } from '../core/example-generator';
+import { deref } from '../core/ref-resolver';
+import { ValidateRequestTool } from '../tools/validate-request';
+
+export interface MockServerOptions {
+  host: string;
+  // 0 picks a free port
+  port: number;
+  // Reject requests that don't match the spec with a 400
+  validate: boolean;
+}
+
+interface Preferences {
+  code?: string;
+  example?: string;
+}
+
+interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+const MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Serves every operation of a spec with example or synthesized responses.
+ * The spec is looked up on each request, so refreshed specs are picked up.
+ *
+ * Clients pick a documented response with `Prefer: code=404` and a named
+ * example with `Prefer: example=notFound`.
+ */
+export class MockServer {
+  private getSpec: () => OpenAPISpec | null;
+  private options: MockServerOptions;
+  private httpServer: http.Server | null = null;
+
+  constructor(getSpec: () => OpenAPISpec | null, options: MockServerOptions) {
+    this.getSpec = getSpec;
+    this.options = options;
+  }
+
+  get url(): string | null {
+    const address = this.httpServer?.address() as AddressInfo | null;
+    return address ? `http://${this.options.host}:${address.port}` : null;
+  }
+
+  start(): Promise<string> {
+    if (this.httpServer) {
+      return Promise.resolve(this.url!);
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => sendServerError(res, error));
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        this.httpServer = server;
+        resolve(this.url!);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.httpServer;
+    this.httpServer = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    let response: MockResponse;
+
+    try {
+      // Browser preflight requests are answered for any route
+      if (method === 'OPTIONS' && req.headers['access-control-request-method']) {
+        response = { status: 204, headers: {} };
+      } else {
+        const body = await readBody(req);
+        response = await this.respond(method, req.url || '/', req.headers, body);
+      }
+
+      // Generated header values can still be rejected here
+      res.writeHead(response.status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS',
+        'Access-Control-Expose-Headers': '*',
+        ...response.headers,
+      });
+    } catch (error) {
+      sendServerError(res, error);
+      return;
+    }
+
+    res.end(method === 'HEAD' ? undefined : response.body);
+
+    console.error(`[mock] ${method} ${req.url} -> ${response.status}`);
+  }
+
+  private async respond(
+    method: string,
+    url: string,
+    headers: http.IncomingHttpHeaders,
+    body: string
+  ): Promise<MockResponse> {
+    const spec = this.getSpec();
+    if (!spec) {
+      return jsonResponse(503, { error: 'No OpenAPI specification loaded' });
+    }
+
+    let match;
+    try {
+      match = matchOperation(spec, method, url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return jsonResponse(message.startsWith('Method') ? 405 : 404, { error: message });
+    }
+
+    const pathItem = deref(spec, spec.paths[match.path]);
+    const operation = pathItem[method.toLowerCase() as keyof PathItem] as Operation;
+
+    if (this.options.validate) {
+      const requestHeaders: Record<string, string> = {};
+      for (const [name, value] of Object.entries(headers)) {
+        if (value !== undefined) {
+          requestHeaders[name] = Array.isArray(value) ? value.join(', ') : value;
+        }
+      }
+
+      const validation = await new ValidateRequestTool().execute(
+        {
+          path: match.path,
+          method,
+          params: match.pathParams,
+          query: match.query,
+          headers: requestHeaders,
+          body: body === '' ? undefined : body,
+        },
+        spec
+      );
+
+      if (!validation.valid) {
+        return jsonResponse(400, {
+          error: 'Request does not match the spec',
+          errors: validation.errors,
+          warnings: validation.warnings,
+        });
+      }
+    }
+
+    const preferences = parsePrefer(headers['prefer']);
+    if (preferences.code !== undefined && !/^[1-5]\d\d$/.test(preferences.code)) {
+      return jsonResponse(400, { error: `Invalid status in Prefer header: ${preferences.code} (expected 100-599)` });
+    }
+
+    const selected = selectResponse(spec, operation.responses || {}, preferences.code);
+    if (!selected) {
+      return jsonResponse(preferences.code ? 400 : 500, {
+        error: preferences.code
+          ? `No response documented for status ${preferences.code}`
+          : 'The operation documents no responses',
+      });
+    }
+
+    const { status, response } = selected;
+    const responseHeaders: Record<string, string> = {};
+
+    for (const [name, header] of Object.entries(response.headers || {})) {
+      if (name.toLowerCase() === 'content-type') continue;
+      const resolved = deref(spec, header);
+      const value = resolved.example
+        ?? Object.values(resolved.examples || {}).map(example => deref(spec, example).value)[0]
+        ?? generateExample(spec, resolved.schema, { direction: 'response' });
+      responseHeaders[name] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    const content = response.content || {};
+    const contentType = pickContentType(content, headers['accept']);
+    if (!contentType || status === 204 || status === 304) {
+      return { status, headers: responseHeaders };
+    }
+
+    const value = mediaTypeExample(spec, content[contentType], { direction: 'response' }, preferences.example);
+    responseHeaders['Content-Type'] = contentType.includes('*') ? 'application/json' : contentType;
+
+    return {
+      status,
+      headers: responseHeaders,
+      body: typeof value === 'string' && !isJsonMediaType(responseHeaders['Content-Type'])
+        ? value
+        : JSON.stringify(value, null, 2),
+    };
+  }
+}
+
+// "Prefer: code=404, example=notFound" (both `,` and `;` separate preferences)
+function parsePrefer(header: string | string[] | undefined): Preferences {
+  const preferences: Preferences = {};
+  const value = Array.isArray(header) ? header.join(',') : header || '';
+
+  for (const token of value.split(/[,;]/)) {
+    const [key, raw] = token.split('=').map(part => part.trim());
+    if (!raw) continue;
+    const unquoted = raw.replace(/^"(.*)"$/, '$1');
+    if (key.toLowerCase() === 'code') preferences.code = unquoted;
+    if (key.toLowerCase() === 'example') preferences.example = unquoted;
+  }
+
+  return preferences;
+}
+
+/**
+ * The requested status (exact, then its range, then `default`), or else the
+ * first documented success response.
+ */
+function selectResponse(
+  spec: OpenAPISpec,
+  responses: Record<string, Response>,
+  code: string | undefined
+): { status: number; response: Response } | null {
+  const keys = Object.keys(responses);
+
+  if (code) {
+    const key = keys.find(k => k === code)
+      || keys.find(k => k.toUpperCase() === `${code.charAt(0)}XX`)
+      || keys.find(k => k === 'default');
+    return key ? { status: Number(code), response: deref(spec, responses[key]) } : null;
+  }
+
+  const success = keys.filter(k => /^2\d\d$/.test(k)).sort()[0]
+    || keys.find(k => k.toUpperCase() === '2XX');
+  const key = success || keys.find(k => k === 'default') || keys[0];
+  if (!key) {
+    return null;
+  }
+
+  const status = /^\d{3}$/.test(key) ? Number(key) : /^\dXX$/i.test(key) ? Number(key.charAt(0)) * 100 : 200;
+  return { status, response: deref(spec, responses[key]) };
+}
+
+/**
+ * The documented media type that best serves the Accept header, preferring
+ * JSON when the client accepts anything.
+ */
+function pickContentType(content: Record<string, MediaType>, accept: string | undefined): string | undefined {
+  const documented = Object.keys(content);
+  if (documented.length === 0) {
+    return undefined;
+  }
+
+  const accepted = (accept || '')
+    .split(',')
+    .map(part => normalizeMediaType(part))
+    .filter(type => type && type !== '*/*');
+
+  for (const type of accepted) {
+    // Ranges like text/* are matched against the documented types
+    const match = type.endsWith('/*')
+      ? documented.find(key => normalizeMediaType(key).startsWith(type.slice(0, -1)))
+      : findMediaType(content, type)?.key;
+    if (match) {
+      return match;
+    }
+  }
+
+  return documented.find(type => isJsonMediaType(type)) || documented[0];
+}
+
+// For errors raised while answering; the response may be partly written
+function sendServerError(res: http.ServerResponse, error: unknown): void {
+  console.error(`[mock] Failed to answer request: ${error}`);
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  const response = jsonResponse(500, { error: String(error) });
+  res.writeHead(response.status, response.headers);
+  res.end(response.body);
+}
+
+function jsonResponse(status: number, data: any): MockResponse {
+  return {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data, null, 2),
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { OpenAPISpec, Schema } from '../types/openapi';
+import { ToolContext } from '../tools/base-tool';
+import { GetEndpointDetailsTool } from '../tools/get-endpoint-details';
+import { redactUrl } from '../core/spec-auth';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+export abstract class BasePrompt {
+  abstract name: string;
+  abstract description: string;
+  abstract arguments: PromptArgument[];
+
+  /**
+   * Build the prompt text from the arguments and the resolved spec.
+   */
+  abstract render(
+    args: Record<string, string>,
+    spec: OpenAPISpec,
+    url: string,
+    context: ToolContext
+  ): Promise<string>;
+
+  /**
+   * The arguments advertised to MCP clients: the prompt's own arguments plus
+   * `spec` to pick one of several loaded specs.
+   */
+  get promptArguments(): PromptArgument[] {
+    return [
+      ...this.arguments,
+      {
+        name: 'spec',
+        description: 'Name of the spec to use (see list_specs; defaults to the default spec)',
+        required: false,
+      },
+    ];
+  }
+
+  protected validateArgs(args: Record<string, string>, required: string[]): void {
+    for (const field of required) {
+      if (!args[field]) {
+        throw new Error(`Missing required argument: ${field}`);
+      }
+    }
+  }
+
+  protected async describeOperation(spec: OpenAPISpec, path: string, method: string): Promise<any> {
+    return new GetEndpointDetailsTool().execute({ path, method }, spec);
+  }
+
+  /**
+   * Component schemas referenced from a value, following references between
+   * schemas. Inline (already dereferenced) schemas are part of the value itself.
+   */
+  protected referencedSchemas(spec: OpenAPISpec, value: any): Record<string, Schema> {
+    const schemas = spec.components?.schemas || {};
+    const found: Record<string, Schema> = {};
+    const seen = new Set<any>();
+
+    const visit = (node: any): void => {
+      if (!node || typeof node !== 'object' || seen.has(node)) return;
+      seen.add(node);
+
+      if (typeof node.$ref === 'string' && node.$ref.startsWith(SCHEMA_REF_PREFIX)) {
+        const name = decodeURIComponent(node.$ref.slice(SCHEMA_REF_PREFIX.length));
+        if (schemas[name] && !found[name]) {
+          found[name] = schemas[name];
+          visit(schemas[name]);
+        }
+      }
+
+      for (const child of Object.values(node)) {
+        visit(child);
+      }
+    };
+
+    visit(value);
+    return found;
+  }
+
+  protected section(title: string, data: any): string {
+    const body = typeof data === 'string' ? data : '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+    return `## ${title}\n\n${body}`;
+  }
+
+  protected apiSummary(spec: OpenAPISpec, url: string): string {
+    const servers = (spec.servers || []).map(server => server.url);
+    return [
+      `API: ${spec.info.title} ${spec.info.version} (OpenAPI ${spec.openapi})`,
+      `Spec: ${redactUrl(url)}`,
+      servers.length > 0 ? `Servers: ${servers.join(', ')}` : 'Servers: none declared',
+    ].join('\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { BasePrompt } from './base-prompt';
+import { OpenAPISpec, Operation, SecurityRequirement } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+export class ExplainAuthPrompt extends BasePrompt {
+  name = 'explain_auth';
+  description = 'Explain how clients authenticate against the API, optionally for a single endpoint';
+  arguments = [
+    {
+      name: 'path',
+      description: 'Limit the explanation to this endpoint path (requires method)',
+      required: false,
+    },
+    {
+      name: 'method',
+      description: 'The HTTP method of the endpoint',
+      required: false,
+    },
+  ];
+
+  async render(args: Record<string, string>, spec: OpenAPISpec, url: string): Promise<string> {
+    const schemes = spec.components?.securitySchemes || {};
+    if (Object.keys(schemes).length === 0) {
+      throw new Error('The spec declares no security schemes');
+    }
+
+    const parts: string[] = [];
+
+    if (args.path || args.method) {
+      this.validateArgs(args, ['path', 'method']);
+      const operation = await this.describeOperation(spec, args.path, args.method);
+
+      parts.push(
+        `Explain step by step how a client authenticates a ${args.method.toUpperCase()} ${args.path} request: ` +
+        'which credentials are needed, how to obtain them (including OAuth flows, token URLs and scopes), ' +
+        'where they go in the request, and what happens when they are missing or expired. Finish with an example request.',
+        this.apiSummary(spec, url),
+        this.section('Security requirements of the endpoint', operation.security || []),
+      );
+    } else {
+      parts.push(
+        'Explain the authentication flow of the API described below: each security scheme, how to obtain and send ' +
+        'its credentials (including OAuth flows, token URLs and scopes), which endpoints require which schemes, ' +
+        'and which are public. Finish with an example authenticated request.',
+        this.apiSummary(spec, url),
+        this.section('Global security requirements', spec.security || []),
+        this.section('Endpoint security', this.endpointSecurity(spec)),
+      );
+    }
+
+    parts.push(this.section('Security schemes', schemes));
+
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Group endpoints by their effective security requirements so the
+   * overview stays short for large APIs.
+   */
+  private endpointSecurity(spec: OpenAPISpec): Array<{ security: SecurityRequirement[]; endpoints: string[] }> {
+    const groups = new Map<string, { security: SecurityRequirement[]; endpoints: string[] }>();
+
+    for (const [path, rawPathItem] of Object.entries(spec.paths || {})) {
+      const pathItem = deref(spec, rawPathItem);
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method] as Operation | undefined;
+        if (!operation) continue;
+
+        const security = operation.security || spec.security || [];
+        const key = JSON.stringify(security);
+        if (!groups.has(key)) {
+          groups.set(key, { security, endpoints: [] });
+        }
+        groups.get(key)!.endpoints.push(`${method.toUpperCase()} ${path}`);
+      }
+    }
+
+    return Array.from(groups.values());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { BasePrompt } from './base-prompt';
+import { OpenAPISpec } from '../types/openapi';
+import { ListEndpointsTool } from '../tools/list-endpoints';
+
+export class ImplementClientPrompt extends BasePrompt {
+  name = 'implement_client';
+  description = 'Implement a client for all endpoints of a tag, with their parameters, bodies and schemas';
+  arguments = [
+    {
+      name: 'tag',
+      description: 'The tag whose endpoints the client should cover',
+      required: true,
+    },
+    {
+      name: 'language',
+      description: 'Target language or library (default: TypeScript)',
+      required: false,
+    },
+  ];
+
+  async render(args: Record<string, string>, spec: OpenAPISpec, url: string): Promise<string> {
+    this.validateArgs(args, ['tag']);
+
+    const { tag, language = 'TypeScript' } = args;
+    const listed = await new ListEndpointsTool().execute({ tag, limit: Number.MAX_SAFE_INTEGER }, spec);
+
+    if (listed.total === 0) {
+      const tags = (spec.tags || []).map(t => t.name);
+      throw new Error(`No endpoints found for tag: ${tag}${tags.length > 0 ? ` (available tags: ${tags.join(', ')})` : ''}`);
+    }
+
+    const operations = await Promise.all(
+      listed.endpoints.map((endpoint: any) => this.describeOperation(spec, endpoint.path, endpoint.method))
+    );
+    const tagInfo = (spec.tags || []).find(t => t.name === tag);
+
+    const parts = [
+      `Implement a ${language} client for the "${tag}" endpoints of the API described below.`,
+      [
+        'Requirements:',
+        '- One method per operation, named after its operationId when present',
+        '- Typed parameters, request bodies and responses derived from the schemas',
+        '- Path, query, header and cookie parameters serialized as documented',
+        '- Non-2xx responses surfaced as errors that carry the status and the parsed body',
+        '- A configurable base URL and authentication',
+      ].join('\n'),
+      this.apiSummary(spec, url),
+    ];
+
+    if (tagInfo?.description) {
+      parts.push(this.section(`Tag: ${tag}`, tagInfo.description));
+    }
+
+    parts.push(this.section(`Endpoints (${operations.length})`, operations));
+
+    const schemas = this.referencedSchemas(spec, operations);
+    if (Object.keys(schemas).length > 0) {
+      parts.push(this.section('Schemas', schemas));
+    }
+
+    if (spec.components?.securitySchemes) {
+      parts.push(this.section('Security schemes', spec.components.securitySchemes));
+    }
+
+    return parts.join('\n\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { BasePrompt } from './base-prompt';
+import { OpenAPISpec } from '../types/openapi';
+import { ValidateRequestTool } from '../tools/validate-request';
+
+export class ReviewRequestPrompt extends BasePrompt {
+  name = 'review_request';
+  description = 'Review a concrete request (URL, raw HTTP request or curl command) against the spec';
+  arguments = [
+    {
+      name: 'request',
+      description: 'The request to review: "GET https://api.x.com/users/42", a raw HTTP request or a curl command',
+      required: true,
+    },
+  ];
+
+  async render(args: Record<string, string>, spec: OpenAPISpec, url: string): Promise<string> {
+    this.validateArgs(args, ['request']);
+
+    const parts = [
+      'Review the request below against the API spec. Point out anything that the endpoint does not accept ' +
+      '(wrong parameters, missing required values, body fields that violate the schema, missing authentication) ' +
+      'as well as deprecated usage, and suggest a corrected request.',
+      this.apiSummary(spec, url),
+      this.section('Request', '```\n' + args.request + '\n```'),
+    ];
+
+    // Validation pins down the matched endpoint and the concrete schema errors
+    try {
+      const validation = await new ValidateRequestTool().execute({ request: args.request }, spec);
+      parts.push(this.section('Validation result', validation));
+
+      if (validation.matched) {
+        const operation = await this.describeOperation(spec, validation.matched.path, validation.matched.method);
+        parts.push(this.section('Endpoint', operation));
+
+        const schemas = this.referencedSchemas(spec, operation);
+        if (Object.keys(schemas).length > 0) {
+          parts.push(this.section('Schemas', schemas));
+        }
+      }
+    } catch (error) {
+      parts.push(this.section('Validation result', `The request could not be matched to an endpoint: ${error}`));
+    }
+
+    return parts.join('\n\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { BasePrompt } from './base-prompt';
+import { OpenAPISpec } from '../types/openapi';
+
+export class WriteIntegrationTestsPrompt extends BasePrompt {
+  name = 'write_integration_tests';
+  description = 'Write integration tests for an endpoint covering success, validation and error responses';
+  arguments = [
+    {
+      name: 'path',
+      description: 'The API endpoint path (e.g., /users/{id})',
+      required: true,
+    },
+    {
+      name: 'method',
+      description: 'The HTTP method',
+      required: true,
+    },
+    {
+      name: 'framework',
+      description: 'Test framework to use (default: Jest)',
+      required: false,
+    },
+  ];
+
+  async render(args: Record<string, string>, spec: OpenAPISpec, url: string): Promise<string> {
+    this.validateArgs(args, ['path', 'method']);
+
+    const { path, method, framework = 'Jest' } = args;
+    const operation = await this.describeOperation(spec, path, method);
+    const statuses = Object.keys(operation.responses || {});
+
+    const parts = [
+      `Write ${framework} integration tests for ${method.toUpperCase()} ${path}.`,
+      [
+        'Cover:',
+        `- Every documented response${statuses.length > 0 ? ` (${statuses.join(', ')})` : ''}, asserting status, headers and that the body matches its schema`,
+        '- Required parameters and request body fields being missing or invalid',
+        '- Boundary values from the schema constraints (min/max, lengths, enums, formats)',
+        '- Authentication failures if the endpoint is secured',
+        'Use realistic request data derived from the schemas and examples, and keep tests independent of each other.',
+      ].join('\n'),
+      this.apiSummary(spec, url),
+      this.section('Endpoint', operation),
+    ];
+
+    const schemas = this.referencedSchemas(spec, operation);
+    if (Object.keys(schemas).length > 0) {
+      parts.push(this.section('Schemas', schemas));
+    }
+
+    return parts.join('\n\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { SpecRegistry, SpecEntry } from '../core/spec-registry';
+import { OpenAPISpec, PathItem } from '../types/openapi';
+import { deref, expandRefs, toPointer } from '../core/ref-resolver';
+import { GetApiInfoTool } from '../tools/get-api-info';
+import { GetEndpointDetailsTool } from '../tools/get-endpoint-details';
+
+export const RESOURCE_SCHEME = 'openapi://';
+
+const JSON_MIME_TYPE = 'application/json';
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// resources/list is paginated so huge specs don't produce one giant response
+const PAGE_SIZE = 100;
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+type ParsedUri =
+  | { spec: string; kind: 'info' | 'document' }
+  | { spec: string; kind: 'operation'; method: string; path: string }
+  | { spec: string; kind: 'schema'; schema: string };
+
+export function specInfoUri(spec: string): string {
+  return `${RESOURCE_SCHEME}${encodeURIComponent(spec)}/info`;
+}
+
+export function specDocumentUri(spec: string): string {
+  return `${RESOURCE_SCHEME}${encodeURIComponent(spec)}/document`;
+}
+
+/**
+ * The path is a single URI segment, so `/pets/{id}` becomes `%2Fpets%2F%7Bid%7D`.
+ */
+export function operationUri(spec: string, method: string, path: string): string {
+  return `${RESOURCE_SCHEME}${encodeURIComponent(spec)}/paths/${method.toLowerCase()}/${encodeURIComponent(path)}`;
+}
+
+export function schemaUri(spec: string, name: string): string {
+  return `${RESOURCE_SCHEME}${encodeURIComponent(spec)}/schemas/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Name of the spec an `openapi://` URI belongs to, or null for other URIs.
+ */
+export function specNameFromUri(uri: string): string | null {
+  try {
+    return parseUri(uri).spec;
+  } catch {
+    return null;
+  }
+}
+
+function parseUri(uri: string): ParsedUri {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const segments = uri.slice(RESOURCE_SCHEME.length).split('/').map(decodeURIComponent);
+  const [spec, kind, ...rest] = segments;
+
+  if (spec && (kind === 'info' || kind === 'document') && rest.length === 0) {
+    return { spec, kind };
+  }
+  if (spec && kind === 'paths' && rest.length === 2) {
+    return { spec, kind: 'operation', method: rest[0], path: rest[1] };
+  }
+  if (spec && kind === 'schemas' && rest.length === 1) {
+    return { spec, kind: 'schema', schema: rest[0] };
+  }
+
+  throw new Error(`Unknown resource URI: ${uri}`);
+}
+
+/**
+ * Exposes the registered specs as MCP resources: API info, the resolved
+ * document, one resource per operation and one per component schema.
+ */
+export class SpecResources {
+  private registry: SpecRegistry;
+
+  constructor(registry: SpecRegistry) {
+    this.registry = registry;
+  }
+
+  templates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${RESOURCE_SCHEME}{spec}/info`,
+        name: 'API info',
+        description: 'Title, version, servers and statistics of a spec',
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}{spec}/document`,
+        name: 'OpenAPI document',
+        description: 'The full resolved OpenAPI document of a spec',
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}{spec}/paths/{method}/{path}`,
+        name: 'Operation',
+        description: 'Details of one operation; {path} is the URI-encoded path template (e.g. %2Fpets%2F%7Bid%7D)',
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}{spec}/schemas/{name}`,
+        name: 'Schema',
+        description: 'A schema from components/schemas',
+        mimeType: JSON_MIME_TYPE,
+      },
+    ];
+  }
+
+  /**
+   * List resources for every registered spec. Operations and schemas are only
+   * listed for specs that are already loaded; reading any URI loads its spec.
+   */
+  list(cursor?: string): { resources: Resource[]; nextCursor?: string } {
+    const all = this.registry.list().flatMap(entry => this.resourcesFor(entry));
+
+    const start = cursor ? parseInt(cursor, 10) : 0;
+    if (isNaN(start) || start < 0) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    const end = start + PAGE_SIZE;
+    return {
+      resources: all.slice(start, end),
+      nextCursor: end < all.length ? String(end) : undefined,
+    };
+  }
+
+  async read(uri: string): Promise<ResourceContents[]> {
+    const parsed = parseUri(uri);
+    const entry = await this.registry.resolve(parsed.spec);
+    const spec = entry.spec as OpenAPISpec;
+
+    let data: any;
+    switch (parsed.kind) {
+      case 'info':
+        data = await new GetApiInfoTool().execute({}, spec, entry.url);
+        break;
+      case 'document':
+        data = spec;
+        break;
+      case 'operation':
+        data = await new GetEndpointDetailsTool().execute(
+          { path: parsed.path, method: parsed.method },
+          spec
+        );
+        break;
+      case 'schema': {
+        const schema = spec.components?.schemas?.[parsed.schema];
+        if (!schema) {
+          throw new Error(`Schema not found: ${parsed.schema}`);
+        }
+        data = expandRefs(spec, schema, 'full', toPointer('components', 'schemas', parsed.schema));
+        break;
+      }
+    }
+
+    return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }];
+  }
+
+  private resourcesFor(entry: SpecEntry): Resource[] {
+    const title = entry.spec?.info?.title || entry.name;
+    const resources: Resource[] = [
+      {
+        uri: specInfoUri(entry.name),
+        name: `${title} - API info`,
+        description: entry.description,
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uri: specDocumentUri(entry.name),
+        name: `${title} - OpenAPI document`,
+        mimeType: JSON_MIME_TYPE,
+      },
+    ];
+
+    const spec = entry.spec;
+    if (!spec) {
+      return resources;
+    }
+
+    for (const [path, rawPathItem] of Object.entries(spec.paths || {})) {
+      const pathItem = deref(spec, rawPathItem);
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method as keyof PathItem] as any;
+        if (!operation) continue;
+
+        resources.push({
+          uri: operationUri(entry.name, method, path),
+          name: `${method.toUpperCase()} ${path}`,
+          description: operation.summary || operation.description,
+          mimeType: JSON_MIME_TYPE,
+        });
+      }
+    }
+
+    for (const name of Object.keys(spec.components?.schemas || {})) {
+      resources.push({
+        uri: schemaUri(entry.name, name),
+        name: `${title} - schema ${name}`,
+        mimeType: JSON_MIME_TYPE,
+      });
+    }
+
+    return resources;
+  }
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { OpenAPISpec } from '../types/openapi';
+import { SpecRegistry } from '../core/spec-registry';
 
 export interface ToolSchema {
   type: string;
@@ -7,12 +8,40 @@ export interface ToolSchema {
   additionalProperties?: boolean;
 }
 
+export interface ToolContext {
+  registry: SpecRegistry;
+  // Name of the spec the call was resolved against, if any
+  specName: string | null;
+}
+
 export abstract class BaseTool {
   abstract name: string;
   abstract description: string;
   abstract schema: ToolSchema;
 
-  abstract execute(args: any, spec: OpenAPISpec | null, url: string | null): Promise<any>;
+  abstract execute(
+    args: any,
+    spec: OpenAPISpec | null,
+    url: string | null,
+    context: ToolContext
+  ): Promise<any>;
+
+  /**
+   * The schema advertised to MCP clients: the tool's own schema plus the
+   * `spec` argument used to pick one of several loaded specs.
+   */
+  get inputSchema(): ToolSchema {
+    return {
+      ...this.schema,
+      properties: {
+        spec: {
+          type: 'string',
+          description: 'Name of the spec to query (see list_specs; defaults to the default spec)',
+        },
+        ...(this.schema.properties || {}),
+      },
+    };
+  }
 
   protected validateArgs(args: any, required: string[]): void {
     if (!args || typeof args !== 'object') {
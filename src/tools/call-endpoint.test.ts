@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { CallEndpointOptions, CallEndpointTool } from './call-endpoint';
+import { ToolContext } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { SpecRegistry } from '../core/spec-registry';
+import { OpenAPIClient } from '../core/openapi-client';
+import { CacheManager } from '../core/cache-manager';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[];
+let dir: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+      res.writeHead(req.method === 'POST' ? 201 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(req.method === 'POST' ? { id: 1, ...JSON.parse(body) } : [{ id: 1, name: 'Rex' }]));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'call-endpoint-'));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+function petSpec(): OpenAPISpec {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    servers: [{ url: baseUrl }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/pets': {
+        get: {
+          parameters: [
+            { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } }, explode: false },
+            { name: 'limit', in: 'query', schema: { type: 'integer', maximum: 10 } },
+          ],
+          responses: {
+            200: {
+              description: 'Pets',
+              content: { 'application/json': { schema: { type: 'array', items: { type: 'object', required: ['name'] } } } },
+            },
+          },
+        },
+        post: {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } },
+          },
+          responses: { 201: { description: 'Created' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: { apiKey: { type: 'apiKey', in: 'query', name: 'key' } },
+    },
+  };
+}
+
+function createTool(options: Partial<CallEndpointOptions> = {}): CallEndpointTool {
+  return new CallEndpointTool({
+    allowedHosts: [new URL(baseUrl).host],
+    readOnly: true,
+    credentials: { apiKey: 'server-key' },
+    timeout: 5000,
+    ...options,
+  });
+}
+
+function createContext(specName: string | null = null): ToolContext {
+  const registry = new SpecRegistry(new OpenAPIClient(new CacheManager(path.join(dir, 'cache'), 60, 1)));
+  registry.register('pets', 'https://example.com/openapi.json', { credentials: { apiKey: 'spec-key' } });
+  return { registry, specName };
+}
+
+describe('call_endpoint', () => {
+  it('sends the serialized request and validates the response', async () => {
+    const result = await createTool().execute(
+      { path: '/pets', method: 'get', params: { tags: ['a b', 'c'], limit: 5 } },
+      petSpec(),
+      null,
+      createContext()
+    );
+
+    expect(received).toEqual([expect.objectContaining({ method: 'GET', url: '/pets?tags=a%20b,c&limit=5&key=server-key' })]);
+    expect(result).toMatchObject({
+      sent: true,
+      request: { method: 'GET', url: `${baseUrl}/pets?tags=a%20b,c&limit=5&key=***`, authentication: ['apiKey'] },
+      requestValidation: { valid: true },
+      response: { status: 200, body: [{ id: 1, name: 'Rex' }] },
+      responseValidation: { valid: true, matchedResponse: '200' },
+    });
+  });
+
+  it("prefers the spec's own credentials", async () => {
+    const result = await createTool().execute({ path: '/pets', method: 'GET' }, petSpec(), null, createContext('pets'));
+
+    expect(received[0].url).toBe('/pets?key=spec-key');
+    expect(result.request.url).toBe(`${baseUrl}/pets?key=***`);
+  });
+
+  it('does not send requests that fail validation unless forced', async () => {
+    const invalid = { path: '/pets', method: 'GET', params: { limit: 50 } };
+
+    const rejected = await createTool().execute(invalid, petSpec(), null, createContext());
+    expect(rejected).toMatchObject({
+      sent: false,
+      requestValidation: { valid: false, errors: [{ location: 'query', field: 'query/limit', message: 'must be <= 10' }] },
+    });
+    expect(received).toEqual([]);
+
+    const forced = await createTool().execute({ ...invalid, force: true }, petSpec(), null, createContext());
+    expect(forced.sent).toBe(true);
+    expect(received).toHaveLength(1);
+  });
+
+  it('blocks writes in read-only mode', async () => {
+    const call = { path: '/pets', method: 'POST', body: { name: 'Rex' } };
+
+    await expect(createTool().execute(call, petSpec(), null, createContext())).rejects.toThrow(
+      'call_endpoint is read-only; POST requests are blocked. Set "callEndpoint.readOnly" to false or start the server with --allow-writes to enable them.'
+    );
+    expect(received).toEqual([]);
+
+    const result = await createTool({ readOnly: false }).execute(call, petSpec(), null, createContext());
+    expect(received).toEqual([expect.objectContaining({ method: 'POST', body: '{"name":"Rex"}' })]);
+    expect(received[0].headers['content-type']).toBe('application/json');
+    expect(result.response).toMatchObject({ status: 201, body: { id: 1, name: 'Rex' } });
+  });
+
+  it('only calls allowed hosts', async () => {
+    await expect(createTool({ allowedHosts: ['api.example.com'] }).execute({ path: '/pets', method: 'GET' }, petSpec(), null, createContext()))
+      .rejects.toThrow(`Host ${new URL(baseUrl).host} is not allowed. Add it to "callEndpoint.allowedHosts" (or pass --allow-host) to call it.`);
+    await expect(createTool().execute({ path: '/pets', method: 'GET', server: 'http://localhost:1' }, petSpec(), null, createContext()))
+      .rejects.toThrow('Host localhost:1 is not allowed.');
+    expect(received).toEqual([]);
+  });
+
+  it('warns when no credentials match the security requirements', async () => {
+    const result = await createTool({ credentials: {} }).execute({ path: '/pets', method: 'GET' }, petSpec(), null, createContext());
+
+    expect(received[0].url).toBe('/pets');
+    expect(result.warnings).toEqual([
+      'No credentials configured for the security requirements of this operation (apiKey); the request was sent without authentication',
+    ]);
+  });
+});
\ No newline at end of file
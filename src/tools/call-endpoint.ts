@@ -0,0 +1,405 @@
+import axios from 'axios';
+import { BaseTool, ToolContext } from './base-tool';
+import { ValidateRequestTool } from './validate-request';
+import { ValidateResponseTool } from './validate-response';
+import { OpenAPISpec, Operation, PathItem, Parameter } from '../types/openapi';
+import { CallEndpointConfig, Credential } from '../types/config';
+import { deref } from '../core/ref-resolver';
+import { isJsonMediaType } from '../core/media-types';
+import { schemaType } from '../core/body-parser';
+import { deserializeMultiValueParameter, deserializeStringParameter } from '../core/parameter-deserializer';
+import {
+  serializeCookieParameter,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQueryParameter,
+} from '../core/parameter-serializer';
+import {
+  OutgoingRequest,
+  applySecurity,
+  encodeRequestBody,
+  isHostAllowed,
+  operationServers,
+  resolveServerUrl,
+} from '../core/request-builder';
+
+interface CallEndpointArgs {
+  path: string;
+  method: string;
+  params?: Record<string, any>;
+  headers?: Record<string, any>;
+  cookies?: Record<string, any>;
+  body?: any;
+  contentType?: string;
+  server?: string | number;
+  serverVariables?: Record<string, string>;
+  force?: boolean;
+}
+
+export interface CallEndpointOptions extends CallEndpointConfig {
+  // Credentials shared by all specs; a spec's own credentials take precedence
+  credentials?: Record<string, Credential>;
+  timeout: number;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD'];
+
+// Response bodies larger than this are truncated in the tool result
+const MAX_BODY_CHARS = 100000;
+
+const REDACTED = '***';
+
+export class CallEndpointTool extends BaseTool {
+  name = 'call_endpoint';
+  description = 'Send a live request to an endpoint on one of the spec\'s servers, validating the request before and the response after the call';
+  schema = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The API endpoint path (e.g., /users/{id})',
+      },
+      method: {
+        type: 'string',
+        enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'],
+        description: 'The HTTP method',
+      },
+      params: {
+        type: 'object',
+        description: 'Path and query parameter values, serialized according to each parameter\'s style/explode',
+      },
+      headers: {
+        type: 'object',
+        description: 'Request headers',
+      },
+      cookies: {
+        type: 'object',
+        description: 'Cookie values by name',
+      },
+      body: {
+        type: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+        description: 'Request body; objects are encoded as JSON, form or multipart data depending on the content type',
+      },
+      contentType: {
+        type: 'string',
+        description: 'Content type of the body (defaults to the only documented type, or application/json)',
+      },
+      server: {
+        type: ['string', 'number'],
+        description: 'Server to call, as an index into the operation\'s servers or a URL (default: the first server)',
+      },
+      serverVariables: {
+        type: 'object',
+        description: 'Values for the server URL variables; defaults apply to the others',
+      },
+      force: {
+        type: 'boolean',
+        description: 'Send the request even if it fails validation',
+        default: false,
+      },
+    },
+    required: ['path', 'method'],
+  };
+
+  private options: CallEndpointOptions;
+
+  constructor(options: CallEndpointOptions) {
+    super();
+    this.options = options;
+  }
+
+  async execute(
+    args: CallEndpointArgs,
+    spec: OpenAPISpec | null,
+    url: string | null,
+    context: ToolContext
+  ): Promise<any> {
+    if (!spec) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    this.validateArgs(args, ['path', 'method']);
+
+    const { path, params = {}, headers = {}, cookies = {}, body } = args;
+    const method = args.method.toUpperCase();
+    const pathItem: PathItem | undefined = spec.paths[path] && deref(spec, spec.paths[path]);
+
+    if (!pathItem) {
+      throw new Error(`Path not found: ${path}`);
+    }
+
+    const operation = pathItem[method.toLowerCase() as keyof PathItem] as Operation | undefined;
+    if (!operation) {
+      throw new Error(`Method ${method} not found for path ${path}`);
+    }
+
+    if (this.options.readOnly && !SAFE_METHODS.includes(method)) {
+      throw new Error(
+        `call_endpoint is read-only; ${method} requests are blocked. Set "callEndpoint.readOnly" to false or start the server with --allow-writes to enable them.`
+      );
+    }
+
+    const baseUrl = resolveServerUrl(
+      operationServers(spec, pathItem, operation),
+      args.server,
+      args.serverVariables,
+      url
+    );
+
+    if (!isHostAllowed(this.options.allowedHosts, baseUrl)) {
+      throw new Error(
+        `Host ${new URL(baseUrl).host} is not allowed. Add it to "callEndpoint.allowedHosts" (or pass --allow-host) to call it.`
+      );
+    }
+
+    const contentType = this.pickContentType(spec, operation, args);
+
+    // Validate before sending anything
+    const requestValidation = await new ValidateRequestTool().execute(
+      {
+        path,
+        method,
+        params,
+        headers: contentType ? { ...headers, 'Content-Type': contentType } : headers,
+        cookies,
+        body,
+        contentType,
+      },
+      spec
+    );
+
+    if (!requestValidation.valid && !args.force) {
+      return {
+        sent: false,
+        message: 'The request does not match the spec and was not sent. Fix the errors or pass force: true to send it anyway.',
+        requestValidation,
+      };
+    }
+
+    // Build the request
+    const outgoing: OutgoingRequest = { headers: {}, query: [], cookies: [] };
+    const expandedPath = this.buildParameters(spec, pathItem, operation, path, params, headers, cookies, outgoing);
+
+    const credentials = {
+      ...this.options.credentials,
+      ...(context.specName ? context.registry.get(context.specName)?.credentials : undefined),
+    };
+    const security = applySecurity(spec, operation.security || spec.security || [], credentials, outgoing);
+
+    if (outgoing.cookies.length > 0) {
+      outgoing.headers['Cookie'] = outgoing.cookies.join('; ');
+    }
+
+    const data = contentType ? encodeRequestBody(body, contentType) : undefined;
+    for (const name of Object.keys(outgoing.headers)) {
+      if (name.toLowerCase() === 'content-type') delete outgoing.headers[name];
+    }
+    // FormData sets its own multipart boundary
+    if (data !== undefined && !(data instanceof FormData)) {
+      outgoing.headers['Content-Type'] = contentType!;
+    }
+
+    const requestUrl = baseUrl + expandedPath + (outgoing.query.length > 0 ? `?${outgoing.query.join('&')}` : '');
+
+    // Send it; redirects are not followed so the allowlist can't be bypassed
+    const started = Date.now();
+    const response = await axios.request({
+      method,
+      url: requestUrl,
+      headers: outgoing.headers,
+      data,
+      timeout: this.options.timeout,
+      maxRedirects: 0,
+      responseType: 'text',
+      transformResponse: [(raw: any) => raw],
+      validateStatus: () => true,
+    });
+    const durationMs = Date.now() - started;
+
+    const responseHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (value !== undefined && value !== null) {
+        responseHeaders[name] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+
+    const text = typeof response.data === 'string' ? response.data : '';
+    let responseBody: any = text === '' ? undefined : text;
+    if (text && isJsonMediaType(responseHeaders['content-type'] || '')) {
+      try {
+        responseBody = JSON.parse(text);
+      } catch {
+        // Invalid JSON is reported as a string
+      }
+    }
+
+    const responseValidation = await new ValidateResponseTool().execute(
+      {
+        path,
+        method,
+        statusCode: response.status,
+        headers: responseHeaders,
+        body: responseBody,
+      },
+      spec
+    );
+
+    const redact = (value: string) => security.secrets
+      .filter(Boolean)
+      .reduce((acc, secret) => acc.split(secret).join(REDACTED), value);
+
+    const result: any = {
+      sent: true,
+      request: {
+        method,
+        url: redact(requestUrl),
+        headers: Object.fromEntries(
+          Object.entries(outgoing.headers).map(([name, value]) => [name, redact(value)])
+        ),
+        authentication: security.schemes,
+      },
+      requestValidation,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        durationMs,
+        headers: responseHeaders,
+        body: typeof responseBody === 'string' && responseBody.length > MAX_BODY_CHARS
+          ? `${responseBody.substring(0, MAX_BODY_CHARS)}... (${responseBody.length - MAX_BODY_CHARS} more characters)`
+          : responseBody,
+      },
+      responseValidation,
+    };
+
+    if (security.warning) {
+      result.warnings = [security.warning];
+    }
+
+    return result;
+  }
+
+  private pickContentType(spec: OpenAPISpec, operation: Operation, args: CallEndpointArgs): string | undefined {
+    if (args.body === undefined || args.body === null) {
+      return undefined;
+    }
+    if (args.contentType) {
+      return args.contentType;
+    }
+
+    const headerName = Object.keys(args.headers || {}).find(name => name.toLowerCase() === 'content-type');
+    if (headerName) {
+      return String(args.headers![headerName]);
+    }
+
+    const requestBody = operation.requestBody ? deref(spec, operation.requestBody) : undefined;
+    const documented = Object.keys(requestBody?.content || {});
+    if (documented.length === 1) {
+      return documented[0];
+    }
+    return documented.find(type => isJsonMediaType(type)) || 'application/json';
+  }
+
+  /**
+   * Serialize the declared parameters into the request and return the path
+   * with its parameters substituted. Undeclared `params` are sent as query
+   * parameters, undeclared headers and cookies as given.
+   */
+  private buildParameters(
+    spec: OpenAPISpec,
+    pathItem: PathItem,
+    operation: Operation,
+    path: string,
+    params: Record<string, any>,
+    headers: Record<string, any>,
+    cookies: Record<string, any>,
+    outgoing: OutgoingRequest
+  ): string {
+    // Operation-level parameters override path-level ones
+    const parameters: Parameter[] = [];
+    for (const param of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+      const resolved = deref(spec, param);
+      const index = parameters.findIndex(p => p.name === resolved.name && p.in === resolved.in);
+      if (index >= 0) {
+        parameters[index] = resolved;
+      } else {
+        parameters.push(resolved);
+      }
+    }
+
+    let expandedPath = path;
+    const used = new Set<string>();
+    const declaredHeaders = new Set<string>();
+
+    for (const param of parameters) {
+      switch (param.in) {
+        case 'path': {
+          if (!(param.name in params)) {
+            throw new Error(`Missing value for path parameter '${param.name}'`);
+          }
+          used.add(param.name);
+          const value = this.typedValue(spec, param, params[param.name]);
+          expandedPath = expandedPath.split(`{${param.name}}`).join(serializePathParameter(param, value));
+          break;
+        }
+        case 'query': {
+          if (!(param.name in params)) break;
+          used.add(param.name);
+          outgoing.query.push(...serializeQueryParameter(param, this.typedValue(spec, param, params[param.name])));
+          break;
+        }
+        case 'header': {
+          const name = Object.keys(headers).find(key => key.toLowerCase() === param.name.toLowerCase());
+          if (!name) break;
+          declaredHeaders.add(name);
+          outgoing.headers[param.name] = serializeHeaderParameter(param, this.typedValue(spec, param, headers[name]));
+          break;
+        }
+        case 'cookie': {
+          if (!(param.name in cookies)) break;
+          outgoing.cookies.push(...serializeCookieParameter(param, this.typedValue(spec, param, cookies[param.name])));
+          break;
+        }
+      }
+    }
+
+    for (const [name, value] of Object.entries(params)) {
+      if (used.has(name)) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        outgoing.query.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(item))}`);
+      }
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (!declaredHeaders.has(name)) {
+        outgoing.headers[name] = String(value);
+      }
+    }
+
+    for (const [name, value] of Object.entries(cookies)) {
+      if (!parameters.some(param => param.in === 'cookie' && param.name === name)) {
+        outgoing.cookies.push(`${name}=${encodeURIComponent(String(value))}`);
+      }
+    }
+
+    return expandedPath;
+  }
+
+  /**
+   * Strings given for array or object parameters are read in the
+   * parameter's own serialization (e.g. "1,2,3"), like validate_request does.
+   */
+  private typedValue(spec: OpenAPISpec, param: Parameter, value: any): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const type = schemaType(spec, param.schema);
+    if (type !== 'array' && type !== 'object' && !param.content) {
+      return value;
+    }
+
+    return param.in === 'path' || param.in === 'header'
+      ? deserializeStringParameter(spec, param, value)
+      : deserializeMultiValueParameter(spec, param, new Map([[param.name, [value]]]));
+  }
+}
\ No newline at end of file
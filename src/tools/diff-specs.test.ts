@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiffSpecsTool } from './diff-specs';
+import { SpecRegistry } from '../core/spec-registry';
+import { OpenAPIClient } from '../core/openapi-client';
+import { CacheManager } from '../core/cache-manager';
+
+function petsSpec(version: string, paths: string[]) {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version },
+    paths: Object.fromEntries(paths.map(p => [p, { get: { responses: { 200: { description: 'OK' } } } }])),
+  };
+}
+
+let dir: string;
+let cache: CacheManager;
+let registry: SpecRegistry;
+
+beforeEach(async () => {
+  // Spec loading logs to stderr
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-specs-'));
+  fs.writeFileSync(path.join(dir, 'pets.json'), JSON.stringify(petsSpec('1.0.0', ['/pets', '/pets/{id}'])));
+  fs.writeFileSync(path.join(dir, 'next.json'), JSON.stringify(petsSpec('2.0.0', ['/pets'])));
+
+  cache = new CacheManager(path.join(dir, 'cache'), 60, 1);
+  registry = new SpecRegistry(new OpenAPIClient(cache, 5000, 1, 100));
+  registry.register('pets', path.join(dir, 'pets.json'));
+  await registry.resolve('pets');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+async function diff(tool: DiffSpecsTool, args: Record<string, any>) {
+  return tool.execute(args, registry.get('pets')!.spec, null, { registry, specName: 'pets' });
+}
+
+describe('diff_specs', () => {
+  it('compares the loaded spec with a file, bypassing the cache', async () => {
+    const tool = new DiffSpecsTool({ allowSpecUrls: true });
+    const file = path.join(dir, 'next.json');
+
+    const result = await diff(tool, { revision: file });
+
+    expect(result).toEqual({
+      base: 'pets (loaded)',
+      revision: file,
+      versions: { base: '1.0.0', revision: '2.0.0' },
+      summary: { breaking: 1, nonBreaking: 0, operationsAdded: 0, operationsChanged: 0, operationsRemoved: 1 },
+      changes: [
+        { type: 'removed', operation: 'GET /pets/{id}', location: '', message: 'Operation removed', breaking: true },
+      ],
+    });
+    expect(await cache.get(file)).toBeNull();
+  });
+
+  it('only accepts configured specs when spec URLs are not allowed', async () => {
+    const tool = new DiffSpecsTool({ allowSpecUrls: false });
+
+    await expect(diff(tool, { revision: path.join(dir, 'next.json') })).rejects.toThrow(
+      'Loading specs by URL or file path is disabled on this server; use one of the configured specs (see list_specs)'
+    );
+    await expect(diff(tool, { base: 'https://example.com/openapi.json' })).rejects.toThrow('Loading specs by URL or file path is disabled');
+
+    // Configured specs can be named or given by their URL
+    expect((await diff(tool, { base: 'pets', revision: path.join(dir, 'pets.json') })).summary).toEqual({ breaking: 0, nonBreaking: 0, operationsAdded: 0, operationsChanged: 0, operationsRemoved: 0 });
+  });
+
+  it('compares with the latest version of the spec by default', async () => {
+    const tool = new DiffSpecsTool({ allowSpecUrls: false });
+    fs.writeFileSync(path.join(dir, 'pets.json'), JSON.stringify(petsSpec('1.1.0', ['/pets'])));
+
+    const result = await diff(tool, { breakingOnly: true });
+
+    expect(result).toEqual({
+      base: 'pets (loaded)',
+      revision: 'pets (latest)',
+      versions: { base: '1.0.0', revision: '1.1.0' },
+      summary: { breaking: 1, nonBreaking: 0, operationsAdded: 0, operationsChanged: 0, operationsRemoved: 1 },
+      changes: [
+        { type: 'removed', operation: 'GET /pets/{id}', location: '', message: 'Operation removed', breaking: true },
+      ],
+    });
+    // The loaded spec is left alone
+    expect(registry.get('pets')!.spec!.info.version).toBe('1.0.0');
+  });
+});
\ No newline at end of file
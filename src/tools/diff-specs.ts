@@ -0,0 +1,87 @@
+import { BaseTool, ToolContext } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { diffSpecs } from '../core/spec-diff';
+import { SPEC_URLS_DISABLED } from '../core/spec-registry';
+
+export interface DiffSpecsOptions {
+  // Whether base and revision may be URLs or file paths besides spec names
+  allowSpecUrls: boolean;
+}
+
+interface DiffSpecsArgs {
+  base?: string;
+  revision?: string;
+  breakingOnly?: boolean;
+}
+
+export class DiffSpecsTool extends BaseTool {
+  name = 'diff_specs';
+  description = 'Compare two versions of a spec and classify each changed operation, parameter, request and response schema as breaking or non-breaking';
+  schema = {
+    type: 'object',
+    properties: {
+      base: {
+        type: 'string',
+        description: 'Old version: a spec name, or a URL or file path where the server allows it (default: the currently loaded spec)',
+      },
+      revision: {
+        type: 'string',
+        description: 'New version: a spec name, or a URL or file path where the server allows it (default: the spec freshly fetched from its source)',
+      },
+      breakingOnly: {
+        type: 'boolean',
+        description: 'Only report breaking changes',
+        default: false,
+      },
+    },
+  };
+
+  private options: DiffSpecsOptions;
+
+  constructor(options: DiffSpecsOptions) {
+    super();
+    this.options = options;
+  }
+
+  async execute(
+    args: DiffSpecsArgs,
+    spec: OpenAPISpec | null,
+    _url: string | null,
+    context: ToolContext
+  ): Promise<any> {
+    const { base, revision, breakingOnly } = args || {};
+    const { registry, specName } = context;
+
+    if ((!base || !revision) && (!spec || !specName)) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    // Configured specs (by name or URL) are compared as loaded; other URLs
+    // and files are fetched past the cache, when the server allows them
+    const load = async (location: string) => {
+      const entry = registry.get(location) || registry.findByUrl(location);
+      if (entry) {
+        return entry.spec ?? registry.fetch(entry.name);
+      }
+      if (!this.options.allowSpecUrls) {
+        throw new Error(SPEC_URLS_DISABLED);
+      }
+      return registry.fetchUrl(location);
+    };
+
+    const before = base ? await load(base) : spec!;
+    // Fetched past the cache, leaving the loaded and cached spec alone;
+    // refresh_spec replaces them
+    const after = revision ? await load(revision) : await registry.fetch(specName!, true);
+
+    const diff = diffSpecs(before, after);
+
+    return {
+      base: base || `${specName} (loaded)`,
+      revision: revision || `${specName} (latest)`,
+      versions: { base: before.info?.version, revision: after.info?.version },
+      summary: diff.summary,
+      changes: breakingOnly ? diff.changes.filter(change => change.breaking) : diff.changes,
+    };
+  }
+}
\ No newline at end of file
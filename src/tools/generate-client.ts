@@ -0,0 +1,67 @@
+import { BaseTool } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { generateTypeScriptClient } from '../codegen/typescript-client';
+import { generatePythonClient } from '../codegen/python-client';
+
+interface GenerateClientArgs {
+  language?: 'typescript' | 'python';
+  tag?: string;
+  className?: string;
+  baseUrl?: string;
+}
+
+export class GenerateClientTool extends BaseTool {
+  name = 'generate_client';
+  description = 'Generate a complete, typed client module for the whole spec or one tag: TypeScript (interfaces, fetch-based) or Python (pydantic v2 models, sync and async httpx clients), with a method per operation grouped by tag and typed responses';
+  schema = {
+    type: 'object',
+    properties: {
+      language: {
+        type: 'string',
+        enum: ['typescript', 'python'],
+        description: 'Language of the client',
+        default: 'typescript',
+      },
+      tag: {
+        type: 'string',
+        description: 'Only generate the operations with this tag, and the schemas they use (default: the whole spec)',
+      },
+      className: {
+        type: 'string',
+        description: 'Name of the client class (default: derived from the API title)',
+      },
+      baseUrl: {
+        type: 'string',
+        description: 'Default base URL of the client (default: the first server)',
+      },
+    },
+  };
+
+  async execute(args: GenerateClientArgs, spec: OpenAPISpec | null, url: string | null): Promise<any> {
+    if (!spec) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    const { language = 'typescript', tag, className, baseUrl } = args || {};
+    const options = { tag, className, baseUrl, specUrl: url };
+    let client;
+    switch (language) {
+      case 'typescript':
+        client = generateTypeScriptClient(spec, options);
+        break;
+      case 'python':
+        client = generatePythonClient(spec, options);
+        break;
+      default:
+        throw new Error(`Unsupported language: ${language}`);
+    }
+
+    return {
+      language,
+      className: client.className,
+      groups: client.groups,
+      schemas: client.schemaCount,
+      code: client.code,
+    };
+  }
+}
\ No newline at end of file
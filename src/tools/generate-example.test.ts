@@ -0,0 +1,128 @@
+import { GenerateExampleTool } from './generate-example';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      post: {
+        requestBody: {
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+          },
+        },
+        responses: {
+          201: {
+            description: 'Created',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+          204: { description: 'No content' },
+          400: {
+            description: 'Bad request',
+            content: { 'application/json': { example: { message: 'name is required' } } },
+          },
+        },
+      },
+      get: {
+        responses: { 200: { description: 'Pets' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          name: { type: 'string', example: 'Rex' },
+          status: { type: 'string', enum: ['available', 'sold'] },
+          password: { type: 'string', writeOnly: true },
+        },
+      },
+    },
+  },
+};
+
+const tool = new GenerateExampleTool();
+
+describe('generate_example', () => {
+  it('generates an example for a named schema', async () => {
+    const result = await tool.execute({ schemaName: 'Pet' }, spec);
+
+    expect(result).toEqual({
+      schemaName: 'Pet',
+      example: { id: 0, name: 'Rex', status: 'available', password: 'string' },
+    });
+  });
+
+  it('generates an example for an inline schema', async () => {
+    const result = await tool.execute({
+      schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+      includeOptional: false,
+    }, spec);
+
+    expect(result).toEqual({ example: [{ id: 0, name: 'Rex' }] });
+  });
+
+  it('leaves readOnly properties out of request bodies', async () => {
+    const result = await tool.execute({ path: '/pets', method: 'post' }, spec);
+
+    expect(result).toEqual({
+      path: '/pets',
+      method: 'POST',
+      target: 'request',
+      contentType: 'application/json',
+      example: { name: 'Rex', status: 'available', password: 'string' },
+    });
+  });
+
+  it('leaves writeOnly properties out of responses', async () => {
+    const result = await tool.execute({ path: '/pets', method: 'POST', target: 'response' }, spec);
+
+    expect(result).toEqual({
+      path: '/pets',
+      method: 'POST',
+      target: 'response',
+      statusCode: '201',
+      contentType: 'application/json',
+      example: { id: 0, name: 'Rex', status: 'available' },
+    });
+  });
+
+  it('uses documented examples for a requested status', async () => {
+    const result = await tool.execute({ path: '/pets', method: 'POST', target: 'response', statusCode: 400 }, spec);
+
+    expect(result.example).toEqual({ message: 'name is required' });
+  });
+
+  it('reports responses without a body', async () => {
+    const result = await tool.execute({ path: '/pets', method: 'POST', target: 'response', statusCode: '204' }, spec);
+
+    expect(result).toEqual({
+      path: '/pets',
+      method: 'POST',
+      target: 'response',
+      statusCode: '204',
+      message: 'Response 204 has no body',
+    });
+  });
+
+  it('gives the same values for the same seed', async () => {
+    const first = await tool.execute({ schemaName: 'Pet', seed: 42, useExamples: false }, spec);
+    const second = await tool.execute({ schemaName: 'Pet', seed: 42, useExamples: false }, spec);
+
+    expect(first).toEqual(second);
+    expect(['available', 'sold']).toContain(first.example.status);
+  });
+
+  it('rejects unknown schemas, operations and statuses', async () => {
+    await expect(tool.execute({ schemaName: 'Owner' }, spec)).rejects.toThrow('Schema not found: Owner');
+    await expect(tool.execute({ path: '/owners', method: 'GET' }, spec)).rejects.toThrow('Path not found: /owners');
+    await expect(tool.execute({ path: '/pets', method: 'GET' }, spec)).rejects.toThrow('GET /pets has no request body');
+    await expect(tool.execute({ path: '/pets', method: 'POST', target: 'response', statusCode: 500 }, spec))
+      .rejects.toThrow('No response documented for status 500 (documented: 201, 204, 400)');
+    await expect(tool.execute({}, spec)).rejects.toThrow('Provide schemaName, schema, or path and method');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { BaseTool } from './base-tool';
+import { OpenAPISpec, Operation, PathItem, Schema } from '../types/openapi';
+import { ExampleOptions, generateExample, mediaTypeExample, requestBodyExample } from '../core/example-generator';
+import { isJsonMediaType } from '../core/media-types';
+import { deref } from '../core/ref-resolver';
+
+interface GenerateExampleArgs {
+  schemaName?: string;
+  schema?: Schema;
+  path?: string;
+  method?: string;
+  target?: 'request' | 'response';
+  statusCode?: number | string;
+  contentType?: string;
+  seed?: number;
+  includeOptional?: boolean;
+  useExamples?: boolean;
+}
+
+export class GenerateExampleTool extends BaseTool {
+  name = 'generate_example';
+  description = 'Generate a realistic example value for a schema, request body or response, honouring formats, enums, constraints and readOnly/writeOnly';
+  schema = {
+    type: 'object',
+    properties: {
+      schemaName: {
+        type: 'string',
+        description: 'Name of a schema in components/schemas',
+      },
+      schema: {
+        type: 'object',
+        description: 'An inline JSON schema (may use $ref into the spec)',
+      },
+      path: {
+        type: 'string',
+        description: 'Endpoint path, to generate the request body or a response of an operation',
+      },
+      method: {
+        type: 'string',
+        enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE'],
+        description: 'The HTTP method (with path)',
+      },
+      target: {
+        type: 'string',
+        enum: ['request', 'response'],
+        description: 'Generate the request body or a response body (with path and method); for a schema, omit readOnly (request) or writeOnly (response) properties',
+        default: 'request',
+      },
+      statusCode: {
+        type: ['number', 'string'],
+        description: 'Response status to generate (default: the first success response)',
+      },
+      contentType: {
+        type: 'string',
+        description: 'Media type to generate (default: the JSON one, or the first documented)',
+      },
+      seed: {
+        type: 'number',
+        description: 'Seed for varied but reproducible values; without it the output uses fixed values',
+      },
+      includeOptional: {
+        type: 'boolean',
+        description: 'Include properties that are not required',
+        default: true,
+      },
+      useExamples: {
+        type: 'boolean',
+        description: 'Use examples documented in the spec instead of generating values',
+        default: true,
+      },
+    },
+  };
+
+  async execute(args: GenerateExampleArgs, spec: OpenAPISpec | null): Promise<any> {
+    if (!spec) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    const { schemaName, schema, path, method, seed, includeOptional, useExamples } = args || {};
+    const options: ExampleOptions = { seed, includeOptional, useExamples };
+
+    if (schemaName) {
+      const named = spec.components?.schemas?.[schemaName];
+      if (!named) {
+        throw new Error(`Schema not found: ${schemaName}`);
+      }
+      return {
+        schemaName,
+        example: generateExample(spec, named, { direction: args.target, ...options }),
+      };
+    }
+
+    if (schema) {
+      return {
+        example: generateExample(spec, schema, { direction: args.target, ...options }),
+      };
+    }
+
+    if (!path || !method) {
+      throw new Error('Provide schemaName, schema, or path and method');
+    }
+
+    const pathItem: PathItem | undefined = spec.paths[path] && deref(spec, spec.paths[path]);
+    if (!pathItem) {
+      throw new Error(`Path not found: ${path}`);
+    }
+
+    const operation = pathItem[method.toLowerCase() as keyof PathItem] as Operation | undefined;
+    if (!operation) {
+      throw new Error(`Method ${method} not found for path ${path}`);
+    }
+
+    if (args.target === 'response') {
+      return this.responseExample(spec, operation, args, options);
+    }
+
+    const body = requestBodyExample(spec, operation, args.contentType, options);
+    if (!body) {
+      throw new Error(`${method.toUpperCase()} ${path} has no request body`);
+    }
+
+    return {
+      path,
+      method: method.toUpperCase(),
+      target: 'request',
+      contentType: body.contentType,
+      example: body.value,
+    };
+  }
+
+  private responseExample(
+    spec: OpenAPISpec,
+    operation: Operation,
+    args: GenerateExampleArgs,
+    options: ExampleOptions
+  ): any {
+    const responses = operation.responses || {};
+    const codes = Object.keys(responses);
+    const statusCode = args.statusCode !== undefined
+      ? String(args.statusCode)
+      : codes.filter(code => /^2/.test(code)).sort()[0] || codes.find(code => code === 'default') || codes[0];
+
+    const response = statusCode ? responses[statusCode] : undefined;
+    if (!response) {
+      throw new Error(`No response documented for status ${statusCode ?? '(none)'} (documented: ${codes.join(', ') || 'none'})`);
+    }
+
+    const content = deref(spec, response).content || {};
+    const types = Object.keys(content);
+    const contentType = args.contentType || types.find(type => isJsonMediaType(type)) || types[0];
+
+    const result: Record<string, any> = {
+      path: args.path,
+      method: args.method!.toUpperCase(),
+      target: 'response',
+      statusCode,
+    };
+
+    if (!contentType) {
+      result.message = `Response ${statusCode} has no body`;
+      return result;
+    }
+    if (!content[contentType]) {
+      throw new Error(`Content type '${contentType}' is not documented for response ${statusCode} (documented: ${types.join(', ')})`);
+    }
+
+    result.contentType = contentType;
+    result.example = mediaTypeExample(spec, content[contentType], { direction: 'response', ...options });
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { BaseTool } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { generateTypeModule } from '../codegen/type-module';
+
+interface GenerateTypesArgs {
+  schemaNames?: string[];
+  path?: string;
+  method?: string;
+  zod?: boolean;
+}
+
+export class GenerateTypesTool extends BaseTool {
+  name = 'generate_types';
+  description = 'Generate TypeScript interfaces and type aliases (optionally with Zod schemas) for component schemas: all of them, the named ones, or those used by one operation';
+  schema = {
+    type: 'object',
+    properties: {
+      schemaNames: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Names of schemas in components/schemas to generate, with the schemas they refer to (default: all)',
+      },
+      path: {
+        type: 'string',
+        description: 'Endpoint path, to generate the schemas used by one operation instead',
+      },
+      method: {
+        type: 'string',
+        enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE'],
+        description: 'The HTTP method (with path)',
+      },
+      zod: {
+        type: 'boolean',
+        description: 'Also generate a Zod schema for every type',
+        default: false,
+      },
+    },
+  };
+
+  async execute(args: GenerateTypesArgs, spec: OpenAPISpec | null): Promise<any> {
+    if (!spec) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    const { schemaNames, path, method, zod } = args || {};
+    if ((path && !method) || (!path && method)) {
+      throw new Error('path and method must be given together');
+    }
+
+    const result = generateTypeModule(spec, {
+      schemaNames,
+      operation: path && method ? { path, method } : undefined,
+      zod,
+    });
+
+    return {
+      language: 'typescript',
+      types: result.types,
+      code: result.code,
+    };
+  }
+}
\ No newline at end of file
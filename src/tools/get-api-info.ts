@@ -1,5 +1,7 @@
 import { BaseTool } from './base-tool';
 import { OpenAPISpec } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
+import { redactUrl } from '../core/spec-auth';
 
 export class GetApiInfoTool extends BaseTool {
   name = 'get_api_info';
@@ -18,6 +20,7 @@ export class GetApiInfoTool extends BaseTool {
       // Basic info
       title: spec.info.title,
       version: spec.info.version,
+      summary: spec.info.summary,
       description: spec.info.description,
       
       // Contact info
@@ -31,6 +34,9 @@ export class GetApiInfoTool extends BaseTool {
       
       // OpenAPI version
       openApiVersion: spec.openapi,
+
+      // Default schema dialect (3.1)
+      jsonSchemaDialect: spec.jsonSchemaDialect,
       
       // Servers
       servers: spec.servers || [],
@@ -39,21 +45,37 @@ export class GetApiInfoTool extends BaseTool {
       externalDocs: spec.externalDocs,
       
       // Current URL
-      specUrl: url || 'Not available',
+      specUrl: url ? redactUrl(url) : 'Not available',
     };
 
+    // Swagger 2.0 conversion
+    if (spec['x-conversion']) {
+      info.conversion = {
+        originalVersion: spec['x-conversion'].from,
+        warnings: spec['x-conversion'].warnings,
+      };
+    }
+
+    // Schema violations of a spec loaded in lenient mode
+    if (spec['x-validation']) {
+      info.validationIssues = spec['x-validation'].issues;
+    }
+
     // Statistics
     const stats = {
       totalEndpoints: 0,
       totalPaths: Object.keys(spec.paths || {}).length,
+      webhooks: Object.keys(spec.webhooks || {}).length,
       methods: {} as Record<string, number>,
       tags: new Set<string>(),
       schemas: Object.keys(spec.components?.schemas || {}).length,
+      pathItems: Object.keys(spec.components?.pathItems || {}).length,
       securitySchemes: Object.keys(spec.components?.securitySchemes || {}).length,
     };
 
     // Count endpoints and methods
-    for (const pathItem of Object.values(spec.paths || {})) {
+    for (const rawPathItem of Object.values(spec.paths || {})) {
+      const pathItem = deref(spec, rawPathItem);
       if (!pathItem) continue;
       
       const methods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
@@ -74,10 +96,12 @@ export class GetApiInfoTool extends BaseTool {
     info.statistics = {
       totalEndpoints: stats.totalEndpoints,
       totalPaths: stats.totalPaths,
+      totalWebhooks: stats.webhooks,
       methodDistribution: stats.methods,
       totalTags: stats.tags.size,
       tags: Array.from(stats.tags),
       totalSchemas: stats.schemas,
+      totalPathItems: stats.pathItems,
       totalSecuritySchemes: stats.securitySchemes,
     };
 
@@ -93,6 +117,20 @@ export class GetApiInfoTool extends BaseTool {
       };
     }
 
+    // Webhooks (3.1)
+    if (spec.webhooks) {
+      const methods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+      info.webhooks = Object.entries(spec.webhooks).map(([name, rawPathItem]) => {
+        const pathItem = deref(spec, rawPathItem);
+        const defined = methods.filter(method => pathItem?.[method]);
+        return {
+          name,
+          methods: defined.map(method => method.toUpperCase()),
+          summary: pathItem?.summary ?? defined.map(method => pathItem[method]!.summary).find(Boolean),
+        };
+      });
+    }
+
     // Tags info
     if (spec.tags) {
       info.tags = spec.tags.map(tag => ({
@@ -1,9 +1,12 @@
 import { BaseTool } from './base-tool';
 import { OpenAPISpec, Operation, PathItem } from '../types/openapi';
+import { RefResolution, deref, expandRefs } from '../core/ref-resolver';
 
 interface GetEndpointDetailsArgs {
   path: string;
   method: string;
+  resolveRefs?: RefResolution;
+  depth?: number;
 }
 
 export class GetEndpointDetailsTool extends BaseTool {
@@ -21,6 +24,16 @@ export class GetEndpointDetailsTool extends BaseTool {
         enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE'],
         description: 'The HTTP method',
       },
+      resolveRefs: {
+        type: 'string',
+        enum: ['none', 'shallow', 'full'],
+        description: 'How far to inline $ref targets: none keeps every $ref, shallow inlines one level, full inlines all (circular references become {"$circular": ref})',
+        default: 'shallow',
+      },
+      depth: {
+        type: 'number',
+        description: 'Number of $ref levels to inline; takes precedence over resolveRefs',
+      },
     },
     required: ['path', 'method'],
   };
@@ -32,8 +45,8 @@ export class GetEndpointDetailsTool extends BaseTool {
 
     this.validateArgs(args, ['path', 'method']);
 
-    const { path, method } = args;
-    const pathItem: PathItem | undefined = spec.paths[path];
+    const { path, method, resolveRefs = 'shallow', depth } = args;
+    const pathItem: PathItem | undefined = spec.paths[path] && deref(spec, spec.paths[path]);
 
     if (!pathItem) {
       throw new Error(`Path not found: ${path}`);
@@ -64,7 +77,7 @@ export class GetEndpointDetailsTool extends BaseTool {
         ...(operation.parameters || []),
       ];
       
-      details.parameters = allParameters.map(param => ({
+      details.parameters = allParameters.map(raw => deref(spec, raw)).map(param => ({
         name: param.name,
         in: param.in,
         required: param.required || false,
@@ -76,17 +89,19 @@ export class GetEndpointDetailsTool extends BaseTool {
 
     // Add request body
     if (operation.requestBody) {
+      const requestBody = deref(spec, operation.requestBody);
       details.requestBody = {
-        required: operation.requestBody.required || false,
-        description: operation.requestBody.description,
-        content: operation.requestBody.content,
+        required: requestBody.required || false,
+        description: requestBody.description,
+        content: requestBody.content,
       };
     }
 
     // Add responses
     if (operation.responses) {
       details.responses = {};
-      for (const [statusCode, response] of Object.entries(operation.responses)) {
+      for (const [statusCode, raw] of Object.entries(operation.responses)) {
+        const response = deref(spec, raw);
         details.responses[statusCode] = {
           description: response.description,
           content: response.content,
@@ -114,6 +129,6 @@ export class GetEndpointDetailsTool extends BaseTool {
       details.externalDocs = operation.externalDocs;
     }
 
-    return details;
+    return expandRefs(spec, details, depth ?? resolveRefs);
   }
 }
\ No newline at end of file
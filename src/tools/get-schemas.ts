@@ -1,9 +1,12 @@
 import { BaseTool } from './base-tool';
 import { OpenAPISpec, Schema } from '../types/openapi';
+import { RefResolution, expandRefs, toPointer } from '../core/ref-resolver';
 
 interface GetSchemasArgs {
   schemaName?: string;
   listAll?: boolean;
+  resolveRefs?: RefResolution;
+  depth?: number;
 }
 
 export class GetSchemasTool extends BaseTool {
@@ -21,6 +24,16 @@ export class GetSchemasTool extends BaseTool {
         description: 'List all available schema names',
         default: false,
       },
+      resolveRefs: {
+        type: 'string',
+        enum: ['none', 'shallow', 'full'],
+        description: 'How far to inline $ref targets in the schema: none keeps every $ref, shallow inlines one level, full inlines all (circular references become {"$circular": ref})',
+        default: 'shallow',
+      },
+      depth: {
+        type: 'number',
+        description: 'Number of $ref levels to inline; takes precedence over resolveRefs',
+      },
     },
   };
 
@@ -29,7 +42,7 @@ export class GetSchemasTool extends BaseTool {
       throw new Error('No OpenAPI specification loaded');
     }
 
-    const { schemaName, listAll } = args || {};
+    const { schemaName, listAll, resolveRefs = 'shallow', depth } = args || {};
 
     if (!spec.components || !spec.components.schemas) {
       return {
@@ -60,7 +73,7 @@ export class GetSchemasTool extends BaseTool {
 
       return {
         name: schemaName,
-        schema: this.expandSchema(schema, spec),
+        schema: expandRefs(spec, schema, depth ?? resolveRefs, toPointer('components', 'schemas', schemaName)),
       };
     }
 
@@ -71,52 +84,11 @@ export class GetSchemasTool extends BaseTool {
 
   private getSchemaType(schema: Schema): string {
     if (schema.$ref) return 'reference';
-    if (schema.type) return schema.type;
+    // 3.1 type arrays, e.g. "string | null"
+    if (schema.type) return Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
     if (schema.allOf) return 'allOf';
     if (schema.oneOf) return 'oneOf';
     if (schema.anyOf) return 'anyOf';
     return 'unknown';
   }
-
-  private expandSchema(schema: Schema, spec: OpenAPISpec): any {
-    const expanded: any = { ...schema };
-
-    // Resolve $ref if it's a reference
-    if (schema.$ref) {
-      const refPath = schema.$ref.split('/');
-      if (refPath[0] === '#' && refPath[1] === 'components' && refPath[2] === 'schemas') {
-        const referencedSchema = spec.components?.schemas?.[refPath[3]];
-        if (referencedSchema) {
-          expanded.$ref = schema.$ref;
-          expanded.resolvedSchema = this.expandSchema(referencedSchema, spec);
-        }
-      }
-    }
-
-    // Expand properties if it's an object
-    if (schema.properties) {
-      expanded.properties = {};
-      for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        expanded.properties[propName] = this.expandSchema(propSchema, spec);
-      }
-    }
-
-    // Expand items if it's an array
-    if (schema.items) {
-      expanded.items = this.expandSchema(schema.items, spec);
-    }
-
-    // Expand composition schemas
-    if (schema.allOf) {
-      expanded.allOf = schema.allOf.map(s => this.expandSchema(s, spec));
-    }
-    if (schema.oneOf) {
-      expanded.oneOf = schema.oneOf.map(s => this.expandSchema(s, spec));
-    }
-    if (schema.anyOf) {
-      expanded.anyOf = schema.anyOf.map(s => this.expandSchema(s, spec));
-    }
-
-    return expanded;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { LintSpecTool } from './lint-spec';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets/{id}': {
+      get: {
+        operationId: 'getPet',
+        responses: {
+          200: {
+            description: 'Pet',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        description: 'A pet',
+        properties: { petId: { type: 'integer' }, pet_name: { type: 'string' } },
+      },
+      Owner: { type: 'object', description: 'An owner' },
+    },
+  },
+};
+
+describe('lint_spec', () => {
+  it('reports problems ordered by severity', async () => {
+    const tool = new LintSpecTool({ rules: {} });
+
+    const result = await tool.execute({}, spec);
+
+    expect(result).toEqual({
+      valid: false,
+      summary: { error: 1, warn: 3, info: 1 },
+      problems: [
+        {
+          rule: 'path-params',
+          severity: 'error',
+          message: "Path parameter 'id' of GET /pets/{id} is not documented",
+          pointer: '#/paths/~1pets~1{id}/get',
+        },
+        {
+          rule: 'operation-4xx-response',
+          severity: 'warn',
+          message: 'GET /pets/{id} documents no 4xx response',
+          pointer: '#/paths/~1pets~1{id}/get/responses',
+        },
+        {
+          rule: 'no-unused-components',
+          severity: 'warn',
+          message: "Component 'Owner' in schemas is never used",
+          pointer: '#/components/schemas/Owner',
+        },
+        {
+          rule: 'property-casing',
+          severity: 'warn',
+          message: "Property 'pet_name' is not camelCase",
+          pointer: '#/components/schemas/Pet/properties/pet_name',
+        },
+        {
+          rule: 'media-examples',
+          severity: 'info',
+          message: 'Response 200 (application/json) of GET /pets/{id} has no example',
+          pointer: '#/paths/~1pets~1{id}/get/responses/200/content/application~1json',
+        },
+      ],
+    });
+  });
+
+  it('applies configured rules and per-call overrides', async () => {
+    const tool = new LintSpecTool({ rules: { 'no-unused-components': 'off', 'property-casing': { casing: 'snake_case' } } });
+
+    const result = await tool.execute({ rules: { 'path-params': 'warn' }, minSeverity: 'warn' }, spec);
+
+    expect(result).toEqual({
+      valid: true,
+      summary: { error: 0, warn: 3, info: 1 },
+      problems: [
+        {
+          rule: 'path-params',
+          severity: 'warn',
+          message: "Path parameter 'id' of GET /pets/{id} is not documented",
+          pointer: '#/paths/~1pets~1{id}/get',
+        },
+        {
+          rule: 'operation-4xx-response',
+          severity: 'warn',
+          message: 'GET /pets/{id} documents no 4xx response',
+          pointer: '#/paths/~1pets~1{id}/get/responses',
+        },
+        {
+          rule: 'property-casing',
+          severity: 'warn',
+          message: "Property 'petId' is not snake_case",
+          pointer: '#/components/schemas/Pet/properties/petId',
+        },
+      ],
+    });
+  });
+
+  it('lists the rules with their configured severities', async () => {
+    const tool = new LintSpecTool({ rules: { 'media-examples': 'off' } });
+
+    const result = await tool.execute({ listRules: true }, spec);
+
+    expect(result.rules).toHaveLength(8);
+    expect(result.rules).toContainEqual({
+      id: 'media-examples',
+      description: 'JSON request bodies and success responses should have examples',
+      severity: 'off',
+    });
+    expect(result.rules).toContainEqual({
+      id: 'path-params',
+      description: 'Path template variables and path parameters must match',
+      severity: 'error',
+    });
+  });
+
+  it('rejects unknown rules', async () => {
+    const tool = new LintSpecTool({ rules: {} });
+
+    await expect(tool.execute({ rules: { 'no-such-rule': 'error' } }, spec)).rejects.toThrow('Unknown lint rules: no-such-rule');
+  });
+});
\ No newline at end of file
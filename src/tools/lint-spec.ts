@@ -0,0 +1,76 @@
+import { BaseTool } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { LintConfig, LintRuleConfig } from '../types/config';
+import { lintSpec } from '../lint/linter';
+import { LINT_RULES } from '../lint/rules';
+
+interface LintSpecArgs {
+  rules?: Record<string, LintRuleConfig>;
+  minSeverity?: 'error' | 'warn' | 'info';
+  listRules?: boolean;
+}
+
+const SEVERITIES = ['error', 'warn', 'info'];
+
+export class LintSpecTool extends BaseTool {
+  name = 'lint_spec';
+  description = 'Check the spec for quality problems (missing or duplicate operationIds, undocumented path parameters, missing 4xx responses, unused components, inconsistent property casing, missing examples)';
+  schema = {
+    type: 'object',
+    properties: {
+      rules: {
+        type: 'object',
+        description: 'Per-rule overrides of the configured rules: a severity ("error", "warn", "info", "off") or an object with "severity" and rule options',
+      },
+      minSeverity: {
+        type: 'string',
+        enum: ['error', 'warn', 'info'],
+        description: 'Only report problems at least this severe',
+        default: 'info',
+      },
+      listRules: {
+        type: 'boolean',
+        description: 'List the available rules and their configured severities instead of linting',
+        default: false,
+      },
+    },
+  };
+
+  private config: LintConfig;
+
+  constructor(config: LintConfig) {
+    super();
+    this.config = config;
+  }
+
+  async execute(args: LintSpecArgs, spec: OpenAPISpec | null): Promise<any> {
+    if (!spec) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    const { rules = {}, minSeverity = 'info', listRules } = args || {};
+    const configured = { ...this.config.rules, ...rules };
+
+    if (listRules) {
+      return {
+        rules: LINT_RULES.map(rule => {
+          const config = configured[rule.id];
+          return {
+            id: rule.id,
+            description: rule.description,
+            severity: (typeof config === 'object' ? config.severity : config) || rule.severity,
+          };
+        }),
+      };
+    }
+
+    const result = lintSpec(spec, configured);
+    const threshold = SEVERITIES.indexOf(minSeverity);
+
+    return {
+      valid: result.summary.error === 0,
+      summary: result.summary,
+      problems: result.problems.filter(problem => SEVERITIES.indexOf(problem.severity) <= threshold),
+    };
+  }
+}
\ No newline at end of file
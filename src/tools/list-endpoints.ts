@@ -1,5 +1,6 @@
 import { BaseTool } from './base-tool';
-import { OpenAPISpec, Operation } from '../types/openapi';
+import { OpenAPISpec, Operation, PathItem } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
 
 interface ListEndpointsArgs {
   tag?: string;
@@ -19,9 +20,14 @@ interface EndpointInfo {
   deprecated?: boolean;
 }
 
+// OpenAPI 3.1 webhooks: requests the API sends, keyed by name instead of path
+interface WebhookInfo extends Omit<EndpointInfo, 'path'> {
+  name: string;
+}
+
 export class ListEndpointsTool extends BaseTool {
   name = 'list_endpoints';
-  description = 'List all available API endpoints with optional filtering';
+  description = 'List all available API endpoints (and OpenAPI 3.1 webhooks) with optional filtering';
   schema = {
     type: 'object',
     properties: {
@@ -59,39 +65,24 @@ export class ListEndpointsTool extends BaseTool {
     const endpoints: EndpointInfo[] = [];
     const { tag, method, deprecated, limit = 100, offset = 0 } = args || {};
 
+    const matches = (httpMethod: string, operation: Operation) =>
+      (!method || httpMethod === method.toUpperCase())
+      && (!tag || (operation.tags || []).includes(tag))
+      && (deprecated === undefined || operation.deprecated === deprecated);
+
     // Iterate through all paths
     for (const [pathName, pathItem] of Object.entries(spec.paths)) {
-      if (!pathItem) continue;
-
-      // Get operations for this path
-      const operations: Array<[string, Operation | undefined]> = [
-        ['GET', pathItem.get],
-        ['PUT', pathItem.put],
-        ['POST', pathItem.post],
-        ['DELETE', pathItem.delete],
-        ['OPTIONS', pathItem.options],
-        ['HEAD', pathItem.head],
-        ['PATCH', pathItem.patch],
-        ['TRACE', pathItem.trace],
-      ];
-
-      for (const [httpMethod, operation] of operations) {
-        if (!operation) continue;
-
-        // Apply filters
-        if (method && httpMethod !== method.toUpperCase()) continue;
-        if (tag && (!operation.tags || !operation.tags.includes(tag))) continue;
-        if (deprecated !== undefined && operation.deprecated !== deprecated) continue;
+      for (const [httpMethod, operation] of this.operationsOf(deref(spec, pathItem))) {
+        if (!matches(httpMethod, operation)) continue;
+        endpoints.push({ path: pathName, method: httpMethod, ...this.describeOperation(operation) });
+      }
+    }
 
-        endpoints.push({
-          path: pathName,
-          method: httpMethod,
-          summary: operation.summary,
-          description: operation.description,
-          tags: operation.tags,
-          operationId: operation.operationId,
-          deprecated: operation.deprecated,
-        });
+    const webhooks: WebhookInfo[] = [];
+    for (const [name, pathItem] of Object.entries(spec.webhooks || {})) {
+      for (const [httpMethod, operation] of this.operationsOf(deref(spec, pathItem))) {
+        if (!matches(httpMethod, operation)) continue;
+        webhooks.push({ name, method: httpMethod, ...this.describeOperation(operation) });
       }
     }
 
@@ -101,6 +92,7 @@ export class ListEndpointsTool extends BaseTool {
       if (pathCompare !== 0) return pathCompare;
       return a.method.localeCompare(b.method);
     });
+    webhooks.sort((a, b) => a.name.localeCompare(b.name) || a.method.localeCompare(b.method));
 
     // Apply pagination
     const paginatedEndpoints = endpoints.slice(offset, offset + limit);
@@ -111,6 +103,34 @@ export class ListEndpointsTool extends BaseTool {
       offset,
       limit,
       endpoints: paginatedEndpoints,
+      // Not paginated; APIs have few webhooks
+      ...(webhooks.length > 0 ? { webhooks } : {}),
+    };
+  }
+
+  private operationsOf(pathItem: PathItem | undefined): Array<[string, Operation]> {
+    if (!pathItem) return [];
+
+    const operations: Array<[string, Operation | undefined]> = [
+      ['GET', pathItem.get],
+      ['PUT', pathItem.put],
+      ['POST', pathItem.post],
+      ['DELETE', pathItem.delete],
+      ['OPTIONS', pathItem.options],
+      ['HEAD', pathItem.head],
+      ['PATCH', pathItem.patch],
+      ['TRACE', pathItem.trace],
+    ];
+    return operations.filter((entry): entry is [string, Operation] => entry[1] !== undefined);
+  }
+
+  private describeOperation(operation: Operation): Omit<EndpointInfo, 'path' | 'method'> {
+    return {
+      summary: operation.summary,
+      description: operation.description,
+      tags: operation.tags,
+      operationId: operation.operationId,
+      deprecated: operation.deprecated,
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { BaseTool, ToolContext } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { redactUrl } from '../core/spec-auth';
+
+export class ListSpecsTool extends BaseTool {
+  name = 'list_specs';
+  description = 'List the OpenAPI specifications served by this server and their aliases';
+  schema = {
+    type: 'object',
+    properties: {},
+  };
+
+  // Lists every spec, so it takes no `spec` argument
+  get inputSchema() {
+    return this.schema;
+  }
+
+  async execute(_args: any, _spec: OpenAPISpec | null, _url: string | null, context: ToolContext): Promise<any> {
+    const { registry } = context;
+
+    const specs = registry.list().map(entry => ({
+      name: entry.name,
+      url: redactUrl(entry.url),
+      description: entry.description,
+      default: entry.name === registry.defaultSpecName,
+      loaded: entry.spec !== null,
+      title: entry.spec?.info.title,
+      version: entry.spec?.info.version,
+      totalPaths: entry.spec ? Object.keys(entry.spec.paths || {}).length : undefined,
+      error: entry.error,
+    }));
+
+    return {
+      count: specs.length,
+      defaultSpec: registry.defaultSpecName,
+      specs,
+    };
+  }
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { BaseTool } from './base-tool';
 import { OpenAPISpec } from '../types/openapi';
+import { redactUrl } from '../core/spec-auth';
 
 interface RefreshSpecArgs {
   url?: string;
@@ -7,7 +8,7 @@ interface RefreshSpecArgs {
 
 export class RefreshSpecTool extends BaseTool {
   name = 'refresh_spec';
-  description = 'Refresh the OpenAPI specification from the server';
+  description = 'Refresh the OpenAPI specification from the server and report the changes since the loaded version';
   schema = {
     type: 'object',
     properties: {
@@ -23,7 +24,7 @@ export class RefreshSpecTool extends BaseTool {
     // It will trigger a refresh of the spec
     return {
       message: 'Specification refresh triggered',
-      url: args.url || url || 'Configured URL',
+      url: redactUrl(args.url || url || 'Configured URL'),
     };
   }
 }
\ No newline at end of file
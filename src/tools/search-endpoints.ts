@@ -1,14 +1,17 @@
-import { BaseTool } from './base-tool';
+import { BaseTool, ToolContext } from './base-tool';
 import { OpenAPISpec, Operation } from '../types/openapi';
+import { deref } from '../core/ref-resolver';
 import Fuse from 'fuse.js';
 
 interface SearchEndpointsArgs {
   query: string;
+  spec?: string;
   searchIn?: string[];
   limit?: number;
 }
 
 interface SearchResult {
+  spec?: string;
   path: string;
   method: string;
   summary?: string;
@@ -20,7 +23,7 @@ interface SearchResult {
 
 export class SearchEndpointsTool extends BaseTool {
   name = 'search_endpoints';
-  description = 'Search for endpoints using fuzzy matching across various fields';
+  description = 'Search for endpoints using fuzzy matching across various fields (across all loaded specs unless `spec` is given)';
   schema = {
     type: 'object',
     properties: {
@@ -45,7 +48,12 @@ export class SearchEndpointsTool extends BaseTool {
     required: ['query'],
   };
 
-  async execute(args: SearchEndpointsArgs, spec: OpenAPISpec | null): Promise<any> {
+  async execute(
+    args: SearchEndpointsArgs,
+    spec: OpenAPISpec | null,
+    _url: string | null,
+    context: ToolContext
+  ): Promise<any> {
     if (!spec) {
       throw new Error('No OpenAPI specification loaded');
     }
@@ -54,36 +62,19 @@ export class SearchEndpointsTool extends BaseTool {
 
     const { query, searchIn, limit = 20 } = args;
 
+    // Without an explicit spec (or a `url`, whose spec is not registered),
+    // search every configured API
+    const registered = context.specName !== null && context.registry.get(context.specName) !== undefined;
+    const sources: Array<{ name: string | null; spec: OpenAPISpec }> =
+      !args.spec && registered && context.registry.size > 1
+        ? (await context.registry.loadAll()).map(entry => ({ name: entry.name, spec: entry.spec! }))
+        : [{ name: context.specName, spec }];
+
     // Build search index
     const searchItems: any[] = [];
-    
-    for (const [pathName, pathItem] of Object.entries(spec.paths)) {
-      if (!pathItem) continue;
 
-      const operations: Array<[string, Operation | undefined]> = [
-        ['GET', pathItem.get],
-        ['PUT', pathItem.put],
-        ['POST', pathItem.post],
-        ['DELETE', pathItem.delete],
-        ['OPTIONS', pathItem.options],
-        ['HEAD', pathItem.head],
-        ['PATCH', pathItem.patch],
-        ['TRACE', pathItem.trace],
-      ];
-
-      for (const [method, operation] of operations) {
-        if (!operation) continue;
-
-        searchItems.push({
-          path: pathName,
-          method,
-          summary: operation.summary || '',
-          description: operation.description || '',
-          tags: (operation.tags || []).join(' '),
-          operationId: operation.operationId || '',
-          deprecated: operation.deprecated || false,
-        });
-      }
+    for (const source of sources) {
+      searchItems.push(...this.buildSearchItems(source.spec, source.name));
     }
 
     // Configure Fuse.js options
@@ -99,6 +90,7 @@ export class SearchEndpointsTool extends BaseTool {
 
     // Format results
     const results: SearchResult[] = searchResults.map((result: any) => ({
+      spec: result.item.spec || undefined,
       path: result.item.path,
       method: result.item.method,
       summary: result.item.summary || undefined,
@@ -110,8 +102,46 @@ export class SearchEndpointsTool extends BaseTool {
 
     return {
       query,
+      specs: sources.map(source => source.name).filter(Boolean),
       count: results.length,
       results,
     };
   }
+
+  private buildSearchItems(spec: OpenAPISpec, specName: string | null): any[] {
+    const searchItems: any[] = [];
+
+    for (const [pathName, rawPathItem] of Object.entries(spec.paths)) {
+      const pathItem = deref(spec, rawPathItem);
+      if (!pathItem) continue;
+
+      const operations: Array<[string, Operation | undefined]> = [
+        ['GET', pathItem.get],
+        ['PUT', pathItem.put],
+        ['POST', pathItem.post],
+        ['DELETE', pathItem.delete],
+        ['OPTIONS', pathItem.options],
+        ['HEAD', pathItem.head],
+        ['PATCH', pathItem.patch],
+        ['TRACE', pathItem.trace],
+      ];
+
+      for (const [method, operation] of operations) {
+        if (!operation) continue;
+
+        searchItems.push({
+          spec: specName,
+          path: pathName,
+          method,
+          summary: operation.summary || '',
+          description: operation.description || '',
+          tags: (operation.tags || []).join(' '),
+          operationId: operation.operationId || '',
+          deprecated: operation.deprecated || false,
+        });
+      }
+    }
+
+    return searchItems;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { BaseTool, ToolContext } from './base-tool';
+import { OpenAPISpec } from '../types/openapi';
+import { MockServer } from '../mock/mock-server';
+import { deref } from '../core/ref-resolver';
+
+interface StartMockServerArgs {
+  port?: number;
+  host?: string;
+  validate?: boolean;
+}
+
+const DEFAULT_MOCK_PORT = 4010;
+
+export class StartMockServerTool extends BaseTool {
+  name = 'start_mock_server';
+  description = 'Start a local HTTP server that mocks every operation of the spec with example or generated responses';
+  schema = {
+    type: 'object',
+    properties: {
+      port: {
+        type: 'number',
+        description: 'Port to listen on (0 picks a free port)',
+        default: DEFAULT_MOCK_PORT,
+      },
+      host: {
+        type: 'string',
+        description: 'Host to bind to',
+        default: '127.0.0.1',
+      },
+      validate: {
+        type: 'boolean',
+        description: 'Reject requests that do not match the spec with a 400 response',
+        default: true,
+      },
+    },
+  };
+
+  // One mock server per spec, kept running for the lifetime of the process.
+  // Stored while starting so concurrent calls share the same server.
+  private servers: Map<string, Promise<string>> = new Map();
+
+  async execute(
+    args: StartMockServerArgs,
+    spec: OpenAPISpec | null,
+    _url: string | null,
+    context: ToolContext
+  ): Promise<any> {
+    if (!spec || !context.specName) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    const { registry, specName } = context;
+    const existing = this.servers.get(specName);
+    if (existing) {
+      return this.describe(spec, specName, await existing, true);
+    }
+
+    // Specs loaded from a `url` argument are not registered and stay as loaded
+    const server = new MockServer(() => registry.get(specName)?.spec ?? spec, {
+      host: args.host || '127.0.0.1',
+      port: args.port ?? DEFAULT_MOCK_PORT,
+      validate: args.validate !== false,
+    });
+
+    const starting = server.start();
+    this.servers.set(specName, starting);
+
+    try {
+      return this.describe(spec, specName, await starting, false);
+    } catch (error) {
+      this.servers.delete(specName);
+      throw error;
+    }
+  }
+
+  private describe(spec: OpenAPISpec, specName: string, url: string, alreadyRunning: boolean): any {
+    const operations = Object.values(spec.paths || {}).reduce((count, pathItem) => {
+      return count + ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+        .filter(method => (deref(spec, pathItem) as any)[method]).length;
+    }, 0);
+
+    return {
+      url,
+      spec: specName,
+      alreadyRunning,
+      operations,
+      usage: [
+        'Paths are served as documented, with or without the server base path',
+        'Send "Prefer: code=404" to get a specific documented response',
+        'Send "Prefer: example=name" to pick a named example',
+      ],
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { ValidateRequestTool } from './validate-request';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Orders', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v2' }],
+  paths: {
+    '/orders': {
+      get: {
+        parameters: [
+          { name: 'status', in: 'query', schema: { type: 'array', items: { type: 'string', enum: ['open', 'closed'] } }, explode: false },
+          { name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } },
+          { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'Orders' } },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['sku'],
+                properties: { sku: { type: 'string' }, quantity: { type: 'integer', minimum: 1 } },
+              },
+            },
+            'application/x-www-form-urlencoded': {
+              schema: { type: 'object', properties: { sku: { type: 'string' }, quantity: { type: 'integer' } } },
+            },
+          },
+        },
+        responses: { 201: { description: 'Created' } },
+      },
+    },
+    '/orders/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: { responses: { 200: { description: 'Order' } } },
+      delete: {
+        deprecated: true,
+        parameters: [{ name: 'session', in: 'cookie', required: true, schema: { type: 'string' } }],
+        responses: { 204: { description: 'Deleted' } },
+      },
+    },
+  },
+};
+
+const tool = new ValidateRequestTool();
+
+describe('validate_request', () => {
+  it('deserializes and validates query and header parameters', async () => {
+    const result = await tool.execute({
+      path: '/orders',
+      method: 'GET',
+      query: 'status=open,lost&limit=500&page=2',
+      headers: { 'x-tenant': 'acme' },
+    }, spec);
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { location: 'query', field: 'query/status/1', message: 'must be one of: "open", "closed"' },
+        { location: 'query', field: 'query/limit', message: 'must be <= 100' },
+      ],
+      warnings: ["Query parameter 'page' is not defined for this endpoint"],
+    });
+  });
+
+  it('reports missing required parameters and deprecated endpoints', async () => {
+    const result = await tool.execute({ path: '/orders/{id}', method: 'DELETE', params: { id: '7' } }, spec);
+
+    expect(result.errors).toEqual([{ location: 'cookie', field: 'session', message: "Required cookie 'session' is missing" }]);
+    expect(result.warnings).toEqual(['This endpoint is deprecated']);
+  });
+
+  it('matches a concrete path against the path templates', async () => {
+    const result = await tool.execute({ path: '/orders/abc', method: 'GET' }, spec);
+
+    expect(result.matched).toEqual({ path: '/orders/{id}', method: 'GET', server: undefined });
+    expect(result.errors).toEqual([{ location: 'path', field: 'path/id', message: 'must be integer' }]);
+  });
+
+  it('validates a raw HTTP request', async () => {
+    const result = await tool.execute({
+      request: [
+        'POST /v2/orders HTTP/1.1',
+        'Host: api.example.com',
+        'Content-Type: application/json',
+        '',
+        '{"quantity": 0}',
+      ].join('\n'),
+    }, spec);
+
+    expect(result).toEqual({
+      valid: false,
+      matched: { path: '/orders', method: 'POST', server: 'https://api.example.com/v2' },
+      errors: [
+        { location: 'body', field: 'body/sku', message: 'is required' },
+        { location: 'body', field: 'body/quantity', message: 'must be >= 1' },
+      ],
+      warnings: [],
+    });
+  });
+
+  it('validates a curl command with a form body', async () => {
+    const result = await tool.execute({
+      request: "curl https://api.example.com/v2/orders -d 'sku=A-1' -d 'quantity=two'",
+    }, spec);
+
+    expect(result.matched).toEqual({ path: '/orders', method: 'POST', server: 'https://api.example.com/v2' });
+    expect(result.errors).toEqual([{ location: 'body', field: 'body/quantity', message: 'must be integer' }]);
+  });
+
+  it('rejects content types the endpoint does not accept', async () => {
+    const result = await tool.execute({ path: '/orders', method: 'POST', body: '<order/>', contentType: 'application/xml' }, spec);
+
+    expect(result.errors).toEqual([{
+      location: 'header',
+      field: 'Content-Type',
+      message: "Content type 'application/xml' is not accepted by this endpoint (accepted: application/json, application/x-www-form-urlencoded)",
+    }]);
+  });
+});
\ No newline at end of file
@@ -1,18 +1,55 @@
 import { BaseTool } from './base-tool';
-import { OpenAPISpec, Operation, PathItem, Parameter, Schema } from '../types/openapi';
-
+import { OpenAPISpec, Operation, PathItem, Parameter } from '../types/openapi';
+import { SchemaValidator, SchemaValidationError } from '../core/schema-validator';
+import { findMediaType, isJsonMediaType, normalizeMediaType } from '../core/media-types';
+import { parseFormBody, parseMultipartBody } from '../core/body-parser';
+import {
+  RawValues,
+  parseQueryString,
+  parseCookieHeader,
+  deserializeStringParameter,
+  deserializeMultiValueParameter,
+} from '../core/parameter-deserializer';
+import { deref } from '../core/ref-resolver';
+import { parseRequestInput, matchOperation, OperationMatch } from '../core/request-matcher';
+
+// Either `request` or `path` and `method` describe the request
 interface ValidateRequestArgs {
-  path: string;
-  method: string;
+  path?: string;
+  method?: string;
+  request?: string;
   params?: Record<string, any>;
+  query?: string;
   headers?: Record<string, any>;
+  cookies?: Record<string, any> | string;
   body?: any;
+  contentType?: string;
+}
+
+interface ParameterSources {
+  params: Record<string, any>;
+  query: RawValues;
+  headers: Record<string, any>;
+  cookies: RawValues;
 }
 
+const LOCATION_LABELS: Record<Parameter['in'], string> = {
+  path: 'path parameter',
+  query: 'query parameter',
+  header: 'header',
+  cookie: 'cookie',
+};
+
 interface ValidationResult {
   valid: boolean;
+  matched?: {
+    path: string;
+    method: string;
+    server?: string;
+  };
   errors: Array<{
     location: string;
+    // Slash-separated path of the offending value, e.g. body/items/3/price
     field: string;
     message: string;
   }>;
@@ -21,13 +58,17 @@ interface ValidationResult {
 
 export class ValidateRequestTool extends BaseTool {
   name = 'validate_request';
-  description = 'Validate a request against the OpenAPI schema';
+  description = 'Validate a request against the OpenAPI schema, given as path/method/params or as a raw URL, HTTP request or curl command';
   schema = {
     type: 'object',
     properties: {
+      request: {
+        type: 'string',
+        description: 'A concrete request to match against the spec: "GET https://api.x.com/v2/users/42?expand=orders", a raw HTTP request or a curl command',
+      },
       path: {
         type: 'string',
-        description: 'The API endpoint path',
+        description: 'The API endpoint path, templated (/users/{id}) or concrete (/users/42)',
       },
       method: {
         type: 'string',
@@ -36,18 +77,29 @@ export class ValidateRequestTool extends BaseTool {
       },
       params: {
         type: 'object',
-        description: 'Query and path parameters',
+        description: 'Query and path parameters; string values are deserialized according to each parameter\'s style/explode (e.g. "1,2,3" or ";id=5")',
+      },
+      query: {
+        type: 'string',
+        description: 'Raw query string, e.g. "ids=1,2,3&filter[status]=open"',
       },
       headers: {
         type: 'object',
-        description: 'Request headers',
+        description: 'Request headers (raw string values are deserialized)',
+      },
+      cookies: {
+        type: ['object', 'string'],
+        description: 'Cookies as an object or a raw Cookie header (defaults to the Cookie header)',
       },
       body: {
         type: ['object', 'array', 'string', 'number', 'boolean', 'null'],
-        description: 'Request body',
+        description: 'Request body (for form/multipart: a raw encoded string or an object of fields)',
+      },
+      contentType: {
+        type: 'string',
+        description: 'Media type of the body (defaults to the Content-Type header, then the only documented type, then application/json)',
       },
     },
-    required: ['path', 'method'],
   };
 
 
@@ -60,10 +112,38 @@ export class ValidateRequestTool extends BaseTool {
       throw new Error('No OpenAPI specification loaded');
     }
 
+    let match: OperationMatch | null = null;
+
+    if (args && typeof args.request === 'string') {
+      const parsed = parseRequestInput(args.request, args.method);
+      match = matchOperation(spec, args.method || parsed.method, parsed.url);
+      args = {
+        ...args,
+        path: match.path,
+        method: match.method,
+        params: { ...match.pathParams, ...(args.params || {}) },
+        query: [match.query.replace(/^\?/, ''), args.query?.replace(/^\?/, '')].filter(Boolean).join('&'),
+        headers: { ...parsed.headers, ...(args.headers || {}) },
+        body: args.body !== undefined ? args.body : parsed.body,
+      };
+    } else if (args && typeof args.path === 'string' && typeof args.method === 'string' && !spec.paths[args.path]) {
+      // A concrete path like /users/42 is matched against the templates
+      match = matchOperation(spec, args.method, args.path);
+      args = {
+        ...args,
+        path: match.path,
+        params: { ...match.pathParams, ...(args.params || {}) },
+        query: [match.query.replace(/^\?/, ''), args.query?.replace(/^\?/, '')].filter(Boolean).join('&'),
+      };
+    }
+
     this.validateArgs(args, ['path', 'method']);
 
-    const { path, method, params = {}, headers = {}, body } = args;
-    const pathItem: PathItem | undefined = spec.paths[path];
+    const { path, method, params = {}, headers = {}, body, contentType } = args;
+    if (typeof path !== 'string' || typeof method !== 'string') {
+      throw new Error('path and method must be strings');
+    }
+    const pathItem: PathItem | undefined = spec.paths[path] && deref(spec, spec.paths[path]);
 
     if (!pathItem) {
       throw new Error(`Path not found: ${path}`);
@@ -82,27 +162,63 @@ export class ValidateRequestTool extends BaseTool {
       warnings: [],
     };
 
-    // Extract all parameters
-    const allParameters = [
-      ...(pathItem.parameters || []),
-      ...(operation.parameters || []),
-    ];
+    if (match) {
+      result.matched = {
+        path: match.path,
+        method: match.method,
+        server: match.server,
+      };
+    }
 
-    // Validate path parameters
-    const pathParams = allParameters.filter(p => p.in === 'path');
-    this.validatePathParameters(pathParams, params, path, result);
+    const validator = SchemaValidator.forSpec(spec);
 
-    // Validate query parameters
-    const queryParams = allParameters.filter(p => p.in === 'query');
-    this.validateQueryParameters(queryParams, params, result);
+    // Extract all parameters (operation-level parameters override path-level ones)
+    const allParameters: Parameter[] = [];
+    for (const param of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+      const resolved = deref(spec, param);
+      const index = allParameters.findIndex(p => p.name === resolved.name && p.in === resolved.in);
+      if (index >= 0) {
+        allParameters[index] = resolved;
+      } else {
+        allParameters.push(resolved);
+      }
+    }
+
+    const headersLower = Object.keys(headers).reduce((acc, key) => {
+      acc[key.toLowerCase()] = headers[key];
+      return acc;
+    }, {} as Record<string, any>);
+
+    const cookieInput = args.cookies ?? headersLower['cookie'];
+    const sources: ParameterSources = {
+      params,
+      query: args.query ? parseQueryString(args.query) : new Map(),
+      headers: headersLower,
+      cookies: typeof cookieInput === 'string'
+        ? parseCookieHeader(cookieInput)
+        : new Map(Object.entries(cookieInput || {}).map(([key, value]) => [key, [String(value)]])),
+    };
 
-    // Validate header parameters
-    const headerParams = allParameters.filter(p => p.in === 'header');
-    this.validateHeaderParameters(headerParams, headers, result);
+    // Validate path, query, header and cookie parameters
+    for (const param of allParameters) {
+      this.validateParameter(spec, param, sources, validator, result);
+    }
+
+    // Flag query keys the operation doesn't declare
+    for (const key of sources.query.keys()) {
+      const declared = allParameters.some(param =>
+        param.in === 'query' && (key === param.name || key.startsWith(`${param.name}[`) || this.isExplodedProperty(spec, param, key))
+      );
+      if (!declared) {
+        result.warnings.push(`Query parameter '${key}' is not defined for this endpoint`);
+      }
+    }
 
     // Validate request body
     if (operation.requestBody) {
-      this.validateRequestBody(operation.requestBody, body, spec, result);
+      const contentTypeHeader = Object.keys(headers).find(key => key.toLowerCase() === 'content-type');
+      const bodyContentType = contentType || (contentTypeHeader ? String(headers[contentTypeHeader]) : undefined);
+      this.validateRequestBody(deref(spec, operation.requestBody), body, bodyContentType, spec, validator, result);
     } else if (body !== undefined && body !== null) {
       result.warnings.push('Request body provided but not expected for this endpoint');
     }
@@ -117,145 +233,117 @@ export class ValidateRequestTool extends BaseTool {
     return result;
   }
 
-  private validatePathParameters(
-    parameters: Parameter[],
-    providedParams: Record<string, any>,
-    _path: string,
+  private validateParameter(
+    spec: OpenAPISpec,
+    param: Parameter,
+    sources: ParameterSources,
+    validator: SchemaValidator,
     result: ValidationResult
   ): void {
-    // Extract path parameter names from the path
-    // const pathParamMatches = path.match(/{([^}]+)}/g);
-    // const expectedPathParams = pathParamMatches
-    //   ? pathParamMatches.map(match => match.slice(1, -1))
-    //   : [];
-
-    for (const param of parameters) {
-      if (param.required !== false) {
-        if (!(param.name in providedParams)) {
-          result.errors.push({
-            location: 'path',
-            field: param.name,
-            message: `Required path parameter '${param.name}' is missing`,
-          });
-        }
-      }
+    const label = LOCATION_LABELS[param.in];
+    const { present, value, raw } = this.readParameter(spec, param, sources);
+    // Path parameters are always required
+    const required = param.in === 'path' ? param.required !== false : param.required;
 
-      if (param.name in providedParams) {
-        const value = providedParams[param.name];
-        
-        // Validate against schema if provided
-        if (param.schema) {
-          const validationErrors = this.validateAgainstSchema(value, param.schema, param.name);
-          validationErrors.forEach(error => {
-            result.errors.push({
-              location: 'path',
-              field: param.name,
-              message: error,
-            });
-          });
-        }
-
-        // Check if deprecated
-        if (param.deprecated) {
-          result.warnings.push(`Path parameter '${param.name}' is deprecated`);
-        }
-      }
-    }
-  }
-
-  private validateQueryParameters(
-    parameters: Parameter[],
-    providedParams: Record<string, any>,
-    result: ValidationResult
-  ): void {
-    for (const param of parameters) {
-      if (param.required && !(param.name in providedParams)) {
+    if (!present) {
+      if (required) {
         result.errors.push({
-          location: 'query',
+          location: param.in,
           field: param.name,
-          message: `Required query parameter '${param.name}' is missing`,
+          message: `Required ${label} '${param.name}' is missing`,
         });
       }
+      return;
+    }
 
-      if (param.name in providedParams) {
-        const value = providedParams[param.name];
-        
-        // Validate against schema if provided
-        if (param.schema) {
-          const validationErrors = this.validateAgainstSchema(value, param.schema, param.name);
-          validationErrors.forEach(error => {
-            result.errors.push({
-              location: 'query',
-              field: param.name,
-              message: error,
-            });
-          });
-        }
+    // Check allowEmptyValue
+    if (param.in === 'query' && !param.allowEmptyValue && raw === '') {
+      result.errors.push({
+        location: 'query',
+        field: param.name,
+        message: `Query parameter '${param.name}' cannot be empty`,
+      });
+    }
 
-        // Check if deprecated
-        if (param.deprecated) {
-          result.warnings.push(`Query parameter '${param.name}' is deprecated`);
-        }
+    // Validate against schema if provided
+    const schema = param.schema || (param.content ? Object.values(param.content)[0]?.schema : undefined);
+    if (schema) {
+      const validationErrors = validator.validate(value, schema, `${param.in}/${param.name}`);
+      this.addSchemaErrors(param.in, validationErrors, result);
+    }
 
-        // Check allowEmptyValue
-        if (!param.allowEmptyValue && value === '') {
-          result.errors.push({
-            location: 'query',
-            field: param.name,
-            message: `Query parameter '${param.name}' cannot be empty`,
-          });
-        }
-      }
+    // Check if deprecated
+    if (param.deprecated) {
+      result.warnings.push(`${label.charAt(0).toUpperCase()}${label.slice(1)} '${param.name}' is deprecated`);
     }
   }
 
-  private validateHeaderParameters(
-    parameters: Parameter[],
-    providedHeaders: Record<string, any>,
-    result: ValidationResult
-  ): void {
-    for (const param of parameters) {
-      const headerName = param.name.toLowerCase();
-      const providedHeadersLower = Object.keys(providedHeaders).reduce((acc, key) => {
-        acc[key.toLowerCase()] = providedHeaders[key];
-        return acc;
-      }, {} as Record<string, any>);
-
-      if (param.required && !(headerName in providedHeadersLower)) {
-        result.errors.push({
-          location: 'header',
-          field: param.name,
-          message: `Required header '${param.name}' is missing`,
-        });
+  /**
+   * Find a parameter's value in the request and deserialize raw strings
+   * according to its style/explode. Already-typed values are used as given.
+   */
+  private readParameter(
+    spec: OpenAPISpec,
+    param: Parameter,
+    sources: ParameterSources
+  ): { present: boolean; value?: any; raw?: any } {
+    switch (param.in) {
+      case 'path': {
+        if (!(param.name in sources.params)) return { present: false };
+        const raw = sources.params[param.name];
+        const value = typeof raw === 'string' ? deserializeStringParameter(spec, param, raw) : raw;
+        return { present: true, value, raw };
       }
-
-      if (headerName in providedHeadersLower) {
-        const value = providedHeadersLower[headerName];
-        
-        // Validate against schema if provided
-        if (param.schema) {
-          const validationErrors = this.validateAgainstSchema(value, param.schema, param.name);
-          validationErrors.forEach(error => {
-            result.errors.push({
-              location: 'header',
-              field: param.name,
-              message: error,
-            });
-          });
+      case 'header': {
+        const name = param.name.toLowerCase();
+        if (!(name in sources.headers)) return { present: false };
+        const raw = sources.headers[name];
+        const value = typeof raw === 'string' ? deserializeStringParameter(spec, param, raw) : raw;
+        return { present: true, value, raw };
+      }
+      case 'cookie': {
+        const value = deserializeMultiValueParameter(spec, param, sources.cookies);
+        return { present: value !== undefined, value, raw: sources.cookies.get(param.name)?.[0] };
+      }
+      case 'query': {
+        if (param.name in sources.params && typeof sources.params[param.name] !== 'string') {
+          const raw = sources.params[param.name];
+          const stringArray = Array.isArray(raw) && raw.every(item => typeof item === 'string');
+          if (!stringArray) {
+            return { present: true, value: raw, raw };
+          }
         }
 
-        // Check if deprecated
-        if (param.deprecated) {
-          result.warnings.push(`Header '${param.name}' is deprecated`);
+        // Combine the raw query string with string values passed in params
+        const values: RawValues = new Map(sources.query);
+        if (param.name in sources.params) {
+          const raw = sources.params[param.name];
+          values.set(param.name, Array.isArray(raw) ? raw : [raw]);
         }
+
+        const value = deserializeMultiValueParameter(spec, param, values);
+        const rawList = values.get(param.name);
+        return { present: value !== undefined, value, raw: rawList?.[rawList.length - 1] };
       }
+      default:
+        return { present: false };
+    }
+  }
+
+  private isExplodedProperty(spec: OpenAPISpec, param: Parameter, key: string): boolean {
+    if ((param.style || 'form') !== 'form' || param.explode === false || !param.schema) {
+      return false;
     }
+    const schema: any = deref(spec, param.schema);
+    return !!schema?.properties && key in schema.properties;
   }
 
   private validateRequestBody(
     requestBody: any,
     providedBody: any,
+    contentType: string | undefined,
     spec: OpenAPISpec,
+    validator: SchemaValidator,
     result: ValidationResult
   ): void {
     if (requestBody.required && (providedBody === undefined || providedBody === null)) {
@@ -271,148 +359,85 @@ export class ValidateRequestTool extends BaseTool {
       return;
     }
 
-    // Get the schema for the content type (assuming application/json)
     const content = requestBody.content;
-    if (!content) {
+    if (!content || Object.keys(content).length === 0) {
       return;
     }
 
-    const jsonContent = content['application/json'];
-    if (!jsonContent || !jsonContent.schema) {
-      return;
-    }
-
-    let schema = jsonContent.schema;
-
-    // Resolve $ref if present
-    if (schema.$ref) {
-      schema = this.resolveRef(schema.$ref, spec);
-      if (!schema) {
-        result.warnings.push(`Could not resolve schema reference: ${jsonContent.schema.$ref}`);
-        return;
-      }
-    }
+    // Pick the media type: explicit, else the only documented one, else JSON
+    const documentedTypes = Object.keys(content);
+    const mediaTypeName = contentType
+      || (documentedTypes.length === 1 ? documentedTypes[0] : undefined)
+      || 'application/json';
 
-    // Validate the body against the schema
-    const validationErrors = this.validateAgainstSchema(providedBody, schema, 'body');
-    validationErrors.forEach(error => {
+    const media = findMediaType(content, mediaTypeName);
+    if (!media) {
       result.errors.push({
-        location: 'body',
-        field: 'body',
-        message: error,
+        location: 'header',
+        field: 'Content-Type',
+        message: `Content type '${mediaTypeName}' is not accepted by this endpoint (accepted: ${documentedTypes.join(', ')})`,
       });
-    });
-  }
-
-  private validateAgainstSchema(value: any, schema: Schema, _fieldName: string): string[] {
-    const errors: string[] = [];
-
-    // Basic type validation
-    if (schema.type) {
-      const actualType = Array.isArray(value) ? 'array' : typeof value;
-      if (schema.type !== actualType) {
-        errors.push(`Expected type '${schema.type}' but got '${actualType}'`);
-      }
-    }
-
-    // String validations
-    if (schema.type === 'string' && typeof value === 'string') {
-      if (schema.minLength !== undefined && value.length < schema.minLength) {
-        errors.push(`String length is less than minimum ${schema.minLength}`);
-      }
-      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
-        errors.push(`String length exceeds maximum ${schema.maxLength}`);
-      }
-      if (schema.pattern) {
-        const regex = new RegExp(schema.pattern);
-        if (!regex.test(value)) {
-          errors.push(`String does not match pattern: ${schema.pattern}`);
-        }
-      }
-    }
-
-    // Number validations
-    if ((schema.type === 'number' || schema.type === 'integer') && typeof value === 'number') {
-      if (schema.type === 'integer' && !Number.isInteger(value)) {
-        errors.push('Expected integer but got decimal number');
-      }
-      if (schema.minimum !== undefined) {
-        if (schema.exclusiveMinimum && value <= schema.minimum) {
-          errors.push(`Value must be greater than ${schema.minimum}`);
-        } else if (!schema.exclusiveMinimum && value < schema.minimum) {
-          errors.push(`Value must be greater than or equal to ${schema.minimum}`);
-        }
-      }
-      if (schema.maximum !== undefined) {
-        if (schema.exclusiveMaximum && value >= schema.maximum) {
-          errors.push(`Value must be less than ${schema.maximum}`);
-        } else if (!schema.exclusiveMaximum && value > schema.maximum) {
-          errors.push(`Value must be less than or equal to ${schema.maximum}`);
-        }
-      }
-      if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) {
-        errors.push(`Value must be a multiple of ${schema.multipleOf}`);
-      }
-    }
-
-    // Array validations
-    if (schema.type === 'array' && Array.isArray(value)) {
-      if (schema.minItems !== undefined && value.length < schema.minItems) {
-        errors.push(`Array has fewer items than minimum ${schema.minItems}`);
-      }
-      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
-        errors.push(`Array has more items than maximum ${schema.maxItems}`);
-      }
-      if (schema.uniqueItems && new Set(value).size !== value.length) {
-        errors.push('Array items must be unique');
-      }
+      return;
     }
 
-    // Enum validation
-    if (schema.enum && !schema.enum.includes(value)) {
-      errors.push(`Value must be one of: ${schema.enum.join(', ')}`);
+    if (!media.mediaType.schema) {
+      return;
     }
 
-    // Object validations
-    if (schema.type === 'object' && typeof value === 'object' && !Array.isArray(value)) {
-      // Check required properties
-      if (schema.required) {
-        for (const requiredProp of schema.required) {
-          if (!(requiredProp in value)) {
-            errors.push(`Missing required property: ${requiredProp}`);
-          }
+    const schema = media.mediaType.schema;
+    const normalized = normalizeMediaType(mediaTypeName);
+    let value = providedBody;
+
+    if (normalized === 'application/x-www-form-urlencoded') {
+      const parsed = parseFormBody(spec, providedBody, schema, media.mediaType.encoding);
+      this.addParseErrors(parsed.errors, result);
+      value = parsed.value;
+    } else if (normalized.startsWith('multipart/')) {
+      const parsed = parseMultipartBody(spec, providedBody, mediaTypeName, schema, media.mediaType.encoding);
+      this.addParseErrors(parsed.errors, result);
+      value = parsed.value;
+    } else if (isJsonMediaType(normalized)) {
+      if (typeof providedBody === 'string') {
+        try {
+          value = JSON.parse(providedBody);
+        } catch {
+          // Plain string bodies are validated as-is
         }
       }
-
-      // Check property count
-      const propCount = Object.keys(value).length;
-      if (schema.minProperties !== undefined && propCount < schema.minProperties) {
-        errors.push(`Object has fewer properties than minimum ${schema.minProperties}`);
-      }
-      if (schema.maxProperties !== undefined && propCount > schema.maxProperties) {
-        errors.push(`Object has more properties than maximum ${schema.maxProperties}`);
-      }
+    } else if (typeof providedBody !== 'string') {
+      result.warnings.push(`Schema validation skipped for content type '${mediaTypeName}'`);
+      return;
     }
 
-    return errors;
+    // Validate the body against the schema
+    const validationErrors = validator.validate(value, schema, 'body');
+    this.addSchemaErrors('body', validationErrors, result);
   }
 
-  private resolveRef(ref: string, spec: OpenAPISpec): Schema | null {
-    if (!ref.startsWith('#/')) {
-      return null;
-    }
-
-    const path = ref.substring(2).split('/');
-    let current: any = spec;
-
-    for (const segment of path) {
-      if (current && typeof current === 'object' && segment in current) {
-        current = current[segment];
-      } else {
-        return null;
-      }
-    }
+  private addParseErrors(
+    errors: Array<{ path: string; message: string }>,
+    result: ValidationResult
+  ): void {
+    errors.forEach(error => {
+      result.errors.push({
+        location: 'body',
+        field: error.path,
+        message: error.message,
+      });
+    });
+  }
 
-    return current as Schema;
+  private addSchemaErrors(
+    location: string,
+    validationErrors: SchemaValidationError[],
+    result: ValidationResult
+  ): void {
+    validationErrors.forEach(error => {
+      result.errors.push({
+        location,
+        field: error.path,
+        message: error.message,
+      });
+    });
   }
 }
\ No newline at end of file
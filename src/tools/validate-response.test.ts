@@ -0,0 +1,116 @@
+import { ValidateResponseTool } from './validate-response';
+import { OpenAPISpec } from '../types/openapi';
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.3',
+  info: { title: 'Users', version: '1.0.0' },
+  paths: {
+    '/users/{id}': {
+      get: {
+        responses: {
+          200: {
+            description: 'User',
+            headers: {
+              'X-Rate-Limit': { required: true, schema: { type: 'integer' } },
+              'X-Legacy': { deprecated: true, schema: { type: 'string' } },
+            },
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['id', 'name'],
+                  properties: { id: { type: 'integer' }, name: { type: 'string' } },
+                },
+              },
+            },
+          },
+          '4XX': { description: 'Client error', content: { 'application/json': { schema: { type: 'object' } } } },
+          default: { description: 'Unexpected error' },
+        },
+      },
+      delete: {
+        responses: { 204: { description: 'Deleted' } },
+      },
+    },
+  },
+};
+
+const tool = new ValidateResponseTool();
+
+describe('validate_response', () => {
+  it('accepts a response matching the documented status, headers and body', async () => {
+    const result = await tool.execute({
+      path: '/users/{id}',
+      method: 'GET',
+      statusCode: 200,
+      headers: { 'x-rate-limit': '10', 'Content-Type': 'application/json; charset=utf-8' },
+      body: '{"id": 1, "name": "Ada"}',
+    }, spec);
+
+    expect(result).toEqual({
+      valid: true,
+      statusCode: '200',
+      matchedResponse: '200',
+      contentType: 'application/json',
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it('reports missing headers and body schema errors', async () => {
+    const result = await tool.execute({
+      path: '/users/{id}',
+      method: 'get',
+      statusCode: '200',
+      headers: { 'X-Legacy': 'yes' },
+      body: { id: 'one' },
+    }, spec);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { location: 'header', field: 'X-Rate-Limit', message: "Required response header 'X-Rate-Limit' is missing" },
+      { location: 'body', field: 'body/name', message: 'is required' },
+      { location: 'body', field: 'body/id', message: 'must be integer' },
+    ]);
+    expect(result.warnings).toEqual(["Response header 'X-Legacy' is deprecated"]);
+  });
+
+  it('matches status ranges before the default response', async () => {
+    const notFound = await tool.execute({ path: '/users/{id}', method: 'GET', statusCode: 404, body: {} }, spec);
+    const failed = await tool.execute({ path: '/users/{id}', method: 'GET', statusCode: 503 }, spec);
+
+    expect(notFound).toMatchObject({ valid: true, matchedResponse: '4XX', warnings: [] });
+    expect(failed).toMatchObject({
+      valid: true,
+      matchedResponse: 'default',
+      warnings: ["Status code 503 is only covered by the 'default' response"],
+    });
+  });
+
+  it('rejects undocumented status codes and content types', async () => {
+    const status = await tool.execute({ path: '/users/{id}', method: 'DELETE', statusCode: 200 }, spec);
+    const contentType = await tool.execute({
+      path: '/users/{id}',
+      method: 'GET',
+      statusCode: 200,
+      headers: { 'X-Rate-Limit': 1, 'Content-Type': 'text/html' },
+      body: '<p>Ada</p>',
+    }, spec);
+
+    expect(status.errors).toEqual([{
+      location: 'status',
+      field: 'statusCode',
+      message: 'Status code 200 is not documented for DELETE /users/{id} (documented: 204)',
+    }]);
+    expect(contentType.errors).toEqual([{
+      location: 'header',
+      field: 'Content-Type',
+      message: "Content type 'text/html' is not documented for this response (documented: application/json)",
+    }]);
+  });
+
+  it('reports unknown paths and methods', async () => {
+    await expect(tool.execute({ path: '/teams', method: 'GET', statusCode: 200 }, spec)).rejects.toThrow('Path not found: /teams');
+    await expect(tool.execute({ path: '/users/{id}', method: 'PUT', statusCode: 200 }, spec)).rejects.toThrow('Method PUT not found for path /users/{id}');
+  });
+});
\ No newline at end of file
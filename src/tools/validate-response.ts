@@ -0,0 +1,255 @@
+import { BaseTool } from './base-tool';
+import { OpenAPISpec, Operation, PathItem, Response } from '../types/openapi';
+import { SchemaValidator } from '../core/schema-validator';
+import { findMediaType, isJsonMediaType } from '../core/media-types';
+import { deserializeStringParameter } from '../core/parameter-deserializer';
+import { deref } from '../core/ref-resolver';
+
+interface ValidateResponseArgs {
+  path: string;
+  method: string;
+  statusCode: number | string;
+  headers?: Record<string, any>;
+  body?: any;
+}
+
+interface ValidationResult {
+  valid: boolean;
+  statusCode: string;
+  matchedResponse?: string;
+  contentType?: string;
+  errors: Array<{
+    location: string;
+    field: string;
+    message: string;
+  }>;
+  warnings: string[];
+}
+
+export class ValidateResponseTool extends BaseTool {
+  name = 'validate_response';
+  description = 'Validate an actual API response (status, headers and body) against the OpenAPI schema';
+  schema = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The API endpoint path (e.g., /users/{id})',
+      },
+      method: {
+        type: 'string',
+        enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE'],
+        description: 'The HTTP method',
+      },
+      statusCode: {
+        type: ['number', 'string'],
+        description: 'The HTTP status code returned by the API',
+      },
+      headers: {
+        type: 'object',
+        description: 'Response headers',
+      },
+      body: {
+        type: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+        description: 'Response body',
+      },
+    },
+    required: ['path', 'method', 'statusCode'],
+  };
+
+  async execute(args: ValidateResponseArgs, spec: OpenAPISpec | null): Promise<any> {
+    if (!spec) {
+      throw new Error('No OpenAPI specification loaded');
+    }
+
+    this.validateArgs(args, ['path', 'method', 'statusCode']);
+
+    const { path, method, headers = {}, body } = args;
+    const statusCode = String(args.statusCode);
+    const pathItem: PathItem | undefined = spec.paths[path] && deref(spec, spec.paths[path]);
+
+    if (!pathItem) {
+      throw new Error(`Path not found: ${path}`);
+    }
+
+    const methodLower = method.toLowerCase() as keyof PathItem;
+    const operation = pathItem[methodLower] as Operation | undefined;
+
+    if (!operation) {
+      throw new Error(`Method ${method} not found for path ${path}`);
+    }
+
+    const result: ValidationResult = {
+      valid: true,
+      statusCode,
+      errors: [],
+      warnings: [],
+    };
+
+    const match = this.findResponse(operation.responses || {}, statusCode);
+    if (!match) {
+      result.errors.push({
+        location: 'status',
+        field: 'statusCode',
+        message: `Status code ${statusCode} is not documented for ${method.toUpperCase()} ${path} (documented: ${Object.keys(operation.responses || {}).join(', ') || 'none'})`,
+      });
+      result.valid = false;
+      return result;
+    }
+
+    result.matchedResponse = match.key;
+    if (match.key === 'default') {
+      result.warnings.push(`Status code ${statusCode} is only covered by the 'default' response`);
+    }
+
+    const headersLower = Object.keys(headers).reduce((acc, key) => {
+      acc[key.toLowerCase()] = headers[key];
+      return acc;
+    }, {} as Record<string, any>);
+
+    const response = deref(spec, match.response);
+    this.validateHeaders(response, headersLower, spec, result);
+    this.validateBody(response, headersLower['content-type'], body, spec, result);
+
+    result.valid = result.errors.length === 0;
+
+    return result;
+  }
+
+  private findResponse(
+    responses: Record<string, Response>,
+    statusCode: string
+  ): { key: string; response: Response } | null {
+    // Exact code, then range (2XX), then default
+    if (responses[statusCode]) {
+      return { key: statusCode, response: responses[statusCode] };
+    }
+
+    const rangeKey = Object.keys(responses).find(
+      key => key.length === 3 && key.toUpperCase() === `${statusCode.charAt(0)}XX`
+    );
+    if (rangeKey) {
+      return { key: rangeKey, response: responses[rangeKey] };
+    }
+
+    if (responses.default) {
+      return { key: 'default', response: responses.default };
+    }
+
+    return null;
+  }
+
+  private validateHeaders(
+    response: Response,
+    providedHeaders: Record<string, any>,
+    spec: OpenAPISpec,
+    result: ValidationResult
+  ): void {
+    const validator = SchemaValidator.forSpec(spec);
+
+    for (const [name, rawHeader] of Object.entries(response.headers || {})) {
+      // Content-Type is described by `content`, not `headers`
+      if (name.toLowerCase() === 'content-type') continue;
+
+      const header = deref(spec, rawHeader);
+      if (header.required && !(name.toLowerCase() in providedHeaders)) {
+        result.errors.push({
+          location: 'header',
+          field: name,
+          message: `Required response header '${name}' is missing`,
+        });
+      }
+
+      if (!(name.toLowerCase() in providedHeaders)) continue;
+
+      // Header values arrive as strings; deserialize them like header parameters
+      const raw = providedHeaders[name.toLowerCase()];
+      if (header.schema) {
+        const value = typeof raw === 'string'
+          ? deserializeStringParameter(spec, { ...header, name, in: 'header' }, raw)
+          : raw;
+        validator.validate(value, header.schema, `header/${name}`, 'response').forEach(error => {
+          result.errors.push({
+            location: 'header',
+            field: error.path,
+            message: error.message,
+          });
+        });
+      }
+
+      if (header.deprecated) {
+        result.warnings.push(`Response header '${name}' is deprecated`);
+      }
+    }
+  }
+
+  private validateBody(
+    response: Response,
+    contentTypeHeader: string | undefined,
+    body: any,
+    spec: OpenAPISpec,
+    result: ValidationResult
+  ): void {
+    const hasBody = body !== undefined && body !== null && body !== '';
+    const content = response.content;
+
+    if (!content || Object.keys(content).length === 0) {
+      if (hasBody) {
+        result.warnings.push('Response body provided but the spec documents no content for this response');
+      }
+      return;
+    }
+
+    if (!hasBody) {
+      result.warnings.push('No response body provided but the spec documents content for this response');
+      return;
+    }
+
+    // Without a Content-Type header, fall back to the only documented type
+    const documentedTypes = Object.keys(content);
+    const contentType = contentTypeHeader || (documentedTypes.length === 1 ? documentedTypes[0] : undefined);
+    if (!contentType) {
+      result.warnings.push(`No Content-Type header provided; documented types are ${documentedTypes.join(', ')}`);
+      return;
+    }
+
+    const media = findMediaType(content, contentType);
+    if (!media) {
+      result.errors.push({
+        location: 'header',
+        field: 'Content-Type',
+        message: `Content type '${contentType}' is not documented for this response (documented: ${documentedTypes.join(', ')})`,
+      });
+      return;
+    }
+
+    result.contentType = media.key;
+
+    if (!media.mediaType.schema) {
+      return;
+    }
+
+    if (!isJsonMediaType(contentType)) {
+      result.warnings.push(`Schema validation skipped for non-JSON content type '${contentType}'`);
+      return;
+    }
+
+    let value = body;
+    if (typeof body === 'string') {
+      try {
+        value = JSON.parse(body);
+      } catch {
+        // Plain string bodies are validated as-is
+      }
+    }
+
+    const validator = SchemaValidator.forSpec(spec);
+    validator.validate(value, media.mediaType.schema, 'body', 'response').forEach(error => {
+      result.errors.push({
+        location: 'body',
+        field: error.path,
+        message: error.message,
+      });
+    });
+  }
+}
\ No newline at end of file
@@ -1,7 +1,83 @@
 import { z } from 'zod';
 
+// Credentials for fetching protected specs. They are sent to the spec's own
+// origin and to `hosts`, never written to the cache and never logged.
+export const SpecAuthSchema = z.object({
+  headers: z.record(z.string()).optional(),
+  bearerToken: z.string().optional(),
+  // Shell command whose trimmed stdout is used as the bearer token
+  bearerTokenCommand: z.string().optional(),
+  basic: z.object({
+    username: z.string(),
+    password: z.string(),
+  }).optional(),
+  // PEM files for mutual TLS
+  clientCert: z.string().optional(),
+  clientKey: z.string().optional(),
+  clientKeyPassphrase: z.string().optional(),
+  caBundle: z.string().optional(),
+  // Other hosts (e.g. for external $refs) that may receive the credentials
+  hosts: z.array(z.string()).optional(),
+});
+
+// Credentials for calling an API, keyed by security scheme name: the API key
+// or token for apiKey/bearer/oauth2/openIdConnect schemes, or username and
+// password for basic auth
+export const CredentialSchema = z.union([
+  z.string(),
+  z.object({
+    username: z.string(),
+    password: z.string(),
+  }),
+]);
+
+export const CallEndpointSchema = z.object({
+  // Hosts call_endpoint may send requests to; "*.example.com" matches subdomains
+  allowedHosts: z.array(z.string()).default([]),
+  // Only GET and HEAD requests are sent unless this is turned off
+  readOnly: z.boolean().default(true),
+});
+
+export const LintSeveritySchema = z.enum(['error', 'warn', 'info', 'off']);
+
+// A rule is configured by its severity alone, or by an object with the
+// severity and rule-specific options
+export const LintRuleSchema = z.union([
+  LintSeveritySchema,
+  z.object({
+    severity: LintSeveritySchema.optional(),
+  }).passthrough(),
+]);
+
+export const LintConfigSchema = z.object({
+  rules: z.record(LintRuleSchema).default({}),
+});
+
+export const SpecSourceSchema = z.object({
+  name: z.string().min(1),
+  // HTTP(S) URL, local file/directory path or file:// URI
+  url: z.string().min(1),
+  description: z.string().optional(),
+  auth: SpecAuthSchema.optional(),
+  credentials: z.record(CredentialSchema).optional(),
+});
+
+export const TransportSchema = z.enum(['stdio', 'http', 'sse']);
+
+// strict refuses specs that fail meta-schema validation, lenient loads them
+// with warnings
+export const ValidationModeSchema = z.enum(['strict', 'lenient', 'off']);
+
 export const ConfigSchema = z.object({
-  openApiUrl: z.string().url().optional(),
+  // HTTP(S) URL, local file/directory path or file:// URI
+  openApiUrl: z.string().min(1).optional(),
+  specs: z.array(SpecSourceSchema).default([]),
+  defaultSpec: z.string().optional(),
+  auth: SpecAuthSchema.optional(),
+  credentials: z.record(CredentialSchema).optional(),
+  callEndpoint: CallEndpointSchema.default({}),
+  lint: LintConfigSchema.default({}),
+  validation: ValidationModeSchema.default('lenient'),
   cacheTtl: z.number().min(0).default(3600),
   cacheDir: z.string().default('.cache'),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
@@ -9,12 +85,28 @@ export const ConfigSchema = z.object({
   requestTimeout: z.number().min(1000).default(30000), // ms
   retryAttempts: z.number().min(0).default(3),
   retryDelay: z.number().min(100).default(1000), // ms
+  transport: TransportSchema.default('stdio'),
+  // Whether tools may load a spec from a `url` argument (a remote URL or a
+  // local file); by default only over stdio
+  allowSpecUrls: z.boolean().optional(),
+  host: z.string().min(1).default('127.0.0.1'),
+  port: z.number().int().min(0).max(65535).default(3000),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type SpecSource = z.infer<typeof SpecSourceSchema>;
+export type SpecAuth = z.infer<typeof SpecAuthSchema>;
+export type Credential = z.infer<typeof CredentialSchema>;
+export type CallEndpointConfig = z.infer<typeof CallEndpointSchema>;
+export type LintSeverity = z.infer<typeof LintSeveritySchema>;
+export type LintRuleConfig = z.infer<typeof LintRuleSchema>;
+export type LintConfig = z.infer<typeof LintConfigSchema>;
+export type TransportType = z.infer<typeof TransportSchema>;
+export type ValidationMode = z.infer<typeof ValidationModeSchema>;
 
 export interface CliOptions {
   url?: string;
+  spec?: string;
   cacheTtl?: number;
   cacheDir?: string;
   logLevel?: string;
@@ -22,4 +114,18 @@ export interface CliOptions {
   requestTimeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  transport?: string;
+  host?: string;
+  port?: number;
+  header?: string[];
+  bearerToken?: string;
+  bearerTokenCommand?: string;
+  basicAuth?: string;
+  clientCert?: string;
+  clientKey?: string;
+  caBundle?: string;
+  allowHost?: string[];
+  allowWrites?: boolean;
+  allowSpecUrls?: boolean;
+  validation?: string;
 }
\ No newline at end of file
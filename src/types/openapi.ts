@@ -3,6 +3,7 @@ export interface OpenAPISpec {
   info: {
     title: string;
     version: string;
+    summary?: string;
     description?: string;
     termsOfService?: string;
     contact?: {
@@ -12,6 +13,8 @@ export interface OpenAPISpec {
     };
     license?: {
       name: string;
+      // SPDX license expression (3.1)
+      identifier?: string;
       url?: string;
     };
   };
@@ -24,7 +27,12 @@ export interface OpenAPISpec {
       enum?: string[];
     }>;
   }>;
+  // Optional in 3.1 documents; always set (possibly empty) once loaded
   paths: Record<string, PathItem>;
+  // 3.1: requests the API sends, keyed by webhook name
+  webhooks?: Record<string, PathItem>;
+  // 3.1: default `$schema` of the Schema Objects in the document
+  jsonSchemaDialect?: string;
   components?: {
     schemas?: Record<string, Schema>;
     responses?: Record<string, Response>;
@@ -35,10 +43,20 @@ export interface OpenAPISpec {
     securitySchemes?: Record<string, SecurityScheme>;
     links?: Record<string, Link>;
     callbacks?: Record<string, Callback>;
+    pathItems?: Record<string, PathItem>;
   };
   security?: SecurityRequirement[];
   tags?: Tag[];
   externalDocs?: ExternalDocs;
+  // Set when the document was converted from Swagger 2.0 on load
+  'x-conversion'?: {
+    from: string;
+    warnings: string[];
+  };
+  // Set when the document was loaded despite failing schema validation
+  'x-validation'?: {
+    issues: Array<{ pointer: string; message: string; line?: number; column?: number }>;
+  };
 }
 
 export interface PathItem {
@@ -108,18 +126,24 @@ export interface Response {
   links?: Record<string, Link>;
 }
 
+// OpenAPI 3.0 schemas are an extended subset of JSON Schema draft 4; 3.1
+// schemas are JSON Schema 2020-12, with type arrays (`['string', 'null']`
+// instead of `nullable`) and numeric exclusive bounds
 export interface Schema {
   $ref?: string;
-  type?: string;
+  $id?: string;
+  $schema?: string;
+  $defs?: Record<string, Schema>;
+  type?: string | string[];
   format?: string;
   title?: string;
   description?: string;
   default?: any;
   multipleOf?: number;
   maximum?: number;
-  exclusiveMaximum?: boolean;
+  exclusiveMaximum?: boolean | number;
   minimum?: number;
-  exclusiveMinimum?: boolean;
+  exclusiveMinimum?: boolean | number;
   maxLength?: number;
   minLength?: number;
   pattern?: string;
@@ -130,13 +154,25 @@ export interface Schema {
   minProperties?: number;
   required?: string[];
   enum?: any[];
+  const?: any;
   allOf?: Schema[];
   oneOf?: Schema[];
   anyOf?: Schema[];
   not?: Schema;
+  if?: Schema;
+  then?: Schema;
+  else?: Schema;
   items?: Schema;
+  prefixItems?: Schema[];
+  contains?: Schema;
   properties?: Record<string, Schema>;
+  patternProperties?: Record<string, Schema>;
   additionalProperties?: boolean | Schema;
+  unevaluatedProperties?: boolean | Schema;
+  propertyNames?: Schema;
+  dependentRequired?: Record<string, string[]>;
+  contentMediaType?: string;
+  contentEncoding?: string;
   nullable?: boolean;
   discriminator?: Discriminator;
   readOnly?: boolean;
@@ -144,6 +180,7 @@ export interface Schema {
   xml?: XML;
   externalDocs?: ExternalDocs;
   example?: any;
+  examples?: any[];
   deprecated?: boolean;
 }
 